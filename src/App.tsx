@@ -1,5 +1,6 @@
 import { useEffect, useState } from 'react';
-import { useStore } from './store/useStore';
+import { startProofChecking, useStore } from './store/useStore';
+import { loadWorkspaceFromStorage, startAutosave } from './store/persistence';
 import { Header } from './components/Header';
 import { SortPanel } from './components/SortPanel';
 import { TermDisplay } from './components/TermDisplay';
@@ -7,18 +8,32 @@ import { JudgmentPanel } from './components/JudgmentPanel';
 import { RuleCanvas } from './components/RuleCanvas';
 import { FunctionPanel } from './components/FunctionPanel';
 import { ProofPanel } from './components/ProofPanel';
+import { SourcePanel } from './components/SourcePanel';
 import './App.css';
 
-export type TabType = 'syntax' | 'functions' | 'relations' | 'proofs';
+export type TabType = 'syntax' | 'functions' | 'relations' | 'proofs' | 'source';
 
 function App() {
   const initializeWithExamples = useStore(state => state.initializeWithExamples);
+  const loadWorkspace = useStore(state => state.loadWorkspace);
   const [activeTab, setActiveTab] = useState<TabType>('syntax');
 
   useEffect(() => {
-    // Initialize with example syntax if empty
-    initializeWithExamples();
-  }, [initializeWithExamples]);
+    // Checking starts first so the restored proofs are checked too
+    const stopProofChecking = startProofChecking();
+    // Restore the autosaved workspace, or start from the examples
+    const saved = loadWorkspaceFromStorage();
+    if (saved) {
+      loadWorkspace(saved);
+    } else {
+      initializeWithExamples();
+    }
+    const stopAutosave = startAutosave(useStore.subscribe);
+    return () => {
+      stopAutosave();
+      stopProofChecking();
+    };
+  }, [initializeWithExamples, loadWorkspace]);
 
   return (
     <div className="app">
@@ -76,6 +91,11 @@ function App() {
             <ProofPanel />
           </section>
         )}
+        {activeTab === 'source' && (
+          <section className="content-area full-width">
+            <SourcePanel />
+          </section>
+        )}
       </main>
     </div>
   );
@@ -1,12 +1,84 @@
+import { useRef, useState } from 'react';
 import type { TabType } from '../App';
+import { useStore } from '../store/useStore';
+import { downloadTextFile, exportWorkspaceFile, importWorkspaceFile } from '../store/persistence';
+import type { WorkspaceData } from '../store/persistence';
+import { exportRulesLatex } from '../export/latex';
+import { exportGrammarLatex, exportGrammarText } from '../export/grammar';
+import { exportCoq } from '../export/coq';
+import { exportLean } from '../export/lean';
 import './Header.css';
 
+type ExportFormat = {
+  label: string;
+  filename: string;
+  generate: (data: WorkspaceData) => string;
+};
+
+const EXPORT_FORMATS: ExportFormat[] = [
+  {
+    label: 'Rules — LaTeX (mathpartir)',
+    filename: 'rules.tex',
+    generate: data => exportRulesLatex(data, 'mathpartir'),
+  },
+  {
+    label: 'Rules — LaTeX (bussproofs)',
+    filename: 'rules.tex',
+    generate: data => exportRulesLatex(data, 'bussproofs'),
+  },
+  {
+    label: 'Grammar — LaTeX (syntax.sty)',
+    filename: 'grammar.tex',
+    generate: exportGrammarLatex,
+  },
+  {
+    label: 'Grammar — plain text (Ott)',
+    filename: 'grammar.ott',
+    generate: exportGrammarText,
+  },
+  {
+    label: 'Coq development (.v)',
+    filename: 'typeforge.v',
+    generate: exportCoq,
+  },
+  {
+    label: 'Lean 4 development (.lean)',
+    filename: 'TypeForge.lean',
+    generate: exportLean,
+  },
+];
+
 interface HeaderProps {
   activeTab: TabType;
   setActiveTab: (tab: TabType) => void;
 }
 
 export function Header({ activeTab, setActiveTab }: HeaderProps) {
+  const loadWorkspace = useStore(state => state.loadWorkspace);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+
+  const handleSaveProject = () => {
+    exportWorkspaceFile(useStore.getState());
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    setShowExportMenu(false);
+    downloadTextFile(format.filename, format.generate(useStore.getState()));
+  };
+
+  const handleOpenProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so the same file can be picked again
+    e.target.value = '';
+    if (!file) return;
+    try {
+      loadWorkspace(await importWorkspaceFile(file));
+    } catch (err) {
+      alert(`Could not open project: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
   return (
     <header className="header">
       <div className="header-left">
@@ -59,16 +131,61 @@ export function Header({ activeTab, setActiveTab }: HeaderProps) {
             </svg>
             Proofs
           </button>
+          <button
+            className={`nav-tab ${activeTab === 'source' ? 'active' : ''}`}
+            onClick={() => setActiveTab('source')}
+          >
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <polyline points="16 18 22 12 16 6" />
+              <polyline points="8 6 2 12 8 18" />
+            </svg>
+            Source
+          </button>
         </nav>
       </div>
       <div className="header-right">
-        <button className="btn btn-ghost">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden-file-input"
+          onChange={handleOpenProject}
+        />
+        <button className="btn btn-ghost" onClick={() => fileInputRef.current?.click()} title="Open a project file">
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <path d="M22 19a2 2 0 0 1-2 2H4a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h5l2 3h9a2 2 0 0 1 2 2z" />
+          </svg>
+          Open
+        </button>
+        <button className="btn btn-ghost" onClick={handleSaveProject} title="Save the project as a JSON file">
           <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-            <path d="M12 20h9" />
-            <path d="M16.5 3.5a2.121 2.121 0 0 1 3 3L7 19l-4 1 1-4L16.5 3.5z" />
+            <path d="M19 21H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h11l5 5v11a2 2 0 0 1-2 2z" />
+            <polyline points="17 21 17 13 7 13 7 21" />
+            <polyline points="7 3 7 8 15 8" />
           </svg>
-          Export
+          Save
         </button>
+        <div className="export-menu-anchor">
+          <button className="btn btn-ghost" onClick={() => setShowExportMenu(!showExportMenu)}>
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M12 20h9" />
+              <path d="M16.5 3.5a2.121 2.121 0 0 1 3 3L7 19l-4 1 1-4L16.5 3.5z" />
+            </svg>
+            Export
+          </button>
+          {showExportMenu && (
+            <>
+              <div className="export-menu-backdrop" onClick={() => setShowExportMenu(false)} />
+              <div className="export-menu">
+                {EXPORT_FORMATS.map(format => (
+                  <button key={format.label} className="export-menu-item" onClick={() => handleExport(format)}>
+                    {format.label}
+                  </button>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
         <button className="btn btn-ghost">
           <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
             <circle cx="12" cy="12" r="3" />
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { useStore } from '../store/useStore';
 import { generateDefaultSeparators } from '../types/syntax';
+import type { JudgmentArg, ArgMode } from '../types/syntax';
 import './JudgmentPanel.css';
 
 type JudgmentTemplate = 'unary' | 'binary' | 'ternary' | 'custom';
@@ -29,14 +30,14 @@ export function JudgmentPanel() {
   const [selectedTemplate, setSelectedTemplate] = useState<JudgmentTemplate>('binary');
   const [newJudgmentName, setNewJudgmentName] = useState('');
   const [newJudgmentSymbol, setNewJudgmentSymbol] = useState('↓');
-  const [newJudgmentArgs, setNewJudgmentArgs] = useState<{ sortId: string; label: string }[]>([]);
+  const [newJudgmentArgs, setNewJudgmentArgs] = useState<JudgmentArg[]>([]);
   const [newJudgmentSeparators, setNewJudgmentSeparators] = useState<string[]>(['', ' ↓ ', '']);
 
   // Edit judgment state
   const [editingJudgmentId, setEditingJudgmentId] = useState<string | null>(null);
   const [editJudgmentName, setEditJudgmentName] = useState('');
   const [editJudgmentSymbol, setEditJudgmentSymbol] = useState('');
-  const [editJudgmentArgs, setEditJudgmentArgs] = useState<{ sortId: string; label: string }[]>([]);
+  const [editJudgmentArgs, setEditJudgmentArgs] = useState<JudgmentArg[]>([]);
   const [editJudgmentSeparators, setEditJudgmentSeparators] = useState<string[]>([]);
 
   // Rule state
@@ -57,7 +58,7 @@ export function JudgmentPanel() {
     if (showAddJudgment && sortsList.length > 0) {
       const template = TEMPLATES.find(t => t.id === selectedTemplate);
       if (template) {
-        const args: { sortId: string; label: string }[] = [];
+        const args: JudgmentArg[] = [];
         const defaultLabels = selectedTemplate === 'ternary' 
           ? ['Γ', 'e', 'τ'] 
           : selectedTemplate === 'binary' 
@@ -114,6 +115,12 @@ export function JudgmentPanel() {
     setNewJudgmentArgs(updated);
   };
 
+  const updateNewArgMode = (index: number, mode: ArgMode) => {
+    const updated = [...newJudgmentArgs];
+    updated[index] = { ...updated[index], mode };
+    setNewJudgmentArgs(updated);
+  };
+
   const updateNewSeparator = (index: number, value: string) => {
     const updated = [...newJudgmentSeparators];
     updated[index] = value;
@@ -177,6 +184,12 @@ export function JudgmentPanel() {
     setEditJudgmentArgs(updated);
   };
 
+  const updateEditArgMode = (index: number, mode: ArgMode) => {
+    const updated = [...editJudgmentArgs];
+    updated[index] = { ...updated[index], mode };
+    setEditJudgmentArgs(updated);
+  };
+
   const updateEditSeparator = (index: number, value: string) => {
     const updated = [...editJudgmentSeparators];
     updated[index] = value;
@@ -212,7 +225,7 @@ export function JudgmentPanel() {
 
   // Render judgment preview with separators
   const renderJudgmentPreview = (
-    args: { sortId: string; label: string }[],
+    args: JudgmentArg[],
     separators: string[],
     isCompact: boolean = false
   ) => {
@@ -226,7 +239,8 @@ export function JudgmentPanel() {
             <span key={i}>
               {separators[i] && <span className="separator">{separators[i]}</span>}
               <span 
-                className="arg-display"
+                className={`arg-display ${arg.mode === 'out' ? 'output' : ''}`}
+                title={arg.mode === 'out' ? 'Output' : undefined}
                 style={{ color: sort?.isBinderSort ? 'var(--binder-color)' : 'var(--nonterminal-color)' }}
               >
                 {arg.label || sort?.name || '?'}
@@ -253,10 +267,11 @@ export function JudgmentPanel() {
     setName: (v: string) => void,
     symbol: string,
     setSymbol: (v: string) => void,
-    args: { sortId: string; label: string }[],
+    args: JudgmentArg[],
     separators: string[],
     updateArgSort: (i: number, v: string) => void,
     updateArgLabel: (i: number, v: string) => void,
+    updateArgMode: (i: number, v: ArgMode) => void,
     updateSeparator: (i: number, v: string) => void,
     onSubmit: () => void,
     onCancel: () => void,
@@ -433,6 +448,13 @@ export function JudgmentPanel() {
                       <option key={s.id} value={s.id}>{s.name}</option>
                     ))}
                   </select>
+                  <button
+                    className={`arg-mode-btn ${arg.mode === 'out' ? 'output' : ''}`}
+                    onClick={() => updateArgMode(i, arg.mode === 'out' ? 'in' : 'out')}
+                    title={arg.mode === 'out' ? 'Output: computed when deriving' : 'Input: given when deriving'}
+                  >
+                    {arg.mode === 'out' ? 'out' : 'in'}
+                  </button>
                   {isEditing && args.length > 1 && (
                     <button
                       className="btn btn-ghost btn-icon remove-arg-btn"
@@ -552,6 +574,7 @@ export function JudgmentPanel() {
               newJudgmentSeparators,
               updateNewArgSort,
               updateNewArgLabel,
+              updateNewArgMode,
               updateNewSeparator,
               handleAddJudgment,
               resetAddForm,
@@ -574,6 +597,7 @@ export function JudgmentPanel() {
                   editJudgmentSeparators,
                   updateEditArgSort,
                   updateEditArgLabel,
+                  updateEditArgMode,
                   updateEditSeparator,
                   handleUpdateJudgment,
                   cancelEditingJudgment,
@@ -1,4 +1,4 @@
-import { useState, useMemo, useCallback } from 'react';
+import { useState, useMemo, useCallback, useEffect } from 'react';
 import { useStore } from '../store/useStore';
 import type { 
   Formula, 
@@ -7,8 +7,22 @@ import type {
   RecursiveFunc,
   SortId,
   FuncCase,
+  InferenceRule,
+  Proof,
+  GoalId,
+  Property,
+  PropertyId,
+  Constructor,
+  ConstructorId,
 } from '../types/syntax';
-import { renderFormula, renderFormulaExpr, isGoalTrivial } from '../types/syntax';
+import { renderFormula, renderFormulaExpr, isGoalTrivial, findContradiction, usableLemmas, proofDependencies } from '../types/syntax';
+import { quickCheck, smallCheck, DEFAULT_SMALLCHECK_OPTIONS } from '../engine/quickcheck';
+import { checkProof } from '../engine/checker';
+import { parseTacticScript, runTacticScript } from '../dsl/parser';
+import type { DslParseError, ScriptRun } from '../dsl/parser';
+import { printProofScript } from '../dsl/printer';
+import type { QuickCheckResult, SmallCheckResult, SmallCheckProgress, Binding } from '../engine/quickcheck';
+import { renderTermString } from './rule-canvas/helpers';
 import './ProofPanel.css';
 
 export function ProofPanel() {
@@ -16,6 +30,8 @@ export function ProofPanel() {
   const constructors = useStore(state => state.constructors);
   const judgments = useStore(state => state.judgments);
   const recursiveFunctions = useStore(state => state.recursiveFunctions);
+  const rules = useStore(state => state.rules);
+  const metaVariables = useStore(state => state.metaVariables);
   const properties = useStore(state => state.properties);
   const proofs = useStore(state => state.proofs);
   const selectedPropertyId = useStore(state => state.selectedPropertyId);
@@ -28,16 +44,77 @@ export function ProofPanel() {
   const startProof = useStore(state => state.startProof);
   const selectGoal = useStore(state => state.selectGoal);
   const applyTactic = useStore(state => state.applyTactic);
+  const undoStep = useStore(state => state.undoStep);
+  const removeStep = useStore(state => state.removeStep);
+  const replaceProof = useStore(state => state.replaceProof);
   const getProofForProperty = useStore(state => state.getProofForProperty);
 
   const [showAddProperty, setShowAddProperty] = useState(false);
   const [propertyName, setPropertyName] = useState('');
   const [formula, setFormula] = useState<Formula | null>(null);
   const [proofMessage, setProofMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  // Test results are kept with the formula they were run on, and hidden once it changes
+  const [testResults, setTestResults] = useState<Map<PropertyId, { formula: Formula; result: TestResult }>>(new Map());
+  const [checkDepth, setCheckDepth] = useState(DEFAULT_SMALLCHECK_OPTIONS.depth);
+  const [boundedCheck, setBoundedCheck] = useState<{
+    propertyId: PropertyId;
+    progress: SmallCheckProgress | null;
+    controller: AbortController;
+  } | null>(null);
 
   const selectedProperty = selectedPropertyId ? properties.get(selectedPropertyId) : null;
   const selectedProof = selectedProofId ? proofs.get(selectedProofId) : null;
   const selectedGoal = selectedGoalId && selectedProof ? selectedProof.goals.get(selectedGoalId) : null;
+  const lemmas = useMemo(
+    () => (selectedPropertyId ? [...usableLemmas(selectedPropertyId, properties, proofs).values()] : []),
+    [selectedPropertyId, properties, proofs]
+  );
+
+  // Why the selected proof no longer checks
+  const proofCheck = useMemo(() => {
+    const proof = selectedProofId ? proofs.get(selectedProofId) : undefined;
+    const property = proof && properties.get(proof.propertyId);
+    if (!proof || !property || proof.status !== 'invalid') return null;
+    const context = { sorts, constructors, judgments, rules, metaVariables, recursiveFunctions };
+    const result = checkProof(proof, property, context, usableLemmas(property.id, properties, proofs));
+    return result.valid ? null : result;
+  }, [selectedProofId, sorts, constructors, judgments, rules, metaVariables, recursiveFunctions, properties, proofs]);
+
+  const testResultFor = (prop: Property) => {
+    const entry = testResults.get(prop.id);
+    return entry && entry.formula === prop.formula ? entry.result : null;
+  };
+
+  const selectedTestResult = selectedProperty ? testResultFor(selectedProperty) : null;
+
+  const testContext = { rules, recursiveFunctions, constructors, metaVariables, sorts, judgments };
+
+  const runTests = (prop: Property) => {
+    const result = quickCheck(prop.formula, testContext);
+    setTestResults(prev => new Map(prev).set(prop.id, { formula: prop.formula, result: { mode: 'random', result } }));
+  };
+
+  // A running check stops when the panel closes or its property is deleted
+  const checkController = boundedCheck?.controller;
+  useEffect(() => () => checkController?.abort(), [checkController]);
+  useEffect(() => {
+    if (boundedCheck && !properties.has(boundedCheck.propertyId)) boundedCheck.controller.abort();
+  }, [boundedCheck, properties]);
+
+  const runBoundedCheck = async (prop: Property) => {
+    if (boundedCheck) return;
+    const controller = new AbortController();
+    setBoundedCheck({ propertyId: prop.id, progress: null, controller });
+    const result = await smallCheck(
+      prop.formula,
+      testContext,
+      { depth: checkDepth },
+      progress => setBoundedCheck(prev => prev && { ...prev, progress }),
+      controller.signal
+    );
+    setBoundedCheck(null);
+    setTestResults(prev => new Map(prev).set(prop.id, { formula: prop.formula, result: { mode: 'bounded', result } }));
+  };
 
   const renderF = (f: Formula) => renderFormula(f, constructors, recursiveFunctions, judgments, sorts);
   const renderE = (e: FormulaExpr) => renderFormulaExpr(e, constructors, recursiveFunctions);
@@ -102,6 +179,7 @@ export function ProofPanel() {
           {Array.from(properties.values()).map(prop => {
             const proof = getProofForProperty(prop.id);
             const status = proof?.status || 'unstarted';
+            const testResult = testResultFor(prop);
             
             return (
               <div
@@ -115,9 +193,27 @@ export function ProofPanel() {
                 }}
               >
                 <div className={`status-indicator ${status}`}>
-                  {status === 'complete' ? '✓' : status === 'incomplete' ? '○' : '·'}
+                  {status === 'complete' ? '✓' : status === 'incomplete' ? '○' : status === 'invalid' ? '!' : '·'}
                 </div>
                 <span className="property-name">{prop.name}</span>
+                {testResult && (
+                  <span
+                    className={`test-badge ${testResult.result.status}`}
+                    title={describeTestResult(testResult, constructors)}
+                  >
+                    {TEST_BADGES[testResult.result.status]}
+                  </span>
+                )}
+                <button
+                  className="test-btn"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    runTests(prop);
+                  }}
+                  title="Test on random instances"
+                >
+                  ⚄
+                </button>
                 <button
                   className="delete-btn"
                   onClick={(e) => {
@@ -187,8 +283,90 @@ export function ProofPanel() {
             <header className="theorem-header">
               <h1>{selectedProperty.name}</h1>
               {selectedProof?.status === 'complete' && <span className="qed">QED ✓</span>}
+              {selectedProof && selectedProof.steps.length > 0 && (
+                <button
+                  className="action-btn small undo-btn"
+                  onClick={() => undoStep(selectedProof.id)}
+                  title="Undo the last step"
+                >
+                  ↶ Undo
+                </button>
+              )}
             </header>
 
+            {selectedProof && proofDependencies(selectedProof).length > 0 && (
+              <div className="lemma-uses">
+                Uses{' '}
+                {proofDependencies(selectedProof).map((id, i) => {
+                  const lemma = properties.get(id);
+                  const proved = getProofForProperty(id)?.status === 'complete';
+                  return (
+                    <span key={id} className={proved ? '' : 'unproved'}>
+                      {i > 0 && ', '}
+                      {lemma?.name ?? 'a deleted property'}
+                      {!proved && ' (unproved)'}
+                    </span>
+                  );
+                })}
+              </div>
+            )}
+
+            {proofCheck && (
+              <div className="proof-invalid">
+                {proofCheck.stepIndex === null
+                  ? 'The proof no longer checks'
+                  : `Step ${proofCheck.stepIndex + 1} (${tacticLabel(selectedProof!.steps[proofCheck.stepIndex].tactic, recursiveFunctions, rules, properties, renderE)}) no longer checks`}
+                : {proofCheck.error}
+              </div>
+            )}
+
+            <div className="test-bar">
+              <button
+                className="action-btn small"
+                disabled={!!boundedCheck}
+                onClick={() => runTests(selectedProperty)}
+                title="Test on random instances"
+              >
+                ⚄ Random test
+              </button>
+              {boundedCheck?.propertyId === selectedProperty.id ? (
+                <>
+                  <span className="test-progress">
+                    Checking depth {boundedCheck.progress?.depth ?? 0}
+                    {boundedCheck.progress && `: ${boundedCheck.progress.checked} / ${boundedCheck.progress.total}`}
+                  </span>
+                  <button className="action-btn small" onClick={() => boundedCheck.controller.abort()}>
+                    Cancel
+                  </button>
+                </>
+              ) : (
+                <>
+                  <button
+                    className="action-btn small"
+                    disabled={!!boundedCheck}
+                    onClick={() => runBoundedCheck(selectedProperty)}
+                    title="Check every instance up to the depth"
+                  >
+                    Check up to depth
+                  </button>
+                  <input
+                    type="number"
+                    className="depth-input"
+                    min={0}
+                    max={8}
+                    value={checkDepth}
+                    onChange={e => setCheckDepth(Math.max(0, Math.min(8, Number(e.target.value) || 0)))}
+                  />
+                </>
+              )}
+            </div>
+
+            {selectedTestResult && (
+              <div className={`test-result ${selectedTestResult.result.status}`}>
+                {describeTestResult(selectedTestResult, constructors)}
+              </div>
+            )}
+
             {!selectedProof ? (
               <div className="start-section">
                 <div className="theorem-display">{renderF(selectedProperty.formula)}</div>
@@ -196,7 +374,7 @@ export function ProofPanel() {
                   Begin Proof
                 </button>
               </div>
-            ) : selectedProof.openGoals.length === 0 ? (
+            ) : selectedProof.openGoals.length === 0 && selectedProof.status !== 'invalid' ? (
               <div className="proof-complete">
                 <div className="complete-check">✓</div>
                 <h3>Theorem Proved</h3>
@@ -296,6 +474,16 @@ export function ProofPanel() {
                             >
                               ind
                             </button>
+                            <button 
+                              className="action-btn small"
+                              onClick={() => handleTactic(
+                                { kind: 'seq', first: { kind: 'induction', varName: v.name }, next: { kind: 'try', tactic: { kind: 'simplify' } } },
+                                `Induction on ${v.name}, simplifying each case`
+                              )}
+                              title="Induction, then simplify every case where possible"
+                            >
+                              ind; simp
+                            </button>
                           </div>
                         ))}
                         {selectedGoal.context.hypotheses.map(h => (
@@ -309,7 +497,25 @@ export function ProofPanel() {
                             >
                               use
                             </button>
-                            {h.formula.kind === 'implies' && (
+                            {h.formula.kind === 'judgment' && (
+                              <button 
+                                className="action-btn small"
+                                onClick={() => handleTactic({ kind: 'derivation_induction', hypName: h.name }, `Rule induction on ${h.name}`)}
+                                title="Rule induction"
+                              >
+                                ind
+                              </button>
+                            )}
+                            {h.formula.kind === 'judgment' && (
+                              <button 
+                                className="action-btn small"
+                                onClick={() => handleTactic({ kind: 'inversion', hypName: h.name }, `Inversion on ${h.name}`)}
+                                title="Inversion"
+                              >
+                                inv
+                              </button>
+                            )}
+                            {(h.formula.kind === 'implies' || h.formula.kind === 'forall') && (
                               <button 
                                 className="action-btn small"
                                 onClick={() => handleTactic({ kind: 'apply', hypName: h.name }, `Applied ${h.name}`)}
@@ -318,6 +524,24 @@ export function ProofPanel() {
                                 apply
                               </button>
                             )}
+                            {isEquation(h.formula) && (
+                              <>
+                                <button 
+                                  className="action-btn small"
+                                  onClick={() => handleTactic({ kind: 'rewrite', hypName: h.name, direction: 'ltr' }, `Rewrote with ${h.name}`)}
+                                  title="Rewrite left to right"
+                                >
+                                  rw →
+                                </button>
+                                <button 
+                                  className="action-btn small"
+                                  onClick={() => handleTactic({ kind: 'rewrite', hypName: h.name, direction: 'rtl' }, `Rewrote with ${h.name}`)}
+                                  title="Rewrite right to left"
+                                >
+                                  rw ←
+                                </button>
+                              </>
+                            )}
                           </div>
                         ))}
                       </div>
@@ -339,12 +563,26 @@ export function ProofPanel() {
                     <GoalActions 
                       goal={selectedGoal.goal}
                       hypotheses={selectedGoal.context.hypotheses}
+                      rules={rules}
+                      lemmas={lemmas}
                       onTactic={handleTactic}
                     />
                   </div>
                 )}
               </div>
             )}
+
+            {selectedProof && selectedProof.steps.length > 0 && (
+              <ProofSteps
+                proof={selectedProof}
+                selectedGoalId={selectedGoalId}
+                label={t => tacticLabel(t, recursiveFunctions, rules, properties, renderE)}
+                onSelectGoal={selectGoal}
+                onRemove={goalId => removeStep(selectedProof.id, goalId)}
+              />
+            )}
+
+            <ProofScript key={selectedProperty.id} property={selectedProperty} onReplay={replaceProof} renderF={renderF} />
           </div>
         )}
       </main>
@@ -594,10 +832,12 @@ function InteractiveExpr({ expr, side, onFuncClick, renderE }: InteractiveExprPr
 interface GoalActionsProps {
   goal: Formula;
   hypotheses: { id: string; name: string; formula: Formula }[];
+  rules: Map<string, InferenceRule>;
+  lemmas: Property[];
   onTactic: (tactic: Tactic, description: string) => void;
 }
 
-function GoalActions({ goal, hypotheses, onTactic }: GoalActionsProps) {
+function GoalActions({ goal, hypotheses, rules, lemmas, onTactic }: GoalActionsProps) {
   const trivialCheck = isGoalTrivial(goal, hypotheses);
   
   // If goal is trivially solvable, show prominent solve button
@@ -641,6 +881,11 @@ function GoalActions({ goal, hypotheses, onTactic }: GoalActionsProps) {
     }
   }
   
+  // Predicates that evaluation can decide
+  if (goal.kind !== 'forall' && goal.kind !== 'exists' && goal.kind !== 'implies' && goal.kind !== 'true' && goal.kind !== 'false') {
+    actions.push({ label: '⚙ Compute', tactic: { kind: 'compute' }, hint: 'Evaluate functions on known arguments' });
+  }
+  
   // True goal
   if (goal.kind === 'true') {
     actions.push({ label: '✓ Trivial', tactic: { kind: 'trivial' } });
@@ -657,6 +902,34 @@ function GoalActions({ goal, hypotheses, onTactic }: GoalActionsProps) {
     actions.push({ label: '→ Right', tactic: { kind: 'right' }, hint: 'Prove right side' });
   }
   
+  // Judgment: apply a rule concluding it
+  if (goal.kind === 'judgment') {
+    for (const rule of rules.values()) {
+      if (rule.conclusion.judgmentId !== goal.judgmentId) continue;
+      actions.push({ label: `⊢ ${rule.name}`, tactic: { kind: 'apply_rule', ruleId: rule.id }, hint: 'Apply rule (premises become goals)' });
+    }
+  }
+  
+  // Hypotheses to eliminate
+  for (const h of hypotheses) {
+    const kind = h.formula.kind;
+    if (kind === 'and' || kind === 'or' || kind === 'exists' || kind === 'false') {
+      const hints = { and: 'Split into both conjuncts', or: 'One case per disjunct', exists: 'Introduce the witness', false: 'Close the goal' };
+      actions.push({ label: `⊳ Destruct ${h.name}`, tactic: { kind: 'destruct', hypName: h.name }, hint: hints[kind] });
+    }
+  }
+  
+  const contradiction = findContradiction(hypotheses);
+  if (contradiction) {
+    actions.push({ label: '⊥ Contradiction', tactic: { kind: 'contradiction' }, hint: contradiction });
+  }
+  
+  // Proved properties
+  for (const lemma of lemmas) {
+    actions.push({ label: `⇐ ${lemma.name}`, tactic: { kind: 'apply_lemma', propertyId: lemma.id }, hint: 'Apply lemma (its premises become goals)' });
+    actions.push({ label: `+ ${lemma.name}`, tactic: { kind: 'have', propertyId: lemma.id }, hint: 'Add lemma to the context' });
+  }
+  
   if (actions.length === 0) {
     return null;
   }
@@ -677,6 +950,73 @@ function GoalActions({ goal, hypotheses, onTactic }: GoalActionsProps) {
   );
 }
 
+// The outcome of random testing or bounded checking
+type TestResult =
+  | { mode: 'random'; result: QuickCheckResult }
+  | { mode: 'bounded'; result: SmallCheckResult };
+
+const TEST_BADGES: Record<QuickCheckResult['status'] | SmallCheckResult['status'], string> = {
+  passed: '✓',
+  verified: '✓',
+  failed: '✗',
+  gaveUp: '?',
+  undecided: '?',
+  cancelled: '…',
+  untestable: '–',
+};
+
+function describeTestResult(test: TestResult, constructors: Map<ConstructorId, Constructor>): string {
+  const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+  const bindings = (counterexample: Binding[]) =>
+    counterexample.map(b => `${b.name} = ${renderTermString(b.term, constructors)}`).join(', ') || 'no variables';
+
+  if (test.mode === 'random') {
+    const result = test.result;
+    switch (result.status) {
+      case 'passed': {
+        const skipped = [
+          result.discarded > 0 ? `${result.discarded} discarded` : '',
+          result.undecided > 0 ? `${result.undecided} undecided` : '',
+        ].filter(Boolean).join(', ');
+        return `Passed ${plural(result.tests, 'test')}${skipped ? ` (${skipped})` : ''}`;
+      }
+      case 'failed': {
+        const shrinks = result.shrinks > 0 ? `, ${plural(result.shrinks, 'shrink')}` : '';
+        return `Falsified after ${plural(result.tests, 'test')}${shrinks}: ${bindings(result.counterexample)}`;
+      }
+      case 'gaveUp':
+        return `Gave up after ${plural(result.tests, 'test')}: ${result.discarded} instances discarded, ${result.undecided} undecided`;
+      case 'untestable':
+        return result.reason;
+    }
+  }
+
+  const result = test.result;
+  const exceeded = (r: { exceeded: boolean; depth: number }) =>
+    r.exceeded ? ` (depth ${r.depth + 1} has too many instances)` : '';
+  switch (result.status) {
+    case 'verified':
+      return `Verified up to depth ${result.depth}: ${plural(result.tests, 'instance')}${exceeded(result)}`;
+    case 'failed':
+      return `Counterexample at depth ${result.depth}: ${bindings(result.counterexample)}`;
+    case 'undecided':
+      return `No counterexample up to depth ${result.depth}, but ${plural(result.undecided, 'instance')} could not be decided${exceeded(result)}`;
+    case 'cancelled':
+      return result.verifiedDepth === null
+        ? `Cancelled after ${plural(result.tests, 'instance')}`
+        : `Cancelled; verified up to depth ${result.verifiedDepth}`;
+    case 'untestable':
+      return result.reason;
+  }
+}
+
+// An equation, possibly universally quantified, usable by rewrite
+function isEquation(formula: Formula): boolean {
+  let body = formula;
+  while (body.kind === 'forall') body = body.body;
+  return body.kind === 'termEq' || body.kind === 'numEq';
+}
+
 // Helper to render function expressions
 function renderFuncExprStr(
   expr: import('../types/syntax').FuncExpr,
@@ -706,6 +1046,237 @@ function renderFuncExprStr(
   }
 }
 
+// ============================================================================
+// Proof Steps - The tree of applied tactics
+// ============================================================================
+
+interface ProofStepsProps {
+  proof: Proof;
+  selectedGoalId: GoalId | null;
+  label: (tactic: Tactic) => string;
+  onSelectGoal: (goalId: GoalId) => void;
+  onRemove: (goalId: GoalId) => void;
+}
+
+function ProofSteps({ proof, selectedGoalId, label, onSelectGoal, onRemove }: ProofStepsProps) {
+  const steps = new Map(proof.steps.map(s => [s.goalId, s]));
+
+  const renderGoal = (goalId: GoalId): React.ReactNode => {
+    const step = steps.get(goalId);
+    if (!step) {
+      if (!proof.openGoals.includes(goalId)) return null;
+      return (
+        <div key={goalId} className={`step-node open ${selectedGoalId === goalId ? 'active' : ''}`}>
+          <button className="step-open" onClick={() => onSelectGoal(goalId)}>○ open goal</button>
+        </div>
+      );
+    }
+    return (
+      <div key={goalId} className="step-node">
+        <div className="step-line">
+          <span className="step-tactic">{label(step.tactic)}</span>
+          <button
+            className="step-remove"
+            onClick={() => onRemove(goalId)}
+            title="Remove this step and the steps below it"
+          >
+            ×
+          </button>
+        </div>
+        {step.resultingGoals.length > 0 && (
+          <div className="step-children">{step.resultingGoals.map(renderGoal)}</div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="proof-steps">
+      <div className="context-title">Steps</div>
+      {renderGoal(proof.rootGoalId)}
+    </div>
+  );
+}
+
+// ============================================================================
+// Proof Script - Write the proof as tactics and step through it
+// ============================================================================
+
+interface ProofScriptProps {
+  property: Property;
+  onReplay: (proof: Proof, goalId: GoalId | null) => void;
+  renderF: (f: Formula) => string;
+}
+
+function ProofScript({ property, onReplay, renderF }: ProofScriptProps) {
+  // The script of the property's current proof, however it was built
+  const currentScript = () => {
+    const state = useStore.getState();
+    const proof = state.getProofForProperty(property.id);
+    return proof ? printProofScript(proof, state) : '';
+  };
+
+  const [text, setText] = useState(currentScript);
+  const [executed, setExecuted] = useState<number | null>(null);
+  const [error, setError] = useState<DslParseError | null>(null);
+  // A partial replay, kept apart from the stored proof until accepted
+  const [draft, setDraft] = useState<ScriptRun | null>(null);
+
+  const accept = (run: ScriptRun) => {
+    onReplay(run.proof, run.currentGoal ?? run.proof.openGoals[0] ?? null);
+    setDraft(null);
+  };
+
+  // Replay the script from the start, running at most `limit` sentences.
+  // A run through the whole script replaces the proof; others stay a draft.
+  const replay = (limit?: number) => {
+    const parsed = parseTacticScript(text);
+    if (!parsed.success) {
+      setError(parsed.error);
+      return;
+    }
+    const state = useStore.getState();
+    const run = runTacticScript(
+      property,
+      parsed.script,
+      state,
+      usableLemmas(property.id, state.properties, state.proofs),
+      limit
+    );
+    setExecuted(run.executed);
+    setError(run.error);
+    if (run.executed === parsed.script.length && !run.error) accept(run);
+    else setDraft(run);
+  };
+
+  const draftGoalId = draft && (draft.currentGoal ?? draft.proof.openGoals[0]);
+  const draftGoal = draftGoalId ? draft.proof.goals.get(draftGoalId) : undefined;
+
+  return (
+    <div className="proof-script">
+      <div className="script-header">
+        <span className="context-title">Script</span>
+        <button className="action-btn small" onClick={() => replay((executed ?? 0) + 1)} title="Run the next tactic">
+          Step ▸
+        </button>
+        <button className="action-btn small" onClick={() => replay()} title="Run the whole script">
+          Run all
+        </button>
+        <button className="action-btn small" onClick={() => replay(0)} title="Start the proof again">
+          Restart
+        </button>
+        <button
+          className="action-btn small"
+          onClick={() => {
+            setText(currentScript());
+            setExecuted(null);
+            setError(null);
+            setDraft(null);
+          }}
+          title="Replace the script with the steps of the current proof"
+        >
+          From proof
+        </button>
+        {executed !== null && (
+          <span className="script-progress">{executed} tactic{executed === 1 ? '' : 's'} run</span>
+        )}
+      </div>
+      <textarea
+        className="script-editor"
+        value={text}
+        onChange={e => setText(e.target.value)}
+        placeholder="intro n. induction n.&#10;- simplify.&#10;- unfold size left; simplify."
+        spellCheck={false}
+        rows={Math.max(4, text.split('\n').length + 1)}
+      />
+      {error && <div className="script-error">Line {error.line}: {error.message}</div>}
+      {draft && (
+        <div className="script-draft">
+          {draftGoal ? (
+            <>
+              {draftGoal.context.hypotheses.map(h => (
+                <div key={h.id} className="context-entry hyp">
+                  <span className="entry-name">{h.name}</span>
+                  <span className="entry-formula">{renderF(h.formula)}</span>
+                </div>
+              ))}
+              <div className="script-draft-goal">⊢ {renderF(draftGoal.goal)}</div>
+            </>
+          ) : (
+            <div className="script-draft-goal">No goals left</div>
+          )}
+          <div className="script-header">
+            <span className="script-progress">
+              Draft, {draft.proof.openGoals.length} goal{draft.proof.openGoals.length === 1 ? '' : 's'} open
+            </span>
+            <button className="action-btn small" onClick={() => accept(draft)} title="Replace the proof with this replay">
+              Use as proof
+            </button>
+            <button className="action-btn small" onClick={() => setDraft(null)} title="Keep the proof as it was">
+              Discard
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Short description of a tactic for the step tree
+function tacticLabel(
+  tactic: Tactic,
+  functions: Map<string, RecursiveFunc>,
+  rules: Map<string, InferenceRule>,
+  properties: Map<string, Property>,
+  renderE: (e: FormulaExpr) => string
+): string {
+  switch (tactic.kind) {
+    case 'intro':
+      return `intro ${tactic.varName ?? ''}`.trim();
+    case 'intro_hyp':
+      return `intro ${tactic.hypName ?? ''}`.trim();
+    case 'exists_witness':
+      return `exists ${renderE(tactic.witness)}`;
+    case 'induction':
+    case 'case_analysis':
+      return `${tactic.kind === 'induction' ? 'induction' : 'case'} ${tactic.varName}`;
+    case 'derivation_induction':
+      return `induction ${tactic.hypName}`;
+    case 'inversion':
+    case 'destruct':
+    case 'apply':
+    case 'discriminate':
+    case 'exact':
+      return `${tactic.kind} ${tactic.hypName}`;
+    case 'apply_rule':
+      return `apply ${rules.get(tactic.ruleId)?.name ?? '?'}`;
+    case 'rewrite':
+      return `rewrite ${tactic.direction === 'rtl' ? '← ' : ''}${tactic.hypName}`;
+    case 'unfold':
+      return `unfold ${functions.get(tactic.funcId)?.name ?? '?'}`;
+    case 'have':
+    case 'apply_lemma':
+      return `${tactic.kind === 'have' ? 'have' : 'apply'} ${properties.get(tactic.propertyId)?.name ?? '?'}`;
+    case 'seq':
+      return `${inner(tactic.first)}; ${inner(tactic.next)}`;
+    case 'try':
+    case 'all_goals':
+      return `${tactic.kind} ${inner(tactic.tactic)}`;
+    case 'repeat':
+      return `repeat ${inner(tactic.tactic)}`;
+    case 'first':
+      return `first [${tactic.tactics.map(t => tacticLabel(t, functions, rules, properties, renderE)).join(' | ')}]`;
+    default:
+      return tactic.kind;
+  }
+
+  // Sequences inside other combinators are parenthesised
+  function inner(t: Tactic): string {
+    const label = tacticLabel(t, functions, rules, properties, renderE);
+    return t.kind === 'seq' && tactic.kind !== 'seq' ? `(${label})` : label;
+  }
+}
+
 // ============================================================================
 // Tree-based Formula Builder (simplified)
 // ============================================================================
@@ -1004,6 +1575,15 @@ function TreeFormulaBuilder({ value, onChange, sorts, judgments, functions }: Tr
       case 'min': return `min(${renderExprSimple(e.left)}, ${renderExprSimple(e.right)})`;
       case 'constructor': return '?';
       case 'emptySet': return '∅';
+      case 'funcAppMulti': {
+        const fn = functions.get(e.funcId);
+        return `${fn?.name || '?'}(${e.args.map(renderExprSimple).join(', ')})`;
+      }
+      case 'singleton': return `{${renderExprSimple(e.element)}}`;
+      case 'union': return `${renderExprSimple(e.left)} ∪ ${renderExprSimple(e.right)}`;
+      case 'intersect': return `${renderExprSimple(e.left)} ∩ ${renderExprSimple(e.right)}`;
+      case 'diff': return `${renderExprSimple(e.left)} \\ ${renderExprSimple(e.right)}`;
+      case 'if': return `if … then ${renderExprSimple(e.then)} else ${renderExprSimple(e.else)}`;
     }
   };
 
@@ -0,0 +1,105 @@
+import { useMemo, useRef, useState } from 'react';
+import { useStore } from '../store/useStore';
+import { printDefinitions } from '../dsl/printer';
+import { parseDefinitions } from '../dsl/parser';
+import type { DslParseError } from '../dsl/parser';
+import './SourcePanel.css';
+
+/**
+ * Text editor for the whole language definition. Shows the workspace in the
+ * definition language; applying the text replaces the workspace.
+ */
+export function SourcePanel() {
+  const sorts = useStore(state => state.sorts);
+  const constructors = useStore(state => state.constructors);
+  const judgments = useStore(state => state.judgments);
+  const rules = useStore(state => state.rules);
+  const metaVariables = useStore(state => state.metaVariables);
+  const recursiveFunctions = useStore(state => state.recursiveFunctions);
+  const properties = useStore(state => state.properties);
+  const proofs = useStore(state => state.proofs);
+  const loadWorkspace = useStore(state => state.loadWorkspace);
+
+  // null while the editor shows the workspace unchanged
+  const [draft, setDraft] = useState<string | null>(null);
+  const [error, setError] = useState<DslParseError | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const printed = useMemo(
+    () => printDefinitions({ sorts, constructors, judgments, rules, metaVariables, recursiveFunctions, properties, proofs }),
+    [sorts, constructors, judgments, rules, metaVariables, recursiveFunctions, properties, proofs]
+  );
+  const text = draft ?? printed;
+
+  const handleApply = () => {
+    const result = parseDefinitions(text, useStore.getState());
+    if (!result.success) {
+      setError(result.error);
+      return;
+    }
+    setError(null);
+    setDraft(null);
+    loadWorkspace(result.data);
+  };
+
+  const handleRevert = () => {
+    setDraft(null);
+    setError(null);
+  };
+
+  const jumpToError = () => {
+    const textarea = textareaRef.current;
+    if (!textarea || !error) return;
+    const lines = text.split('\n');
+    const offset = lines.slice(0, error.line - 1).reduce((sum, l) => sum + l.length + 1, 0) + error.column - 1;
+    textarea.focus();
+    textarea.setSelectionRange(offset, offset);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      handleApply();
+    } else if (e.key === 'Tab') {
+      // Indent instead of leaving the editor
+      e.preventDefault();
+      const textarea = e.currentTarget;
+      const { selectionStart, selectionEnd } = textarea;
+      setDraft(text.slice(0, selectionStart) + '  ' + text.slice(selectionEnd));
+      requestAnimationFrame(() => textarea.setSelectionRange(selectionStart + 2, selectionStart + 2));
+    }
+  };
+
+  return (
+    <div className="source-panel">
+      <div className="source-toolbar">
+        <div className="source-title">
+          <span className="source-heading">Definition Source</span>
+          <span className="source-status">{draft === null ? 'In sync with workspace' : 'Edited — not applied'}</span>
+        </div>
+        <div className="source-actions">
+          <button className="source-btn" onClick={handleRevert} disabled={draft === null}>
+            Revert
+          </button>
+          <button className="source-btn primary" onClick={handleApply} disabled={draft === null} title="Ctrl+Enter">
+            Apply
+          </button>
+        </div>
+      </div>
+      {error && (
+        <button className="source-error" onClick={jumpToError}>
+          <span className="source-error-location">Line {error.line}, column {error.column}</span>
+          <span>{error.message}</span>
+        </button>
+      )}
+      <textarea
+        ref={textareaRef}
+        className="source-editor"
+        value={text}
+        spellCheck={false}
+        onChange={e => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+      />
+    </div>
+  );
+}
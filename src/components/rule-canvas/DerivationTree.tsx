@@ -1,11 +1,12 @@
 import { generateDefaultSeparators } from '../../types/syntax';
-import type { Derivation, Term } from '../../types/syntax';
+import type { Derivation, Term, CheckedSideCondition } from '../../types/syntax';
 
 interface DerivationTreeProps {
   derivation: Derivation;
   judgments: Map<string, { name: string; symbol: string; separators?: string[] }>;
   constructors: Map<string, { name: string }>;
   renderTermString: (term: Term) => string;
+  renderSideCondition: (checked: CheckedSideCondition) => { text: string; value: string };
 }
 
 export function DerivationTree({
@@ -13,6 +14,7 @@ export function DerivationTree({
   judgments,
   constructors,
   renderTermString,
+  renderSideCondition,
 }: DerivationTreeProps) {
   const judgment = judgments.get(derivation.conclusion.judgmentId);
   if (!judgment) return null;
@@ -25,7 +27,7 @@ export function DerivationTree({
 
   return (
     <div className="derivation-node">
-      {derivation.premises.length > 0 && (
+      {(derivation.premises.length > 0 || derivation.sideConditions.length > 0) && (
         <div className="derivation-premises">
           {derivation.premises.map((premise, i) => (
             <DerivationTree
@@ -34,8 +36,18 @@ export function DerivationTree({
               judgments={judgments}
               constructors={constructors}
               renderTermString={renderTermString}
+              renderSideCondition={renderSideCondition}
             />
           ))}
+          {derivation.sideConditions.map(checked => {
+            const { text, value } = renderSideCondition(checked);
+            return (
+              <div key={checked.conditionId} className="derivation-side-condition" title={`Evaluated to ${value}`}>
+                <span className="side-condition-check">✓</span>
+                <span className="side-condition-text">{text}</span>
+              </div>
+            );
+          })}
         </div>
       )}
       <div className="derivation-inference">
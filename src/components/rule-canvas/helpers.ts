@@ -1,25 +1,11 @@
-import type { Pattern, JudgmentInstance, Term, InferenceRule, Constructor } from '../../types/syntax';
-import { uuidv4 } from '../../utils/uuid';
-
-// Check if a pattern is complete (has no empty placeholders)
-export function isPatternComplete(pattern: Pattern): boolean {
-  if (!pattern.constructorId && !pattern.metaVariableId) {
-    return false;
-  }
-  return pattern.args.every(isPatternComplete);
-}
-
-// Check if a judgment instance is complete
-export function isJudgmentInstanceComplete(instance: JudgmentInstance): boolean {
-  return instance.args.every(isPatternComplete);
-}
-
-// Check if an entire rule is complete
-export function isRuleComplete(rule: InferenceRule): boolean {
-  const conclusionComplete = isJudgmentInstanceComplete(rule.conclusion);
-  const premisesComplete = rule.premises.every(isJudgmentInstanceComplete);
-  return conclusionComplete && premisesComplete;
-}
+import type {
+  Term,
+  Constructor,
+  CheckedSideCondition,
+  RecursiveFunc,
+  FuncValue,
+} from '../../types/syntax';
+import { renderFuncExpr } from '../../types/syntax';
 
 // Check if a term is complete (no null placeholders)
 export function isTermComplete(term: Term | null): boolean {
@@ -27,70 +13,6 @@ export function isTermComplete(term: Term | null): boolean {
   return term.args.every(arg => isTermComplete(arg));
 }
 
-// Compare two terms structurally (ignoring unique IDs)
-export function termsEqual(t1: Term, t2: Term): boolean {
-  // Handle atom terms
-  if (t1.isVariable || t2.isVariable) {
-    return t1.isVariable === t2.isVariable && t1.variableName === t2.variableName;
-  }
-  if (t1.constructorId !== t2.constructorId) return false;
-  if (t1.args.length !== t2.args.length) return false;
-  return t1.args.every((arg, i) => termsEqual(arg, t2.args[i]));
-}
-
-// Check if a term matches a pattern (returns bindings or null)
-export function matchPattern(term: Term, pattern: Pattern): Map<string, Term> | null {
-  if (pattern.metaVariableId) {
-    const bindings = new Map<string, Term>();
-    bindings.set(pattern.metaVariableId, term);
-    return bindings;
-  }
-  
-  if (pattern.constructorId) {
-    // Atom terms don't have a constructorId
-    if (term.isVariable) return null;
-    if (term.constructorId !== pattern.constructorId) return null;
-    if (term.args.length !== pattern.args.length) return null;
-    
-    const allBindings = new Map<string, Term>();
-    for (let i = 0; i < pattern.args.length; i++) {
-      const argBindings = matchPattern(term.args[i], pattern.args[i]);
-      if (!argBindings) return null;
-      for (const [key, value] of argBindings) {
-        if (allBindings.has(key)) {
-          const existing = allBindings.get(key)!;
-          if (!termsEqual(existing, value)) return null;
-        }
-        allBindings.set(key, value);
-      }
-    }
-    return allBindings;
-  }
-  
-  return null;
-}
-
-// Substitute meta-variables in a pattern to get a term
-export function substitutePattern(pattern: Pattern, bindings: Map<string, Term>): Term | null {
-  if (pattern.metaVariableId) {
-    return bindings.get(pattern.metaVariableId) || null;
-  }
-  if (pattern.constructorId) {
-    const args: Term[] = [];
-    for (const argPattern of pattern.args) {
-      const argTerm = substitutePattern(argPattern, bindings);
-      if (!argTerm) return null;
-      args.push(argTerm);
-    }
-    return {
-      id: uuidv4(),
-      constructorId: pattern.constructorId,
-      args,
-    };
-  }
-  return null;
-}
-
 // Render a term as a string
 export function renderTermString(
   term: Term,
@@ -110,4 +32,32 @@ export function renderTermString(
   return `${constructor.name}(${term.args.map(arg => renderTermString(arg, constructors)).join(', ')})`;
 }
 
+// Render a function result (number, atom set or term)
+export function renderFuncValue(value: FuncValue, constructors: Map<string, Constructor>): string {
+  if (typeof value === 'number') return value.toString();
+  if (value instanceof Set) return value.size === 0 ? '∅' : `{${[...value].join(', ')}}`;
+  return renderTermString(value, constructors);
+}
 
+// Render a checked side condition with its instantiated terms
+export function renderCheckedSideCondition(
+  checked: CheckedSideCondition,
+  functions: Map<string, RecursiveFunc>,
+  constructors: Map<string, Constructor>
+): string {
+  const pred = checked.predicate;
+  const call = `${functions.get(pred.funcId)?.name || '?'}(${renderTermString(checked.arg, constructors)})`;
+  const element = checked.element ? renderTermString(checked.element, constructors) : '?';
+  switch (pred.kind) {
+    case 'eq': return `${call} = ${renderFuncExpr(pred.value, functions, constructors)}`;
+    case 'neq': return `${call} ≠ ${renderFuncExpr(pred.value, functions, constructors)}`;
+    case 'lt': return `${call} < ${renderFuncExpr(pred.value, functions, constructors)}`;
+    case 'leq': return `${call} ≤ ${renderFuncExpr(pred.value, functions, constructors)}`;
+    case 'gt': return `${call} > ${renderFuncExpr(pred.value, functions, constructors)}`;
+    case 'geq': return `${call} ≥ ${renderFuncExpr(pred.value, functions, constructors)}`;
+    case 'isEmpty': return `${call} = ∅`;
+    case 'notEmpty': return `${call} ≠ ∅`;
+    case 'in': return `${element} ∈ ${call}`;
+    case 'notIn': return `${element} ∉ ${call}`;
+  }
+}
@@ -3,18 +3,20 @@ import { useStore } from '../../store/useStore';
 import { DndContext } from '@dnd-kit/core';
 import type { DragEndEvent } from '@dnd-kit/core';
 import { generateDefaultSeparators, analyzesSyntaxDirected } from '../../types/syntax';
-import type { Pattern, Term, Derivation, RuleFuncPredicate, FuncExpr } from '../../types/syntax';
+import type { Pattern, Term, Derivation, RuleFuncPredicate, FuncExpr, CheckedSideCondition, JudgmentArg } from '../../types/syntax';
 import { uuidv4 } from '../../utils/uuid';
+import { searchDerivation, DEFAULT_SEARCH_OPTIONS } from '../../engine/search';
+import type { SearchOptions, SearchStrategy } from '../../engine/search';
+import { isRuleComplete, unboundSideConditions } from '../../engine/patterns';
+import { enumerateTerms, termDepth } from '../../engine/enumerate';
 
 import { DraggableRule } from './DraggableRule';
 import { PatternEditor } from './PatternEditor';
 import { DerivationTree } from './DerivationTree';
 import { 
-  isRuleComplete,
   isTermComplete,
-  termsEqual, 
-  matchPattern, 
-  substitutePattern,
+  renderCheckedSideCondition,
+  renderFuncValue,
   renderTermString as renderTermStringHelper 
 } from './helpers';
 import { TermBuilder } from './TermBuilder';
@@ -59,6 +61,7 @@ export function RuleCanvas() {
   const [activeTab, setActiveTab] = useState<'rules' | 'examples' | 'derivation'>('rules');
   const [derivationInputs, setDerivationInputs] = useState<(Term | null)[]>([]);
   const [derivationResult, setDerivationResult] = useState<{ success: boolean; derivation?: Derivation; error?: string } | null>(null);
+  const [searchOptions, setSearchOptions] = useState<SearchOptions>(DEFAULT_SEARCH_OPTIONS);
   const [exampleSeed, setExampleSeed] = useState(0);
   
   // Available functions for side conditions
@@ -66,9 +69,12 @@ export function RuleCanvas() {
 
   const selectedJudgment = selectedJudgmentId ? judgments.get(selectedJudgmentId) : null;
   const allJudgments = Array.from(judgments.values());
-  const selectedRules = selectedJudgmentId
-    ? Array.from(rules.values()).filter(r => r.conclusion.judgmentId === selectedJudgmentId)
-    : [];
+  const selectedRules = useMemo(
+    () => selectedJudgmentId
+      ? Array.from(rules.values()).filter(r => r.conclusion.judgmentId === selectedJudgmentId)
+      : [],
+    [rules, selectedJudgmentId]
+  );
 
   const syntaxAnalysis = useMemo(() => {
     if (!selectedJudgment || selectedRules.length === 0) return null;
@@ -138,282 +144,52 @@ export function RuleCanvas() {
   }, [constructors]);
 
   // Derivation logic
-  const getRulesForJudgment = useCallback((judgmentId: string) => {
-    return Array.from(rules.values()).filter(r => 
-      r.conclusion.judgmentId === judgmentId && isRuleComplete(r)
-    );
-  }, [rules]);
+  const renderSideCondition = useCallback((checked: CheckedSideCondition) => ({
+    text: renderCheckedSideCondition(checked, recursiveFunctions, constructors),
+    value: renderFuncValue(checked.value, constructors),
+  }), [recursiveFunctions, constructors]);
 
-  const canDerive = useCallback((judgmentId: string, terms: Term[], depth: number = 0): { derivable: boolean; ruleName?: string } => {
-    if (depth > 5) return { derivable: false };
-    
-    const rulesForJudgment = getRulesForJudgment(judgmentId);
-    
-    for (const rule of rulesForJudgment) {
-      const conclusion = rule.conclusion;
-      if (conclusion.args.length !== terms.length) continue;
-      
-      let allMatch = true;
-      const allBindings = new Map<string, Term>();
-      
-      for (let i = 0; i < terms.length; i++) {
-        const bindings = matchPattern(terms[i], conclusion.args[i]);
-        if (!bindings) {
-          allMatch = false;
-          break;
-        }
-        for (const [key, value] of bindings) {
-          if (allBindings.has(key)) {
-            const existing = allBindings.get(key)!;
-            if (!termsEqual(existing, value)) {
-              allMatch = false;
-              break;
-            }
-          }
-          allBindings.set(key, value);
-        }
-        if (!allMatch) break;
-      }
-      
-      if (!allMatch) continue;
-      
-      let premisesSatisfied = true;
-      for (const premise of rule.premises) {
-        const premiseTerms: Term[] = [];
-        for (const argPattern of premise.args) {
-          const term = substitutePattern(argPattern, allBindings);
-          if (!term) {
-            premisesSatisfied = false;
-            break;
-          }
-          premiseTerms.push(term);
-        }
-        
-        if (!premisesSatisfied) break;
-        
-        const { derivable } = canDerive(premise.judgmentId, premiseTerms, depth + 1);
-        if (!derivable) {
-          premisesSatisfied = false;
-          break;
-        }
-      }
-      
-      if (premisesSatisfied) {
-        return { derivable: true, ruleName: rule.name };
-      }
-    }
-    
-    return { derivable: false };
-  }, [getRulesForJudgment]);
-
-  const buildDerivation = useCallback((judgmentId: string, terms: Term[], depth: number = 0): Derivation | null => {
-    if (depth > 10) return null;
-    
-    const rulesForJudgment = getRulesForJudgment(judgmentId);
-    
-    for (const rule of rulesForJudgment) {
-      const conclusion = rule.conclusion;
-      if (conclusion.args.length !== terms.length) continue;
-      
-      let allMatch = true;
-      const allBindings = new Map<string, Term>();
-      
-      for (let i = 0; i < terms.length; i++) {
-        const bindings = matchPattern(terms[i], conclusion.args[i]);
-        if (!bindings) {
-          allMatch = false;
-          break;
-        }
-        for (const [key, value] of bindings) {
-          if (allBindings.has(key)) {
-            const existing = allBindings.get(key)!;
-            if (!termsEqual(existing, value)) {
-              allMatch = false;
-              break;
-            }
-          }
-          allBindings.set(key, value);
-        }
-        if (!allMatch) break;
-      }
-      
-      if (!allMatch) continue;
-      
-      const premiseDerivations: Derivation[] = [];
-      let premisesSatisfied = true;
-      
-      for (const premise of rule.premises) {
-        const premiseTerms: Term[] = [];
-        for (const argPattern of premise.args) {
-          const term = substitutePattern(argPattern, allBindings);
-          if (!term) {
-            premisesSatisfied = false;
-            break;
-          }
-          premiseTerms.push(term);
-        }
-        
-        if (!premisesSatisfied) break;
-        
-        const premiseDerivation = buildDerivation(premise.judgmentId, premiseTerms, depth + 1);
-        if (!premiseDerivation) {
-          premisesSatisfied = false;
-          break;
-        }
-        premiseDerivations.push(premiseDerivation);
-      }
-      
-      if (premisesSatisfied) {
-        return {
-          ruleName: rule.name,
-          ruleId: rule.id,
-          conclusion: { judgmentId, terms },
-          premises: premiseDerivations,
-        };
-      }
-    }
-    
-    return null;
-  }, [getRulesForJudgment]);
+  const searchContext = useMemo(
+    () => ({ rules, recursiveFunctions, constructors, metaVariables }),
+    [rules, recursiveFunctions, constructors, metaVariables]
+  );
 
   const tryDerive = useCallback(() => {
     if (!selectedJudgment || !selectedJudgmentId) return;
     
-    if (derivationInputs.some(t => t === null)) {
-      setDerivationResult({ success: false, error: 'Please fill in all terms' });
+    // Outputs are left open for the search to compute
+    const args = derivationInputs.map((t, i) => selectedJudgment.argSorts[i]?.mode === 'out' ? null : t);
+    if (args.some((t, i) => t === null && selectedJudgment.argSorts[i]?.mode !== 'out')) {
+      setDerivationResult({ success: false, error: 'Please fill in all input terms' });
       return;
     }
     
-    const terms = derivationInputs as Term[];
-    const derivation = buildDerivation(selectedJudgmentId, terms);
+    const result = searchDerivation(searchContext, selectedJudgmentId, args, searchOptions);
     
-    if (derivation) {
-      setDerivationResult({ success: true, derivation });
-    } else {
-      setDerivationResult({ success: false, error: 'No derivation found' });
+    switch (result.status) {
+      case 'found':
+        setDerivationResult({ success: true, derivation: result.derivation });
+        break;
+      case 'notDerivable':
+        setDerivationResult({ success: false, error: 'No derivation exists' });
+        break;
+      case 'depthLimit':
+        setDerivationResult({ success: false, error: `No derivation found within depth ${searchOptions.maxDepth}` });
+        break;
+      case 'budgetExhausted':
+        setDerivationResult({ success: false, error: `Search stopped after ${result.steps} steps` });
+        break;
     }
-  }, [selectedJudgment, selectedJudgmentId, derivationInputs, buildDerivation]);
-
-  // Helper to convert number to subscript
-  const toSubscript = (n: number): string => {
-    const subscripts = ['₀', '₁', '₂', '₃', '₄', '₅', '₆', '₇', '₈', '₉'];
-    return n.toString().split('').map(d => subscripts[parseInt(d)]).join('');
-  };
-
-  // Term enumeration
-  const enumerateTerms = useCallback((sortId: string, maxDepth: number): Term[] => {
-    const sort = sorts.get(sortId);
-    
-    // Handle atom sorts - generate a few atom instances
-    if (sort?.kind === 'atom') {
-      const prefix = sort.atomPrefix || sort.name.toLowerCase().charAt(0);
-      const atoms: Term[] = [];
-      for (let i = 1; i <= 5; i++) {
-        atoms.push({
-          id: uuidv4(),
-          constructorId: '',
-          args: [],
-          isVariable: true,
-          variableName: `${prefix}${toSubscript(i)}`,
-        });
-      }
-      return atoms;
-    }
-
-    // Handle inductive sorts
-    const sortConstructors = Array.from(constructors.values()).filter(c => c.sortId === sortId);
-    if (sortConstructors.length === 0) return [];
-    
-    const seen = new Set<string>();
-    const result: Term[] = [];
-    const termsByDepth: Map<string, Term[][]> = new Map();
-    
-    const getTermsAtDepth = (sid: string, depth: number): Term[] => {
-      const s = sorts.get(sid);
-      
-      // Handle atom sorts at any depth
-      if (s?.kind === 'atom') {
-        const prefix = s.atomPrefix || s.name.toLowerCase().charAt(0);
-        const atoms: Term[] = [];
-        // Generate fewer atoms for nested positions
-        for (let i = 1; i <= 3; i++) {
-          atoms.push({
-            id: uuidv4(),
-            constructorId: '',
-            args: [],
-            isVariable: true,
-            variableName: `${prefix}${toSubscript(i)}`,
-          });
-        }
-        return atoms;
-      }
-
-      if (!termsByDepth.has(sid)) termsByDepth.set(sid, []);
-      const depthArray = termsByDepth.get(sid)!;
-      if (depthArray[depth] !== undefined) return depthArray[depth];
-      
-      const terms: Term[] = [];
-      const sConstructors = Array.from(constructors.values()).filter(c => c.sortId === sid);
-      
-      for (const constructor of sConstructors) {
-        if (constructor.args.length === 0) {
-          if (depth === 0) {
-            terms.push({ id: uuidv4(), constructorId: constructor.id, args: [] });
-          }
-        } else if (depth > 0) {
-          const argTermArrays: Term[][] = constructor.args.map(arg => {
-            const subTerms: Term[] = [];
-            for (let d = 0; d < depth; d++) {
-              subTerms.push(...getTermsAtDepth(arg.sortId, d));
-            }
-            return subTerms;
-          });
-          
-          const generateCombinations = (index: number, current: Term[]): void => {
-            if (terms.length > 30) return;
-            if (index === argTermArrays.length) {
-              terms.push({ id: uuidv4(), constructorId: constructor.id, args: [...current] });
-              return;
-            }
-            for (const term of argTermArrays[index].slice(0, 8)) {
-              generateCombinations(index + 1, [...current, term]);
-            }
-          };
-          
-          if (argTermArrays.every(arr => arr.length > 0)) {
-            generateCombinations(0, []);
-          }
-        }
-      }
-      
-      depthArray[depth] = terms;
-      return terms;
-    };
-    
-    for (let d = 0; d <= maxDepth; d++) {
-      for (const term of getTermsAtDepth(sortId, d)) {
-        const str = renderTermString(term);
-        if (!seen.has(str)) {
-          seen.add(str);
-          result.push(term);
-        }
-      }
-    }
-    
-    return result;
-  }, [constructors, renderTermString]);
+  }, [selectedJudgment, selectedJudgmentId, derivationInputs, searchContext, searchOptions]);
 
   // Examples computation
-  const getTermDepth = (term: Term): number => {
-    if (term.args.length === 0) return 0;
-    return 1 + Math.max(...term.args.map(getTermDepth));
-  };
-
   const matchesAnyRule = useCallback((terms: Term[]): { matches: boolean; ruleName?: string } => {
     if (!selectedJudgmentId) return { matches: false };
-    const { derivable, ruleName } = canDerive(selectedJudgmentId, terms);
-    return { matches: derivable, ruleName };
-  }, [selectedJudgmentId, canDerive]);
+    const result = searchDerivation(searchContext, selectedJudgmentId, terms, { strategy: 'dfs', maxDepth: 5 });
+    return result.status === 'found'
+      ? { matches: true, ruleName: result.derivation.ruleName }
+      : { matches: false };
+  }, [selectedJudgmentId, searchContext]);
 
   const examples = useMemo(() => {
     if (!selectedJudgment || selectedRules.length === 0) return { positive: [], negative: [] };
@@ -424,7 +200,13 @@ export function RuleCanvas() {
     const maxExamples = 4;
     
     const argTermArrays: Term[][] = selectedJudgment.argSorts.map(
-      argSort => enumerateTerms(argSort.sortId, maxDepth)
+      // A sample of each depth, drawn anew for each seed; atom arguments get a few more names
+      argSort => enumerateTerms(argSort.sortId, constructors, sorts, maxDepth, {
+        atoms: sorts.get(argSort.sortId)?.kind === 'atom' ? 5 : 3,
+        perDepth: 30,
+        perArgument: 8,
+        seed: exampleSeed,
+      })
     );
     
     if (argTermArrays.some(arr => arr.length === 0)) {
@@ -445,7 +227,7 @@ export function RuleCanvas() {
         }
       }
     } else {
-      const termSizes = argTermArrays.map(arr => arr.map(t => getTermDepth(t)));
+      const termSizes = argTermArrays.map(arr => arr.map(termDepth));
       const seen = new Set<string>();
       
       for (let totalSize = 0; totalSize <= maxDepth * argTermArrays.length; totalSize++) {
@@ -486,7 +268,7 @@ export function RuleCanvas() {
     }
     
     return { positive, negative };
-  }, [selectedJudgment, selectedRules, enumerateTerms, matchesAnyRule, renderTermString, exampleSeed]);
+  }, [selectedJudgment, selectedRules, constructors, sorts, matchesAnyRule, renderTermString, exampleSeed]);
 
   const satisfyingExamples = examples.positive;
   const nonSatisfyingExamples = examples.negative;
@@ -649,7 +431,7 @@ export function RuleCanvas() {
   };
 
   const renderJudgmentDisplay = (
-    judgment: { separators?: string[]; symbol: string; argSorts: { sortId: string; label: string }[] },
+    judgment: { separators?: string[]; symbol: string; argSorts: JudgmentArg[] },
     ruleId: string,
     instanceId: string,
     args: Pattern[]
@@ -674,15 +456,23 @@ export function RuleCanvas() {
     if (!judgment) return null;
 
     const complete = isRuleComplete(rule);
+    const illFormed = complete && unboundSideConditions(rule).length > 0;
 
     return (
-      <div className={`inference-rule ${complete ? 'complete' : 'incomplete'}`}>
+      <div className={`inference-rule ${complete && !illFormed ? 'complete' : 'incomplete'}`}>
         <div className="rule-header">
           <span className="rule-name">{rule.name}</span>
-          {complete ? (
-            <span className="rule-status complete" title="Rule is complete">✓</span>
-          ) : (
+          {!complete ? (
             <span className="rule-status incomplete" title="Rule has empty patterns">⚠</span>
+          ) : illFormed ? (
+            <span
+              className="rule-status incomplete"
+              title="A side condition mentions a meta-variable that no premise or the conclusion binds; derivation search skips this rule"
+            >
+              ⚠
+            </span>
+          ) : (
+            <span className="rule-status complete" title="Rule is complete">✓</span>
           )}
         </div>
 
@@ -1156,6 +946,11 @@ export function RuleCanvas() {
                 <h4>Derivation Unavailable</h4>
                 <p>Derivation mode requires syntax-directed rules.</p>
                 <span className="hint">Rules have overlapping patterns - multiple rules can match the same input.</span>
+                {syntaxAnalysis?.overlaps.map(overlap => (
+                  <span key={`${overlap.rule1Id}-${overlap.rule2Id}`} className="hint overlap-description">
+                    {overlap.description}
+                  </span>
+                ))}
               </div>
             ) : (
               <div className="derivation-form">
@@ -1164,24 +959,36 @@ export function RuleCanvas() {
                   <div className="derivation-judgment-builder">
                     {selectedJudgment.argSorts.map((argSort, i) => {
                       const isComplete = derivationInputs[i] !== null && isTermComplete(derivationInputs[i]);
+                      const computed = derivationResult?.derivation?.conclusion.terms[i];
                       
                       return (
                         <div key={i} className="derivation-arg-slot">
                           {selectedJudgment.separators?.[i] && (
                             <span className="derivation-sep">{selectedJudgment.separators[i]}</span>
                           )}
-                          <div className={`derivation-term-slot ${isComplete ? 'complete' : ''}`}>
-                            <TermBuilder
-                              sortId={argSort.sortId}
-                              value={derivationInputs[i]}
-                              onChange={(term) => {
-                                const newInputs = [...derivationInputs];
-                                newInputs[i] = term;
-                                setDerivationInputs(newInputs);
-                                setDerivationResult(null);
-                              }}
-                            />
-                          </div>
+                          {argSort.mode === 'out' ? (
+                            <div
+                              className={`derivation-term-slot output ${computed ? 'complete' : ''}`}
+                              title="Output: computed by the derivation"
+                            >
+                              <span className="derivation-output font-mono">
+                                {computed ? renderTermString(computed) : argSort.label || '?'}
+                              </span>
+                            </div>
+                          ) : (
+                            <div className={`derivation-term-slot ${isComplete ? 'complete' : ''}`}>
+                              <TermBuilder
+                                sortId={argSort.sortId}
+                                value={derivationInputs[i]}
+                                onChange={(term) => {
+                                  const newInputs = [...derivationInputs];
+                                  newInputs[i] = term;
+                                  setDerivationInputs(newInputs);
+                                  setDerivationResult(null);
+                                }}
+                              />
+                            </div>
+                          )}
                           {i === selectedJudgment.argSorts.length - 1 && selectedJudgment.separators?.[i + 1] && (
                             <span className="derivation-sep">{selectedJudgment.separators[i + 1]}</span>
                           )}
@@ -1189,10 +996,45 @@ export function RuleCanvas() {
                       );
                     })}
                   </div>
+                  <div className="derivation-options">
+                    <label>
+                      Strategy
+                      <select
+                        value={searchOptions.strategy}
+                        onChange={(e) => setSearchOptions({ ...searchOptions, strategy: e.target.value as SearchStrategy })}
+                      >
+                        <option value="dfs">Depth-first</option>
+                        <option value="iterativeDeepening">Iterative deepening</option>
+                        <option value="bfs">Breadth-first</option>
+                      </select>
+                    </label>
+                    <label>
+                      Max depth
+                      <input
+                        type="number"
+                        min={0}
+                        max={50}
+                        value={searchOptions.maxDepth}
+                        onChange={(e) => setSearchOptions({ ...searchOptions, maxDepth: Math.max(0, parseInt(e.target.value) || 0) })}
+                      />
+                    </label>
+                    <label>
+                      Step budget
+                      <input
+                        type="number"
+                        min={1}
+                        step={1000}
+                        value={searchOptions.maxSteps}
+                        onChange={(e) => setSearchOptions({ ...searchOptions, maxSteps: Math.max(1, parseInt(e.target.value) || 1) })}
+                      />
+                    </label>
+                  </div>
                   <button 
                     className="btn btn-primary derive-btn"
                     onClick={tryDerive}
-                    disabled={derivationInputs.some(t => t === null || !isTermComplete(t))}
+                    disabled={derivationInputs.some((t, i) =>
+                      selectedJudgment.argSorts[i]?.mode !== 'out' && (t === null || !isTermComplete(t))
+                    )}
                   >
                     <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
                       <path d="M5 12h14" />
@@ -1211,6 +1053,7 @@ export function RuleCanvas() {
                           judgments={judgments}
                           constructors={constructors}
                           renderTermString={renderTermString}
+                          renderSideCondition={renderSideCondition}
                         />
                       </div>
                     ) : (
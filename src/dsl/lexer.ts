@@ -0,0 +1,178 @@
+// ============================================================================
+// Definition Language - Tokens
+// ============================================================================
+
+export type TokenKind = 'ident' | 'string' | 'number' | 'symbol' | 'bar' | 'eof';
+
+export type Token = {
+  kind: TokenKind;
+  text: string;       // Identifier name, string contents, digits or the symbol itself
+  line: number;       // 1-based
+  column: number;     // 1-based
+  newlineBefore: boolean; // First token on its line
+};
+
+/**
+ * A syntax or name-resolution error at a position in the source
+ */
+export class DslError extends Error {
+  line: number;
+  column: number;
+
+  constructor(message: string, line: number, column: number) {
+    super(message);
+    this.name = 'DslError';
+    this.line = line;
+    this.column = column;
+  }
+}
+
+/**
+ * Declaration keywords and other reserved words. Names that collide with
+ * these must be written as strings ("true").
+ */
+export const KEYWORDS = new Set([
+  'sort', 'atom', 'metavar', 'function', 'judgment', 'rule', 'property', 'proof',
+  'if', 'then', 'else', 'forall', 'exists', 'true', 'false',
+]);
+
+/**
+ * Keywords that start a top-level declaration
+ */
+export const DECLARATION_KEYWORDS = new Set([
+  'sort', 'atom', 'metavar', 'function', 'judgment', 'rule', 'property', 'proof',
+]);
+
+// Longest first, so "::=" wins over ":"
+const MULTI_CHAR_SYMBOLS = ['::=', '=/=', '->', '=>', '<=', '>=', '!=', '==', '&&', '||'];
+
+const IDENT_START = /[\p{L}_]/u;
+const IDENT_PART = /[\p{L}\p{N}_'′]/u;
+
+export function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+  let line = 1;
+  let column = 1;
+  let newlineBefore = true;
+
+  const advance = (count: number) => {
+    for (let i = 0; i < count; i++) {
+      if (source[pos] === '\n') {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+      pos++;
+    }
+  };
+
+  const push = (kind: TokenKind, text: string, length: number) => {
+    tokens.push({ kind, text, line, column, newlineBefore });
+    newlineBefore = false;
+    advance(length);
+  };
+
+  while (pos < source.length) {
+    const ch = source[pos];
+
+    if (ch === '\n') {
+      newlineBefore = true;
+      advance(1);
+      continue;
+    }
+    if (/\s/.test(ch)) {
+      advance(1);
+      continue;
+    }
+    // Line comments
+    if (source.startsWith('//', pos)) {
+      while (pos < source.length && source[pos] !== '\n') advance(1);
+      continue;
+    }
+
+    // Inference bar: three or more dashes
+    const bar = source.slice(pos).match(/^-{3,}/);
+    if (bar) {
+      push('bar', bar[0], bar[0].length);
+      continue;
+    }
+
+    if (ch === '"') {
+      let end = pos + 1;
+      let text = '';
+      while (end < source.length && source[end] !== '"') {
+        if (source[end] === '\n') break;
+        if (source[end] === '\\' && end + 1 < source.length) {
+          text += source[end + 1];
+          end += 2;
+        } else {
+          text += source[end];
+          end++;
+        }
+      }
+      if (source[end] !== '"') {
+        throw new DslError('Unterminated string', line, column);
+      }
+      push('string', text, end + 1 - pos);
+      continue;
+    }
+
+    if (/[0-9]/.test(ch)) {
+      const digits = source.slice(pos).match(/^[0-9]+/)![0];
+      push('number', digits, digits.length);
+      continue;
+    }
+
+    // Identifiers may contain any letters (Γ, τ, ℕ), digits, subscripts and primes
+    const codePoint = source.codePointAt(pos)!;
+    const char = String.fromCodePoint(codePoint);
+    if (IDENT_START.test(char)) {
+      let end = pos + char.length;
+      while (end < source.length) {
+        const next = String.fromCodePoint(source.codePointAt(end)!);
+        if (!IDENT_PART.test(next)) break;
+        end += next.length;
+      }
+      push('ident', source.slice(pos, end), end - pos);
+      continue;
+    }
+
+    const multi = MULTI_CHAR_SYMBOLS.find(s => source.startsWith(s, pos));
+    if (multi) {
+      push('symbol', multi, multi.length);
+      continue;
+    }
+
+    push('symbol', char, char.length);
+  }
+
+  tokens.push({ kind: 'eof', text: '', line, column, newlineBefore: true });
+  return tokens;
+}
+
+/**
+ * Tokens of a judgment separator (e.g. " ⊢ " or " even"), used to match
+ * judgment instances written in their mixfix notation
+ */
+export function separatorTokens(separator: string): Token[] {
+  try {
+    return tokenize(separator).filter(t => t.kind !== 'eof');
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Whether a name can be written without quotes
+ */
+export function isPlainIdentifier(name: string): boolean {
+  if (KEYWORDS.has(name) || name === '_') return false;
+  try {
+    const tokens = tokenize(name);
+    return tokens.length === 2 && tokens[0].kind === 'ident' && tokens[0].text === name;
+  } catch {
+    return false;
+  }
+}
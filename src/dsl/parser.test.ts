@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import { parseDefinitions, parseTacticScript } from './parser';
+import type { ScriptSentence } from './parser';
+import { printDefinitions, printProofScript } from './printer';
+import { TREES, parse, run } from '../test/workspace';
+
+const SIZES = `${TREES}property nonneg: ∀x: T. size(x) ≥ 0
+property both: ∀x: T. size(x) ≥ 0 ∧ (size(x) ≥ 0 → size(x) + 1 > 0)
+`;
+
+function script(source: string): ScriptSentence[] {
+  const parsed = parseTacticScript(source);
+  if (!parsed.success) throw new Error(parsed.error.message);
+  return parsed.script;
+}
+
+const LAMBDA = `atom Var prefix "x"
+sort Ty ::= Nat | Arrow(Ty, Ty)
+sort E ::= V(Var) | Lam(x: Var binds [body], t: Ty, body: E) | App(E, E)
+metavar e, e1, e2 : E
+function fv : E → set Var
+  | V(x) => {x}
+  | Lam(x, t, b) => fv(b) \\ {x}
+  | App(a, b) => fv(a) ∪ fv(b)
+function size : E → int
+  | V(x) => 1
+  | Lam(x, t, b) => size(b) + 1
+  | App(a, b) => size(a) + size(b) + 1
+judgment closed: (e: E) " closed"
+judgment step: (e: E) " ⟶ " (out e2: E)
+rule closed_lam:
+  if fv(Lam(x, t, e)) = ∅
+  if size(e) < 3
+  ----------------
+  Lam(x, t, e) closed
+rule step_app:
+  e1 ⟶ e2
+  ------------------------
+  App(e1, e) ⟶ App(e2, e)
+property small "Closed terms are small": ∀e: E. e closed → size(e) < 3
+`;
+
+describe('parseDefinitions', () => {
+  it('reads binders, modes and side conditions', () => {
+    const data = parse(LAMBDA);
+    const lam = Array.from(data.constructors.values()).find(c => c.name === 'Lam')!;
+    expect(lam.args[0]).toMatchObject({ isBinder: true, bindsIn: [lam.args[2].id] });
+    const step = Array.from(data.judgments.values()).find(j => j.name === 'step')!;
+    expect(step.argSorts.map(a => a.mode)).toEqual([undefined, 'out']);
+    const closed = Array.from(data.rules.values()).find(r => r.name === 'closed_lam')!;
+    expect(closed.sideConditions).toHaveLength(2);
+  });
+
+  it('reports where a definition goes wrong', () => {
+    const errorOf = (source: string) => {
+      const result = parseDefinitions(source);
+      return result.success ? null : result.error;
+    };
+    expect(errorOf('sort N ::= Z | S(M)')).toEqual({ message: "Unknown sort 'M'", line: 1, column: 18 });
+    expect(errorOf('sort N ::= Z | S(N)\nsort N ::= A')).toEqual({ message: "Sort 'N' is already defined", line: 2, column: 6 });
+    expect(errorOf('sort N ::= Z | S(N)\nfunction f : N → int\n  | Z => 0\n  | S(n) => g(n)')).toEqual({
+      message: "Unknown function or constructor 'g'", line: 4, column: 13,
+    });
+  });
+});
+
+describe('printDefinitions', () => {
+  it('prints definitions that parse back to the same text', () => {
+    const printed = printDefinitions(parse(LAMBDA));
+    expect(printed).toContain('  | Lam(x: Var binds[body], t: Ty, body: E)');
+    expect(printed).toContain('judgment step: (e: E) " ⟶ " (out e2: E)');
+    expect(printed).toContain('  if fv(Lam(x, t, e)) = ∅\n  if size(e) < 3\n');
+    expect(printed).toContain('property small "Closed terms are small": ∀e: E. e closed → size(e) < 3');
+    expect(printDefinitions(parse(printed))).toBe(printed);
+  });
+});
+
+describe('parseTacticScript', () => {
+  it('reads sentences with bullets and combinators', () => {
+    const sentences = script('intro x. induction x.\n- compute.\n- try compute; simplify.');
+    expect(sentences.map(s => s.bullet)).toEqual([null, null, '-', '-']);
+    expect(sentences[3].tactic).toMatchObject({
+      kind: 'seq',
+      first: { kind: 'try', tactic: { kind: 'atomic', name: { text: 'compute' } } },
+      next: { kind: 'atomic', name: { text: 'simplify' } },
+    });
+  });
+
+  it('rejects an unknown tactic with its position', () => {
+    const parsed = parseTacticScript('intro x.\n  frobnicate.');
+    expect(parsed.success).toBe(false);
+    if (parsed.success) return;
+    expect(parsed.error).toMatchObject({ line: 2, column: 3 });
+  });
+});
+
+describe('runTacticScript', () => {
+  const data = parse(SIZES);
+
+  it('completes a proof by running every sentence', () => {
+    const result = run(data, 'nonneg', 'intro x. induction x. - compute. - compute. simplify.');
+    expect(result).toMatchObject({ executed: 5, error: null, currentGoal: null });
+    expect(result.proof.status).toBe('complete');
+  });
+
+  it('runs at most the given number of sentences', () => {
+    const result = run(data, 'nonneg', 'intro x. induction x. - compute. - compute. simplify.', 2);
+    expect(result.executed).toBe(2);
+    expect(result.proof.openGoals).toHaveLength(2);
+    expect(result.currentGoal).toBe(result.proof.openGoals[0]);
+  });
+
+  it('stops at the first sentence that fails, keeping the proof before it', () => {
+    const result = run(data, 'nonneg', 'intro x.\nsplit.\ninduction x.');
+    expect(result.executed).toBe(1);
+    expect(result.error).toMatchObject({ line: 2 });
+    expect(result.proof.steps).toHaveLength(1);
+  });
+
+  it('focuses each bullet on the next goal and leaves the goals it skips open', () => {
+    const result = run(data, 'both', 'intro x. split.\n-\n- intro_hyp H. simplify.');
+    expect(result.error).toBeNull();
+    expect(result.proof.openGoals).toHaveLength(1);
+    const [open] = result.proof.openGoals;
+    expect(result.proof.goals.get(open)!.goal.kind).toBe('numGeq');
+  });
+
+  it('rejects a bullet without a goal left for it', () => {
+    const result = run(data, 'nonneg', 'intro x. induction x. - compute. - compute. simplify. - compute.');
+    expect(result.error?.message).toBe("No goal left for bullet '-'");
+  });
+});
+
+describe('printProofScript', () => {
+  const data = parse(SIZES);
+
+  it('prints a script that replays to the same proof', () => {
+    const { proof } = run(data, 'nonneg', 'intro x. induction x. - compute. - compute; simplify.');
+    const printed = printProofScript(proof, data);
+    expect(printed).toBe('intro x.\ninduction x.\n- compute.\n- compute; simplify.');
+    const replayed = run(data, 'nonneg', printed);
+    expect(replayed.proof.status).toBe('complete');
+    expect(replayed.proof.steps.map(s => s.tactic)).toEqual(proof.steps.map(s => s.tactic));
+  });
+
+  it('marks goals left open before a started one with a bare bullet', () => {
+    const { proof } = run(data, 'both', 'intro x. split.\n-\n- intro_hyp H. simplify.');
+    const printed = printProofScript(proof, data);
+    expect(printed).toBe('intro x.\nsplit.\n-\n- intro_hyp H.\n  simplify.');
+    expect(run(data, 'both', printed).proof.steps.map(s => s.tactic)).toEqual(proof.steps.map(s => s.tactic));
+  });
+});
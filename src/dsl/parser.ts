@@ -0,0 +1,1693 @@
+import type {
+  Sort,
+  Constructor,
+  ConstructorArg,
+  Judgment,
+  JudgmentArg,
+  InferenceRule,
+  MetaVariable,
+  Pattern,
+  JudgmentInstance,
+  SideCondition,
+  RuleFuncPredicate,
+  RecursiveFunc,
+  FuncArg,
+  FuncCase,
+  FuncExpr,
+  FuncPredicate,
+  FuncReturnType,
+  Formula,
+  FormulaCond,
+  FormulaExpr,
+  Property,
+  PropertyId,
+  SortId,
+  Proof,
+  ProofGoal,
+  GoalId,
+  Tactic,
+  TacticResult,
+} from '../types/syntax';
+import {
+  createSort,
+  createConstructor,
+  createJudgment,
+  createMetaVariable,
+  createPattern,
+  createJudgmentInstance,
+  createInferenceRule,
+  checkTermination,
+  createProof,
+  applyTactic,
+  applyCombinator,
+  applyCombinatorStep,
+  recordProofStep,
+  groupProofSteps,
+  containsAllGoals,
+  ALL_GOALS_NESTED,
+  usableLemmas,
+  DEFAULT_REPEAT_LIMIT,
+} from '../types/syntax';
+import type { WorkspaceData } from '../store/persistence';
+import { uuidv4 } from '../utils/uuid';
+import { tokenize, separatorTokens, DslError, KEYWORDS, DECLARATION_KEYWORDS, type Token } from './lexer';
+
+// ============================================================================
+// Definition Language - Parser
+// ============================================================================
+
+export type DslParseError = {
+  message: string;
+  line: number;
+  column: number;
+};
+
+export type DslParseResult =
+  | { success: true; data: WorkspaceData }
+  | { success: false; error: DslParseError };
+
+/**
+ * Parse a complete language definition.
+ *
+ * When `previous` is given, definitions are matched to it by name and keep
+ * their ids, colors and canvas positions, so proofs of properties whose
+ * statement did not change survive the round trip through the text.
+ */
+export function parseDefinitions(source: string, previous?: WorkspaceData): DslParseResult {
+  try {
+    return { success: true, data: elaborate(tokenize(source), previous) };
+  } catch (e) {
+    if (e instanceof DslError) {
+      return { success: false, error: { message: e.message, line: e.line, column: e.column } };
+    }
+    throw e;
+  }
+}
+
+// ============================================================================
+// Token Cursor
+// ============================================================================
+
+type Cursor = {
+  pos: number;
+  peek: (offset?: number) => Token;
+  next: () => Token;
+  atEnd: () => boolean;
+  /** Whether the next token is one of the given symbols/identifiers */
+  is: (...texts: string[]) => boolean;
+  accept: (...texts: string[]) => Token | null;
+  expect: (text: string, description?: string) => Token;
+  /** A name: a non-keyword identifier or a quoted string */
+  isName: () => boolean;
+  name: (what: string) => Token;
+  /** Split off the rest of the current line as its own cursor */
+  line: () => Cursor;
+  fail: (message: string, token?: Token) => never;
+};
+
+function describeToken(token: Token): string {
+  switch (token.kind) {
+    case 'eof': return 'end of declaration';
+    case 'string': return `"${token.text}"`;
+    default: return `'${token.text}'`;
+  }
+}
+
+function endOf(token: Token): Token {
+  const length = token.kind === 'string' ? token.text.length + 2 : token.text.length;
+  return { kind: 'eof', text: '', line: token.line, column: token.column + length, newlineBefore: true };
+}
+
+function createCursor(tokens: Token[]): Cursor {
+  const cursor: Cursor = {
+    pos: 0,
+    peek(offset = 0) {
+      return tokens[Math.min(cursor.pos + offset, tokens.length - 1)];
+    },
+    next() {
+      const token = cursor.peek();
+      if (token.kind !== 'eof') cursor.pos++;
+      return token;
+    },
+    atEnd() {
+      return cursor.peek().kind === 'eof';
+    },
+    is(...texts) {
+      const token = cursor.peek();
+      return token.kind !== 'string' && token.kind !== 'eof' && texts.includes(token.text);
+    },
+    accept(...texts) {
+      return cursor.is(...texts) ? cursor.next() : null;
+    },
+    expect(text, description = `'${text}'`) {
+      if (!cursor.is(text)) {
+        cursor.fail(`Expected ${description}, found ${describeToken(cursor.peek())}`);
+      }
+      return cursor.next();
+    },
+    isName() {
+      const token = cursor.peek();
+      return token.kind === 'string' || (token.kind === 'ident' && !KEYWORDS.has(token.text) && token.text !== '_');
+    },
+    name(what) {
+      if (!cursor.isName()) {
+        cursor.fail(`Expected ${what}, found ${describeToken(cursor.peek())}`);
+      }
+      return cursor.next();
+    },
+    line() {
+      const start = cursor.pos;
+      cursor.next();
+      while (!cursor.atEnd() && !cursor.peek().newlineBefore) cursor.next();
+      const lineTokens = tokens.slice(start, cursor.pos);
+      return createCursor([...lineTokens, endOf(lineTokens[lineTokens.length - 1])]);
+    },
+    fail(message, token = cursor.peek()) {
+      throw new DslError(message, token.line, token.column);
+    },
+  };
+  return cursor;
+}
+
+/**
+ * Run `parse`, rewinding the cursor and returning null if it fails
+ */
+function attempt<T>(c: Cursor, parse: () => T): T | null {
+  const start = c.pos;
+  try {
+    return parse();
+  } catch (e) {
+    if (!(e instanceof DslError)) throw e;
+    c.pos = start;
+    return null;
+  }
+}
+
+// ============================================================================
+// Declarations
+// ============================================================================
+
+type Declaration = {
+  keyword: Token;
+  cursor: Cursor;
+};
+
+function isDeclarationStart(token: Token): boolean {
+  return token.kind === 'ident' && token.newlineBefore && DECLARATION_KEYWORDS.has(token.text);
+}
+
+/**
+ * Declarations start with a keyword at the beginning of a line and run
+ * until the next one
+ */
+function splitDeclarations(tokens: Token[]): Declaration[] {
+  const declarations: Declaration[] = [];
+  let i = 0;
+  while (tokens[i].kind !== 'eof') {
+    const keyword = tokens[i];
+    if (!isDeclarationStart(keyword)) {
+      throw new DslError(
+        `Expected a declaration (sort, atom, metavar, function, judgment, rule, property or proof), found ${describeToken(keyword)}`,
+        keyword.line,
+        keyword.column
+      );
+    }
+    let j = i + 1;
+    while (tokens[j].kind !== 'eof' && !isDeclarationStart(tokens[j])) j++;
+    const body = tokens.slice(i + 1, j);
+    declarations.push({
+      keyword,
+      cursor: createCursor([...body, endOf(body.length > 0 ? body[body.length - 1] : keyword)]),
+    });
+    i = j;
+  }
+  return declarations;
+}
+
+// ============================================================================
+// Elaboration State
+// ============================================================================
+
+type JudgmentNotation = {
+  judgment: Judgment;
+  separators: Token[][];
+};
+
+type ParseState = {
+  data: WorkspaceData;
+  previous?: WorkspaceData;
+  sortsByName: Map<string, Sort>;
+  functionsByName: Map<string, RecursiveFunc>;
+  notations: JudgmentNotation[];
+};
+
+function findPrevious<T extends { name: string }>(
+  map: Map<string, T> | undefined,
+  name: string,
+  matches: (item: T) => boolean = () => true
+): T | undefined {
+  if (!map) return undefined;
+  return Array.from(map.values()).find(item => item.name === name && matches(item));
+}
+
+function resolveSort(c: Cursor, st: ParseState): Sort {
+  const token = c.name('a sort name');
+  const sort = st.sortsByName.get(token.text);
+  if (!sort) c.fail(`Unknown sort '${token.text}'`, token);
+  return sort;
+}
+
+function constructorsNamed(st: ParseState, name: string, sortId?: SortId): Constructor[] {
+  return Array.from(st.data.constructors.values())
+    .filter(ctor => ctor.name === name && (sortId === undefined || ctor.sortId === sortId));
+}
+
+function metaVariableFor(st: ParseState, name: string, sortId: SortId): MetaVariable {
+  const existing = Array.from(st.data.metaVariables.values())
+    .find(mv => mv.name === name && mv.sortId === sortId);
+  if (existing) return existing;
+
+  const mv = createMetaVariable(name, sortId);
+  const prev = findPrevious(st.previous?.metaVariables, name, m => m.sortId === sortId);
+  if (prev) mv.id = prev.id;
+  st.data.metaVariables.set(mv.id, mv);
+  return mv;
+}
+
+function elaborate(tokens: Token[], previous?: WorkspaceData): WorkspaceData {
+  const st: ParseState = {
+    data: {
+      sorts: new Map(),
+      constructors: new Map(),
+      judgments: new Map(),
+      rules: new Map(),
+      metaVariables: new Map(),
+      recursiveFunctions: new Map(),
+      properties: new Map(),
+      proofs: new Map(),
+    },
+    previous,
+    sortsByName: new Map(),
+    functionsByName: new Map(),
+    notations: [],
+  };
+  const declarations = splitDeclarations(tokens);
+  const ofKind = (...keywords: string[]) => declarations.filter(d => keywords.includes(d.keyword.text));
+
+  // Sorts first, so that constructors, judgments and functions may refer to
+  // sorts declared further down
+  const sortDecls = ofKind('sort', 'atom').map(d => ({ d, raw: parseSortDeclaration(d, st) }));
+  for (const { raw } of sortDecls) {
+    for (const ctor of raw.constructors) elaborateConstructor(ctor, raw.sort, st);
+  }
+
+  for (const d of ofKind('judgment')) parseJudgmentDeclaration(d.cursor, st);
+  for (const d of ofKind('metavar')) parseMetaVariableDeclaration(d.cursor, st);
+  const functionDecls = ofKind('function').map(d => ({ d, func: parseFunctionSignature(d.cursor, st) }));
+
+  for (const { d, func } of functionDecls) parseFunctionCases(d.cursor, func, st);
+  for (const d of ofKind('rule')) parseRuleDeclaration(d.cursor, st);
+  for (const d of ofKind('property')) parsePropertyDeclaration(d.cursor, st);
+
+  // Termination can only be judged once every function is known
+  for (const func of st.data.recursiveFunctions.values()) {
+    const result = checkTermination(func, st.data.constructors, st.data.recursiveFunctions);
+    func.terminates = result.terminates;
+    func.terminationError = result.error;
+  }
+
+  // Proofs last, as replaying them needs every definition
+  const scripted = new Set<PropertyId>();
+  for (const d of ofKind('proof')) parseProofDeclaration(d.cursor, st, scripted);
+
+  return st.data;
+}
+
+// ============================================================================
+// Sorts and Constructors
+// ============================================================================
+
+type RawConstructorArg = {
+  label?: Token;
+  sort: Token;
+  binds?: Token[]; // Present for binders: labels (or #k positions) of the scope
+};
+
+type RawConstructor = {
+  name: Token;
+  args: RawConstructorArg[];
+};
+
+/**
+ * atom NAME ["description"] [prefix "x"] [bindable]
+ * sort NAME ["description"] [bindable] [::= C | C(label: Sort, ...) | ...]
+ */
+function parseSortDeclaration(d: Declaration, st: ParseState): { sort: Sort; constructors: RawConstructor[] } {
+  const c = d.cursor;
+  const kind = d.keyword.text === 'atom' ? 'atom' : 'inductive';
+  const nameToken = c.name('a sort name');
+  if (st.sortsByName.has(nameToken.text)) {
+    c.fail(`Sort '${nameToken.text}' is already defined`, nameToken);
+  }
+
+  let description: string | undefined;
+  let prefix: string | undefined;
+  let bindable = false;
+  for (;;) {
+    if (c.peek().kind === 'string' && description === undefined) {
+      description = c.next().text;
+    } else if (kind === 'atom' && c.accept('prefix')) {
+      if (c.peek().kind !== 'string') c.fail('Expected the atom prefix as a string, e.g. prefix "x"');
+      prefix = c.next().text;
+    } else if (c.accept('bindable')) {
+      bindable = true;
+    } else {
+      break;
+    }
+  }
+
+  const sort = createSort(nameToken.text, kind, bindable, prefix);
+  if (description !== undefined) sort.description = description;
+  const prev = findPrevious(st.previous?.sorts, sort.name, s => s.kind === kind);
+  if (prev) {
+    sort.id = prev.id;
+    sort.color = prev.color;
+  }
+  st.data.sorts.set(sort.id, sort);
+  st.sortsByName.set(sort.name, sort);
+
+  const constructors: RawConstructor[] = [];
+  if (kind === 'inductive' && c.accept('::=')) {
+    c.accept('|');
+    do {
+      constructors.push(parseRawConstructor(c));
+    } while (c.accept('|'));
+  }
+  if (!c.atEnd()) {
+    c.fail(kind === 'atom'
+      ? `Unexpected ${describeToken(c.peek())} in atom declaration`
+      : `Expected '::=' or '|' before ${describeToken(c.peek())}`);
+  }
+  return { sort, constructors };
+}
+
+function parseRawConstructor(c: Cursor): RawConstructor {
+  const name = c.name('a constructor name');
+  const args: RawConstructorArg[] = [];
+  if (c.accept('(')) {
+    if (!c.is(')')) {
+      do {
+        const label = c.peek(1).kind === 'symbol' && c.peek(1).text === ':' ? c.name('an argument label') : undefined;
+        if (label) c.expect(':');
+        const arg: RawConstructorArg = { label, sort: c.name('a sort name') };
+        if (c.accept('binds')) {
+          c.expect('[');
+          arg.binds = [];
+          if (!c.is(']')) {
+            do {
+              if (c.accept('#')) {
+                if (c.peek().kind !== 'number') c.fail('Expected an argument position after #');
+                arg.binds.push(c.next());
+              } else {
+                arg.binds.push(c.name('an argument label'));
+              }
+            } while (c.accept(','));
+          }
+          c.expect(']');
+        }
+        args.push(arg);
+      } while (c.accept(','));
+    }
+    c.expect(')');
+  }
+  return { name, args };
+}
+
+function elaborateConstructor(raw: RawConstructor, sort: Sort, st: ParseState): void {
+  const fail = (message: string, token: Token): never => {
+    throw new DslError(message, token.line, token.column);
+  };
+  if (constructorsNamed(st, raw.name.text, sort.id).length > 0) {
+    fail(`Constructor '${raw.name.text}' is already defined for sort '${sort.name}'`, raw.name);
+  }
+
+  const args: Omit<ConstructorArg, 'id'>[] = raw.args.map(arg => {
+    const argSort = st.sortsByName.get(arg.sort.text);
+    if (!argSort) return fail(`Unknown sort '${arg.sort.text}'`, arg.sort);
+    return {
+      sortId: argSort.id,
+      ...(arg.label ? { label: arg.label.text } : {}),
+      ...(arg.binds ? { isBinder: true } : {}),
+    };
+  });
+
+  const ctor = createConstructor(sort.id, raw.name.text, args);
+  raw.args.forEach((arg, i) => {
+    if (!arg.binds) return;
+    ctor.args[i].bindsIn = arg.binds.map(ref => {
+      const index = ref.kind === 'number'
+        ? parseInt(ref.text, 10) - 1
+        : raw.args.findIndex(a => a.label?.text === ref.text);
+      if (index < 0 || index >= ctor.args.length) {
+        fail(`Constructor '${raw.name.text}' has no argument ${ref.kind === 'number' ? `#${ref.text}` : `'${ref.text}'`}`, ref);
+      }
+      return ctor.args[index].id;
+    });
+  });
+
+  const prev = st.previous && Array.from(st.previous.constructors.values())
+    .find(p => p.sortId === sort.id && p.name === ctor.name);
+  if (prev) ctor.id = prev.id;
+  st.data.constructors.set(ctor.id, ctor);
+}
+
+// ============================================================================
+// Judgments and Meta-Variables
+// ============================================================================
+
+/**
+ * The symbol a judgment gets when none is given: its first non-blank separator
+ */
+export function inferJudgmentSymbol(name: string, separators: string[]): string {
+  return separators.map(s => s.trim()).find(s => s.length > 0) || name;
+}
+
+/**
+ * judgment NAME [symbol "s"]: "prefix" (label: Sort) " sep " (out label: Sort) "suffix"
+ */
+function parseJudgmentDeclaration(c: Cursor, st: ParseState): void {
+  const nameToken = c.name('a judgment name');
+  if (Array.from(st.data.judgments.values()).some(j => j.name === nameToken.text)) {
+    c.fail(`Judgment '${nameToken.text}' is already defined`, nameToken);
+  }
+  let symbol: string | undefined;
+  if (c.accept('symbol')) {
+    if (c.peek().kind !== 'string') c.fail('Expected the symbol as a string, e.g. symbol "⊢"');
+    symbol = c.next().text;
+  }
+  c.expect(':');
+
+  const separators = [''];
+  const argSorts: JudgmentArg[] = [];
+  while (!c.atEnd()) {
+    if (c.peek().kind === 'string') {
+      separators[separators.length - 1] += c.next().text;
+    } else if (c.accept('(')) {
+      // 'out' marks an output argument, unless it is itself the label or sort
+      const isOutput = c.is('out') && c.peek(1).kind === 'ident';
+      if (isOutput) c.next();
+      const label = c.peek(1).kind === 'symbol' && c.peek(1).text === ':' ? c.name('an argument label').text : '';
+      if (label) c.expect(':');
+      argSorts.push({ sortId: resolveSort(c, st).id, label, ...(isOutput ? { mode: 'out' as const } : {}) });
+      c.expect(')');
+      separators.push('');
+    } else {
+      c.fail(`Expected a quoted separator or an argument '(label: Sort)', found ${describeToken(c.peek())}`);
+    }
+  }
+
+  const judgment = createJudgment(
+    nameToken.text,
+    symbol ?? inferJudgmentSymbol(nameToken.text, separators),
+    argSorts,
+    separators
+  );
+  const prev = findPrevious(st.previous?.judgments, judgment.name);
+  if (prev) {
+    judgment.id = prev.id;
+    judgment.color = prev.color;
+  }
+  st.data.judgments.set(judgment.id, judgment);
+  st.notations.push({ judgment, separators: separators.map(separatorTokens) });
+}
+
+/**
+ * metavar n, m : Sort
+ */
+function parseMetaVariableDeclaration(c: Cursor, st: ParseState): void {
+  const names: Token[] = [];
+  do {
+    names.push(c.name('a meta-variable name'));
+  } while (c.accept(','));
+  c.expect(':');
+  const sort = resolveSort(c, st);
+  if (!c.atEnd()) c.fail(`Unexpected ${describeToken(c.peek())} after meta-variable declaration`);
+  for (const name of names) metaVariableFor(st, name.text, sort.id);
+}
+
+// ============================================================================
+// Recursive Functions
+// ============================================================================
+
+/**
+ * function NAME : Sort[, arg: Sort ...] → int | set Sort | Sort
+ */
+function parseFunctionSignature(c: Cursor, st: ParseState): RecursiveFunc {
+  const nameToken = c.name('a function name');
+  if (st.functionsByName.has(nameToken.text)) {
+    c.fail(`Function '${nameToken.text}' is already defined`, nameToken);
+  }
+  c.expect(':');
+  const inputSort = resolveSort(c, st);
+  const extraArgs: FuncArg[] = [];
+  while (c.accept(',')) {
+    const argName = c.name('an argument name').text;
+    c.expect(':');
+    extraArgs.push({ name: argName, sortId: resolveSort(c, st).id, isPrincipal: false });
+  }
+  if (!c.accept('→', '->')) c.fail(`Expected '→' and the return type, found ${describeToken(c.peek())}`);
+
+  let returnType: FuncReturnType;
+  if (c.accept('int')) {
+    returnType = { kind: 'int' };
+  } else if (c.accept('set')) {
+    returnType = { kind: 'set', elementSortId: resolveSort(c, st).id };
+  } else {
+    returnType = { kind: 'inductive', sortId: resolveSort(c, st).id };
+  }
+
+  const func: RecursiveFunc = {
+    id: findPrevious(st.previous?.recursiveFunctions, nameToken.text)?.id ?? uuidv4(),
+    name: nameToken.text,
+    inputSortId: inputSort.id,
+    extraArgs,
+    returnType,
+    cases: [],
+  };
+  st.functionsByName.set(func.name, func);
+  st.data.recursiveFunctions.set(func.id, func);
+  return func;
+}
+
+/**
+ * | C(x, _, y) => expr   (one case per constructor of the input sort)
+ */
+function parseFunctionCases(c: Cursor, func: RecursiveFunc, st: ParseState): void {
+  const cases: FuncCase[] = [];
+  while (c.accept('|')) {
+    const ctorToken = c.name('a constructor name');
+    const ctor = constructorsNamed(st, ctorToken.text, func.inputSortId)[0];
+    if (!ctor) {
+      c.fail(`'${ctorToken.text}' is not a constructor of sort '${st.data.sorts.get(func.inputSortId)?.name}'`, ctorToken);
+    }
+    if (cases.some(fc => fc.constructorId === ctor.id)) {
+      c.fail(`Duplicate case for '${ctor.name}'`, ctorToken);
+    }
+
+    const boundVars: string[] = [];
+    if (c.accept('(')) {
+      if (!c.is(')')) {
+        do {
+          boundVars.push(c.accept('_') ? '' : c.name('a variable name').text);
+        } while (c.accept(','));
+      }
+      c.expect(')');
+    }
+    if (boundVars.length !== ctor.args.length) {
+      c.fail(`Constructor '${ctor.name}' takes ${ctor.args.length} argument(s), but the case binds ${boundVars.length}`, ctorToken);
+    }
+    if (!c.accept('=>', '⇒')) c.fail(`Expected '=>' before the case body, found ${describeToken(c.peek())}`);
+
+    const scope = new Set([...boundVars.filter(v => v), ...func.extraArgs.map(a => a.name)]);
+    cases.push({ constructorId: ctor.id, boundVars, body: parseFuncExpr(c, st, scope) });
+  }
+  if (!c.atEnd()) c.fail(`Expected '|' and another case, found ${describeToken(c.peek())}`);
+  func.cases = cases;
+}
+
+// ============================================================================
+// Function Expressions
+// ============================================================================
+
+/**
+ * Variables in scope for an expression; null accepts any unknown name as a
+ * variable (side conditions refer to rule meta-variables)
+ */
+type ExprScope = Set<string> | null;
+
+const FUNC_COMPARISONS: Record<string, FuncPredicate['kind']> = {
+  '=': 'eq', '≠': 'neq', '!=': 'neq', '<': 'lt', '≤': 'leq', '<=': 'leq',
+  '>': 'gt', '≥': 'geq', '>=': 'geq', '≡': 'atomEq', '==': 'atomEq',
+  '≢': 'atomNeq', '=/=': 'atomNeq', '∈': 'in', '⊆': 'subset',
+};
+
+const FUNC_BINARY_OPS: Record<string, 'add' | 'sub' | 'union' | 'intersect' | 'diff'> = {
+  '+': 'add', '-': 'sub', '∪': 'union', '∩': 'intersect', '\\': 'diff',
+};
+
+/**
+ * if P then e else e  |  e (+ - ∪ ∩ \) e  |  e × e  |  atom
+ */
+function parseFuncExpr(c: Cursor, st: ParseState, scope: ExprScope): FuncExpr {
+  if (c.accept('if')) {
+    const cond = parseFuncPredicate(c, st, scope);
+    c.expect('then');
+    const thenBranch = parseFuncExpr(c, st, scope);
+    c.expect('else');
+    return { kind: 'if', cond, then: thenBranch, else: parseFuncExpr(c, st, scope) };
+  }
+  let left = parseFuncTerm(c, st, scope);
+  while (c.is(...Object.keys(FUNC_BINARY_OPS))) {
+    const kind = FUNC_BINARY_OPS[c.next().text];
+    left = { kind, left, right: parseFuncTerm(c, st, scope) };
+  }
+  return left;
+}
+
+function parseFuncTerm(c: Cursor, st: ParseState, scope: ExprScope): FuncExpr {
+  let left = parseFuncAtom(c, st, scope);
+  while (c.accept('×', '*')) {
+    left = { kind: 'mul', left, right: parseFuncAtom(c, st, scope) };
+  }
+  return left;
+}
+
+function parseFuncArgs(c: Cursor, st: ParseState, scope: ExprScope): FuncExpr[] {
+  c.expect('(');
+  const args: FuncExpr[] = [];
+  if (!c.is(')')) {
+    do {
+      args.push(parseFuncExpr(c, st, scope));
+    } while (c.accept(','));
+  }
+  c.expect(')');
+  return args;
+}
+
+function parseFuncAtom(c: Cursor, st: ParseState, scope: ExprScope): FuncExpr {
+  const token = c.peek();
+  if (token.kind === 'number') {
+    c.next();
+    return { kind: 'int', value: parseInt(token.text, 10) };
+  }
+  if (c.is('-') && c.peek(1).kind === 'number') {
+    c.next();
+    return { kind: 'int', value: -parseInt(c.next().text, 10) };
+  }
+  if (c.accept('∅')) return { kind: 'empty' };
+  if (c.accept('{')) {
+    if (c.accept('}')) return { kind: 'empty' };
+    const element = parseFuncExpr(c, st, scope);
+    c.expect('}');
+    return { kind: 'singleton', element };
+  }
+  if (c.accept('(')) {
+    const inner = parseFuncExpr(c, st, scope);
+    c.expect(')');
+    return inner;
+  }
+  if (c.is('if')) return parseFuncExpr(c, st, scope);
+  if (c.accept('_')) return { kind: 'var', name: '_' };
+
+  const nameToken = c.name('an expression');
+  const name = nameToken.text;
+  const func = st.functionsByName.get(name);
+  if (c.is('(')) {
+    if (func) {
+      const args = parseFuncArgs(c, st, scope);
+      if (args.length !== 1 + func.extraArgs.length) {
+        c.fail(`Function '${name}' takes ${1 + func.extraArgs.length} argument(s), got ${args.length}`, nameToken);
+      }
+      return args.length === 1
+        ? { kind: 'call', funcId: func.id, arg: args[0] }
+        : { kind: 'callMulti', funcId: func.id, args };
+    }
+    if ((name === 'max' || name === 'min') && nameToken.kind === 'ident') {
+      const args = parseFuncArgs(c, st, scope);
+      if (args.length !== 2) c.fail(`${name} takes two arguments`, nameToken);
+      return { kind: name, left: args[0], right: args[1] };
+    }
+    const ctor = constructorsNamed(st, name)[0];
+    if (!ctor) c.fail(`Unknown function or constructor '${name}'`, nameToken);
+    const args = parseFuncArgs(c, st, scope);
+    if (args.length !== ctor.args.length) {
+      c.fail(`Constructor '${name}' takes ${ctor.args.length} argument(s), got ${args.length}`, nameToken);
+    }
+    return { kind: 'construct', constructorId: ctor.id, args };
+  }
+
+  if (scope?.has(name)) return { kind: 'var', name };
+  const ctor = constructorsNamed(st, name).find(k => k.args.length === 0);
+  if (ctor) return { kind: 'construct', constructorId: ctor.id, args: [] };
+  if (scope === null) return { kind: 'var', name };
+  return c.fail(`Unknown variable '${name}'`, nameToken);
+}
+
+/**
+ * P ∨ P  |  P ∧ P  |  ¬P  |  (P)  |  e op e
+ */
+function parseFuncPredicate(c: Cursor, st: ParseState, scope: ExprScope): FuncPredicate {
+  let left = parseFuncConjunction(c, st, scope);
+  while (c.accept('∨', '||')) {
+    left = { kind: 'or', left, right: parseFuncConjunction(c, st, scope) };
+  }
+  return left;
+}
+
+function parseFuncConjunction(c: Cursor, st: ParseState, scope: ExprScope): FuncPredicate {
+  let left = parseFuncPredicateAtom(c, st, scope);
+  while (c.accept('∧', '&&')) {
+    left = { kind: 'and', left, right: parseFuncPredicateAtom(c, st, scope) };
+  }
+  return left;
+}
+
+function parseFuncPredicateAtom(c: Cursor, st: ParseState, scope: ExprScope): FuncPredicate {
+  if (c.accept('¬', '!')) return { kind: 'not', pred: parseFuncPredicateAtom(c, st, scope) };
+
+  // A parenthesised predicate, unless the parentheses belong to an expression
+  if (c.is('(')) {
+    const grouped = attempt(c, () => {
+      c.next();
+      const pred = parseFuncPredicate(c, st, scope);
+      c.expect(')');
+      if (c.is(...Object.keys(FUNC_COMPARISONS))) c.fail('parenthesised expression');
+      return pred;
+    });
+    if (grouped) return grouped;
+  }
+
+  const left = parseFuncExpr(c, st, scope);
+  const op = c.peek();
+  if (!c.is(...Object.keys(FUNC_COMPARISONS))) {
+    c.fail(`Expected a comparison (=, ≠, <, ≤, ∈, ⊆, …), found ${describeToken(op)}`);
+  }
+  c.next();
+  const kind = FUNC_COMPARISONS[op.text];
+  if (kind === 'eq' && c.accept('∅')) return { kind: 'isEmpty', set: left };
+  const right = parseFuncExpr(c, st, scope);
+  switch (kind) {
+    case 'in':
+      return { kind: 'in', element: left, set: right };
+    case 'eq':
+    case 'neq':
+    case 'lt':
+    case 'leq':
+    case 'gt':
+    case 'geq':
+    case 'atomEq':
+    case 'atomNeq':
+    case 'subset':
+      return { kind, left, right };
+    default:
+      return c.fail(`Unexpected ${describeToken(op)}`, op);
+  }
+}
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+type RawPattern = {
+  token: Token;
+  args: RawPattern[] | null; // null when written without parentheses
+};
+
+function parseRawPattern(c: Cursor): RawPattern {
+  const token = c.is('_') ? c.next() : c.name('a pattern');
+  if (!c.accept('(')) return { token, args: null };
+  const args: RawPattern[] = [];
+  if (!c.is(')')) {
+    do {
+      args.push(parseRawPattern(c));
+    } while (c.accept(','));
+  }
+  c.expect(')');
+  return { token, args };
+}
+
+/**
+ * Resolve a pattern against the sort expected at its position. Unknown
+ * lower-level names become (implicitly declared) meta-variables.
+ */
+function resolvePattern(raw: RawPattern, sortId: SortId, st: ParseState): Pattern {
+  const { token } = raw;
+  const fail = (message: string): never => {
+    throw new DslError(message, token.line, token.column);
+  };
+  const sortName = st.data.sorts.get(sortId)?.name || '?';
+  if (token.text === '_' && token.kind === 'ident') return createPattern();
+
+  if (raw.args === null) {
+    const declared = Array.from(st.data.metaVariables.values())
+      .find(mv => mv.name === token.text && mv.sortId === sortId);
+    if (declared) return createPattern(undefined, declared.id);
+    const ctor = constructorsNamed(st, token.text, sortId)[0];
+    if (ctor) {
+      if (ctor.args.length > 0) fail(`Constructor '${ctor.name}' takes ${ctor.args.length} argument(s)`);
+      return createPattern(ctor.id);
+    }
+    return createPattern(undefined, metaVariableFor(st, token.text, sortId).id);
+  }
+
+  const ctor = constructorsNamed(st, token.text, sortId)[0];
+  if (!ctor) fail(`'${token.text}' is not a constructor of sort '${sortName}'`);
+  if (ctor.args.length !== raw.args.length) {
+    fail(`Constructor '${ctor.name}' takes ${ctor.args.length} argument(s), got ${raw.args.length}`);
+  }
+  return createPattern(ctor.id, undefined, raw.args.map((arg, i) => resolvePattern(arg, ctor.args[i].sortId, st)));
+}
+
+/**
+ * Match a judgment's mixfix notation at the cursor, parsing its arguments
+ * with `parseArg`. Rewinds and returns null if the notation does not match.
+ */
+function matchNotation<T>(c: Cursor, notation: JudgmentNotation, parseArg: () => T): T[] | null {
+  return attempt(c, () => {
+    const args: T[] = [];
+    const arity = notation.judgment.argSorts.length;
+    for (let i = 0; i <= arity; i++) {
+      for (const expected of notation.separators[i] || []) {
+        const token = c.peek();
+        if (token.kind === 'eof' || token.kind === 'string' || token.text !== expected.text) {
+          c.fail(`Expected '${expected.text}'`);
+        }
+        c.next();
+      }
+      if (i < arity) args.push(parseArg());
+    }
+    return args;
+  });
+}
+
+function parseJudgmentInstance(line: Cursor, st: ParseState): JudgmentInstance {
+  const start = line.peek();
+  const matches: { notation: JudgmentNotation; args: RawPattern[] }[] = [];
+  for (const notation of st.notations) {
+    const args = matchNotation(line, notation, () => parseRawPattern(line));
+    if (args && line.atEnd()) matches.push({ notation, args });
+    line.pos = 0;
+  }
+  if (matches.length === 0) {
+    line.fail('Expected a judgment, written in the notation of one of the declared judgments', start);
+  }
+  if (matches.length > 1) {
+    line.fail(`Ambiguous judgment: matches ${matches.map(m => `'${m.notation.judgment.name}'`).join(' and ')}`, start);
+  }
+  const { notation, args } = matches[0];
+  return createJudgmentInstance(
+    notation.judgment.id,
+    args.map((arg, i) => resolvePattern(arg, notation.judgment.argSorts[i].sortId, st))
+  );
+}
+
+function parseFunctionPattern(c: Cursor, st: ParseState): { func: RecursiveFunc; arg: Pattern } {
+  const nameToken = c.name('a function name');
+  const func = st.functionsByName.get(nameToken.text);
+  if (!func) c.fail(`Unknown function '${nameToken.text}'`, nameToken);
+  c.expect('(');
+  const arg = resolvePattern(parseRawPattern(c), func.inputSortId, st);
+  c.expect(')');
+  return { func, arg };
+}
+
+const SIDE_CONDITION_COMPARISONS: Record<string, 'eq' | 'neq' | 'lt' | 'leq' | 'gt' | 'geq'> = {
+  '=': 'eq', '≠': 'neq', '!=': 'neq', '<': 'lt', '≤': 'leq', '<=': 'leq',
+  '>': 'gt', '≥': 'geq', '>=': 'geq',
+};
+
+/**
+ * if f(p) = e  |  if f(p) ≠ ∅  |  if x ∈ f(p)  |  if x ∉ f(p)  | ...
+ */
+function parseSideCondition(line: Cursor, st: ParseState): SideCondition {
+  line.expect('if');
+  let predicate: RuleFuncPredicate;
+
+  if (line.isName() && st.functionsByName.has(line.peek().text) && line.peek(1).text === '(' && line.peek(1).kind === 'symbol') {
+    const { func, arg } = parseFunctionPattern(line, st);
+    const op = line.peek();
+    const kind = SIDE_CONDITION_COMPARISONS[op.text];
+    if (!kind || op.kind !== 'symbol') {
+      line.fail(`Expected a comparison (=, ≠, <, ≤, >, ≥), found ${describeToken(op)}`);
+    }
+    line.next();
+    if ((kind === 'eq' || kind === 'neq') && line.accept('∅')) {
+      predicate = { kind: kind === 'eq' ? 'isEmpty' : 'notEmpty', funcId: func.id, arg };
+    } else {
+      predicate = { kind, funcId: func.id, arg, value: parseFuncExpr(line, st, null) };
+    }
+  } else {
+    const element = parseRawPattern(line);
+    const op = line.accept('∈', '∉');
+    if (!op) line.fail(`Expected '∈' or '∉', found ${describeToken(line.peek())}`);
+    const funcToken = line.peek();
+    const { func, arg } = parseFunctionPattern(line, st);
+    if (func.returnType.kind !== 'set') line.fail(`Function '${func.name}' does not return a set`, funcToken);
+    predicate = {
+      kind: op.text === '∈' ? 'in' : 'notIn',
+      element: resolvePattern(element, func.returnType.elementSortId, st),
+      funcId: func.id,
+      arg,
+    };
+  }
+
+  if (!line.atEnd()) line.fail(`Unexpected ${describeToken(line.peek())} after side condition`);
+  return { id: uuidv4(), predicate };
+}
+
+/**
+ * rule NAME:
+ *   premise            (one judgment per line)
+ *   if side-condition
+ *   -----------
+ *   conclusion
+ */
+function parseRuleDeclaration(c: Cursor, st: ParseState): void {
+  const nameToken = c.name('a rule name');
+  if (Array.from(st.data.rules.values()).some(r => r.name === nameToken.text)) {
+    c.fail(`Rule '${nameToken.text}' is already defined`, nameToken);
+  }
+  c.expect(':');
+
+  const premises: JudgmentInstance[] = [];
+  const sideConditions: SideCondition[] = [];
+  while (!c.atEnd() && c.peek().kind !== 'bar') {
+    const line = c.line();
+    if (line.is('if')) {
+      sideConditions.push(parseSideCondition(line, st));
+    } else {
+      premises.push(parseJudgmentInstance(line, st));
+    }
+  }
+  const bar = c.peek();
+  if (bar.kind !== 'bar') c.fail('Expected a line of dashes (---) before the conclusion');
+  const barLine = c.line();
+  barLine.next();
+  if (!barLine.atEnd()) barLine.fail(`Unexpected ${describeToken(barLine.peek())} after the inference bar`);
+  if (c.atEnd()) c.fail('Expected the conclusion below the inference bar');
+  const conclusion = parseJudgmentInstance(c.line(), st);
+  if (!c.atEnd()) c.fail('A rule has a single conclusion; premises go above the bar');
+
+  const rule: InferenceRule = createInferenceRule(nameToken.text, conclusion, premises, sideConditions);
+  const prev = findPrevious(st.previous?.rules, rule.name);
+  if (prev) {
+    rule.id = prev.id;
+    rule.position = prev.position;
+  } else {
+    const count = st.data.rules.size;
+    rule.position = { x: 50 + (count % 3) * 220, y: 50 + Math.floor(count / 3) * 180 };
+  }
+  st.data.rules.set(rule.id, rule);
+}
+
+// ============================================================================
+// Properties
+// ============================================================================
+
+/**
+ * property NAME ["description"]: formula
+ */
+function parsePropertyDeclaration(c: Cursor, st: ParseState): void {
+  const nameToken = c.name('a property name');
+  if (Array.from(st.data.properties.values()).some(p => p.name === nameToken.text)) {
+    c.fail(`Property '${nameToken.text}' is already defined`, nameToken);
+  }
+  const description = c.peek().kind === 'string' ? c.next().text : undefined;
+  c.expect(':');
+  const formula = parseFormula(c, st, new Set());
+  if (!c.atEnd()) c.fail(`Unexpected ${describeToken(c.peek())} after formula`);
+
+  const property: Property = { id: uuidv4(), name: nameToken.text, formula };
+  if (description !== undefined) property.description = description;
+
+  // Keep the proofs of an unchanged statement
+  const prev = findPrevious(st.previous?.properties, property.name);
+  if (prev) {
+    property.id = prev.id;
+    if (JSON.stringify(prev.formula) === JSON.stringify(formula)) {
+      for (const proof of st.previous!.proofs.values()) {
+        if (proof.propertyId === prev.id) st.data.proofs.set(proof.id, proof);
+      }
+    }
+  }
+  st.data.properties.set(property.id, property);
+}
+
+// ============================================================================
+// Formulas
+// ============================================================================
+
+const FORMULA_COMPARISONS: Record<string, Formula['kind']> = {
+  '=': 'numEq', '≠': 'numNeq', '!=': 'numNeq', '≤': 'numLeq', '<=': 'numLeq',
+  '<': 'numLt', '≥': 'numGeq', '>=': 'numGeq', '>': 'numGt',
+  '≡': 'termEq', '==': 'termEq', '≢': 'termNeq', '=/=': 'termNeq',
+};
+
+/**
+ * ∀x: S. F  |  F → F  |  F ∨ F  |  F ∧ F  |  ¬F  |  judgment  |  e op e
+ */
+function parseFormula(c: Cursor, st: ParseState, scope: Set<string>): Formula {
+  const left = parseDisjunction(c, st, scope);
+  if (c.accept('→', '->', '⇒', '=>')) {
+    return { kind: 'implies', left, right: parseFormula(c, st, scope) };
+  }
+  return left;
+}
+
+function parseDisjunction(c: Cursor, st: ParseState, scope: Set<string>): Formula {
+  let left = parseConjunction(c, st, scope);
+  while (c.accept('∨', '||')) {
+    left = { kind: 'or', left, right: parseConjunction(c, st, scope) };
+  }
+  return left;
+}
+
+function parseConjunction(c: Cursor, st: ParseState, scope: Set<string>): Formula {
+  let left = parseUnaryFormula(c, st, scope);
+  while (c.accept('∧', '&&')) {
+    left = { kind: 'and', left, right: parseUnaryFormula(c, st, scope) };
+  }
+  return left;
+}
+
+function parseUnaryFormula(c: Cursor, st: ParseState, scope: Set<string>): Formula {
+  if (c.accept('¬', '!', '~')) return { kind: 'not', body: parseUnaryFormula(c, st, scope) };
+
+  const quantifier = c.accept('∀', 'forall', '∃', 'exists');
+  if (quantifier) {
+    const varName = c.name('a variable name').text;
+    c.expect(':');
+    const sort = resolveSort(c, st);
+    c.expect('.');
+    const body = parseFormula(c, st, new Set([...scope, varName]));
+    const kind = quantifier.text === '∀' || quantifier.text === 'forall' ? 'forall' : 'exists';
+    return { kind, varName, sortId: sort.id, body };
+  }
+
+  if (c.accept('true', '⊤')) return { kind: 'true' };
+  if (c.accept('false', '⊥')) return { kind: 'false' };
+
+  // Judgments: the longest match among the declared notations
+  let best: { judgmentId: string; args: FormulaExpr[]; end: number } | null = null;
+  const start = c.pos;
+  for (const notation of st.notations) {
+    // A notation without any symbols would match every expression
+    if (notation.separators.every(s => s.length === 0)) continue;
+    const args = matchNotation(c, notation, () => parseFormulaAtom(c, st, scope));
+    if (args && (!best || c.pos > best.end)) {
+      best = { judgmentId: notation.judgment.id, args, end: c.pos };
+    }
+    c.pos = start;
+  }
+  if (best) {
+    c.pos = best.end;
+    return { kind: 'judgment', judgmentId: best.judgmentId, args: best.args };
+  }
+
+  // A parenthesised formula, unless the parentheses belong to an expression
+  if (c.is('(')) {
+    const grouped = attempt(c, () => {
+      c.next();
+      const inner = parseFormula(c, st, scope);
+      c.expect(')');
+      if (c.is(...Object.keys(FORMULA_COMPARISONS), ...Object.keys(FUNC_BINARY_OPS), '∈', '×', '*')) {
+        c.fail('parenthesised expression');
+      }
+      return inner;
+    });
+    if (grouped) return grouped;
+  }
+
+  return parseComparison(c, st, scope);
+}
+
+function parseComparison(c: Cursor, st: ParseState, scope: Set<string>): Formula {
+  const left = parseFormulaExpr(c, st, scope);
+  const op = c.peek();
+  if (c.accept('∈')) {
+    const right = parseFormulaExpr(c, st, scope);
+    if (right.kind !== 'funcApp') c.fail('Expected a function application after ∈, e.g. x ∈ fv(e)', op);
+    return { kind: 'setIn', element: left, funcId: right.funcId, arg: right.arg };
+  }
+  if (!c.is(...Object.keys(FORMULA_COMPARISONS))) {
+    c.fail(`Expected a judgment or a comparison (=, ≠, ≤, <, ≡, …), found ${describeToken(op)}`);
+  }
+  c.next();
+  if (op.text === '=' && left.kind === 'funcApp' && c.accept('∅')) {
+    return { kind: 'setEmpty', funcId: left.funcId, arg: left.arg };
+  }
+  const right = parseFormulaExpr(c, st, scope);
+  const kind = FORMULA_COMPARISONS[op.text] as
+    'numEq' | 'numNeq' | 'numLeq' | 'numLt' | 'numGeq' | 'numGt' | 'termEq' | 'termNeq';
+  return { kind, left, right };
+}
+
+/**
+ * if C then e else e  |  e (+ - ∪ ∩ \\) e  |  e × e  |  atom
+ */
+function parseFormulaExpr(c: Cursor, st: ParseState, scope: Set<string>): FormulaExpr {
+  if (c.accept('if')) {
+    const cond = parseFormulaCond(c, st, scope);
+    c.expect('then');
+    const thenBranch = parseFormulaExpr(c, st, scope);
+    c.expect('else');
+    return { kind: 'if', cond, then: thenBranch, else: parseFormulaExpr(c, st, scope) };
+  }
+  let left = parseFormulaTerm(c, st, scope);
+  while (c.is(...Object.keys(FUNC_BINARY_OPS))) {
+    const kind = FUNC_BINARY_OPS[c.next().text];
+    left = { kind, left, right: parseFormulaTerm(c, st, scope) };
+  }
+  return left;
+}
+
+function parseFormulaTerm(c: Cursor, st: ParseState, scope: Set<string>): FormulaExpr {
+  let left = parseFormulaAtom(c, st, scope);
+  while (c.accept('×', '*')) {
+    left = { kind: 'mul', left, right: parseFormulaAtom(c, st, scope) };
+  }
+  return left;
+}
+
+function parseFormulaArgs(c: Cursor, st: ParseState, scope: Set<string>): FormulaExpr[] {
+  c.expect('(');
+  const args: FormulaExpr[] = [];
+  if (!c.is(')')) {
+    do {
+      args.push(parseFormulaExpr(c, st, scope));
+    } while (c.accept(','));
+  }
+  c.expect(')');
+  return args;
+}
+
+function parseFormulaAtom(c: Cursor, st: ParseState, scope: Set<string>): FormulaExpr {
+  const token = c.peek();
+  if (token.kind === 'number') {
+    c.next();
+    return { kind: 'int', value: parseInt(token.text, 10) };
+  }
+  if (c.is('-') && c.peek(1).kind === 'number') {
+    c.next();
+    return { kind: 'int', value: -parseInt(c.next().text, 10) };
+  }
+  if (c.accept('∅')) return { kind: 'emptySet' };
+  if (c.accept('{')) {
+    if (c.accept('}')) return { kind: 'emptySet' };
+    const element = parseFormulaExpr(c, st, scope);
+    c.expect('}');
+    return { kind: 'singleton', element };
+  }
+  if (c.accept('(')) {
+    const inner = parseFormulaExpr(c, st, scope);
+    c.expect(')');
+    return inner;
+  }
+  if (c.is('if')) return parseFormulaExpr(c, st, scope);
+
+  const nameToken = c.name('an expression');
+  const name = nameToken.text;
+  if (c.is('(')) {
+    const func = st.functionsByName.get(name);
+    if (func) {
+      const args = parseFormulaArgs(c, st, scope);
+      if (args.length !== 1 + func.extraArgs.length) {
+        c.fail(`Function '${name}' takes ${1 + func.extraArgs.length} argument(s), got ${args.length}`, nameToken);
+      }
+      return args.length === 1
+        ? { kind: 'funcApp', funcId: func.id, arg: args[0] }
+        : { kind: 'funcAppMulti', funcId: func.id, args };
+    }
+    if ((name === 'max' || name === 'min') && nameToken.kind === 'ident') {
+      const args = parseFormulaArgs(c, st, scope);
+      if (args.length !== 2) c.fail(`${name} takes two arguments`, nameToken);
+      return { kind: name, left: args[0], right: args[1] };
+    }
+    const ctor = constructorsNamed(st, name)[0];
+    if (!ctor) c.fail(`Unknown function or constructor '${name}'`, nameToken);
+    const args = parseFormulaArgs(c, st, scope);
+    if (args.length !== ctor.args.length) {
+      c.fail(`Constructor '${name}' takes ${ctor.args.length} argument(s), got ${args.length}`, nameToken);
+    }
+    return { kind: 'constructor', constructorId: ctor.id, args };
+  }
+
+  if (!scope.has(name)) {
+    const ctor = constructorsNamed(st, name).find(k => k.args.length === 0);
+    if (ctor) return { kind: 'constructor', constructorId: ctor.id, args: [] };
+  }
+  return { kind: 'var', name };
+}
+
+/**
+ * Conditions of `if` expressions: C ∨ C  |  C ∧ C  |  ¬C  |  (C)  |  e op e
+ */
+function parseFormulaCond(c: Cursor, st: ParseState, scope: Set<string>): FormulaCond {
+  let left = parseFormulaCondConjunction(c, st, scope);
+  while (c.accept('∨', '||')) {
+    left = { kind: 'or', left, right: parseFormulaCondConjunction(c, st, scope) };
+  }
+  return left;
+}
+
+function parseFormulaCondConjunction(c: Cursor, st: ParseState, scope: Set<string>): FormulaCond {
+  let left = parseFormulaCondAtom(c, st, scope);
+  while (c.accept('∧', '&&')) {
+    left = { kind: 'and', left, right: parseFormulaCondAtom(c, st, scope) };
+  }
+  return left;
+}
+
+function parseFormulaCondAtom(c: Cursor, st: ParseState, scope: Set<string>): FormulaCond {
+  if (c.accept('¬', '!')) return { kind: 'not', cond: parseFormulaCondAtom(c, st, scope) };
+
+  if (c.is('(')) {
+    const grouped = attempt(c, () => {
+      c.next();
+      const cond = parseFormulaCond(c, st, scope);
+      c.expect(')');
+      if (c.is(...Object.keys(FUNC_COMPARISONS))) c.fail('parenthesised expression');
+      return cond;
+    });
+    if (grouped) return grouped;
+  }
+
+  const left = parseFormulaExpr(c, st, scope);
+  const op = c.peek();
+  if (!c.is(...Object.keys(FUNC_COMPARISONS))) {
+    c.fail(`Expected a comparison (=, ≠, <, ≤, ∈, ⊆, …), found ${describeToken(op)}`);
+  }
+  c.next();
+  const kind = FUNC_COMPARISONS[op.text];
+  if (kind === 'eq' && c.accept('∅')) return { kind: 'isEmpty', set: left };
+  const right = parseFormulaExpr(c, st, scope);
+  switch (kind) {
+    case 'in':
+      return { kind: 'in', element: left, set: right };
+    case 'eq':
+    case 'neq':
+    case 'lt':
+    case 'leq':
+    case 'gt':
+    case 'geq':
+    case 'atomEq':
+    case 'atomNeq':
+    case 'subset':
+      return { kind, left, right };
+    default:
+      return c.fail(`Unexpected ${describeToken(op)}`, op);
+  }
+}
+
+// ============================================================================
+// Tactic Scripts
+// ============================================================================
+
+/**
+ * A tactic as written. Atomic tactics keep their argument tokens until they
+ * are elaborated against the goal they apply to, whose variables decide how
+ * the arguments read.
+ */
+export type ScriptTactic =
+  | { kind: 'atomic'; name: Token; args: Token[] }
+  | { kind: 'seq'; first: ScriptTactic; next: ScriptTactic }  // t₁; t₂
+  | { kind: 'try'; keyword: Token; tactic: ScriptTactic }
+  | { kind: 'all_goals'; keyword: Token; tactic: ScriptTactic }
+  | { kind: 'repeat'; keyword: Token; limit: number; tactic: ScriptTactic }
+  | { kind: 'first'; keyword: Token; tactics: ScriptTactic[] };  // first [t₁ | t₂]
+
+/**
+ * A sentence of a script: an optional bullet, focusing on the next goal, and
+ * a tactic ended by '.'
+ */
+export type ScriptSentence = {
+  start: Token;
+  bullet: string | null;
+  tactic: ScriptTactic | null;
+};
+
+export type ScriptParseResult =
+  | { success: true; script: ScriptSentence[] }
+  | { success: false; error: DslParseError };
+
+/**
+ * A script replayed up to some sentence
+ */
+export type ScriptRun = {
+  proof: Proof;
+  executed: number;               // Sentences run
+  currentGoal: GoalId | null;     // The goal the next sentence works on
+  error: DslParseError | null;    // Why sentence `executed` failed
+};
+
+const BULLET_SYMBOLS = ['-', '+', '*'];
+
+const TACTIC_NAMES = new Set([
+  'intro', 'intro_hyp', 'exists', 'split', 'left', 'right', 'induction', 'derivation_induction',
+  'inversion', 'destruct', 'apply', 'apply_rule', 'have', 'apply_lemma', 'reflexivity',
+  'contradiction', 'compute', 'case_analysis', 'discriminate', 'rewrite', 'unfold', 'simplify',
+  'trivial', 'exact',
+]);
+
+/**
+ * Parse a tactic script such as
+ *
+ *   intro n. induction n.
+ *   - simplify.
+ *   - unfold size left; simplify.
+ */
+export function parseTacticScript(source: string): ScriptParseResult {
+  try {
+    return { success: true, script: parseScriptSentences(createCursor(tokenize(source))) };
+  } catch (e) {
+    if (e instanceof DslError) {
+      return { success: false, error: { message: e.message, line: e.line, column: e.column } };
+    }
+    throw e;
+  }
+}
+
+function parseScriptSentences(c: Cursor): ScriptSentence[] {
+  const sentences: ScriptSentence[] = [];
+  while (!c.atEnd()) {
+    const start = c.peek();
+    let bullet: string | null = null;
+    if (c.is(...BULLET_SYMBOLS)) {
+      // Repeated symbols written together make a deeper bullet: --, ++, **
+      bullet = c.next().text;
+      while (c.is(start.text) && c.peek().line === start.line && c.peek().column === start.column + bullet.length) {
+        bullet += c.next().text;
+      }
+      // A bullet alone leaves its goal open
+      if (c.atEnd() || c.is(...BULLET_SYMBOLS)) {
+        sentences.push({ start, bullet, tactic: null });
+        continue;
+      }
+    }
+    const tactic = parseScriptTactic(c);
+    c.expect('.', "'.' after the tactic");
+    sentences.push({ start, bullet, tactic });
+  }
+  return sentences;
+}
+
+/**
+ * t; t  |  try t  |  repeat [N] t  |  all_goals t  |  first [t | t]  |  (t)
+ */
+function parseScriptTactic(c: Cursor): ScriptTactic {
+  let tactic = parsePrefixTactic(c);
+  while (c.accept(';')) {
+    tactic = { kind: 'seq', first: tactic, next: parsePrefixTactic(c) };
+  }
+  return tactic;
+}
+
+function parsePrefixTactic(c: Cursor): ScriptTactic {
+  if (c.accept('(')) {
+    const tactic = parseScriptTactic(c);
+    c.expect(')');
+    return tactic;
+  }
+  if (c.is('try', 'all_goals')) {
+    const keyword = c.next();
+    return { kind: keyword.text as 'try' | 'all_goals', keyword, tactic: parsePrefixTactic(c) };
+  }
+  if (c.is('repeat')) {
+    const keyword = c.next();
+    const limit = c.peek().kind === 'number' ? Number(c.next().text) : DEFAULT_REPEAT_LIMIT;
+    return { kind: 'repeat', keyword, limit, tactic: parsePrefixTactic(c) };
+  }
+  if (c.is('first')) {
+    const keyword = c.next();
+    c.expect('[');
+    const tactics = [parseScriptTactic(c)];
+    while (c.accept('|')) tactics.push(parseScriptTactic(c));
+    c.expect(']');
+    return { kind: 'first', keyword, tactics };
+  }
+  return parseAtomicTactic(c);
+}
+
+function parseAtomicTactic(c: Cursor): ScriptTactic {
+  const name = c.peek();
+  if (name.kind !== 'ident' || !TACTIC_NAMES.has(name.text)) {
+    c.fail(name.kind === 'ident' ? `Unknown tactic '${name.text}'` : `Expected a tactic, found ${describeToken(name)}`);
+  }
+  c.next();
+  const args: Token[] = [];
+  let depth = 0;
+  // Arguments end at the end of the tactic or of an enclosing combinator
+  while (!c.atEnd() && !(depth === 0 && c.is('.', ';', '|', ')', ']'))) {
+    if (c.is('(', '[', '{')) depth++;
+    if (c.is(')', ']', '}')) depth--;
+    args.push(c.next());
+  }
+  return { kind: 'atomic', name, args };
+}
+
+// The token a script tactic starts at, where its errors are reported
+function scriptTacticToken(t: ScriptTactic): Token {
+  if (t.kind === 'atomic') return t.name;
+  return t.kind === 'seq' ? scriptTacticToken(t.first) : t.keyword;
+}
+
+/**
+ * Apply a script tactic to a goal, elaborating it as it runs: each atomic
+ * tactic is elaborated on the first goal it is applied to, after the tactics
+ * before it have changed the context; one that is never applied is
+ * elaborated on the goal itself. Returns the tactic it stands for.
+ */
+function applyScriptTactic(
+  t: ScriptTactic,
+  st: ParseState,
+  goal: ProofGoal,
+  lemmas: Map<PropertyId, Property>
+): { tactic: Tactic; result: TacticResult } {
+  const data = st.data;
+  const scopeOf = (g: ProofGoal) => new Set(g.context.variables.map(v => v.name));
+  const elaborated = new Map<ScriptTactic, Tactic>();
+
+  const run = (g: ProofGoal, s: ScriptTactic): TacticResult => {
+    switch (s.kind) {
+      case 'atomic': {
+        const tactic = elaborated.get(s) ?? elaborateAtomicTactic(s, st, scopeOf(g));
+        elaborated.set(s, tactic);
+        return applyTactic(g, tactic, data.constructors, data.sorts, data.recursiveFunctions, data.rules, data.metaVariables, lemmas);
+      }
+      case 'all_goals':
+        // Only reached within another tactic, which is rejected below
+        return run(g, s.tactic);
+      default:
+        return applyCombinator(g, s, run);
+    }
+  };
+
+  const build = (s: ScriptTactic): Tactic => {
+    switch (s.kind) {
+      case 'atomic':
+        return elaborated.get(s) ?? elaborateAtomicTactic(s, st, scopeOf(goal));
+      case 'seq':
+        return { kind: 'seq', first: build(s.first), next: build(s.next) };
+      case 'try':
+      case 'all_goals':
+        return { kind: s.kind, tactic: build(s.tactic) };
+      case 'repeat':
+        return { kind: 'repeat', limit: s.limit, tactic: build(s.tactic) };
+      case 'first':
+        return { kind: 'first', tactics: s.tactics.map(build) };
+    }
+  };
+
+  // A step of all_goals on one goal is its tactic
+  const step = t.kind === 'all_goals' ? t.tactic : t;
+  const result = step.kind === 'atomic' || step.kind === 'all_goals' ? run(goal, step) : applyCombinatorStep(goal, step, run);
+  const tactic = build(t);
+  if (containsAllGoals(tactic)) return { tactic, result: { success: false, error: ALL_GOALS_NESTED } };
+  return { tactic, result };
+}
+
+function elaborateAtomicTactic(t: ScriptTactic & { kind: 'atomic' }, st: ParseState, scope: Set<string>): Tactic {
+  const c: Cursor = createCursor([...t.args, endOf(t.args.length > 0 ? t.args[t.args.length - 1] : t.name)]);
+  const optionalName = () => (c.atEnd() ? undefined : c.name('a name').text);
+  const propertyNamed = () => {
+    const token = c.name('a property name');
+    const property = Array.from(st.data.properties.values()).find(p => p.name === token.text);
+    if (!property) c.fail(`Unknown property '${token.text}'`, token);
+    return property;
+  };
+
+  let tactic: Tactic;
+  switch (t.name.text) {
+    case 'intro':
+      tactic = { kind: 'intro', varName: optionalName() };
+      break;
+    case 'intro_hyp':
+      tactic = { kind: 'intro_hyp', hypName: optionalName() };
+      break;
+    case 'exists':
+      tactic = { kind: 'exists_witness', witness: parseFormulaExpr(c, st, scope) };
+      break;
+    case 'induction':
+    case 'case_analysis':
+      tactic = { kind: t.name.text, varName: c.name('a variable').text };
+      break;
+    case 'derivation_induction':
+    case 'inversion':
+    case 'destruct':
+    case 'apply':
+    case 'discriminate':
+    case 'exact':
+      tactic = { kind: t.name.text, hypName: c.name('a hypothesis').text };
+      break;
+    case 'rewrite': {
+      // rewrite ← H (or <- H) rewrites right to left
+      let rtl = !!c.accept('←');
+      if (!rtl && c.is('<') && c.peek(1).text === '-') {
+        c.next();
+        c.next();
+        rtl = true;
+      }
+      tactic = { kind: 'rewrite', hypName: c.name('a hypothesis').text, ...(rtl ? { direction: 'rtl' as const } : {}) };
+      break;
+    }
+    case 'apply_rule': {
+      const token = c.name('a rule name');
+      const rule = Array.from(st.data.rules.values()).find(r => r.name === token.text);
+      if (!rule) c.fail(`Unknown rule '${token.text}'`, token);
+      tactic = { kind: 'apply_rule', ruleId: rule.id };
+      break;
+    }
+    case 'have': {
+      const property = propertyNamed();
+      const args = c.is('(') ? parseFormulaArgs(c, st, scope) : undefined;
+      const hypName = c.accept('as') ? c.name('a hypothesis name').text : undefined;
+      tactic = { kind: 'have', propertyId: property.id, ...(args ? { args } : {}), ...(hypName ? { hypName } : {}) };
+      break;
+    }
+    case 'apply_lemma':
+      tactic = { kind: 'apply_lemma', propertyId: propertyNamed().id };
+      break;
+    case 'unfold': {
+      const token = c.name('a function name');
+      const func = st.functionsByName.get(token.text);
+      if (!func) c.fail(`Unknown function '${token.text}'`, token);
+      const side = c.accept('left', 'right')?.text ?? c.fail("Expected 'left' or 'right'");
+      tactic = { kind: 'unfold', funcId: func.id, side: side as 'left' | 'right' };
+      break;
+    }
+    case 'split':
+    case 'left':
+    case 'right':
+    case 'reflexivity':
+    case 'contradiction':
+    case 'compute':
+    case 'simplify':
+    case 'trivial':
+      tactic = { kind: t.name.text };
+      break;
+    default:
+      c.fail(`Unknown tactic '${t.name.text}'`, t.name);
+  }
+  if (!c.atEnd()) c.fail(`Unexpected ${describeToken(c.peek())} after '${t.name.text}'`);
+  return tactic;
+}
+
+// Names of the workspace, for elaborating scripts outside a definition
+function stateFor(data: WorkspaceData): ParseState {
+  return {
+    data,
+    sortsByName: new Map(Array.from(data.sorts.values()).map(s => [s.name, s])),
+    functionsByName: new Map(Array.from(data.recursiveFunctions.values()).map(f => [f.name, f])),
+    notations: Array.from(data.judgments.values()).map(judgment => ({
+      judgment,
+      separators: judgment.separators.map(separatorTokens),
+    })),
+  };
+}
+
+/**
+ * Replay a script on a fresh proof of a property, running at most `limit`
+ * sentences and stopping at the first that fails. A tactic works on the
+ * first goal in focus and puts the goals it creates in its place; a bullet
+ * focuses on the next goal of the enclosing level. Goals a bullet leaves
+ * open stay open.
+ */
+export function runTacticScript(
+  property: Property,
+  script: ScriptSentence[],
+  data: WorkspaceData,
+  lemmas: Map<PropertyId, Property>,
+  limit = script.length
+): ScriptRun {
+  return replayScript(property, script, stateFor(data), lemmas, limit);
+}
+
+function replayScript(
+  property: Property,
+  script: ScriptSentence[],
+  st: ParseState,
+  lemmas: Map<PropertyId, Property>,
+  limit: number
+): ScriptRun {
+  let proof = createProof(property);
+  // The goals in focus at each bullet level, innermost last
+  const focus: { bullet: string | null; goals: GoalId[] }[] = [{ bullet: null, goals: [proof.rootGoalId] }];
+  const currentGoal = () => focus[focus.length - 1].goals[0] ?? null;
+
+  const apply = (script: ScriptTactic, goalId: GoalId, at: Token): GoalId[] => {
+    const { tactic, result } = applyScriptTactic(script, st, proof.goals.get(goalId)!, lemmas);
+    if (!result.success) throw new DslError(result.error, at.line, at.column);
+    proof = recordProofStep(proof, goalId, tactic, result);
+    return result.newGoals.map(g => g.id);
+  };
+
+  const count = Math.min(limit, script.length);
+  for (let i = 0; i < count; i++) {
+    const sentence = script[i];
+    const before = proof;
+    try {
+      if (sentence.bullet) {
+        const level = focus.findIndex(f => f.bullet === sentence.bullet);
+        if (level !== -1) focus.splice(level);
+        const goal = focus[focus.length - 1].goals.shift();
+        if (!goal) throw new DslError(`No goal left for bullet '${sentence.bullet}'`, sentence.start.line, sentence.start.column);
+        focus.push({ bullet: sentence.bullet, goals: [goal] });
+      }
+      if (sentence.tactic) {
+        const current = focus[focus.length - 1];
+        const goal = current.goals[0];
+        if (!goal) throw new DslError('No goal left here', sentence.start.line, sentence.start.column);
+        const at = scriptTacticToken(sentence.tactic);
+        const script = sentence.tactic;
+        // all_goals works on every goal in focus, with a step on each
+        if (script.kind === 'all_goals') {
+          current.goals = current.goals.flatMap(id => apply(script, id, at));
+          proof = groupProofSteps(proof, before.steps.length);
+        } else {
+          current.goals = [...apply(script, goal, at), ...current.goals.slice(1)];
+        }
+      }
+    } catch (e) {
+      if (!(e instanceof DslError)) throw e;
+      return { proof: before, executed: i, currentGoal: currentGoal(), error: { message: e.message, line: e.line, column: e.column } };
+    }
+  }
+  return { proof, executed: count, currentGoal: currentGoal(), error: null };
+}
+
+/**
+ * proof PROPERTY: script
+ *
+ * The script is replayed; the proof it builds replaces one kept from the
+ * previous definitions.
+ */
+function parseProofDeclaration(c: Cursor, st: ParseState, scripted: Set<PropertyId>): void {
+  const nameToken = c.name('a property name');
+  const property = Array.from(st.data.properties.values()).find(p => p.name === nameToken.text);
+  if (!property) c.fail(`Unknown property '${nameToken.text}'`, nameToken);
+  if (scripted.has(property.id)) c.fail(`Property '${nameToken.text}' already has a proof`, nameToken);
+  scripted.add(property.id);
+  c.expect(':');
+
+  const script = parseScriptSentences(c);
+  const run = replayScript(property, script, st, usableLemmas(property.id, st.data.properties, st.data.proofs), script.length);
+  if (run.error) {
+    throw new DslError(`In the proof of ${property.name}: ${run.error.message}`, run.error.line, run.error.column);
+  }
+
+  const kept = Array.from(st.data.proofs.values()).find(p => p.propertyId === property.id);
+  if (kept) st.data.proofs.delete(kept.id);
+  const prev = kept ?? Array.from(st.previous?.proofs.values() ?? []).find(p => p.propertyId === property.id);
+  const proof = prev ? { ...run.proof, id: prev.id } : run.proof;
+  st.data.proofs.set(proof.id, proof);
+}
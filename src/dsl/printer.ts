@@ -0,0 +1,577 @@
+import type {
+  Sort,
+  Constructor,
+  ConstructorArg,
+  Judgment,
+  InferenceRule,
+  MetaVariable,
+  Pattern,
+  JudgmentInstance,
+  RuleFuncPredicate,
+  RecursiveFunc,
+  FuncExpr,
+  FuncPredicate,
+  Formula,
+  FormulaCond,
+  FormulaExpr,
+  Proof,
+  ProofStep,
+  GoalId,
+  Tactic,
+} from '../types/syntax';
+import { orderByDependencies, DEFAULT_REPEAT_LIMIT } from '../types/syntax';
+import type { WorkspaceData } from '../store/persistence';
+import { isPlainIdentifier } from './lexer';
+import { inferJudgmentSymbol } from './parser';
+
+// ============================================================================
+// Definition Language - Pretty-Printer
+// ============================================================================
+
+/**
+ * A name as written in the definition language: quoted unless it is a plain
+ * identifier
+ */
+export function formatName(name: string): string {
+  return isPlainIdentifier(name) ? name : quote(name);
+}
+
+function quote(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+const IDENT_CHAR = /[\p{L}\p{N}_'′]/u;
+
+/**
+ * Concatenate pieces of notation, separating them where they would
+ * otherwise run together into a single token
+ */
+function joinNotation(pieces: string[]): string {
+  let out = '';
+  for (const piece of pieces) {
+    if (!piece) continue;
+    const last = out.slice(-1);
+    const first = piece.charAt(0);
+    if (last && IDENT_CHAR.test(last) && IDENT_CHAR.test(first)) out += ' ';
+    out += piece;
+  }
+  return out;
+}
+
+type PrintContext = {
+  data: WorkspaceData;
+};
+
+function sortName(ctx: PrintContext, sortId: string): string {
+  return formatName(ctx.data.sorts.get(sortId)?.name || '?');
+}
+
+function constructorName(ctx: PrintContext, constructorId: string): string {
+  return formatName(ctx.data.constructors.get(constructorId)?.name || '?');
+}
+
+function functionName(ctx: PrintContext, funcId: string): string {
+  return formatName(ctx.data.recursiveFunctions.get(funcId)?.name || '?');
+}
+
+// ============================================================================
+// Sorts
+// ============================================================================
+
+function printConstructor(ctor: Constructor, ctx: PrintContext): string {
+  if (ctor.args.length === 0) return formatName(ctor.name);
+  const labels = ctor.args.map(a => a.label || '');
+  // Refer to scope arguments by label when that is unambiguous, else by position
+  const ref = (argId: string) => {
+    const index = ctor.args.findIndex(a => a.id === argId);
+    const label = labels[index];
+    return label && labels.filter(l => l === label).length === 1 ? formatName(label) : `#${index + 1}`;
+  };
+  const printArg = (arg: ConstructorArg) => {
+    let text = arg.label ? `${formatName(arg.label)}: ${sortName(ctx, arg.sortId)}` : sortName(ctx, arg.sortId);
+    if (arg.isBinder) text += ` binds[${(arg.bindsIn || []).map(ref).join(', ')}]`;
+    return text;
+  };
+  return `${formatName(ctor.name)}(${ctor.args.map(printArg).join(', ')})`;
+}
+
+function printSort(sort: Sort, ctx: PrintContext): string {
+  let header = `${sort.kind === 'atom' ? 'atom' : 'sort'} ${formatName(sort.name)}`;
+  if (sort.description) header += ` ${quote(sort.description)}`;
+  if (sort.kind === 'atom') {
+    const defaultPrefix = sort.name.toLowerCase().charAt(0);
+    if (sort.atomPrefix && sort.atomPrefix !== defaultPrefix) header += ` prefix ${quote(sort.atomPrefix)}`;
+  }
+  if (sort.isBinderSort) header += ' bindable';
+
+  const ctors = Array.from(ctx.data.constructors.values()).filter(c => c.sortId === sort.id);
+  if (sort.kind === 'atom' || ctors.length === 0) return header;
+  return [`${header} ::=`, ...ctors.map(c => `  | ${printConstructor(c, ctx)}`)].join('\n');
+}
+
+// ============================================================================
+// Judgments and Meta-Variables
+// ============================================================================
+
+function printJudgment(judgment: Judgment, ctx: PrintContext): string {
+  let header = `judgment ${formatName(judgment.name)}`;
+  if (judgment.symbol !== inferJudgmentSymbol(judgment.name, judgment.separators)) {
+    header += ` symbol ${quote(judgment.symbol)}`;
+  }
+  const parts: string[] = [];
+  judgment.separators.forEach((sep, i) => {
+    if (sep) parts.push(quote(sep));
+    const arg = judgment.argSorts[i];
+    if (arg) {
+      const sort = sortName(ctx, arg.sortId);
+      const mode = arg.mode === 'out' ? 'out ' : '';
+      parts.push(arg.label ? `(${mode}${formatName(arg.label)}: ${sort})` : `(${mode}${sort})`);
+    }
+  });
+  return `${header}: ${parts.join(' ')}`;
+}
+
+/**
+ * One declaration per run of meta-variables of the same sort
+ */
+function printMetaVariables(metaVariables: MetaVariable[], ctx: PrintContext): string[] {
+  const lines: string[] = [];
+  let group: MetaVariable[] = [];
+  const flush = () => {
+    if (group.length === 0) return;
+    lines.push(`metavar ${group.map(mv => formatName(mv.name)).join(', ')} : ${sortName(ctx, group[0].sortId)}`);
+    group = [];
+  };
+  for (const mv of metaVariables) {
+    if (group.length > 0 && (group[0].sortId !== mv.sortId || group.some(g => g.name === mv.name))) flush();
+    group.push(mv);
+  }
+  flush();
+  return lines;
+}
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+// Binding strength of expression forms; operands weaker than their context get parentheses
+const FUNC_PRECEDENCE: Partial<Record<FuncExpr['kind'], number>> = {
+  if: 0, add: 1, sub: 1, union: 1, intersect: 1, diff: 1, mul: 2,
+};
+
+const FUNC_OPERATORS: Partial<Record<FuncExpr['kind'], string>> = {
+  add: '+', sub: '-', union: '∪', intersect: '∩', diff: '\\', mul: '×',
+};
+
+function printFuncExpr(expr: FuncExpr, ctx: PrintContext, context = 0): string {
+  const precedence = FUNC_PRECEDENCE[expr.kind] ?? 3;
+  const wrap = (text: string) => (precedence < context ? `(${text})` : text);
+  const rec = (e: FuncExpr, ctxPrec = 0) => printFuncExpr(e, ctx, ctxPrec);
+
+  switch (expr.kind) {
+    case 'int':
+      return `${expr.value}`;
+    case 'empty':
+      return '{}';
+    case 'singleton':
+      return `{${rec(expr.element)}}`;
+    case 'var':
+      return expr.name === '_' ? '_' : formatName(expr.name);
+    case 'call':
+      return `${functionName(ctx, expr.funcId)}(${rec(expr.arg)})`;
+    case 'callMulti':
+      return `${functionName(ctx, expr.funcId)}(${expr.args.map(a => rec(a)).join(', ')})`;
+    case 'construct':
+      return expr.args.length === 0
+        ? constructorName(ctx, expr.constructorId)
+        : `${constructorName(ctx, expr.constructorId)}(${expr.args.map(a => rec(a)).join(', ')})`;
+    case 'max':
+    case 'min':
+      return `${expr.kind}(${rec(expr.left)}, ${rec(expr.right)})`;
+    case 'if':
+      return wrap(`if ${printFuncPredicate(expr.cond, ctx)} then ${rec(expr.then)} else ${rec(expr.else)}`);
+    default:
+      // Left-associative: the right operand binds tighter
+      return wrap(`${rec(expr.left, precedence)} ${FUNC_OPERATORS[expr.kind]} ${rec(expr.right, precedence + 1)}`);
+  }
+}
+
+const FUNC_COMPARISON_SYMBOLS: Record<string, string> = {
+  eq: '=', neq: '≠', lt: '<', leq: '≤', gt: '>', geq: '≥',
+  atomEq: '≡', atomNeq: '≢', subset: '⊆',
+};
+
+function printFuncPredicate(pred: FuncPredicate, ctx: PrintContext, context = 0): string {
+  // Comparison operands are binary expressions at most; conditionals need parentheses
+  const operand = (e: FuncExpr) => printFuncExpr(e, ctx, 1);
+  switch (pred.kind) {
+    case 'in':
+      return `${operand(pred.element)} ∈ ${operand(pred.set)}`;
+    case 'isEmpty':
+      return `${operand(pred.set)} = ∅`;
+    case 'or': {
+      const text = `${printFuncPredicate(pred.left, ctx, 0)} ∨ ${printFuncPredicate(pred.right, ctx, 1)}`;
+      return context > 0 ? `(${text})` : text;
+    }
+    case 'and': {
+      const text = `${printFuncPredicate(pred.left, ctx, 1)} ∧ ${printFuncPredicate(pred.right, ctx, 2)}`;
+      return context > 1 ? `(${text})` : text;
+    }
+    case 'not': {
+      const inner = printFuncPredicate(pred.pred, ctx, 2);
+      return pred.pred.kind === 'not' || inner.startsWith('(') ? `¬${inner}` : `¬(${inner})`;
+    }
+    default:
+      return `${operand(pred.left)} ${FUNC_COMPARISON_SYMBOLS[pred.kind]} ${operand(pred.right)}`;
+  }
+}
+
+function printFunction(func: RecursiveFunc, ctx: PrintContext): string {
+  const args = [
+    sortName(ctx, func.inputSortId),
+    ...func.extraArgs.map(a => `${formatName(a.name)}: ${sortName(ctx, a.sortId)}`),
+  ];
+  let returnType: string;
+  switch (func.returnType.kind) {
+    case 'int':
+      returnType = 'int';
+      break;
+    case 'set':
+      returnType = `set ${sortName(ctx, func.returnType.elementSortId)}`;
+      break;
+    case 'inductive':
+      returnType = sortName(ctx, func.returnType.sortId);
+      break;
+  }
+
+  const cases = func.cases.map(fc => {
+    const vars = fc.boundVars.map(v => (v ? formatName(v) : '_'));
+    const head = vars.length > 0
+      ? `${constructorName(ctx, fc.constructorId)}(${vars.join(', ')})`
+      : constructorName(ctx, fc.constructorId);
+    return `  | ${head} => ${printFuncExpr(fc.body, ctx)}`;
+  });
+  return [`function ${formatName(func.name)} : ${args.join(', ')} → ${returnType}`, ...cases].join('\n');
+}
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+function printPattern(pattern: Pattern, ctx: PrintContext): string {
+  if (pattern.metaVariableId) {
+    return formatName(ctx.data.metaVariables.get(pattern.metaVariableId)?.name || '?');
+  }
+  if (pattern.constructorId) {
+    const name = constructorName(ctx, pattern.constructorId);
+    if (pattern.args.length === 0) return name;
+    return `${name}(${pattern.args.map(p => printPattern(p, ctx)).join(', ')})`;
+  }
+  return '_';
+}
+
+function printJudgmentInstance(instance: JudgmentInstance, ctx: PrintContext): string {
+  const judgment = ctx.data.judgments.get(instance.judgmentId);
+  if (!judgment) return '?';
+  return joinNotation(judgment.separators.flatMap((sep, i) =>
+    instance.args[i] ? [sep, printPattern(instance.args[i], ctx)] : [sep]
+  ));
+}
+
+function printSideCondition(pred: RuleFuncPredicate, ctx: PrintContext): string {
+  const call = `${functionName(ctx, pred.funcId)}(${printPattern(pred.arg, ctx)})`;
+  const value = (e: FuncExpr) => printFuncExpr(e, ctx, 1);
+  switch (pred.kind) {
+    case 'eq': return `${call} = ${value(pred.value)}`;
+    case 'neq': return `${call} ≠ ${value(pred.value)}`;
+    case 'lt': return `${call} < ${value(pred.value)}`;
+    case 'leq': return `${call} ≤ ${value(pred.value)}`;
+    case 'gt': return `${call} > ${value(pred.value)}`;
+    case 'geq': return `${call} ≥ ${value(pred.value)}`;
+    case 'isEmpty': return `${call} = ∅`;
+    case 'notEmpty': return `${call} ≠ ∅`;
+    case 'in': return `${printPattern(pred.element, ctx)} ∈ ${call}`;
+    case 'notIn': return `${printPattern(pred.element, ctx)} ∉ ${call}`;
+  }
+}
+
+function printRule(rule: InferenceRule, ctx: PrintContext): string {
+  const above = [
+    ...rule.premises.map(p => printJudgmentInstance(p, ctx)),
+    ...(rule.sideConditions || []).map(c => `if ${printSideCondition(c.predicate, ctx)}`),
+  ];
+  const conclusion = printJudgmentInstance(rule.conclusion, ctx);
+  const width = Math.max(3, conclusion.length, ...above.map(l => l.length));
+  return [
+    `rule ${formatName(rule.name)}:`,
+    ...above.map(l => `  ${l}`),
+    `  ${'-'.repeat(width)}`,
+    `  ${conclusion}`,
+  ].join('\n');
+}
+
+// ============================================================================
+// Formulas
+// ============================================================================
+
+const FORMULA_EXPR_PRECEDENCE: Record<string, number> = {
+  if: 0, add: 1, sub: 1, union: 1, intersect: 1, diff: 1, mul: 2,
+};
+
+const FORMULA_EXPR_OPERATORS: Record<string, string> = {
+  add: '+', sub: '-', union: '∪', intersect: '∩', diff: '\\', mul: '×',
+};
+
+function printFormulaExpr(expr: FormulaExpr, ctx: PrintContext, context = 0): string {
+  const precedence = FORMULA_EXPR_PRECEDENCE[expr.kind] ?? 3;
+  const wrap = (text: string) => (precedence < context ? `(${text})` : text);
+  const rec = (e: FormulaExpr, ctxPrec = 0) => printFormulaExpr(e, ctx, ctxPrec);
+  switch (expr.kind) {
+    case 'var':
+      return formatName(expr.name);
+    case 'constructor':
+      return expr.args.length === 0
+        ? constructorName(ctx, expr.constructorId)
+        : `${constructorName(ctx, expr.constructorId)}(${expr.args.map(a => rec(a)).join(', ')})`;
+    case 'funcApp':
+      return `${functionName(ctx, expr.funcId)}(${rec(expr.arg)})`;
+    case 'funcAppMulti':
+      return `${functionName(ctx, expr.funcId)}(${expr.args.map(a => rec(a)).join(', ')})`;
+    case 'int':
+      return `${expr.value}`;
+    case 'emptySet':
+      return '∅';
+    case 'singleton':
+      return `{${rec(expr.element)}}`;
+    case 'max':
+    case 'min':
+      return `${expr.kind}(${rec(expr.left)}, ${rec(expr.right)})`;
+    case 'if':
+      return wrap(`if ${printFormulaCond(expr.cond, ctx)} then ${rec(expr.then)} else ${rec(expr.else)}`);
+    default:
+      // Left-associative: the right operand binds tighter
+      return wrap(`${rec(expr.left, precedence)} ${FORMULA_EXPR_OPERATORS[expr.kind]} ${rec(expr.right, precedence + 1)}`);
+  }
+}
+
+function printFormulaCond(cond: FormulaCond, ctx: PrintContext, context = 0): string {
+  const operand = (e: FormulaExpr) => printFormulaExpr(e, ctx, 1);
+  switch (cond.kind) {
+    case 'in':
+      return `${operand(cond.element)} ∈ ${operand(cond.set)}`;
+    case 'isEmpty':
+      return `${operand(cond.set)} = ∅`;
+    case 'or': {
+      const text = `${printFormulaCond(cond.left, ctx, 0)} ∨ ${printFormulaCond(cond.right, ctx, 1)}`;
+      return context > 0 ? `(${text})` : text;
+    }
+    case 'and': {
+      const text = `${printFormulaCond(cond.left, ctx, 1)} ∧ ${printFormulaCond(cond.right, ctx, 2)}`;
+      return context > 1 ? `(${text})` : text;
+    }
+    case 'not': {
+      const inner = printFormulaCond(cond.cond, ctx, 2);
+      return cond.cond.kind === 'not' || inner.startsWith('(') ? `¬${inner}` : `¬(${inner})`;
+    }
+    default:
+      return `${operand(cond.left)} ${FUNC_COMPARISON_SYMBOLS[cond.kind]} ${operand(cond.right)}`;
+  }
+}
+
+const FORMULA_COMPARISON_SYMBOLS: Partial<Record<Formula['kind'], string>> = {
+  numEq: '=', numNeq: '≠', numLeq: '≤', numLt: '<', numGeq: '≥', numGt: '>',
+  termEq: '≡', termNeq: '≢', funcEq: '=', funcLeq: '≤', funcLt: '<',
+};
+
+// Binding strength of formula forms: quantifiers < → < ∨ < ∧ < ¬ < atoms
+const FORMULA_PRECEDENCE: Partial<Record<Formula['kind'], number>> = {
+  forall: 0, exists: 0, implies: 1, or: 2, and: 3, not: 4,
+};
+
+function printFormula(formula: Formula, ctx: PrintContext, context = 0): string {
+  const precedence = FORMULA_PRECEDENCE[formula.kind] ?? 5;
+  const wrap = (text: string) => (precedence < context ? `(${text})` : text);
+  const rec = (f: Formula, ctxPrec: number) => printFormula(f, ctx, ctxPrec);
+  // Comparison operands are binary expressions at most; conditionals need parentheses
+  const expr = (e: FormulaExpr) => printFormulaExpr(e, ctx, 1);
+
+  switch (formula.kind) {
+    case 'forall':
+    case 'exists': {
+      const quantifier = formula.kind === 'forall' ? '∀' : '∃';
+      return wrap(`${quantifier}${formatName(formula.varName)}: ${sortName(ctx, formula.sortId)}. ${rec(formula.body, 0)}`);
+    }
+    case 'implies':
+      // Right-associative; a quantifier may close the formula unparenthesised
+      return wrap(`${rec(formula.left, 2)} → ${rec(formula.right, formula.right.kind === 'implies' ? 1 : 0)}`);
+    case 'or':
+      return wrap(`${rec(formula.left, 2)} ∨ ${rec(formula.right, 3)}`);
+    case 'and':
+      return wrap(`${rec(formula.left, 3)} ∧ ${rec(formula.right, 4)}`);
+    case 'not':
+      return wrap(`¬${rec(formula.body, 4)}`);
+    case 'judgment': {
+      const judgment = ctx.data.judgments.get(formula.judgmentId);
+      if (!judgment) return '?';
+      // Arguments are atomic expressions; anything else is parenthesised
+      return joinNotation(judgment.separators.flatMap((sep, i) =>
+        formula.args[i] ? [sep, printFormulaExpr(formula.args[i], ctx, 3)] : [sep]
+      ));
+    }
+    case 'funcEq':
+    case 'funcLeq':
+    case 'funcLt':
+      return `${functionName(ctx, formula.funcId)}(${expr(formula.arg)}) ${FORMULA_COMPARISON_SYMBOLS[formula.kind]} ${expr(formula.value)}`;
+    case 'setEmpty':
+      return `${functionName(ctx, formula.funcId)}(${expr(formula.arg)}) = ∅`;
+    case 'setIn':
+      return `${expr(formula.element)} ∈ ${functionName(ctx, formula.funcId)}(${expr(formula.arg)})`;
+    case 'true':
+      return '⊤';
+    case 'false':
+      return '⊥';
+    default:
+      return `${expr(formula.left)} ${FORMULA_COMPARISON_SYMBOLS[formula.kind]} ${expr(formula.right)}`;
+  }
+}
+
+// ============================================================================
+// Proof Scripts
+// ============================================================================
+
+function printTactic(tactic: Tactic, ctx: PrintContext): string {
+  const propertyName = (id: string) => formatName(ctx.data.properties.get(id)?.name || '?');
+  switch (tactic.kind) {
+    case 'intro':
+      return tactic.varName ? `intro ${formatName(tactic.varName)}` : 'intro';
+    case 'intro_hyp':
+      return tactic.hypName ? `intro_hyp ${formatName(tactic.hypName)}` : 'intro_hyp';
+    case 'exists_witness':
+      return `exists ${printFormulaExpr(tactic.witness, ctx)}`;
+    case 'induction':
+    case 'case_analysis':
+      return `${tactic.kind} ${formatName(tactic.varName)}`;
+    case 'derivation_induction':
+    case 'inversion':
+    case 'destruct':
+    case 'apply':
+    case 'discriminate':
+    case 'exact':
+      return `${tactic.kind} ${formatName(tactic.hypName)}`;
+    case 'rewrite':
+      return `rewrite ${tactic.direction === 'rtl' ? '<- ' : ''}${formatName(tactic.hypName)}`;
+    case 'apply_rule':
+      return `apply_rule ${formatName(ctx.data.rules.get(tactic.ruleId)?.name || '?')}`;
+    case 'have': {
+      const args = tactic.args ? `(${tactic.args.map(a => printFormulaExpr(a, ctx)).join(', ')})` : '';
+      const as = tactic.hypName ? ` as ${formatName(tactic.hypName)}` : '';
+      return `have ${propertyName(tactic.propertyId)}${args}${as}`;
+    }
+    case 'apply_lemma':
+      return `apply_lemma ${propertyName(tactic.propertyId)}`;
+    case 'unfold':
+      return `unfold ${functionName(ctx, tactic.funcId)} ${tactic.side}`;
+    case 'seq':
+      // Sequences associate to the left
+      return `${printTactic(tactic.first, ctx)}; ${printInnerTactic(tactic.next, ctx)}`;
+    case 'try':
+    case 'all_goals':
+      return `${tactic.kind} ${printInnerTactic(tactic.tactic, ctx)}`;
+    case 'repeat': {
+      const limit = tactic.limit === DEFAULT_REPEAT_LIMIT ? '' : ` ${tactic.limit}`;
+      return `repeat${limit} ${printInnerTactic(tactic.tactic, ctx)}`;
+    }
+    case 'first':
+      return `first [${tactic.tactics.map(t => printTactic(t, ctx)).join(' | ')}]`;
+    default:
+      return tactic.kind;
+  }
+}
+
+// A tactic within another, parenthesised unless it is a single tactic
+function printInnerTactic(tactic: Tactic, ctx: PrintContext): string {
+  const text = printTactic(tactic, ctx);
+  return tactic.kind === 'seq' ? `(${text})` : text;
+}
+
+const BULLETS = ['-', '+', '*'];
+
+/**
+ * Print a proof as a tactic script, one tactic per line. Where a tactic
+ * leaves several goals, each is proved under a bullet; trailing goals that
+ * are still open are left out.
+ */
+export function printProofScript(proof: Proof, data: WorkspaceData): string {
+  const ctx: PrintContext = { data };
+  const stepFor = new Map<GoalId, ProofStep>(proof.steps.map(s => [s.goalId, s]));
+  const lines: string[] = [];
+
+  const printGoal = (goalId: GoalId, level: number, indent: string) => {
+    for (let step = stepFor.get(goalId); step; step = stepFor.get(goalId)) {
+      lines.push(`${indent}${printTactic(step.tactic, ctx)}.`);
+      const children = step.resultingGoals;
+      if (children.length === 1) {
+        goalId = children[0];
+        continue;
+      }
+      const bullet = BULLETS[level % BULLETS.length].repeat(1 + Math.floor(level / BULLETS.length));
+      const lastStarted = children.reduce((last, id, i) => (stepFor.has(id) ? i : last), -1);
+      children.slice(0, lastStarted + 1).forEach(child => {
+        if (!stepFor.has(child)) {
+          lines.push(`${indent}${bullet}`);
+          return;
+        }
+        const start = lines.length;
+        printGoal(child, level + 1, indent + ' '.repeat(bullet.length + 1));
+        lines[start] = `${indent}${bullet} ${lines[start].slice(indent.length + bullet.length + 1)}`;
+      });
+      return;
+    }
+  };
+
+  printGoal(proof.rootGoalId, 0, '');
+  return lines.join('\n');
+}
+
+// ============================================================================
+// Whole Definitions
+// ============================================================================
+
+/**
+ * Print a complete language definition in the textual definition language.
+ * Parsing the result with parseDefinitions gives back the same definitions.
+ */
+export function printDefinitions(data: WorkspaceData): string {
+  const ctx: PrintContext = { data };
+  // Multi-line declarations are separated by blank lines; one-liners are kept together
+  const sections: { items: string[]; separator: string }[] = [
+    { items: Array.from(data.sorts.values()).map(s => printSort(s, ctx)), separator: '\n\n' },
+    { items: printMetaVariables(Array.from(data.metaVariables.values()), ctx), separator: '\n' },
+    { items: Array.from(data.recursiveFunctions.values()).map(f => printFunction(f, ctx)), separator: '\n\n' },
+    { items: Array.from(data.judgments.values()).map(j => printJudgment(j, ctx)), separator: '\n' },
+    { items: Array.from(data.rules.values()).map(r => printRule(r, ctx)), separator: '\n\n' },
+    {
+      items: Array.from(data.properties.values()).map(p => {
+        const description = p.description ? ` ${quote(p.description)}` : '';
+        return `property ${formatName(p.name)}${description}: ${printFormula(p.formula, ctx)}`;
+      }),
+      separator: '\n',
+    },
+    {
+      // Lemmas before the proofs that use them, so each replays when parsed
+      items: orderByDependencies(data.properties, data.proofs).flatMap(p => {
+        const proof = Array.from(data.proofs.values()).find(pr => pr.propertyId === p.id);
+        if (!proof || proof.steps.length === 0) return [];
+        const script = printProofScript(proof, data).split('\n').map(line => `  ${line}`);
+        const block = [`proof ${formatName(p.name)}:`, ...script];
+        // An invalid proof no longer replays; it is kept for reference only
+        return [proof.status === 'invalid' ? block.map(line => `// ${line}`).join('\n') : block.join('\n')];
+      }),
+      separator: '\n\n',
+    },
+  ];
+  return sections
+    .filter(s => s.items.length > 0)
+    .map(s => s.items.join(s.separator))
+    .join('\n\n') + '\n';
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import type { Formula, FormulaExpr } from '../types/syntax';
+import { decideLinearArithmetic } from './arith';
+
+const v = (name: string): FormulaExpr => ({ kind: 'var', name });
+const n = (value: number): FormulaExpr => ({ kind: 'int', value });
+const add = (left: FormulaExpr, right: FormulaExpr): FormulaExpr => ({ kind: 'add', left, right });
+const mul = (left: FormulaExpr, right: FormulaExpr): FormulaExpr => ({ kind: 'mul', left, right });
+const leq = (left: FormulaExpr, right: FormulaExpr): Formula => ({ kind: 'numLeq', left, right });
+const lt = (left: FormulaExpr, right: FormulaExpr): Formula => ({ kind: 'numLt', left, right });
+const size = (arg: FormulaExpr): FormulaExpr => ({ kind: 'funcApp', funcId: 'size', arg });
+
+// The value a model gives an expression
+function valueOf(model: { expr: FormulaExpr; value: number }[], expr: FormulaExpr): number | undefined {
+  return model.find(m => JSON.stringify(m.expr) === JSON.stringify(expr))?.value;
+}
+
+describe('decideLinearArithmetic', () => {
+  it('proves a goal from the hypotheses, with the multiples of each as certificate', () => {
+    const result = decideLinearArithmetic(leq(v('x'), v('z')), [
+      { name: 'H1', formula: leq(v('x'), v('y')) },
+      { name: 'H2', formula: leq(v('y'), v('z')) },
+    ]);
+    expect(result).toEqual({
+      kind: 'valid',
+      cases: [{
+        facts: expect.arrayContaining([
+          { name: 'goal', multiple: 1 },
+          { name: 'H1', multiple: 1 },
+          { name: 'H2', multiple: 1 },
+        ]),
+        rounded: false,
+      }],
+    });
+  });
+
+  it('needs the hypotheses', () => {
+    expect(decideLinearArithmetic(leq(v('x'), v('z')), [])).toMatchObject({ kind: 'invalid' });
+  });
+
+  it('returns a model of the abstraction that falsifies an invalid goal', () => {
+    const result = decideLinearArithmetic(leq(v('x'), v('y')), [{ name: 'H', formula: leq(n(0), v('y')) }]);
+    if (result?.kind !== 'invalid') throw new Error('Expected a model');
+    const [x, y] = [valueOf(result.model, v('x'))!, valueOf(result.model, v('y'))!];
+    expect(x).toBeGreaterThan(y);
+    expect(y).toBeGreaterThanOrEqual(0);
+  });
+
+  it('treats function applications as opaque integers', () => {
+    // size(t) + size(t) ≥ 0 does not follow without knowing size(t) ≥ 0
+    const twice = add(size(v('t')), size(v('t')));
+    const goal: Formula = { kind: 'numGeq', left: twice, right: n(0) };
+    const counter = decideLinearArithmetic(goal, []);
+    if (counter?.kind !== 'invalid') throw new Error('Expected a model');
+    expect(valueOf(counter.model, size(v('t')))).toBeLessThan(0);
+    expect(decideLinearArithmetic(goal, [{ name: 'H', formula: leq(n(0), size(v('t'))) }])).toMatchObject({ kind: 'valid' });
+  });
+
+  it('tightens strict inequalities over the integers', () => {
+    // x < y gives x + 1 ≤ y over ℤ, though not over ℚ; x ≤ y does not
+    expect(decideLinearArithmetic(leq(add(v('x'), n(1)), v('y')), [{ name: 'H', formula: lt(v('x'), v('y')) }]))
+      .toMatchObject({ kind: 'valid' });
+    expect(decideLinearArithmetic(leq(add(v('x'), n(1)), v('y')), [{ name: 'H', formula: leq(v('x'), v('y')) }]))
+      .toMatchObject({ kind: 'invalid' });
+  });
+
+  it('rounds constraints whose coefficients share a divisor', () => {
+    // 0 < 2x, so 1 ≤ x: over ℚ x could be 1/2
+    const result = decideLinearArithmetic(leq(n(1), v('x')), [{ name: 'H', formula: lt(n(0), mul(n(2), v('x'))) }]);
+    expect(result).toEqual({ kind: 'valid', cases: [expect.objectContaining({ rounded: true })] });
+  });
+
+  it('refutes every case of a disjunction', () => {
+    const goal: Formula = { kind: 'numGeq', left: { kind: 'max', left: v('x'), right: v('y') }, right: v('x') };
+    expect(decideLinearArithmetic(goal, [])).toMatchObject({ kind: 'valid' });
+  });
+
+  it('ignores goals outside linear arithmetic', () => {
+    expect(decideLinearArithmetic({ kind: 'termEq', left: v('x'), right: v('y') }, [])).toBeNull();
+  });
+});
@@ -0,0 +1,480 @@
+import type { Formula, FormulaExpr, FormulaCond } from '../types/syntax';
+
+// ============================================================================
+// Linear Constraints
+// ============================================================================
+
+/**
+ * Σ cᵢ·xᵢ + constant ≥ 0 over integer unknowns. The unknowns are the atoms
+ * of the problem, by index: variables and every subexpression that is not
+ * linear arithmetic (function applications, products of unknowns, …).
+ * `sources` records the multiple of each named fact the constraint was
+ * derived from; `rounded` marks an integer tightening along the way.
+ */
+type Constraint = {
+  coeffs: Map<number, number>;
+  constant: number;
+  sources: Map<string, number>;
+  rounded: boolean;
+};
+
+type Linear = { coeffs: Map<number, number>; constant: number };
+
+// Propositional structure over constraints; negation is pushed to the leaves
+type Prop =
+  | { kind: 'atom'; constraint: Constraint }
+  | { kind: 'and' | 'or'; parts: Prop[] };
+
+/**
+ * Sources of the facts that define max, min and conditional atoms; they hold
+ * by construction and are left out of certificates.
+ */
+const DEFINITION_SOURCE = '#definition';
+
+const MAX_CASES = 256;
+const MAX_CONSTRAINTS = 2000;
+
+/** A fact made of a constant only: ⊤ or ⊥ */
+const constant = (value: number, source: string): Prop => ({
+  kind: 'atom',
+  constraint: { coeffs: new Map(), constant: value, sources: new Map([[source, 1]]), rounded: false },
+});
+
+function gcd(a: number, b: number): number {
+  while (b !== 0) [a, b] = [b, a % b];
+  return Math.abs(a);
+}
+
+function addLinear(a: Linear, b: Linear, scale: number): Linear {
+  const coeffs = new Map(a.coeffs);
+  for (const [atom, c] of b.coeffs) {
+    const sum = (coeffs.get(atom) ?? 0) + scale * c;
+    if (sum === 0) coeffs.delete(atom);
+    else coeffs.set(atom, sum);
+  }
+  return { coeffs, constant: a.constant + scale * b.constant };
+}
+
+function scaleLinear(a: Linear, scale: number): Linear {
+  if (scale === 0) return { coeffs: new Map(), constant: 0 };
+  return { coeffs: new Map([...a.coeffs].map(([atom, c]) => [atom, c * scale])), constant: a.constant * scale };
+}
+
+/**
+ * Divide by the gcd of the coefficients. Over the integers the constant can
+ * then be rounded down without losing solutions.
+ */
+function normalize(c: Constraint): Constraint {
+  let g = 0;
+  for (const coeff of c.coeffs.values()) g = gcd(g, coeff);
+  if (g <= 1 || c.constant % g === 0) return c;
+  return {
+    coeffs: new Map([...c.coeffs].map(([atom, coeff]) => [atom, coeff / g])),
+    constant: Math.floor(c.constant / g),
+    sources: new Map([...c.sources].map(([name, m]) => [name, m / g])),
+    rounded: true,
+  };
+}
+
+// ============================================================================
+// Translation
+// ============================================================================
+
+type Problem = {
+  atoms: FormulaExpr[];
+  index: Map<string, number>;
+  definitions: Prop[];
+};
+
+function atomIndex(problem: Problem, expr: FormulaExpr): { index: number; fresh: boolean } {
+  const key = JSON.stringify(expr);
+  const existing = problem.index.get(key);
+  if (existing !== undefined) return { index: existing, fresh: false };
+  const index = problem.atoms.length;
+  problem.atoms.push(expr);
+  problem.index.set(key, index);
+  return { index, fresh: true };
+}
+
+function linearize(expr: FormulaExpr, problem: Problem): Linear {
+  switch (expr.kind) {
+    case 'int':
+      return { coeffs: new Map(), constant: expr.value };
+    case 'add':
+    case 'sub':
+      return addLinear(linearize(expr.left, problem), linearize(expr.right, problem), expr.kind === 'add' ? 1 : -1);
+    case 'mul': {
+      const left = linearize(expr.left, problem);
+      const right = linearize(expr.right, problem);
+      if (left.coeffs.size === 0) return scaleLinear(right, left.constant);
+      if (right.coeffs.size === 0) return scaleLinear(left, right.constant);
+      break;
+    }
+  }
+
+  const { index, fresh } = atomIndex(problem, expr);
+  const self: Linear = { coeffs: new Map([[index, 1]]), constant: 0 };
+  if (fresh) {
+    const definition = defineAtom(expr, self, problem);
+    if (definition) problem.definitions.push(definition);
+  }
+  return self;
+}
+
+// What is known about an atom from its own shape
+function defineAtom(expr: FormulaExpr, self: Linear, problem: Problem): Prop | null {
+  switch (expr.kind) {
+    case 'max':
+    case 'min': {
+      const left = linearize(expr.left, problem);
+      const right = linearize(expr.right, problem);
+      // max(a, b) ≥ a, max(a, b) ≥ b, and it is one of them
+      const [bound, attained] = expr.kind === 'max'
+        ? [(e: Linear) => geq(self, e, 0, DEFINITION_SOURCE), (e: Linear) => geq(e, self, 0, DEFINITION_SOURCE)]
+        : [(e: Linear) => geq(e, self, 0, DEFINITION_SOURCE), (e: Linear) => geq(self, e, 0, DEFINITION_SOURCE)];
+      return {
+        kind: 'and',
+        parts: [bound(left), bound(right), { kind: 'or', parts: [attained(left), attained(right)] }],
+      };
+    }
+    case 'if': {
+      const cond = condToProp(expr.cond, problem);
+      if (!cond) return null;
+      const thenBranch = linearize(expr.then, problem);
+      const elseBranch = linearize(expr.else, problem);
+      return {
+        kind: 'or',
+        parts: [
+          { kind: 'and', parts: [cond, equal(self, thenBranch, DEFINITION_SOURCE)] },
+          { kind: 'and', parts: [negate(cond), equal(self, elseBranch, DEFINITION_SOURCE)] },
+        ],
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+// left - right - offset ≥ 0
+function geq(left: Linear, right: Linear, offset: number, source: string): Prop {
+  const diff = addLinear(left, right, -1);
+  return {
+    kind: 'atom',
+    constraint: normalize({ ...diff, constant: diff.constant - offset, sources: new Map([[source, 1]]), rounded: false }),
+  };
+}
+
+function equal(left: Linear, right: Linear, source: string): Prop {
+  return { kind: 'and', parts: [geq(left, right, 0, source), geq(right, left, 0, source)] };
+}
+
+// Over the integers ¬(e ≥ 0) is -e - 1 ≥ 0
+function negate(prop: Prop): Prop {
+  if (prop.kind === 'atom') {
+    const c = prop.constraint;
+    const negated = scaleLinear(c, -1);
+    return {
+      kind: 'atom',
+      constraint: normalize({
+        ...negated,
+        constant: negated.constant - 1,
+        sources: new Map([...c.sources.keys()].map(name => [name, 1])),
+        rounded: c.rounded,
+      }),
+    };
+  }
+  return { kind: prop.kind === 'and' ? 'or' : 'and', parts: prop.parts.map(negate) };
+}
+
+type Comparison = 'eq' | 'neq' | 'leq' | 'lt' | 'geq' | 'gt';
+
+function comparison(kind: Comparison, l: FormulaExpr, r: FormulaExpr, problem: Problem, source: string): Prop {
+  const left = linearize(l, problem);
+  const right = linearize(r, problem);
+  switch (kind) {
+    case 'eq':
+      return equal(left, right, source);
+    case 'neq':
+      return negate(equal(left, right, source));
+    case 'leq':
+      return geq(right, left, 0, source);
+    case 'lt':
+      return geq(right, left, 1, source);
+    case 'geq':
+      return geq(left, right, 0, source);
+    case 'gt':
+      return geq(left, right, 1, source);
+  }
+}
+
+function condToProp(cond: FormulaCond, problem: Problem): Prop | null {
+  switch (cond.kind) {
+    case 'eq':
+    case 'neq':
+    case 'lt':
+    case 'leq':
+    case 'gt':
+    case 'geq':
+      return comparison(cond.kind, cond.left, cond.right, problem, DEFINITION_SOURCE);
+    case 'and':
+    case 'or': {
+      const left = condToProp(cond.left, problem);
+      const right = condToProp(cond.right, problem);
+      return left && right ? { kind: cond.kind, parts: [left, right] } : null;
+    }
+    case 'not': {
+      const inner = condToProp(cond.cond, problem);
+      return inner && negate(inner);
+    }
+    default:
+      return null;
+  }
+}
+
+const FORMULA_COMPARISONS: Partial<Record<Formula['kind'], Comparison>> = {
+  numEq: 'eq', numNeq: 'neq', numLeq: 'leq', numLt: 'lt', numGeq: 'geq', numGt: 'gt',
+  funcEq: 'eq', funcLeq: 'leq', funcLt: 'lt',
+};
+
+/**
+ * Translate a quantifier-free formula of linear arithmetic, or null if it
+ * mentions anything else.
+ */
+function formulaToProp(formula: Formula, problem: Problem, source: string): Prop | null {
+  switch (formula.kind) {
+    case 'true':
+      return constant(0, source);
+    case 'false':
+      return constant(-1, source);
+    case 'numEq':
+    case 'numNeq':
+    case 'numLeq':
+    case 'numLt':
+    case 'numGeq':
+    case 'numGt':
+      return comparison(FORMULA_COMPARISONS[formula.kind]!, formula.left, formula.right, problem, source);
+    case 'funcEq':
+    case 'funcLeq':
+    case 'funcLt': {
+      const app: FormulaExpr = { kind: 'funcApp', funcId: formula.funcId, arg: formula.arg };
+      return comparison(FORMULA_COMPARISONS[formula.kind]!, app, formula.value, problem, source);
+    }
+    case 'and':
+    case 'or': {
+      const left = formulaToProp(formula.left, problem, source);
+      const right = formulaToProp(formula.right, problem, source);
+      return left && right ? { kind: formula.kind, parts: [left, right] } : null;
+    }
+    case 'implies': {
+      const left = formulaToProp(formula.left, problem, source);
+      const right = formulaToProp(formula.right, problem, source);
+      return left && right ? { kind: 'or', parts: [negate(left), right] } : null;
+    }
+    case 'not': {
+      const body = formulaToProp(formula.body, problem, source);
+      return body && negate(body);
+    }
+    default:
+      return null;
+  }
+}
+
+// The arithmetic conjuncts of a fact; a fact is only used where it is exact
+function factToProps(formula: Formula, problem: Problem, source: string): Prop[] {
+  if (formula.kind === 'and') {
+    return [...factToProps(formula.left, problem, source), ...factToProps(formula.right, problem, source)];
+  }
+  const prop = formulaToProp(formula, problem, source);
+  return prop ? [prop] : [];
+}
+
+// ============================================================================
+// Fourier–Motzkin Elimination
+// ============================================================================
+
+type Elimination =
+  | { kind: 'refuted'; constraint: Constraint }
+  | { kind: 'model'; values: Map<number, number> }
+  | { kind: 'unknown'; reason: string };
+
+/**
+ * Eliminate the unknowns one at a time, combining each lower bound with each
+ * upper bound. A constant constraint below zero refutes the conjunction; if
+ * none appears, an integer solution is built back from the eliminated
+ * bounds, which can fail where the rational shadow has no integer point.
+ */
+function eliminate(constraints: Constraint[]): Elimination {
+  const stages: { atom: number; constraints: Constraint[] }[] = [];
+  let current = constraints;
+
+  for (;;) {
+    const seen = new Set<string>();
+    const next: Constraint[] = [];
+    for (const c of current) {
+      if (c.coeffs.size === 0) {
+        if (c.constant < 0) return { kind: 'refuted', constraint: c };
+        continue;
+      }
+      const key = JSON.stringify([[...c.coeffs].sort((a, b) => a[0] - b[0]), c.constant]);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      next.push(c);
+    }
+    current = next;
+    if (current.length === 0) break;
+
+    // The unknown producing the fewest combinations
+    const counts = new Map<number, { lower: number; upper: number }>();
+    for (const c of current) {
+      for (const [atom, coeff] of c.coeffs) {
+        const count = counts.get(atom) ?? { lower: 0, upper: 0 };
+        if (coeff > 0) count.lower++;
+        else count.upper++;
+        counts.set(atom, count);
+      }
+    }
+    let atom = -1;
+    let best = Infinity;
+    for (const [a, { lower, upper }] of counts) {
+      const cost = lower * upper - lower - upper;
+      if (cost < best) {
+        best = cost;
+        atom = a;
+      }
+    }
+
+    const mentioning = current.filter(c => c.coeffs.has(atom));
+    stages.push({ atom, constraints: mentioning });
+    const remaining = current.filter(c => !c.coeffs.has(atom));
+    const lower = mentioning.filter(c => c.coeffs.get(atom)! > 0);
+    const upper = mentioning.filter(c => c.coeffs.get(atom)! < 0);
+    for (const l of lower) {
+      for (const u of upper) {
+        const a = l.coeffs.get(atom)!;
+        const b = -u.coeffs.get(atom)!;
+        const combined = addLinear(scaleLinear(l, b), scaleLinear(u, a), 1);
+        combined.coeffs.delete(atom);
+        const sources = new Map<string, number>();
+        for (const [name, m] of l.sources) sources.set(name, (sources.get(name) ?? 0) + b * m);
+        for (const [name, m] of u.sources) sources.set(name, (sources.get(name) ?? 0) + a * m);
+        remaining.push(normalize({ ...combined, sources, rounded: l.rounded || u.rounded }));
+      }
+    }
+    if (remaining.length > MAX_CONSTRAINTS) {
+      return { kind: 'unknown', reason: 'the problem is too large' };
+    }
+    current = remaining;
+  }
+
+  const values = new Map<number, number>();
+  for (const { atom, constraints: bounds } of [...stages].reverse()) {
+    let low = -Infinity;
+    let high = Infinity;
+    for (const c of bounds) {
+      const a = c.coeffs.get(atom)!;
+      let rest = c.constant;
+      for (const [other, coeff] of c.coeffs) {
+        if (other !== atom) rest += coeff * (values.get(other) ?? 0);
+      }
+      if (a > 0) low = Math.max(low, Math.ceil(-rest / a));
+      else high = Math.min(high, Math.floor(rest / -a));
+    }
+    if (low > high) return { kind: 'unknown', reason: 'no integer solution was found between the bounds' };
+    values.set(atom, Math.min(Math.max(0, low), high));
+  }
+  return { kind: 'model', values };
+}
+
+// ============================================================================
+// Decision Procedure
+// ============================================================================
+
+/**
+ * A refutation of one case: the nonnegative multiples of the facts whose sum
+ * is a negative constant. `rounded` marks integer tightening.
+ */
+export type ArithRefutation = { facts: { name: string; multiple: number }[]; rounded: boolean };
+
+export type ArithResult =
+  | { kind: 'valid'; cases: ArithRefutation[] }
+  | { kind: 'invalid'; model: { expr: FormulaExpr; value: number }[] }
+  | { kind: 'unknown'; reason: string };
+
+function refutation(c: Constraint): ArithRefutation {
+  const facts = [...c.sources].filter(([name, m]) => name !== DEFINITION_SOURCE && m !== 0);
+  // Scale to the smallest whole multiples when they are whole
+  const divisor = facts.every(([, m]) => Number.isInteger(m))
+    ? facts.reduce((g, [, m]) => gcd(g, m), 0) || 1
+    : 1;
+  return {
+    facts: facts.map(([name, m]) => ({ name, multiple: m / divisor })),
+    rounded: c.rounded,
+  };
+}
+
+/**
+ * Decide whether the facts imply the goal in linear integer arithmetic,
+ * treating every non-arithmetic subexpression (function applications,
+ * variables, products of unknowns) as an opaque integer. The goal's
+ * negation is added under the name 'goal' and every case of the resulting
+ * disjunction is refuted; otherwise a counter-model of the arithmetic
+ * abstraction is returned. Facts that are not arithmetic are ignored.
+ * Returns null if the goal itself is not linear arithmetic.
+ */
+export function decideLinearArithmetic(
+  goal: Formula,
+  facts: { name: string; formula: Formula }[]
+): ArithResult | null {
+  const problem: Problem = { atoms: [], index: new Map(), definitions: [] };
+  const goalProp = formulaToProp(goal, problem, 'goal');
+  if (!goalProp) return null;
+  const agenda: Prop[] = [negate(goalProp)];
+  for (const fact of facts) agenda.push(...factToProps(fact.formula, problem, fact.name));
+  agenda.push(...problem.definitions);
+
+  const cases: ArithRefutation[] = [];
+  let unknown: string | null = null;
+  let budget = MAX_CASES;
+
+  // Depth-first over the disjunctions, refuting each case
+  const search = (constraints: Constraint[], pending: Prop[]): ArithResult | null => {
+    if (budget < 0) return null;
+    let i = 0;
+    const found = [...constraints];
+    for (; i < pending.length; i++) {
+      const prop = pending[i];
+      if (prop.kind === 'atom') found.push(prop.constraint);
+      else if (prop.kind === 'and') pending = [...pending.slice(0, i + 1), ...prop.parts, ...pending.slice(i + 1)];
+      else break;
+    }
+    if (i < pending.length) {
+      const disjunction = pending[i] as Prop & { kind: 'or' };
+      const rest = pending.slice(i + 1);
+      for (const part of disjunction.parts) {
+        const result = search(found, [part, ...rest]);
+        if (result) return result;
+      }
+      return null;
+    }
+
+    if (--budget < 0) {
+      unknown = 'there are too many cases';
+      return null;
+    }
+    const result = eliminate(found);
+    if (result.kind === 'refuted') cases.push(refutation(result.constraint));
+    else if (result.kind === 'unknown') unknown = result.reason;
+    else {
+      return {
+        kind: 'invalid',
+        model: problem.atoms.map((expr, index) => ({ expr, value: result.values.get(index) ?? 0 })),
+      };
+    }
+    return null;
+  };
+
+  const counter = search([], agenda);
+  if (counter) return counter;
+  if (unknown) return { kind: 'unknown', reason: unknown };
+  return { kind: 'valid', cases };
+}
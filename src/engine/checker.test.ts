@@ -0,0 +1,187 @@
+import { describe, expect, it } from 'vitest';
+import type { WorkspaceData } from '../store/persistence';
+import { NATS, TREES, parse, property } from '../test/workspace';
+import type { Formula, Proof, Tactic } from '../types/syntax';
+import { applyTacticToProof, createProof, dependentProperties, recordProofStep, usableLemmas } from '../types/syntax';
+import { checkProof, recheckProofs } from './checker';
+
+const SIZES = `${TREES}property nonneg: ∀x: T. size(x) ≥ 0
+property twice: ∀x: T. size(x) + size(x) ≥ 0
+`;
+
+// Prove a property by applying tactics to the first open goal in turn, and
+// add the proof to the workspace
+function prove(data: WorkspaceData, name: string, tactics: Tactic[], start?: Proof): Proof {
+  const prop = property(data, name);
+  const lemmas = usableLemmas(prop.id, data.properties, data.proofs);
+  const proof = tactics.reduce((current, tactic) => {
+    const applied = applyTacticToProof(
+      current,
+      current.openGoals[0],
+      tactic,
+      data.constructors,
+      data.sorts,
+      data.recursiveFunctions,
+      data.rules,
+      data.metaVariables,
+      lemmas
+    );
+    if (!applied.result.success) throw new Error(applied.result.error);
+    return applied.proof;
+  }, start ?? createProof(prop));
+  data.proofs.set(proof.id, proof);
+  return proof;
+}
+
+// A proof of a property whose first step is recorded as turning the goal into
+// `goal`, with `hypothesis` added as H, without applying the tactic
+function forge(data: WorkspaceData, name: string, tactic: Tactic, goal: Formula, hypothesis?: Formula): Proof {
+  const proof = createProof(property(data, name));
+  const root = proof.goals.get(proof.rootGoalId)!;
+  const hypotheses = hypothesis ? [{ id: 'H', name: 'H', formula: hypothesis }] : [];
+  return recordProofStep(proof, root.id, tactic, {
+    success: true,
+    newGoals: [{ id: 'forged', context: { variables: [], hypotheses }, goal }],
+  });
+}
+
+// size(x) ≥ 0 by induction, computing in both cases
+const NONNEG: Tactic[] = [
+  { kind: 'intro', varName: 'x' },
+  { kind: 'induction', varName: 'x' },
+  { kind: 'compute' },
+  { kind: 'compute' },
+  { kind: 'simplify' },
+];
+
+function check(data: WorkspaceData, proof: Proof) {
+  const prop = data.properties.get(proof.propertyId)!;
+  return checkProof(proof, prop, data, usableLemmas(prop.id, data.properties, data.proofs));
+}
+
+describe('checkProof', () => {
+  it('certifies a proof built by tactics', () => {
+    const data = parse(SIZES);
+    const proof = prove(data, 'nonneg', NONNEG);
+    expect(proof.status).toBe('complete');
+    expect(check(data, proof)).toEqual({ valid: true, complete: true });
+  });
+
+  it('reports an open proof as valid but incomplete', () => {
+    const data = parse(SIZES);
+    const proof = prove(data, 'nonneg', [{ kind: 'intro', varName: 'x' }]);
+    expect(check(data, proof)).toEqual({ valid: true, complete: false });
+  });
+
+  it('rejects a proof whose recorded goals were tampered with', () => {
+    const data = parse(SIZES);
+    const proof = prove(data, 'nonneg', NONNEG);
+    const step = proof.steps[0];
+    const goal = proof.goals.get(step.resultingGoals[0])!;
+    const goals = new Map(proof.goals).set(goal.id, { ...goal, goal: { kind: 'true' } });
+    const result = check(data, { ...proof, goals });
+    expect(result).toMatchObject({ valid: false, stepIndex: 0 });
+  });
+
+  it('flags a proof made stale by an edit to a function', () => {
+    const data = parse(SIZES);
+    const proof = prove(data, 'nonneg', NONNEG);
+    const edited = parse(SIZES.replace('| L => 0', '| L => 0 - 1'), data);
+    expect(edited.proofs.get(proof.id)).toBeDefined();
+    expect(check(edited, proof).valid).toBe(false);
+  });
+});
+
+describe('checkProof on ill-sorted steps', () => {
+  // Instantiating cases with a B, or the ∃ with one, would prove ⊥
+  const SORTS = `${NATS}sort B ::= T | F
+property cases: ∀x: N. x ≡ Z ∨ ∃y: N. x ≡ S(y)
+property absurd: ⊥
+property ex: ∃y: N. (y ≡ Z → ⊥) ∧ (∀z: N. y ≡ S(z) → ⊥)
+property cases_T: T ≡ Z ∨ ∃y: N. T ≡ S(y)
+property ex_T: (T ≡ Z → ⊥) ∧ (∀z: N. T ≡ S(z) → ⊥)
+proof cases: intro x. case_analysis x. - left. reflexivity. - right. exists x0. reflexivity.
+`;
+  const T = (data: WorkspaceData) => Array.from(data.constructors.values()).find(c => c.name === 'T')!.id;
+
+  it('rejects a lemma instantiated with an argument of another sort', () => {
+    const data = parse(SORTS);
+    const tactic: Tactic = { kind: 'have', propertyId: property(data, 'cases').id, args: [{ kind: 'constructor', constructorId: T(data), args: [] }], hypName: 'H' };
+    const proof = prove(data, 'absurd', [
+      { kind: 'destruct', hypName: 'H' },
+      { kind: 'discriminate', hypName: 'H' },
+      { kind: 'destruct', hypName: 'H' },
+      { kind: 'discriminate', hypName: 'H' },
+    ], forge(data, 'absurd', tactic, { kind: 'false' }, property(data, 'cases_T').formula));
+    expect(proof.status).toBe('complete');
+    expect(check(data, proof)).toEqual({ valid: false, stepIndex: 0, error: 'Ill-sorted have: T has sort B, expected N' });
+  });
+
+  it('rejects a witness of another sort', () => {
+    const data = parse(SORTS);
+    const tactic: Tactic = { kind: 'exists_witness', witness: { kind: 'constructor', constructorId: T(data), args: [] } };
+    const proof = prove(data, 'ex', [
+      { kind: 'split' },
+      { kind: 'intro_hyp', hypName: 'H' },
+      { kind: 'intro', varName: 'z' },
+      { kind: 'discriminate', hypName: 'H' },
+      { kind: 'intro_hyp', hypName: 'H' },
+      { kind: 'discriminate', hypName: 'H' },
+    ], forge(data, 'ex', tactic, property(data, 'ex_T').formula));
+    expect(proof.status).toBe('complete');
+    expect(check(data, proof)).toEqual({ valid: false, stepIndex: 0, error: 'Ill-sorted exists_witness: T has sort B, expected N' });
+  });
+
+  it('rejects ill-sorted terms within a combinator', () => {
+    const data = parse(SORTS);
+    const have: Tactic = { kind: 'have', propertyId: property(data, 'cases').id, args: [{ kind: 'constructor', constructorId: T(data), args: [] }], hypName: 'H' };
+    const proof = forge(data, 'absurd', { kind: 'try', tactic: have }, { kind: 'false' }, property(data, 'cases_T').formula);
+    expect(check(data, proof)).toEqual({ valid: false, stepIndex: 0, error: 'Subgoal 1 differs from the recorded one' });
+  });
+
+  it('rejects an ill-sorted statement', () => {
+    const data = parse(SORTS);
+    const proof = prove(data, 'cases_T', []);
+    expect(check(data, proof)).toMatchObject({ valid: false, error: 'The statement is ill-sorted: Z has sort N, expected B' });
+  });
+});
+
+describe('recheckProofs', () => {
+  it('returns the same map when nothing changes', () => {
+    const data = parse(SIZES);
+    prove(data, 'nonneg', NONNEG);
+    expect(recheckProofs(data.properties, data.proofs, data)).toBe(data.proofs);
+  });
+
+  it('invalidates proofs that use a lemma whose proof went stale', () => {
+    const data = parse(SIZES);
+    const lemma = prove(data, 'nonneg', NONNEG);
+    const user = prove(data, 'twice', [
+      { kind: 'intro', varName: 'x' },
+      { kind: 'have', propertyId: lemma.propertyId, args: [{ kind: 'var', name: 'x' }] },
+      { kind: 'simplify' },
+    ]);
+    expect(user.status).toBe('complete');
+
+    const edited = parse(SIZES.replace('| L => 0', '| L => 0 - 1'), data);
+    const rechecked = recheckProofs(edited.properties, edited.proofs, edited);
+    expect(rechecked.get(lemma.id)?.status).toBe('invalid');
+    expect(rechecked.get(user.id)?.status).toBe('invalid');
+  });
+
+  it('rechecks only the proofs relying on the given lemmas', () => {
+    const data = parse(SIZES);
+    const lemma = prove(data, 'nonneg', NONNEG);
+    const user = prove(data, 'twice', [
+      { kind: 'intro', varName: 'x' },
+      { kind: 'have', propertyId: lemma.propertyId, args: [{ kind: 'var', name: 'x' }] },
+      { kind: 'simplify' },
+    ]);
+    data.proofs.delete(lemma.id);
+
+    const dependent = dependentProperties(new Set([lemma.propertyId]), data.proofs);
+    expect([...dependent]).toEqual([user.propertyId]);
+    expect(recheckProofs(data.properties, data.proofs, data, new Set())).toBe(data.proofs);
+    expect(recheckProofs(data.properties, data.proofs, data, dependent).get(user.id)?.status).toBe('invalid');
+  });
+});
@@ -0,0 +1,289 @@
+import type {
+  Sort,
+  SortId,
+  Constructor,
+  ConstructorId,
+  Judgment,
+  JudgmentId,
+  InferenceRule,
+  RuleId,
+  MetaVariable,
+  RecursiveFunc,
+  RecFuncId,
+  Property,
+  PropertyId,
+  Proof,
+  ProofId,
+  ProofGoal,
+  Formula,
+  FormulaExpr,
+  SortCheckContext,
+  Tactic,
+  TacticResult,
+} from '../types/syntax';
+import {
+  ALL_GOALS_NESTED,
+  applyCombinatorStep,
+  applyTactic,
+  checkExprSort,
+  inferExprSort,
+  containsAllGoals,
+  contextSorts,
+  formulaEqual,
+  usableLemmas,
+  orderByDependencies,
+} from '../types/syntax';
+
+// ============================================================================
+// Proof Checking
+// ============================================================================
+
+// The definitions a proof is checked against
+export type ProofCheckContext = {
+  sorts: Map<SortId, Sort>;
+  constructors: Map<ConstructorId, Constructor>;
+  judgments: Map<JudgmentId, Judgment>;
+  rules: Map<RuleId, InferenceRule>;
+  metaVariables: Map<string, MetaVariable>;
+  recursiveFunctions: Map<RecFuncId, RecursiveFunc>;
+};
+
+/**
+ * - valid: every step replays to exactly the recorded goals; `complete` when
+ *   no goal is left open
+ * - invalid: what failed, and at which step (null when not due to one step)
+ */
+export type ProofCheckResult =
+  | { valid: true; complete: boolean }
+  | { valid: false; stepIndex: number | null; error: string };
+
+// Same variables, hypotheses and goal, in the same order
+function goalsMatch(recorded: ProofGoal, replayed: ProofGoal): boolean {
+  const { variables, hypotheses } = recorded.context;
+  return formulaEqual(recorded.goal, replayed.goal) &&
+    variables.length === replayed.context.variables.length &&
+    variables.every((v, i) => v.name === replayed.context.variables[i].name && v.sortId === replayed.context.variables[i].sortId) &&
+    hypotheses.length === replayed.context.hypotheses.length &&
+    hypotheses.every((h, i) => h.name === replayed.context.hypotheses[i].name && formulaEqual(h.formula, replayed.context.hypotheses[i].formula));
+}
+
+// Why a formula is ill-sorted where `variables` are bound, or null
+function formulaSortError(formula: Formula, variables: Map<string, SortId>, ctx: ProofCheckContext): string | null {
+  const sortCtx: SortCheckContext = { sorts: ctx.sorts, constructors: ctx.constructors, functions: ctx.recursiveFunctions };
+  const rec = (f: Formula) => formulaSortError(f, variables, ctx);
+  const expect = (expr: FormulaExpr, sortId: SortId) => checkExprSort(expr, { kind: 'sort', sortId }, variables, sortCtx);
+  const int = (...exprs: FormulaExpr[]) => {
+    for (const expr of exprs) {
+      const error = checkExprSort(expr, { kind: 'int' }, variables, sortCtx);
+      if (error) return error;
+    }
+    return null;
+  };
+  const same = (left: FormulaExpr, right: FormulaExpr) => {
+    const sort = inferExprSort(left, variables, sortCtx);
+    return 'error' in sort ? sort.error : checkExprSort(right, sort, variables, sortCtx);
+  };
+  const func = (funcId: string) => ctx.recursiveFunctions.get(funcId);
+
+  switch (formula.kind) {
+    case 'forall':
+    case 'exists':
+      if (!ctx.sorts.has(formula.sortId)) return `${formula.varName} ranges over an unknown sort`;
+      return formulaSortError(formula.body, new Map(variables).set(formula.varName, formula.sortId), ctx);
+    case 'implies':
+    case 'and':
+    case 'or':
+      return rec(formula.left) ?? rec(formula.right);
+    case 'not':
+      return rec(formula.body);
+    case 'judgment': {
+      const judgment = ctx.judgments.get(formula.judgmentId);
+      if (!judgment) return 'Unknown judgment';
+      if (judgment.argSorts.length !== formula.args.length) return `${judgment.name} takes ${judgment.argSorts.length} argument(s)`;
+      for (const [i, arg] of formula.args.entries()) {
+        const error = expect(arg, judgment.argSorts[i].sortId);
+        if (error) return error;
+      }
+      return null;
+    }
+    case 'termEq':
+    case 'termNeq':
+    case 'numEq':
+    case 'numNeq':
+      return same(formula.left, formula.right);
+    case 'numLeq':
+    case 'numLt':
+    case 'numGeq':
+    case 'numGt':
+      return int(formula.left, formula.right);
+    case 'funcEq':
+    case 'funcLeq':
+    case 'funcLt':
+      return same({ kind: 'funcApp', funcId: formula.funcId, arg: formula.arg }, formula.value);
+    case 'setEmpty': {
+      const f = func(formula.funcId);
+      if (f?.returnType.kind !== 'set') return 'Expected a set-valued function';
+      return expect(formula.arg, f.inputSortId);
+    }
+    case 'setIn': {
+      const f = func(formula.funcId);
+      if (f?.returnType.kind !== 'set') return 'Expected a set-valued function';
+      return expect(formula.arg, f.inputSortId) ?? expect(formula.element, f.returnType.elementSortId);
+    }
+    case 'true':
+    case 'false':
+      return null;
+  }
+}
+
+// Why a goal's variables, hypotheses or statement are ill-sorted, or null
+function goalSortError(goal: ProofGoal, ctx: ProofCheckContext): string | null {
+  const unknown = goal.context.variables.find(v => !ctx.sorts.has(v.sortId));
+  if (unknown) return `${unknown.name} ranges over an unknown sort`;
+  const variables = contextSorts(goal.context);
+  for (const h of goal.context.hypotheses) {
+    const error = formulaSortError(h.formula, variables, ctx);
+    if (error) return `In ${h.name}: ${error}`;
+  }
+  return formulaSortError(goal.goal, variables, ctx);
+}
+
+// Why the terms an atomic tactic supplies do not have the sorts they stand for, or null
+function tacticSortError(goal: ProofGoal, tactic: Tactic, ctx: ProofCheckContext, lemmas: Map<PropertyId, Property>): string | null {
+  const sortCtx: SortCheckContext = { sorts: ctx.sorts, constructors: ctx.constructors, functions: ctx.recursiveFunctions };
+  const variables = contextSorts(goal.context);
+  switch (tactic.kind) {
+    case 'exists_witness':
+      if (goal.goal.kind !== 'exists') return null;
+      return checkExprSort(tactic.witness, { kind: 'sort', sortId: goal.goal.sortId }, variables, sortCtx);
+    case 'have': {
+      let instance = lemmas.get(tactic.propertyId)?.formula;
+      for (const arg of tactic.args ?? []) {
+        if (instance?.kind !== 'forall') return null;
+        const error = checkExprSort(arg, { kind: 'sort', sortId: instance.sortId }, variables, sortCtx);
+        if (error) return error;
+        instance = instance.body;
+      }
+      return null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Replay a step's tactic on a goal. Combinators are evaluated here, so that
+ * every atomic tactic they run is sort-checked along with the goals it
+ * produces; an ill-sorted application fails like an inapplicable one.
+ */
+function replayTactic(goal: ProofGoal, tactic: Tactic, ctx: ProofCheckContext, lemmas: Map<PropertyId, Property>): TacticResult {
+  const replay = (g: ProofGoal, t: Tactic): TacticResult => {
+    switch (t.kind) {
+      case 'seq':
+      case 'try':
+      case 'repeat':
+      case 'first':
+        return applyCombinatorStep(g, t, replay);
+      case 'all_goals':
+        return { success: false, error: ALL_GOALS_NESTED };
+    }
+    const argumentError = tacticSortError(g, t, ctx, lemmas);
+    if (argumentError) return { success: false, error: `Ill-sorted ${t.kind}: ${argumentError}` };
+    const result = applyTactic(g, t, ctx.constructors, ctx.sorts, ctx.recursiveFunctions, ctx.rules, ctx.metaVariables, lemmas);
+    if (!result.success) return result;
+    for (const newGoal of result.newGoals) {
+      const error = goalSortError(newGoal, ctx);
+      if (error) return { success: false, error: `${t.kind} produces an ill-sorted goal: ${error}` };
+    }
+    return result;
+  };
+  // A step of all_goals on one goal is its tactic
+  const step = tactic.kind === 'all_goals' ? tactic.tactic : tactic;
+  if (containsAllGoals(step)) return { success: false, error: ALL_GOALS_NESTED };
+  return replay(goal, step);
+}
+
+/**
+ * Check a proof from scratch: starting from the property's statement, replay
+ * every step and compare the goals each produces with the recorded ones.
+ * Every goal, and every term a tactic supplies, must be well-sorted. The
+ * recorded `status` and `openGoals` are not trusted.
+ */
+export function checkProof(
+  proof: Proof,
+  property: Property,
+  ctx: ProofCheckContext,
+  lemmas: Map<PropertyId, Property>
+): ProofCheckResult {
+  const invalid = (stepIndex: number | null, error: string): ProofCheckResult => ({ valid: false, stepIndex, error });
+
+  const root = proof.goals.get(proof.rootGoalId);
+  if (!root || root.context.variables.length > 0 || root.context.hypotheses.length > 0 || !formulaEqual(root.goal, property.formula)) {
+    return invalid(null, 'The proof does not start from the statement of the property');
+  }
+  const statementError = goalSortError(root, ctx);
+  if (statementError) return invalid(null, `The statement is ill-sorted: ${statementError}`);
+
+  const checked = new Set<string>([root.id]);
+  const open = new Set<string>([root.id]);
+  for (const [i, step] of proof.steps.entries()) {
+    const goal = proof.goals.get(step.goalId);
+    if (!goal || !open.has(step.goalId)) return invalid(i, 'The step applies to a goal that is not open');
+
+    const result = replayTactic(goal, step.tactic, ctx, lemmas);
+    if (!result.success) return invalid(i, result.error);
+    if (result.newGoals.length !== step.resultingGoals.length) {
+      const goals = (n: number) => `${n} goal${n === 1 ? '' : 's'}`;
+      return invalid(i, `The tactic now produces ${goals(result.newGoals.length)} instead of ${goals(step.resultingGoals.length)}`);
+    }
+    for (const [j, id] of step.resultingGoals.entries()) {
+      const recorded = proof.goals.get(id);
+      if (!recorded || checked.has(id) || !goalsMatch(recorded, result.newGoals[j])) {
+        return invalid(i, `Subgoal ${j + 1} differs from the recorded one`);
+      }
+      checked.add(id);
+      open.add(id);
+    }
+    open.delete(step.goalId);
+  }
+
+  if (checked.size !== proof.goals.size) return invalid(null, 'The proof records goals no step produced');
+  if (open.size !== proof.openGoals.length || !proof.openGoals.every(id => open.has(id))) {
+    return invalid(null, 'The open goals do not match the steps');
+  }
+  return { valid: true, complete: open.size === 0 };
+}
+
+/**
+ * The status a proof should have according to the checker
+ */
+export function checkedStatus(result: ProofCheckResult): Proof['status'] {
+  if (!result.valid) return 'invalid';
+  return result.complete ? 'complete' : 'incomplete';
+}
+
+/**
+ * Check every proof, or those of the properties in `only`, and give it the
+ * status the checker finds. Lemmas are checked before the proofs using them,
+ * so a proof relying on an invalid lemma is invalid too. Returns the same map
+ * if no status changes.
+ */
+export function recheckProofs(
+  properties: Map<PropertyId, Property>,
+  proofs: Map<ProofId, Proof>,
+  ctx: ProofCheckContext,
+  only?: Set<PropertyId>
+): Map<ProofId, Proof> {
+  let result = proofs;
+  for (const property of orderByDependencies(properties, proofs)) {
+    if (only && !only.has(property.id)) continue;
+    for (const proof of result.values()) {
+      if (proof.propertyId !== property.id) continue;
+      const status = checkedStatus(checkProof(proof, property, ctx, usableLemmas(property.id, properties, result)));
+      if (status === proof.status) continue;
+      if (result === proofs) result = new Map(proofs);
+      result.set(proof.id, { ...proof, status });
+    }
+  }
+  return result;
+}
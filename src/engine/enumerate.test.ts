@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { NATS, TREES, parse, render } from '../test/workspace';
+import { enumerateTerms, termDepth } from './enumerate';
+
+describe('enumerateTerms with a seed', () => {
+  const data = parse(TREES);
+  const sortId = Array.from(data.sorts.values())[0].id;
+  const sample = (seed?: number) =>
+    enumerateTerms(sortId, data.constructors, data.sorts, 3, { perDepth: 10, perArgument: 4, seed }).map(t => render(t, data));
+
+  it('draws the same sample for the same seed', () => {
+    expect(sample(7)).toEqual(sample(7));
+  });
+
+  it('draws different samples for different seeds, still shallowest first', () => {
+    const samples = [1, 2, 3].map(sample);
+    expect(new Set(samples.map(s => s.join(' '))).size).toBeGreaterThan(1);
+    for (const seed of [1, 2, 3]) {
+      const depths = enumerateTerms(sortId, data.constructors, data.sorts, 3, { perDepth: 10, perArgument: 4, seed }).map(termDepth);
+      expect(depths).toEqual([...depths].sort((a, b) => a - b));
+    }
+  });
+});
+
+describe('enumerateTerms by depth', () => {
+  const data = parse(NATS + TREES);
+  const sortId = (name: string) => Array.from(data.sorts.values()).find(s => s.name === name)!.id;
+  const terms = (name: string, depth: number) =>
+    enumerateTerms(sortId(name), data.constructors, data.sorts, depth).map(t => render(t, data));
+
+  it('lists every term up to the depth, shallowest first', () => {
+    expect(terms('N', 3)).toEqual(['Z', 'S(Z)', 'S(S(Z))', 'S(S(S(Z)))']);
+    expect(terms('T', 2)).toEqual(['L', 'B(L, L)', 'B(L, B(L, L))', 'B(B(L, L), L)', 'B(B(L, L), B(L, L))']);
+  });
+
+  it('keeps the shallowest terms when a depth is cut short', () => {
+    const cut = enumerateTerms(sortId('T'), data.constructors, data.sorts, 3, { perDepth: 2 });
+    expect(cut.map(termDepth)).toEqual([0, 1, 2, 2, 3, 3]);
+  });
+});
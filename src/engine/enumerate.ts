@@ -0,0 +1,128 @@
+import type { Term, Sort, SortId, Constructor, ConstructorId } from '../types/syntax';
+import { toSubscript } from '../types/syntax';
+import { uuidv4 } from '../utils/uuid';
+
+// ============================================================================
+// Term Enumeration
+// ============================================================================
+
+/**
+ * Bounds on enumeration. Without `perDepth` and `perArgument` every term up
+ * to the depth is produced. With a `seed`, the terms of each depth come in
+ * an order drawn from it, so the bounds keep a different sample per seed.
+ */
+export type EnumerationOptions = {
+  atoms: number;         // Names per atom sort
+  perDepth?: number;     // Terms kept per sort and depth
+  perArgument?: number;  // Subterms tried per constructor argument
+  seed?: number;         // Shuffles the terms of each depth
+};
+
+export const DEFAULT_ENUMERATION_OPTIONS: EnumerationOptions = {
+  atoms: 3,
+};
+
+/**
+ * The depth of a term: 0 for atoms and constants, one more than its deepest
+ * argument otherwise
+ */
+export function termDepth(term: Term): number {
+  if (term.args.length === 0) return 0;
+  return 1 + Math.max(...term.args.map(termDepth));
+}
+
+// A pseudo-random generator of numbers in [0, 1) (mulberry32)
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
+
+/**
+ * Enumerate the terms of a sort by depth, shallowest first: every term of
+ * depth at most `maxDepth`, up to the limits given
+ */
+export function enumerateTerms(
+  sortId: SortId,
+  constructors: Map<ConstructorId, Constructor>,
+  sorts: Map<SortId, Sort>,
+  maxDepth: number,
+  options: Partial<EnumerationOptions> = {}
+): Term[] {
+  const { atoms, perDepth = Infinity, perArgument = Infinity, seed } = { ...DEFAULT_ENUMERATION_OPTIONS, ...options };
+  const random = seed === undefined ? null : seededRandom(seed);
+  const termsByDepth = new Map<SortId, Term[][]>();
+
+  // The terms of a sort with exactly the given depth
+  const termsAtDepth = (sid: SortId, depth: number): Term[] => {
+    const sort = sorts.get(sid);
+    if (sort?.kind === 'atom') {
+      if (depth > 0) return [];
+      const prefix = sort.atomPrefix || sort.name.toLowerCase().charAt(0);
+      return Array.from({ length: atoms }, (_, i) => ({
+        id: uuidv4(),
+        constructorId: '',
+        args: [],
+        isVariable: true,
+        variableName: `${prefix}${toSubscript(i + 1)}`,
+      }));
+    }
+
+    if (!termsByDepth.has(sid)) termsByDepth.set(sid, []);
+    const depthArray = termsByDepth.get(sid)!;
+    if (depthArray[depth] !== undefined) return depthArray[depth];
+
+    const terms: Term[] = [];
+    for (const constructor of constructors.values()) {
+      if (constructor.sortId !== sid) continue;
+      if (constructor.args.length === 0) {
+        if (depth === 0) terms.push({ id: uuidv4(), constructorId: constructor.id, args: [] });
+        continue;
+      }
+      if (depth === 0) continue;
+
+      // Arguments shallower than the term, at least one of them just so
+      const choices = constructor.args.map(arg => {
+        const subTerms: { term: Term; deepest: boolean }[] = [];
+        for (let d = 0; d < depth; d++) {
+          for (const term of termsAtDepth(arg.sortId, d)) subTerms.push({ term, deepest: d === depth - 1 });
+        }
+        return subTerms.slice(-perArgument);
+      });
+
+      const combine = (index: number, current: Term[], deepest: boolean): void => {
+        if (terms.length >= perDepth) return;
+        if (index === choices.length) {
+          if (deepest) terms.push({ id: uuidv4(), constructorId: constructor.id, args: [...current] });
+          return;
+        }
+        for (const choice of choices[index]) {
+          combine(index + 1, [...current, choice.term], deepest || choice.deepest);
+        }
+      };
+      combine(0, [], false);
+    }
+
+    depthArray[depth] = random ? shuffle(terms, random) : terms;
+    return depthArray[depth];
+  };
+
+  const result: Term[] = [];
+  for (let d = 0; d <= maxDepth; d++) {
+    for (const term of termsAtDepth(sortId, d)) result.push(term);
+  }
+  return result;
+}
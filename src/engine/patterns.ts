@@ -0,0 +1,191 @@
+import type {
+  Pattern,
+  JudgmentInstance,
+  Term,
+  InferenceRule,
+  Constructor,
+  SideCondition,
+  CheckedSideCondition,
+  MetaVariable,
+  RecursiveFunc,
+} from '../types/syntax';
+import { evaluateSideCondition } from '../types/syntax';
+import { uuidv4 } from '../utils/uuid';
+
+// ============================================================================
+// Completeness
+// ============================================================================
+
+// Check if a pattern is complete (has no empty placeholders)
+export function isPatternComplete(pattern: Pattern): boolean {
+  if (!pattern.constructorId && !pattern.metaVariableId) {
+    return false;
+  }
+  return pattern.args.every(isPatternComplete);
+}
+
+// Check if a judgment instance is complete
+export function isJudgmentInstanceComplete(instance: JudgmentInstance): boolean {
+  return instance.args.every(isPatternComplete);
+}
+
+// Check if a side condition has all its patterns filled in
+export function isSideConditionComplete(condition: SideCondition): boolean {
+  const pred = condition.predicate;
+  if (!isPatternComplete(pred.arg)) return false;
+  return pred.kind === 'in' || pred.kind === 'notIn' ? isPatternComplete(pred.element) : true;
+}
+
+// Check if an entire rule is complete
+export function isRuleComplete(rule: InferenceRule): boolean {
+  const conclusionComplete = isJudgmentInstanceComplete(rule.conclusion);
+  const premisesComplete = rule.premises.every(isJudgmentInstanceComplete);
+  const sideConditionsComplete = (rule.sideConditions || []).every(isSideConditionComplete);
+  return conclusionComplete && premisesComplete && sideConditionsComplete;
+}
+
+// Add the meta-variables of a pattern to a set
+export function collectMetaVariables(pattern: Pattern, into: Set<string>): void {
+  if (pattern.metaVariableId) into.add(pattern.metaVariableId);
+  pattern.args.forEach(arg => collectMetaVariables(arg, into));
+}
+
+/**
+ * Side conditions mentioning a meta-variable that neither the conclusion nor
+ * a premise binds. They can never be evaluated, so a rule with one is
+ * ill-formed.
+ */
+export function unboundSideConditions(rule: InferenceRule): SideCondition[] {
+  const bound = new Set<string>();
+  for (const instance of [rule.conclusion, ...rule.premises]) {
+    instance.args.forEach(arg => collectMetaVariables(arg, bound));
+  }
+  return (rule.sideConditions || []).filter(condition => {
+    const pred = condition.predicate;
+    const mentioned = new Set<string>();
+    collectMetaVariables(pred.arg, mentioned);
+    if (pred.kind === 'in' || pred.kind === 'notIn') collectMetaVariables(pred.element, mentioned);
+    return [...mentioned].some(id => !bound.has(id));
+  });
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+// Compare two terms structurally (ignoring unique IDs)
+export function termsEqual(t1: Term, t2: Term): boolean {
+  // Handle atom terms
+  if (t1.isVariable || t2.isVariable) {
+    return t1.isVariable === t2.isVariable && t1.variableName === t2.variableName;
+  }
+  if (t1.constructorId !== t2.constructorId) return false;
+  if (t1.args.length !== t2.args.length) return false;
+  return t1.args.every((arg, i) => termsEqual(arg, t2.args[i]));
+}
+
+// Check if a term matches a pattern (returns bindings or null)
+export function matchPattern(term: Term, pattern: Pattern): Map<string, Term> | null {
+  if (pattern.metaVariableId) {
+    const bindings = new Map<string, Term>();
+    bindings.set(pattern.metaVariableId, term);
+    return bindings;
+  }
+  
+  if (pattern.constructorId) {
+    // Atom terms don't have a constructorId
+    if (term.isVariable) return null;
+    if (term.constructorId !== pattern.constructorId) return null;
+    if (term.args.length !== pattern.args.length) return null;
+    
+    const allBindings = new Map<string, Term>();
+    for (let i = 0; i < pattern.args.length; i++) {
+      const argBindings = matchPattern(term.args[i], pattern.args[i]);
+      if (!argBindings) return null;
+      for (const [key, value] of argBindings) {
+        if (allBindings.has(key)) {
+          const existing = allBindings.get(key)!;
+          if (!termsEqual(existing, value)) return null;
+        }
+        allBindings.set(key, value);
+      }
+    }
+    return allBindings;
+  }
+  
+  return null;
+}
+
+// Substitute meta-variables in a pattern to get a term
+export function substitutePattern(pattern: Pattern, bindings: Map<string, Term>): Term | null {
+  if (pattern.metaVariableId) {
+    return bindings.get(pattern.metaVariableId) || null;
+  }
+  if (pattern.constructorId) {
+    const args: Term[] = [];
+    for (const argPattern of pattern.args) {
+      const argTerm = substitutePattern(argPattern, bindings);
+      if (!argTerm) return null;
+      args.push(argTerm);
+    }
+    return {
+      id: uuidv4(),
+      constructorId: pattern.constructorId,
+      args,
+    };
+  }
+  return null;
+}
+
+// ============================================================================
+// Side Conditions
+// ============================================================================
+
+// Environment for evaluating side conditions: the expressions they compare
+// against refer to meta-variables by name
+export function sideConditionEnv(
+  bindings: Map<string, Term>,
+  metaVariables: Map<string, MetaVariable>
+): Map<string, Term> {
+  const termEnv = new Map<string, Term>();
+  for (const [metaVarId, term] of bindings) {
+    const mv = metaVariables.get(metaVarId);
+    if (mv) termEnv.set(mv.name, term);
+  }
+  return termEnv;
+}
+
+/**
+ * Evaluate one side condition under the bindings of the rule's
+ * meta-variables. Null if it cannot be evaluated, e.g. because a
+ * meta-variable it mentions is not bound yet.
+ */
+export function checkSideCondition(
+  condition: SideCondition,
+  bindings: Map<string, Term>,
+  termEnv: Map<string, Term>,
+  functions: Map<string, RecursiveFunc>,
+  constructors: Map<string, Constructor>
+): { holds: boolean; checked: CheckedSideCondition } | null {
+  const pred = condition.predicate;
+  const arg = substitutePattern(pred.arg, bindings);
+  if (!arg) return null;
+  let element: Term | null = null;
+  if (pred.kind === 'in' || pred.kind === 'notIn') {
+    element = substitutePattern(pred.element, bindings);
+    if (!element) return null;
+  }
+
+  const result = evaluateSideCondition(pred, arg, element, termEnv, functions, constructors);
+  if (!result) return null;
+  return {
+    holds: result.holds,
+    checked: {
+      conditionId: condition.id,
+      predicate: pred,
+      arg,
+      ...(element ? { element } : {}),
+      value: result.value,
+    },
+  };
+}
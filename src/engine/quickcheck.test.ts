@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { NATS, parse, property, render } from '../test/workspace';
+import { quickCheck, smallCheck } from './quickcheck';
+
+const PROPERTIES = `${NATS}property not_all: ∀n: N. ¬(∀m: N. m ≢ S(S(n)))
+property premise_all: ∀n: N. (∀m: N. m ≢ S(S(n))) → ⊥
+property no_witness: ∀n: N. ¬(∃m: N. m ≡ S(S(S(n))))
+property all_differ: ∀n: N. ∀m: N. m ≢ S(S(S(n)))
+property succ_not_zero: ∀n: N. S(n) ≢ Z
+property small: ∀n: N. n ≡ Z ∨ n ≡ S(Z)
+property deep_premise: ∀n: N. n ≡ S(S(S(S(S(Z))))) → n ≢ Z
+property deep_witness: ∀n: N. ¬(∀m: N. m ≢ S(S(S(S(S(n))))))
+`;
+
+describe('quickCheck', () => {
+  it('passes a true property', () => {
+    const data = parse(PROPERTIES);
+    expect(quickCheck(property(data, 'succ_not_zero').formula, data, { tests: 50 })).toEqual({
+      status: 'passed', tests: 50, discarded: 0, undecided: 0,
+    });
+  });
+
+  it('shrinks a counterexample to a least one', () => {
+    const data = parse(PROPERTIES);
+    const result = quickCheck(property(data, 'small').formula, data);
+    expect(result.status).toBe('failed');
+    if (result.status !== 'failed') return;
+    expect(result.counterexample.map(b => `${b.name} = ${render(b.term, data)}`)).toEqual(['n = S(S(Z))']);
+  });
+
+  it('gives up when the premise hardly ever holds', () => {
+    const data = parse(PROPERTIES);
+    // No generated term reaches depth 5
+    expect(quickCheck(property(data, 'deep_premise').formula, data, { tests: 10 })).toEqual({
+      status: 'gaveUp', tests: 0, discarded: 100, undecided: 0,
+    });
+  });
+
+  it('counts undecided instances apart from discarded ones', () => {
+    const data = parse(PROPERTIES);
+    expect(quickCheck(property(data, 'deep_witness').formula, data, { tests: 10 })).toEqual({
+      status: 'gaveUp', tests: 0, discarded: 0, undecided: 100,
+    });
+  });
+});
+
+describe('smallCheck', () => {
+  it('verifies a true property up to the depth', async () => {
+    const data = parse(PROPERTIES);
+    expect(await smallCheck(property(data, 'succ_not_zero').formula, data, { depth: 3 })).toEqual({
+      status: 'verified', depth: 3, tests: 4, discarded: 0, exceeded: false,
+    });
+  });
+
+  it('finds a counterexample of least depth', async () => {
+    const data = parse(PROPERTIES);
+    const result = await smallCheck(property(data, 'small').formula, data, { depth: 4 });
+    expect(result).toMatchObject({ status: 'failed', depth: 2, tests: 3 });
+    if (result.status !== 'failed') return;
+    expect(result.counterexample.map(b => render(b.term, data))).toEqual(['S(S(Z))']);
+  });
+
+  it('stops when the signal is aborted', async () => {
+    const data = parse(PROPERTIES);
+    const controller = new AbortController();
+    const result = await smallCheck(property(data, 'succ_not_zero').formula, data, { depth: 3 }, progress => {
+      if (progress.depth === 1) controller.abort();
+    }, controller.signal);
+    expect(result).toEqual({ status: 'cancelled', tests: 2, verifiedDepth: 1 });
+  });
+});
+
+describe('smallCheck nested quantifiers', () => {
+  it('does not take a bounded ∀ under a negation for a counterexample', async () => {
+    const data = parse(PROPERTIES);
+    // m = S(S(n)) is one level deeper than the terms tried for m
+    const result = await smallCheck(property(data, 'not_all').formula, data, { depth: 2 });
+    expect(result.status).toBe('undecided');
+  });
+
+  it('leaves a bounded ∀ in a premise undecided', async () => {
+    const data = parse(PROPERTIES);
+    const result = await smallCheck(property(data, 'premise_all').formula, data, { depth: 2 });
+    expect(result.status).not.toBe('failed');
+  });
+
+  it('bounds an ∃ under a negation like the ∀ it amounts to', async () => {
+    const data = parse(PROPERTIES);
+    const negated = await smallCheck(property(data, 'no_witness').formula, data, { depth: 1 });
+    const universal = await smallCheck(property(data, 'all_differ').formula, data, { depth: 1 });
+    expect(negated).toMatchObject({ status: 'verified', depth: 1 });
+    expect(universal).toMatchObject({ status: 'verified', depth: 1 });
+  });
+
+  it('computes the witness of an ∃ over an output by searching for a derivation', async () => {
+    const data = parse(`${NATS}judgment add: (a: N) " + " (b: N) " = " (out c: N)
+judgment pred: "pred " (a: N) " = " (out b: N)
+
+rule pred_S:
+  -------------
+  pred S(a) = a
+
+rule add_Z:
+  ----------
+  Z + b = b
+
+rule add_S:
+  a + b = c
+  ---------------
+  S(a) + b = S(c)
+
+property total: ∀a: N. ∀b: N. ∃c: N. a + b = c
+property pred_total: ∀a: N. ∃b: N. pred a = b
+`);
+    // a + b reaches depth 6, beyond the terms the nested domain holds
+    expect(await smallCheck(property(data, 'total').formula, data, { depth: 3 })).toMatchObject({ status: 'verified', depth: 3 });
+    expect(await smallCheck(property(data, 'pred_total').formula, data, { depth: 3 })).toMatchObject({ status: 'failed', depth: 0 });
+  });
+});
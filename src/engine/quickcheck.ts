@@ -0,0 +1,721 @@
+import type {
+  Term,
+  Sort,
+  SortId,
+  Judgment,
+  JudgmentId,
+  Formula,
+  FormulaExpr,
+  FormulaCond,
+  FuncValue,
+} from '../types/syntax';
+import { evaluateFunc, evaluateFuncMulti, generateRandomTerm, toSubscript } from '../types/syntax';
+import { termsEqual } from './patterns';
+import { uuidv4 } from '../utils/uuid';
+import { searchDerivation } from './search';
+import type { SearchContext, SearchOptions } from './search';
+import { enumerateTerms, termDepth } from './enumerate';
+
+// ============================================================================
+// Ground Evaluation
+// ============================================================================
+
+// The parts of a workspace testing needs
+export type TestContext = SearchContext & {
+  sorts: Map<SortId, Sort>;
+  judgments: Map<JudgmentId, Judgment>;
+};
+
+/**
+ * Terms to try for a quantifier nested inside a formula. A nested ∃ holds
+ * once a witness is found and a nested ∀ fails once refuted. If the terms
+ * are every term within a bound, a ∀ none refute holds and an ∃ none witness
+ * fails, but only where that can make the formula true and not false: a ∀ in
+ * positive position, an ∃ in negative position.
+ */
+export type Domain = {
+  terms: (sortId: SortId) => Term[];
+  exhaustive: boolean;
+};
+
+// Derivation search per judgment atom; small, since it runs for every test
+const JUDGMENT_SEARCH: Partial<SearchOptions> = { strategy: 'dfs', maxDepth: 12, maxSteps: 2000 };
+
+type Value = FuncValue;
+
+function valueNumber(value: Value | null): number | null {
+  return typeof value === 'number' ? value : null;
+}
+
+function valueSet(value: Value | null): Set<string> | null {
+  return value instanceof Set ? value : null;
+}
+
+function valueTerm(value: Value | null): Term | null {
+  return value !== null && typeof value === 'object' && !(value instanceof Set) ? value : null;
+}
+
+/**
+ * The value of a closed expression under ground bindings of its variables,
+ * or null if it cannot be computed (a function stuck on an atom, a type
+ * mismatch, …)
+ */
+function evaluateExpr(expr: FormulaExpr, env: Map<string, Term>, ctx: TestContext): Value | null {
+  const rec = (e: FormulaExpr) => evaluateExpr(e, env, ctx);
+  const numeric = (op: (l: number, r: number) => number, l: FormulaExpr, r: FormulaExpr): Value | null => {
+    const left = valueNumber(rec(l));
+    const right = valueNumber(rec(r));
+    return left === null || right === null ? null : op(left, right);
+  };
+  const sets = (op: (l: Set<string>, r: Set<string>) => Set<string>, l: FormulaExpr, r: FormulaExpr): Value | null => {
+    const left = valueSet(rec(l));
+    const right = valueSet(rec(r));
+    return left && right ? op(left, right) : null;
+  };
+
+  switch (expr.kind) {
+    case 'var':
+      return env.get(expr.name) ?? null;
+    case 'int':
+      return expr.value;
+    case 'constructor': {
+      const args: Term[] = [];
+      for (const arg of expr.args) {
+        const term = valueTerm(rec(arg));
+        if (!term) return null;
+        args.push(term);
+      }
+      return { id: uuidv4(), constructorId: expr.constructorId, args };
+    }
+    case 'funcApp':
+    case 'funcAppMulti': {
+      const func = ctx.recursiveFunctions.get(expr.funcId);
+      const terms: Term[] = [];
+      for (const arg of expr.kind === 'funcApp' ? [expr.arg] : expr.args) {
+        const term = valueTerm(rec(arg));
+        if (!term) return null;
+        terms.push(term);
+      }
+      if (!func || terms.length === 0) return null;
+      if (terms.length === 1) return evaluateFunc(func, terms[0], ctx.recursiveFunctions, ctx.constructors);
+      const extraEnv = new Map(func.extraArgs.flatMap((arg, i): [string, Term][] => terms[i + 1] ? [[arg.name, terms[i + 1]]] : []));
+      return evaluateFuncMulti(func, terms[0], extraEnv, ctx.recursiveFunctions, ctx.constructors);
+    }
+    case 'add':
+      return numeric((l, r) => l + r, expr.left, expr.right);
+    case 'sub':
+      return numeric((l, r) => l - r, expr.left, expr.right);
+    case 'mul':
+      return numeric((l, r) => l * r, expr.left, expr.right);
+    case 'max':
+      return numeric(Math.max, expr.left, expr.right);
+    case 'min':
+      return numeric(Math.min, expr.left, expr.right);
+    case 'emptySet':
+      return new Set();
+    case 'singleton': {
+      const element = valueTerm(rec(expr.element));
+      return element?.isVariable && element.variableName ? new Set([element.variableName]) : null;
+    }
+    case 'union':
+      return sets((l, r) => new Set([...l, ...r]), expr.left, expr.right);
+    case 'intersect':
+      return sets((l, r) => new Set([...l].filter(a => r.has(a))), expr.left, expr.right);
+    case 'diff':
+      return sets((l, r) => new Set([...l].filter(a => !r.has(a))), expr.left, expr.right);
+    case 'if': {
+      const cond = evaluateCond(expr.cond, env, ctx);
+      return cond === null ? null : rec(cond ? expr.then : expr.else);
+    }
+  }
+}
+
+function valuesEqual(left: Value, right: Value): boolean {
+  if (typeof left === 'number' || typeof right === 'number') return left === right;
+  if (left instanceof Set || right instanceof Set) {
+    return left instanceof Set && right instanceof Set && left.size === right.size && [...left].every(a => right.has(a));
+  }
+  return termsEqual(left, right);
+}
+
+function compareNumbers(kind: 'eq' | 'neq' | 'lt' | 'leq' | 'gt' | 'geq', l: number, r: number): boolean {
+  switch (kind) {
+    case 'eq': return l === r;
+    case 'neq': return l !== r;
+    case 'lt': return l < r;
+    case 'leq': return l <= r;
+    case 'gt': return l > r;
+    case 'geq': return l >= r;
+  }
+}
+
+function evaluateCond(cond: FormulaCond, env: Map<string, Term>, ctx: TestContext): boolean | null {
+  const expr = (e: FormulaExpr) => evaluateExpr(e, env, ctx);
+  switch (cond.kind) {
+    case 'and':
+      return and(evaluateCond(cond.left, env, ctx), evaluateCond(cond.right, env, ctx));
+    case 'or':
+      return or(evaluateCond(cond.left, env, ctx), evaluateCond(cond.right, env, ctx));
+    case 'not':
+      return not(evaluateCond(cond.cond, env, ctx));
+    case 'in': {
+      const element = valueTerm(expr(cond.element));
+      const set = valueSet(expr(cond.set));
+      return element?.variableName && set ? set.has(element.variableName) : null;
+    }
+    case 'isEmpty': {
+      const set = valueSet(expr(cond.set));
+      return set ? set.size === 0 : null;
+    }
+    case 'subset': {
+      const left = valueSet(expr(cond.left));
+      const right = valueSet(expr(cond.right));
+      return left && right ? [...left].every(a => right.has(a)) : null;
+    }
+    case 'atomEq':
+    case 'atomNeq': {
+      const left = expr(cond.left);
+      const right = expr(cond.right);
+      if (left === null || right === null) return null;
+      return valuesEqual(left, right) === (cond.kind === 'atomEq');
+    }
+    default: {
+      const left = valueNumber(expr(cond.left));
+      const right = valueNumber(expr(cond.right));
+      return left === null || right === null ? null : compareNumbers(cond.kind, left, right);
+    }
+  }
+}
+
+// Kleene's three-valued connectives: null is unknown
+function and(left: boolean | null, right: boolean | null): boolean | null {
+  if (left === false || right === false) return false;
+  return left === null || right === null ? null : true;
+}
+
+function or(left: boolean | null, right: boolean | null): boolean | null {
+  if (left === true || right === true) return true;
+  return left === null || right === null ? null : false;
+}
+
+function not(value: boolean | null): boolean | null {
+  return value === null ? null : !value;
+}
+
+// Subterms of the bound values that have the given sort: likely witnesses
+function boundSubterms(env: Map<string, Term>, sortId: SortId, ctx: TestContext): Term[] {
+  const found: Term[] = [];
+  const visit = (term: Term, termSort: SortId | undefined) => {
+    if (termSort === sortId && !found.some(t => termsEqual(t, term))) found.push(term);
+    const constructor = ctx.constructors.get(term.constructorId);
+    term.args.forEach((arg, i) => visit(arg, constructor?.args[i]?.sortId));
+  };
+  for (const term of env.values()) visit(term, ctx.constructors.get(term.constructorId)?.sortId);
+  return found;
+}
+
+/**
+ * Decide ∃x. J(t⃗) where x is exactly an output argument of J and the other
+ * arguments are ground without it: searching for a derivation computes the
+ * output, so no candidates need trying. Undefined when the formula is not of
+ * this form.
+ */
+function searchWitness(
+  formula: Formula & { kind: 'exists' },
+  env: Map<string, Term>,
+  ctx: TestContext
+): boolean | null | undefined {
+  const body = formula.body;
+  if (body.kind !== 'judgment') return undefined;
+  const position = body.args.findIndex(a => a.kind === 'var' && a.name === formula.varName);
+  if (position === -1 || ctx.judgments.get(body.judgmentId)?.argSorts[position]?.mode !== 'out') return undefined;
+  // The other arguments must not mention x, so x is left out of their environment
+  const outer = new Map(env);
+  outer.delete(formula.varName);
+  const args: (Term | null)[] = [];
+  for (const [i, arg] of body.args.entries()) {
+    const term = i === position ? null : valueTerm(evaluateExpr(arg, outer, ctx));
+    if (i !== position && !term) return undefined;
+    args.push(term);
+  }
+  const result = searchDerivation(ctx, body.judgmentId, args, JUDGMENT_SEARCH);
+  if (result.status === 'found') return true;
+  return result.status === 'notDerivable' ? false : null;
+}
+
+const NUM_COMPARISONS = {
+  numEq: 'eq', numNeq: 'neq', numLt: 'lt', numLeq: 'leq', numGt: 'gt', numGeq: 'geq',
+} as const;
+
+/**
+ * Evaluate a formula under ground bindings of its free variables: true,
+ * false, or null when it cannot be decided (a derivation search that gave
+ * up, a nested quantifier the domain does not settle, …). `positive` is the
+ * polarity of the formula's position: false under a negation or on the left
+ * of an implication, an odd number of times.
+ */
+export function evaluateFormula(
+  formula: Formula,
+  env: Map<string, Term>,
+  ctx: TestContext,
+  domain: Domain,
+  positive = true
+): boolean | null {
+  const rec = (f: Formula) => evaluateFormula(f, env, ctx, domain, positive);
+  const negated = (f: Formula) => evaluateFormula(f, env, ctx, domain, !positive);
+  const expr = (e: FormulaExpr) => evaluateExpr(e, env, ctx);
+
+  switch (formula.kind) {
+    case 'true':
+      return true;
+    case 'false':
+      return false;
+    case 'and':
+      return and(rec(formula.left), rec(formula.right));
+    case 'or':
+      return or(rec(formula.left), rec(formula.right));
+    case 'implies':
+      return or(not(negated(formula.left)), rec(formula.right));
+    case 'not':
+      return not(negated(formula.body));
+    case 'forall':
+    case 'exists': {
+      const universal = formula.kind === 'forall';
+      if (formula.kind === 'exists') {
+        const searched = searchWitness(formula, env, ctx);
+        if (searched !== undefined) return searched;
+      }
+      const terms = [...boundSubterms(env, formula.sortId, ctx), ...domain.terms(formula.sortId)];
+      let undecided = false;
+      for (const term of terms) {
+        const value = evaluateFormula(formula.body, new Map(env).set(formula.varName, term), ctx, domain, positive);
+        if (value === !universal) return value;
+        if (value === null) undecided = true;
+      }
+      // The bounded answer is only an approximation, safe where it cannot
+      // turn the formula false
+      return domain.exhaustive && !undecided && positive === universal ? universal : null;
+    }
+    case 'judgment': {
+      const args: Term[] = [];
+      for (const arg of formula.args) {
+        const term = valueTerm(expr(arg));
+        if (!term) return null;
+        args.push(term);
+      }
+      const result = searchDerivation(ctx, formula.judgmentId, args, JUDGMENT_SEARCH);
+      if (result.status === 'found') return true;
+      return result.status === 'notDerivable' ? false : null;
+    }
+    // `=` parses as numEq whatever its operands are, so both compare terms and sets too
+    case 'termEq':
+    case 'termNeq':
+    case 'numEq':
+    case 'numNeq': {
+      const left = expr(formula.left);
+      const right = expr(formula.right);
+      if (left === null || right === null) return null;
+      return valuesEqual(left, right) === (formula.kind === 'termEq' || formula.kind === 'numEq');
+    }
+    case 'numLt':
+    case 'numLeq':
+    case 'numGt':
+    case 'numGeq': {
+      const left = valueNumber(expr(formula.left));
+      const right = valueNumber(expr(formula.right));
+      return left === null || right === null ? null : compareNumbers(NUM_COMPARISONS[formula.kind], left, right);
+    }
+    case 'funcEq':
+    case 'funcLeq':
+    case 'funcLt': {
+      const result = expr({ kind: 'funcApp', funcId: formula.funcId, arg: formula.arg });
+      const value = expr(formula.value);
+      if (result === null || value === null) return null;
+      if (formula.kind === 'funcEq') return valuesEqual(result, value);
+      const l = valueNumber(result);
+      const r = valueNumber(value);
+      return l === null || r === null ? null : compareNumbers(formula.kind === 'funcLeq' ? 'leq' : 'lt', l, r);
+    }
+    case 'setEmpty': {
+      const set = valueSet(expr({ kind: 'funcApp', funcId: formula.funcId, arg: formula.arg }));
+      return set ? set.size === 0 : null;
+    }
+    case 'setIn': {
+      const element = valueTerm(expr(formula.element));
+      const set = valueSet(expr({ kind: 'funcApp', funcId: formula.funcId, arg: formula.arg }));
+      return element?.variableName && set ? set.has(element.variableName) : null;
+    }
+  }
+}
+
+// ============================================================================
+// Test Instances
+// ============================================================================
+
+/**
+ * A value chosen for one of the property's universally quantified variables
+ */
+export type Binding = { name: string; sortId: SortId; term: Term };
+
+/**
+ * - pass / fail: the instance satisfies or falsifies the property
+ * - discard: a premise of the property does not hold
+ * - unknown: a premise or the conclusion could not be decided
+ */
+export type InstanceOutcome = 'pass' | 'fail' | 'discard' | 'unknown';
+
+/**
+ * Check one instance of a property of the form ∀x⃗. P₁ → … → ∀y⃗. Q. The
+ * leading quantifiers (also those after a premise) take their terms from
+ * `choose`; premises are checked in order as in QuickCheck's ==>.
+ */
+export function checkInstance(
+  formula: Formula,
+  ctx: TestContext,
+  domain: Domain,
+  choose: (name: string, sortId: SortId, index: number) => Term | null
+): { outcome: InstanceOutcome; bindings: Binding[] } {
+  const bindings: Binding[] = [];
+  const env = new Map<string, Term>();
+  let body = formula;
+  for (;;) {
+    if (body.kind === 'forall') {
+      const term = choose(body.varName, body.sortId, bindings.length);
+      if (!term) return { outcome: 'unknown', bindings };
+      bindings.push({ name: body.varName, sortId: body.sortId, term });
+      env.set(body.varName, term);
+      body = body.body;
+    } else if (body.kind === 'implies') {
+      const premise = evaluateFormula(body.left, env, ctx, domain, false);
+      if (premise !== true) return { outcome: premise === false ? 'discard' : 'unknown', bindings };
+      body = body.right;
+    } else {
+      break;
+    }
+  }
+  const value = evaluateFormula(body, env, ctx, domain);
+  return { outcome: value === null ? 'unknown' : value ? 'pass' : 'fail', bindings };
+}
+
+// ============================================================================
+// Random Testing
+// ============================================================================
+
+export type QuickCheckOptions = {
+  tests: number;    // Passing tests to run
+  maxDepth: number; // Depth of the largest generated terms; smaller ones come first
+  atoms: number;    // Distinct names per atom sort, so that names can coincide
+};
+
+export const DEFAULT_QUICKCHECK_OPTIONS: QuickCheckOptions = {
+  tests: 100,
+  maxDepth: 4,
+  atoms: 3,
+};
+
+// Terms tried for each nested quantifier
+const NESTED_SAMPLES = 8;
+
+// Tests tried per requested test before giving up on discarded or undecided ones
+const MAX_DISCARD_RATIO = 10;
+
+const MAX_SHRINKS = 200;
+
+/**
+ * - passed: every test passed; `undecided` instances, where a nested
+ *   quantifier or a missing definition left the property open, are not
+ *   counted as tests
+ * - failed: a counterexample, shrunk as far as possible
+ * - gaveUp: too many tests were discarded or undecided
+ * - untestable: no terms could be generated for a quantified variable
+ */
+export type QuickCheckResult =
+  | { status: 'passed'; tests: number; discarded: number; undecided: number }
+  | { status: 'failed'; tests: number; counterexample: Binding[]; shrinks: number }
+  | { status: 'gaveUp'; tests: number; discarded: number; undecided: number }
+  | { status: 'untestable'; reason: string };
+
+const SUBSCRIPT_DIGITS = /[₀-₉]+$/;
+
+// Draw atom names from a small pool, so that generated names can coincide
+function renameAtoms(term: Term, atoms: number): Term {
+  if (term.isVariable && term.variableName) {
+    const base = term.variableName.replace(SUBSCRIPT_DIGITS, '');
+    const index = 1 + Math.floor(Math.random() * atoms);
+    return { ...term, variableName: `${base}${toSubscript(index)}` };
+  }
+  return { ...term, args: term.args.map(a => renameAtoms(a, atoms)) };
+}
+
+/**
+ * Smaller terms to try in place of a term, smallest first: the terminal
+ * constructors of its sort, its subterms of the same sort, and the term
+ * with one argument shrunk
+ */
+function shrinkTerm(term: Term, sortId: SortId, ctx: TestContext): Term[] {
+  if (term.isVariable) return [];
+  const constructor = ctx.constructors.get(term.constructorId);
+  if (!constructor) return [];
+  const candidates: Term[] = [];
+  for (const c of ctx.constructors.values()) {
+    if (c.sortId === sortId && c.args.length === 0 && c.id !== term.constructorId) {
+      candidates.push({ id: uuidv4(), constructorId: c.id, args: [] });
+    }
+  }
+  constructor.args.forEach((arg, i) => {
+    if (arg.sortId === sortId && term.args[i]) candidates.push(term.args[i]);
+  });
+  constructor.args.forEach((arg, i) => {
+    if (!term.args[i]) return;
+    for (const smaller of shrinkTerm(term.args[i], arg.sortId, ctx)) {
+      candidates.push({ ...term, args: term.args.map((a, j) => (j === i ? smaller : a)) });
+    }
+  });
+  return candidates;
+}
+
+/**
+ * Shrink a falsifying instance greedily: replace one binding at a time by a
+ * smaller term as long as the property still fails
+ */
+function shrinkCounterexample(
+  formula: Formula,
+  bindings: Binding[],
+  ctx: TestContext,
+  domain: Domain
+): { bindings: Binding[]; shrinks: number } {
+  let current = bindings;
+  let shrinks = 0;
+  let improved = true;
+  while (improved && shrinks < MAX_SHRINKS) {
+    improved = false;
+    for (let i = 0; i < current.length && !improved; i++) {
+      for (const smaller of shrinkTerm(current[i].term, current[i].sortId, ctx)) {
+        const candidate = current.map((b, j) => (j === i ? { ...b, term: smaller } : b));
+        const { outcome, bindings: checked } = checkInstance(formula, ctx, domain, (_, __, index) => candidate[index]?.term ?? null);
+        if (outcome === 'fail') {
+          current = checked;
+          shrinks++;
+          improved = true;
+          break;
+        }
+      }
+    }
+  }
+  return { bindings: current, shrinks };
+}
+
+/**
+ * Test a property on random instances of its universally quantified
+ * variables, growing the generated terms from small to `maxDepth`. The first
+ * falsifying instance is shrunk to a minimal counterexample.
+ */
+export function quickCheck(
+  formula: Formula,
+  ctx: TestContext,
+  options: Partial<QuickCheckOptions> = {}
+): QuickCheckResult {
+  const { tests, maxDepth, atoms } = { ...DEFAULT_QUICKCHECK_OPTIONS, ...options };
+  let size = 0;
+  const generate = (sortId: SortId): Term | null => {
+    const term = generateRandomTerm(sortId, ctx.constructors, ctx.sorts, size);
+    return term && renameAtoms(term, atoms);
+  };
+  const domain: Domain = {
+    terms: sortId => {
+      const terms: Term[] = [];
+      for (let i = 0; i < NESTED_SAMPLES; i++) {
+        const term = generate(sortId);
+        if (term) terms.push(term);
+      }
+      return terms;
+    },
+    exhaustive: false,
+  };
+
+  let passed = 0;
+  let discarded = 0;
+  let undecided = 0;
+  for (let attempt = 0; passed < tests && attempt < tests * MAX_DISCARD_RATIO; attempt++) {
+    size = Math.min(maxDepth, Math.floor((attempt * (maxDepth + 1)) / tests));
+    let missing: SortId | null = null;
+    const { outcome, bindings } = checkInstance(formula, ctx, domain, (_, sortId) => {
+      const term = generate(sortId);
+      if (!term) missing = sortId;
+      return term;
+    });
+    if (missing) {
+      return { status: 'untestable', reason: `No terms of sort ${ctx.sorts.get(missing)?.name ?? '?'} can be generated` };
+    }
+    if (outcome === 'fail') {
+      const shrunk = shrinkCounterexample(formula, bindings, ctx, domain);
+      return { status: 'failed', tests: passed + 1, counterexample: shrunk.bindings, shrinks: shrunk.shrinks };
+    }
+    if (outcome === 'pass') passed++;
+    else if (outcome === 'discard') discarded++;
+    else undecided++;
+  }
+  return { status: passed < tests ? 'gaveUp' : 'passed', tests: passed, discarded, undecided };
+}
+
+// ============================================================================
+// Bounded Exhaustive Testing
+// ============================================================================
+
+export type SmallCheckOptions = {
+  depth: number;  // Check every instance whose terms are at most this deep
+  atoms: number;  // Distinct names per atom sort
+};
+
+export const DEFAULT_SMALLCHECK_OPTIONS: SmallCheckOptions = {
+  depth: 2,
+  atoms: 2,
+};
+
+export type SmallCheckProgress = {
+  depth: number;    // Depth being checked
+  checked: number;  // Instances of that depth checked so far
+  total: number;    // Instances of that depth
+};
+
+/**
+ * - verified: every instance up to `depth` passed or was discarded
+ * - failed: a counterexample of least depth
+ * - undecided: no counterexample up to `depth`, but some instances could not
+ *   be decided
+ * - cancelled: stopped early; `verifiedDepth` is the deepest level verified
+ * - untestable: some quantified variable has no terms
+ *
+ * `exceeded` is set when checking stopped short of the depth asked for, as
+ * the next level has too many instances.
+ */
+export type SmallCheckResult =
+  | { status: 'verified'; depth: number; tests: number; discarded: number; exceeded: boolean }
+  | { status: 'failed'; depth: number; tests: number; counterexample: Binding[] }
+  | { status: 'undecided'; depth: number; tests: number; undecided: number; exceeded: boolean }
+  | { status: 'cancelled'; tests: number; verifiedDepth: number | null }
+  | { status: 'untestable'; reason: string };
+
+// Time spent checking between yields to the caller, in milliseconds
+const SMALLCHECK_SLICE = 30;
+
+// Bounds past which a level is not attempted
+const MAX_LEVEL_TERMS = 20000;
+const MAX_LEVEL_INSTANCES = 1000000;
+
+// Terms a nested quantifier ranges over, the shallowest first; every
+// instance tries them all, so they are kept far fewer than a level's
+const MAX_NESTED_TERMS = 500;
+
+// The variables checkInstance binds: the leading ∀s, also those after premises
+function instanceVariables(formula: Formula): { name: string; sortId: SortId }[] {
+  const variables: { name: string; sortId: SortId }[] = [];
+  let body = formula;
+  while (body.kind === 'forall' || body.kind === 'implies') {
+    if (body.kind === 'forall') {
+      variables.push({ name: body.varName, sortId: body.sortId });
+      body = body.body;
+    } else {
+      body = body.right;
+    }
+  }
+  return variables;
+}
+
+/**
+ * Assignments of terms to the variables whose deepest term has exactly the
+ * given depth; `terms[i]` are the candidates for variable i, shallowest first
+ */
+function* instancesOfDepth(terms: Term[][], depth: number): Generator<Term[]> {
+  const choose = function* (index: number, current: Term[], deepest: boolean): Generator<Term[]> {
+    if (index === terms.length) {
+      if (deepest || depth === 0) yield current;
+      return;
+    }
+    for (const term of terms[index]) {
+      const d = termDepth(term);
+      if (d > depth) break;
+      yield* choose(index + 1, [...current, term], deepest || d === depth);
+    }
+  };
+  yield* choose(0, [], false);
+}
+
+function countUpTo(terms: Term[], depth: number): number {
+  return terms.filter(t => termDepth(t) <= depth).length;
+}
+
+/**
+ * Check a property on every instance of its universally quantified variables
+ * up to a depth, level by level, so that a counterexample found is one of
+ * least depth. Quantifiers nested in the property range over the terms one
+ * level deeper than the instance, at most MAX_NESTED_TERMS of them; a nested
+ * ∃ thereby holds only when a witness is found.
+ *
+ * Checking yields to the event loop regularly, reporting progress, and stops
+ * when `signal` is aborted.
+ */
+export async function smallCheck(
+  formula: Formula,
+  ctx: TestContext,
+  options: Partial<SmallCheckOptions> = {},
+  onProgress?: (progress: SmallCheckProgress) => void,
+  signal?: AbortSignal
+): Promise<SmallCheckResult> {
+  const { depth: maxDepth, atoms } = { ...DEFAULT_SMALLCHECK_OPTIONS, ...options };
+  const enumerations = new Map<string, Term[]>();
+  const enumerate = (sortId: SortId, depth: number): Term[] => {
+    const key = `${sortId}:${depth}`;
+    if (!enumerations.has(key)) {
+      enumerations.set(key, enumerateTerms(sortId, ctx.constructors, ctx.sorts, depth, { atoms, perDepth: MAX_LEVEL_TERMS }));
+    }
+    return enumerations.get(key)!;
+  };
+
+  const variables = instanceVariables(formula);
+  const missing = variables.find(v =>
+    ctx.sorts.get(v.sortId)?.kind !== 'atom' && ![...ctx.constructors.values()].some(c => c.sortId === v.sortId)
+  );
+  if (missing) {
+    return { status: 'untestable', reason: `No terms of sort ${ctx.sorts.get(missing.sortId)?.name ?? '?'} can be enumerated` };
+  }
+
+  let tests = 0;
+  let discarded = 0;
+  let undecided = 0;
+  let verifiedDepth: number | null = null;
+  let sliceStart = Date.now();
+  const finish = (depth: number, exceeded: boolean): SmallCheckResult =>
+    undecided > 0
+      ? { status: 'undecided', depth, tests, undecided, exceeded }
+      : { status: 'verified', depth, tests, discarded, exceeded };
+
+  for (let depth = 0; depth <= maxDepth; depth++) {
+    const terms = variables.map(v => enumerate(v.sortId, depth));
+    const total = terms.reduce((n, t) => n * t.length, 1)
+      - (depth === 0 ? 0 : terms.reduce((n, t) => n * countUpTo(t, depth - 1), 1));
+    const truncated = terms.some(t => t.length - countUpTo(t, depth - 1) >= MAX_LEVEL_TERMS);
+    if (depth > 0 && (truncated || total > MAX_LEVEL_INSTANCES)) return finish(depth - 1, true);
+
+    const domain: Domain = { terms: sortId => enumerate(sortId, depth + 1).slice(0, MAX_NESTED_TERMS), exhaustive: true };
+    let checked = 0;
+    for (const instance of instancesOfDepth(terms, depth)) {
+      if (Date.now() - sliceStart > SMALLCHECK_SLICE) {
+        onProgress?.({ depth, checked, total });
+        await new Promise(resolve => setTimeout(resolve, 0));
+        sliceStart = Date.now();
+      }
+      if (signal?.aborted) return { status: 'cancelled', tests, verifiedDepth };
+
+      const { outcome, bindings } = checkInstance(formula, ctx, domain, (_, __, index) => instance[index] ?? null);
+      checked++;
+      tests++;
+      if (outcome === 'fail') return { status: 'failed', depth, tests, counterexample: bindings };
+      if (outcome === 'discard') discarded++;
+      if (outcome === 'unknown') undecided++;
+    }
+    if (undecided === 0) verifiedDepth = depth;
+    onProgress?.({ depth, checked, total });
+  }
+  return finish(maxDepth, false);
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import type { WorkspaceData } from '../store/persistence';
+import { NATS, judgmentId, nat, parse, render } from '../test/workspace';
+import type { Derivation } from '../types/syntax';
+import { searchDerivation } from './search';
+import type { SearchStrategy } from './search';
+
+const ADD = `${NATS}judgment add: (a: N) " + " (b: N) " = " (out c: N)
+judgment loop: "loop " (n: N)
+
+rule add_Z:
+  ----------
+  Z + b = b
+
+rule add_S:
+  a + b = c
+  ---------------
+  S(a) + b = S(c)
+
+rule loop_S:
+  loop S(n)
+  ---------
+  loop n
+`;
+
+// The rules of a derivation and the terms of its conclusions, root first
+function summary(derivation: Derivation, data: WorkspaceData): string[] {
+  const conclusion = `${derivation.ruleName}: ${derivation.conclusion.terms.map(t => render(t, data)).join(', ')}`;
+  return [conclusion, ...derivation.premises.flatMap(p => summary(p, data))];
+}
+
+const STRATEGIES: SearchStrategy[] = ['dfs', 'iterativeDeepening', 'bfs'];
+
+describe('searchDerivation', () => {
+  it('finds the same derivation with every strategy', () => {
+    const data = parse(ADD);
+    for (const strategy of STRATEGIES) {
+      const result = searchDerivation(data, judgmentId(data, 'add'), [nat(data, 2), nat(data, 1), nat(data, 3)], { strategy });
+      expect(result.status, strategy).toBe('found');
+      if (result.status !== 'found') continue;
+      expect(summary(result.derivation, data), strategy).toEqual([
+        'add_S: S(S(Z)), S(Z), S(S(S(Z)))',
+        'add_S: S(Z), S(Z), S(S(Z))',
+        'add_Z: Z, S(Z), S(Z)',
+      ]);
+    }
+  });
+
+  it('computes an output left open', () => {
+    const data = parse(ADD);
+    for (const strategy of STRATEGIES) {
+      const result = searchDerivation(data, judgmentId(data, 'add'), [nat(data, 2), nat(data, 2), null], { strategy });
+      expect(result.status, strategy).toBe('found');
+      if (result.status !== 'found') continue;
+      expect(render(result.derivation.conclusion.terms[2], data), strategy).toBe('S(S(S(S(Z))))');
+    }
+  });
+
+  it('reports a judgment without derivations as not derivable', () => {
+    const data = parse(ADD);
+    for (const strategy of STRATEGIES) {
+      const result = searchDerivation(data, judgmentId(data, 'add'), [nat(data, 1), nat(data, 0), nat(data, 0)], { strategy });
+      expect(result.status, strategy).toBe('notDerivable');
+    }
+  });
+
+  it('applies a rule only when its side conditions hold, recording what they computed', () => {
+    const data = parse(`${NATS}function size : N → int
+  | Z => 0
+  | S(n) => size(n) + 1
+judgment small: "small " (n: N)
+
+rule small_size:
+  if size(n) < 3
+  --------------
+  small n
+`);
+    for (const strategy of STRATEGIES) {
+      const result = searchDerivation(data, judgmentId(data, 'small'), [nat(data, 2)], { strategy });
+      expect(result.status, strategy).toBe('found');
+      if (result.status !== 'found') continue;
+      const [checked] = result.derivation.sideConditions;
+      expect(result.derivation.sideConditions, strategy).toHaveLength(1);
+      expect({ kind: checked.predicate.kind, arg: render(checked.arg, data), value: checked.value }, strategy).toEqual({
+        kind: 'lt', arg: 'S(S(Z))', value: 2,
+      });
+      const beyond = searchDerivation(data, judgmentId(data, 'small'), [nat(data, 3)], { strategy });
+      expect(beyond.status, strategy).toBe('notDerivable');
+    }
+  });
+
+  it('gives up at the depth limit', () => {
+    const data = parse(ADD);
+    for (const strategy of STRATEGIES) {
+      const result = searchDerivation(data, judgmentId(data, 'add'), [nat(data, 3), nat(data, 0), null], { strategy, maxDepth: 2 });
+      expect(result.status, strategy).toBe('depthLimit');
+    }
+  });
+
+  it('gives up when the step budget runs out', () => {
+    const data = parse(ADD);
+    for (const strategy of STRATEGIES) {
+      const result = searchDerivation(data, judgmentId(data, 'loop'), [nat(data, 0)], { strategy, maxDepth: 1000, maxSteps: 50 });
+      expect(result.status, strategy).toBe('budgetExhausted');
+    }
+  });
+});
@@ -0,0 +1,394 @@
+import type {
+  Term,
+  Derivation,
+  InferenceRule,
+  SideCondition,
+  Constructor,
+  MetaVariable,
+  RecursiveFunc,
+  CheckedSideCondition,
+} from '../types/syntax';
+import { isRuleComplete, unboundSideConditions, collectMetaVariables, sideConditionEnv, checkSideCondition } from './patterns';
+import { termToOpen, patternToOpen, openToTerm, isGround, unifyArgs } from './unify';
+import type { OpenTerm, Substitution } from './unify';
+
+// ============================================================================
+// Derivation Search
+// ============================================================================
+
+/**
+ * Search strategy:
+ * - dfs: depth-first, tries rules in order and returns the first derivation
+ * - iterativeDeepening: repeated depth-first search with growing depth
+ *   limits, so the derivation found is one of minimal height
+ * - bfs: breadth-first over partial derivations, expanding the leftmost
+ *   open goal of each
+ */
+export type SearchStrategy = 'dfs' | 'iterativeDeepening' | 'bfs';
+
+export type SearchOptions = {
+  strategy: SearchStrategy;
+  maxDepth: number; // Height limit of the derivation tree (the root is at depth 0)
+  maxSteps: number; // Budget of rule applications tried
+};
+
+export const DEFAULT_SEARCH_OPTIONS: SearchOptions = {
+  strategy: 'dfs',
+  maxDepth: 10,
+  maxSteps: 10000,
+};
+
+// The parts of a workspace the search needs
+export type SearchContext = {
+  rules: Map<string, InferenceRule>;
+  recursiveFunctions: Map<string, RecursiveFunc>;
+  constructors: Map<string, Constructor>;
+  metaVariables: Map<string, MetaVariable>;
+};
+
+/**
+ * Outcome of a search. 'notDerivable' means the whole search space was
+ * explored; 'depthLimit' and 'budgetExhausted' mean the search gave up, so
+ * a derivation may still exist.
+ */
+export type SearchResult =
+  | { status: 'found'; derivation: Derivation; steps: number }
+  | { status: 'notDerivable'; steps: number }
+  | { status: 'depthLimit'; steps: number }
+  | { status: 'budgetExhausted'; steps: number };
+
+type Goal = { judgmentId: string; args: OpenTerm[] };
+
+/**
+ * A rule applied backwards to a goal. Its meta-variables are renamed apart
+ * for this application; side conditions whose meta-variables are not bound
+ * yet stay pending until the premises are proved.
+ */
+type RuleApplication = {
+  rule: InferenceRule;
+  goal: Goal;
+  rename: (metaVariableId: string) => string;
+  premises: Goal[];
+  checked: CheckedSideCondition[];
+  pending: SideCondition[];
+};
+
+// A derivation over open terms, grounded once the search succeeds
+type OpenDerivation = {
+  app: RuleApplication;
+  sideConditions: CheckedSideCondition[];
+  premises: OpenDerivation[];
+};
+
+type SearchState = {
+  ctx: SearchContext;
+  options: SearchOptions;
+  rulesByJudgment: Map<string, InferenceRule[]>;
+  steps: number;
+  fresh: number; // Counter for renaming rules apart
+  cutoff: boolean; // Some goal was abandoned at the depth limit
+  exhausted: boolean; // The step budget ran out
+};
+
+// Complete, well-formed rules concluding the given judgment, in workspace order
+function candidateRules(state: SearchState, judgmentId: string): InferenceRule[] {
+  let candidates = state.rulesByJudgment.get(judgmentId);
+  if (!candidates) {
+    candidates = Array.from(state.ctx.rules.values()).filter(r =>
+      r.conclusion.judgmentId === judgmentId && isRuleComplete(r) && unboundSideConditions(r).length === 0
+    );
+    state.rulesByJudgment.set(judgmentId, candidates);
+  }
+  return candidates;
+}
+
+// Take one step from the budget; false once the budget is spent
+function takeStep(state: SearchState): boolean {
+  if (state.steps >= state.options.maxSteps) {
+    state.exhausted = true;
+    return false;
+  }
+  state.steps++;
+  return true;
+}
+
+/**
+ * Check the given side conditions of an application under a substitution.
+ * Returns the conditions that held and those that cannot be evaluated yet,
+ * or null if one fails.
+ */
+function checkConditions(
+  state: SearchState,
+  app: RuleApplication,
+  conditions: SideCondition[],
+  subst: Substitution
+): { checked: CheckedSideCondition[]; pending: SideCondition[] } | null {
+  if (conditions.length === 0) return { checked: [], pending: [] };
+
+  // Bindings of the rule's meta-variables that are ground so far
+  const metaVariableIds = new Set<string>();
+  for (const instance of [app.rule.conclusion, ...app.rule.premises]) {
+    instance.args.forEach(arg => collectMetaVariables(arg, metaVariableIds));
+  }
+  const bindings = new Map<string, Term>();
+  for (const id of metaVariableIds) {
+    const term = openToTerm({ kind: 'var', name: app.rename(id) }, subst);
+    if (term) bindings.set(id, term);
+  }
+
+  const { recursiveFunctions, constructors, metaVariables } = state.ctx;
+  const termEnv = sideConditionEnv(bindings, metaVariables);
+  const checked: CheckedSideCondition[] = [];
+  const pending: SideCondition[] = [];
+  for (const condition of conditions) {
+    const result = checkSideCondition(condition, bindings, termEnv, recursiveFunctions, constructors);
+    if (!result) {
+      pending.push(condition);
+    } else if (!result.holds) {
+      return null;
+    } else {
+      checked.push(result.checked);
+    }
+  }
+  return { checked, pending };
+}
+
+// Apply a rule backwards: unify its conclusion with the goal, instantiate its
+// premises and check the side conditions that can be evaluated already
+function applyRule(
+  state: SearchState,
+  rule: InferenceRule,
+  goal: Goal,
+  subst: Substitution
+): { app: RuleApplication; subst: Substitution } | null {
+  const n = state.fresh++;
+  const rename = (metaVariableId: string) => `${metaVariableId}#${n}`;
+
+  const conclusion: OpenTerm[] = [];
+  for (const argPattern of rule.conclusion.args) {
+    const open = patternToOpen(argPattern, rename);
+    if (!open) return null;
+    conclusion.push(open);
+  }
+  const unified = unifyArgs(goal.args, conclusion, subst);
+  if (!unified) return null;
+
+  const premises: Goal[] = [];
+  for (const premise of rule.premises) {
+    const args: OpenTerm[] = [];
+    for (const argPattern of premise.args) {
+      const open = patternToOpen(argPattern, rename);
+      if (!open) return null;
+      args.push(open);
+    }
+    premises.push({ judgmentId: premise.judgmentId, args });
+  }
+
+  const app: RuleApplication = { rule, goal, rename, premises, checked: [], pending: [] };
+  const conditions = checkConditions(state, app, rule.sideConditions || [], unified);
+  if (!conditions) return null;
+  app.checked = conditions.checked;
+  app.pending = conditions.pending;
+  return { app, subst: unified };
+}
+
+// Once the premises are proved every side condition must be decidable and hold.
+// Returns all checked conditions in the rule's order.
+function finishConditions(
+  state: SearchState,
+  app: RuleApplication,
+  subst: Substitution
+): CheckedSideCondition[] | null {
+  const conditions = checkConditions(state, app, app.pending, subst);
+  if (!conditions || conditions.pending.length > 0) return null;
+  const all = [...app.checked, ...conditions.checked];
+  return (app.rule.sideConditions || []).map(c => all.find(checked => checked.conditionId === c.id)!);
+}
+
+// Ground a derivation found by the search; null if an output stayed unbound
+function groundDerivation(derivation: OpenDerivation, subst: Substitution): Derivation | null {
+  const terms: Term[] = [];
+  for (const arg of derivation.app.goal.args) {
+    const term = openToTerm(arg, subst);
+    if (!term) return null;
+    terms.push(term);
+  }
+  const premises: Derivation[] = [];
+  for (const premise of derivation.premises) {
+    const ground = groundDerivation(premise, subst);
+    if (!ground) return null;
+    premises.push(ground);
+  }
+  return {
+    ruleName: derivation.app.rule.name,
+    ruleId: derivation.app.rule.id,
+    conclusion: { judgmentId: derivation.app.goal.judgmentId, terms },
+    premises,
+    sideConditions: derivation.sideConditions,
+  };
+}
+
+// Depth-first search below the given height limit, yielding every solution
+function* searchDepthFirst(
+  state: SearchState,
+  goal: Goal,
+  subst: Substitution,
+  depth: number,
+  limit: number
+): Generator<[Substitution, OpenDerivation]> {
+  if (depth > limit) {
+    state.cutoff = true;
+    return;
+  }
+
+  for (const rule of candidateRules(state, goal.judgmentId)) {
+    if (!takeStep(state)) return;
+    const applied = applyRule(state, rule, goal, subst);
+    if (!applied) continue;
+    yield* provePremises(state, applied.app, 0, applied.subst, [], depth, limit);
+    if (state.exhausted) return;
+  }
+}
+
+function* provePremises(
+  state: SearchState,
+  app: RuleApplication,
+  index: number,
+  subst: Substitution,
+  proved: OpenDerivation[],
+  depth: number,
+  limit: number
+): Generator<[Substitution, OpenDerivation]> {
+  if (index === app.premises.length) {
+    const sideConditions = finishConditions(state, app, subst);
+    if (sideConditions) yield [subst, { app, sideConditions, premises: proved }];
+    return;
+  }
+
+  const premise = app.premises[index];
+  // Another derivation of a ground premise binds nothing new, so one is enough
+  const ground = premise.args.every(arg => isGround(arg, subst));
+  for (const [next, derivation] of searchDepthFirst(state, premise, subst, depth + 1, limit)) {
+    yield* provePremises(state, app, index + 1, next, [...proved, derivation], depth, limit);
+    if (ground || state.exhausted) return;
+  }
+}
+
+function firstGroundSolution(
+  solutions: Iterable<[Substitution, OpenDerivation]>
+): Derivation | null {
+  for (const [subst, derivation] of solutions) {
+    const ground = groundDerivation(derivation, subst);
+    if (ground) return ground;
+  }
+  return null;
+}
+
+// Breadth-first search over partial derivations
+function searchBreadthFirst(state: SearchState, goal: Goal): Derivation | null {
+  type Partial = {
+    subst: Substitution;
+    open: { goal: Goal; depth: number }[]; // Goals still to prove, leftmost first
+    applied: RuleApplication[]; // Rule applications so far, in pre-order
+  };
+
+  let queue: Partial[] = [{ subst: new Map(), open: [{ goal, depth: 0 }], applied: [] }];
+  while (queue.length > 0) {
+    const nextQueue: Partial[] = [];
+    for (const partial of queue) {
+      if (partial.open.length === 0) {
+        const derivation = completePartial(state, partial.applied, partial.subst);
+        if (derivation) return derivation;
+        continue;
+      }
+
+      const [{ goal: current, depth }, ...rest] = partial.open;
+      if (depth > state.options.maxDepth) {
+        state.cutoff = true;
+        continue;
+      }
+      for (const rule of candidateRules(state, current.judgmentId)) {
+        if (!takeStep(state)) return null;
+        const applied = applyRule(state, rule, current, partial.subst);
+        if (!applied) continue;
+        nextQueue.push({
+          subst: applied.subst,
+          open: [...applied.app.premises.map(p => ({ goal: p, depth: depth + 1 })), ...rest],
+          applied: [...partial.applied, applied.app],
+        });
+      }
+    }
+    queue = nextQueue;
+  }
+  return null;
+}
+
+// Rebuild a finished partial derivation from its applications in pre-order
+function completePartial(state: SearchState, applications: RuleApplication[], subst: Substitution): Derivation | null {
+  let next = 0;
+  const build = (): OpenDerivation | null => {
+    const app = applications[next++];
+    const sideConditions = finishConditions(state, app, subst);
+    if (!sideConditions) return null;
+    const premises: OpenDerivation[] = [];
+    for (let i = 0; i < app.premises.length; i++) {
+      const premise = build();
+      if (!premise) return null;
+      premises.push(premise);
+    }
+    return { app, sideConditions, premises };
+  };
+  const derivation = build();
+  return derivation && groundDerivation(derivation, subst);
+}
+
+/**
+ * Search for a derivation of a judgment by applying rules backwards from the
+ * conclusion, as a logic program. Arguments given as null are outputs: they
+ * are computed by unification and appear in the derivation's conclusion.
+ * Only complete rules take part.
+ */
+export function searchDerivation(
+  ctx: SearchContext,
+  judgmentId: string,
+  args: (Term | null)[],
+  options: Partial<SearchOptions> = {}
+): SearchResult {
+  const state: SearchState = {
+    ctx,
+    options: { ...DEFAULT_SEARCH_OPTIONS, ...options },
+    rulesByJudgment: new Map(),
+    steps: 0,
+    fresh: 0,
+    cutoff: false,
+    exhausted: false,
+  };
+  const goal: Goal = {
+    judgmentId,
+    args: args.map((term, i) => term ? termToOpen(term) : { kind: 'var', name: `?${i}` }),
+  };
+  const { strategy, maxDepth } = state.options;
+
+  let derivation: Derivation | null = null;
+  switch (strategy) {
+    case 'dfs':
+      derivation = firstGroundSolution(searchDepthFirst(state, goal, new Map(), 0, maxDepth));
+      break;
+    case 'iterativeDeepening':
+      for (let limit = 0; limit <= maxDepth; limit++) {
+        state.cutoff = false;
+        derivation = firstGroundSolution(searchDepthFirst(state, goal, new Map(), 0, limit));
+        // Stop once a derivation is found or no goal was cut off by the limit
+        if (derivation || state.exhausted || !state.cutoff) break;
+      }
+      break;
+    case 'bfs':
+      derivation = searchBreadthFirst(state, goal);
+      break;
+  }
+
+  if (derivation) return { status: 'found', derivation, steps: state.steps };
+  if (state.exhausted) return { status: 'budgetExhausted', steps: state.steps };
+  if (state.cutoff) return { status: 'depthLimit', steps: state.steps };
+  return { status: 'notDerivable', steps: state.steps };
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { NATS, parse, property } from '../test/workspace';
+import type { Formula, ProofGoal, Property, Tactic } from '../types/syntax';
+import { applyTactic } from '../types/syntax';
+import type { OpenTerm } from './unify';
+import { formulaToOpen, mentionsBoundVariable, resolve, unify, unifyPatterns } from './unify';
+
+const v = (name: string): OpenTerm => ({ kind: 'var', name });
+const atom = (name: string): OpenTerm => ({ kind: 'atom', name });
+const app = (symbol: string, ...args: OpenTerm[]): OpenTerm => ({ kind: 'app', symbol, args });
+
+describe('unify', () => {
+  it('finds the most general unifier', () => {
+    const mgu = unify(app('f', v('X'), app('g', v('Y'))), app('f', app('g', atom('a')), v('X')), new Map());
+    expect(mgu).not.toBeNull();
+    expect(resolve(v('X'), mgu!)).toEqual(app('g', atom('a')));
+    expect(resolve(v('Y'), mgu!)).toEqual(atom('a'));
+  });
+
+  it('fails the occurs check', () => {
+    expect(unify(v('X'), app('S', v('X')), new Map())).toBeNull();
+    expect(unify(app('f', v('X'), v('Y')), app('f', v('Y'), app('S', v('X'))), new Map())).toBeNull();
+  });
+
+  it('unifies atoms only with themselves', () => {
+    expect(unify(atom('a'), atom('a'), new Map())).not.toBeNull();
+    expect(unify(atom('a'), atom('b'), new Map())).toBeNull();
+    expect(unify(atom('a'), app('a'), new Map())).toBeNull();
+  });
+
+  it('leaves the given substitution unchanged', () => {
+    const subst = new Map([['X', atom('a')]]);
+    expect(unify(v('Y'), atom('b'), subst)).not.toBeNull();
+    expect(subst.size).toBe(1);
+  });
+});
+
+describe('unifyPatterns', () => {
+  it('rejects cyclic patterns', () => {
+    const meta = (id: string) => ({ id, metaVariableId: id, args: [] });
+    expect(unifyPatterns([meta('e')], [{ id: 'p', constructorId: 'S', args: [meta('e')] }])).toBeNull();
+  });
+});
+
+describe('formulaToOpen', () => {
+  const N = 'N';
+  const neq = (left: string, right: string): Formula => ({
+    kind: 'termNeq',
+    left: { kind: 'var', name: left },
+    right: { kind: 'var', name: right },
+  });
+  const exists = (varName: string, body: Formula): Formula => ({ kind: 'exists', varName, sortId: N, body });
+
+  it('unifies formulas that differ only in bound names', () => {
+    expect(unify(formulaToOpen(exists('y', neq('y', 'n')), new Set()), formulaToOpen(exists('z', neq('z', 'n')), new Set()), new Map()))
+      .not.toBeNull();
+  });
+
+  it('keeps free and bound variables apart', () => {
+    expect(unify(formulaToOpen(exists('y', neq('y', 'y')), new Set()), formulaToOpen(exists('z', neq('z', 'y')), new Set()), new Map()))
+      .toBeNull();
+  });
+
+  it('detects a flexible variable bound to a bound variable', () => {
+    const mgu = unify(formulaToOpen(exists('y', neq('y', 'x')), new Set(['x'])), formulaToOpen(exists('y', neq('y', 'y')), new Set()), new Map());
+    expect(mgu).not.toBeNull();
+    expect(mentionsBoundVariable(v('x'), mgu!)).toBe(true);
+  });
+});
+
+describe('apply with unification', () => {
+  const data = parse(`${NATS}property L: ∀x: N. ∃y: N. y ≠ x
+property P: ∀x: N. (∃y: N. y ≠ x) → S(x) ≠ Z
+property bogus: ∃y: N. y ≠ y
+property fine: ∀n: N. ∃y: N. y ≠ n
+property succ: ∀y: N. S(y) ≠ Z
+`);
+  const N = Array.from(data.sorts.values()).find(s => s.name === 'N')!.id;
+
+  // The goal under the property's ∀, with its variable in the context
+  const opened = (name: string): ProofGoal => {
+    const formula = property(data, name).formula;
+    if (formula.kind !== 'forall') throw new Error('Expected ∀');
+    return { id: 'g', context: { variables: [{ name: formula.varName, sortId: N }], hypotheses: [] }, goal: formula.body };
+  };
+
+  const run = (goal: ProofGoal, tactic: Tactic, lemmas = new Map<string, Property>()) =>
+    applyTactic(goal, tactic, data.constructors, data.sorts, data.recursiveFunctions, data.rules, data.metaVariables, lemmas);
+
+  it('does not let an instantiation escape its binder', () => {
+    const lemma = property(data, 'L');
+    const goal: ProofGoal = { id: 'g', context: { variables: [], hypotheses: [] }, goal: property(data, 'bogus').formula };
+    const result = run(goal, { kind: 'apply_lemma', propertyId: lemma.id }, new Map([[lemma.id, lemma]]));
+    expect(result.success).toBe(false);
+  });
+
+  it('instantiates with a variable of the goal', () => {
+    const lemma = property(data, 'L');
+    const result = run(opened('fine'), { kind: 'apply_lemma', propertyId: lemma.id }, new Map([[lemma.id, lemma]]));
+    expect(result).toMatchObject({ success: true, newGoals: [] });
+  });
+
+  it('renames binders of premises that would capture the instantiation', () => {
+    const lemma = property(data, 'P');
+    const result = run(opened('succ'), { kind: 'apply_lemma', propertyId: lemma.id }, new Map([[lemma.id, lemma]]));
+    if (!result.success) throw new Error(result.error);
+    const premise = result.newGoals[0].goal;
+    expect(premise).toMatchObject({ kind: 'exists', varName: "y'" });
+    expect(premise).toMatchObject({ body: { left: { name: "y'" }, right: { name: 'y' } } });
+  });
+});
@@ -0,0 +1,441 @@
+import type { Term, Pattern, Formula, FormulaExpr, FormulaCond } from '../types/syntax';
+import { uuidv4 } from '../utils/uuid';
+
+// ============================================================================
+// Open Terms
+// ============================================================================
+
+/**
+ * A first-order term that may contain unification variables. Ground terms,
+ * rule patterns and formulas are all converted to open terms before
+ * unifying them; constructors are applied by their id.
+ */
+export type OpenTerm =
+  | { kind: 'var'; name: string }
+  | { kind: 'atom'; name: string } // A name that only equals itself (x₁, or a fixed variable)
+  | { kind: 'app'; symbol: string; args: OpenTerm[] };
+
+/**
+ * Bindings of unification variables. Bound terms may mention other bound
+ * variables; `resolve` follows them.
+ */
+export type Substitution = Map<string, OpenTerm>;
+
+export function termToOpen(term: Term): OpenTerm {
+  if (term.isVariable) return { kind: 'atom', name: term.variableName || '' };
+  return { kind: 'app', symbol: term.constructorId, args: term.args.map(termToOpen) };
+}
+
+/**
+ * Convert a pattern, naming the variable of each meta-variable with `rename`
+ * (by default the meta-variable's id). Null if the pattern still has empty
+ * placeholders.
+ */
+export function patternToOpen(
+  pattern: Pattern,
+  rename: (metaVariableId: string) => string = id => id
+): OpenTerm | null {
+  if (pattern.metaVariableId) return { kind: 'var', name: rename(pattern.metaVariableId) };
+  if (!pattern.constructorId) return null;
+  const args: OpenTerm[] = [];
+  for (const arg of pattern.args) {
+    const open = patternToOpen(arg, rename);
+    if (!open) return null;
+    args.push(open);
+  }
+  return { kind: 'app', symbol: pattern.constructorId, args };
+}
+
+// Convert back to a pattern whose variables are meta-variable ids. Null if the term has atoms.
+export function openToPattern(term: OpenTerm): Pattern | null {
+  switch (term.kind) {
+    case 'var':
+      return { id: uuidv4(), metaVariableId: term.name, args: [] };
+    case 'atom':
+      return null;
+    case 'app': {
+      const args: Pattern[] = [];
+      for (const arg of term.args) {
+        const pattern = openToPattern(arg);
+        if (!pattern) return null;
+        args.push(pattern);
+      }
+      return { id: uuidv4(), constructorId: term.symbol, args };
+    }
+  }
+}
+
+// Follow variable bindings at the root of a term
+function walk(term: OpenTerm, subst: Substitution): OpenTerm {
+  while (term.kind === 'var') {
+    const bound = subst.get(term.name);
+    if (!bound) return term;
+    term = bound;
+  }
+  return term;
+}
+
+// Apply a substitution throughout a term
+export function resolve(term: OpenTerm, subst: Substitution): OpenTerm {
+  const t = walk(term, subst);
+  if (t.kind !== 'app') return t;
+  return { ...t, args: t.args.map(arg => resolve(arg, subst)) };
+}
+
+/**
+ * Convert back to a ground term under a substitution. Null if a variable is
+ * left unbound.
+ */
+export function openToTerm(term: OpenTerm, subst: Substitution): Term | null {
+  const t = walk(term, subst);
+  switch (t.kind) {
+    case 'var':
+      return null;
+    case 'atom':
+      return { id: uuidv4(), constructorId: '', args: [], isVariable: true, variableName: t.name };
+    case 'app': {
+      const args: Term[] = [];
+      for (const arg of t.args) {
+        const ground = openToTerm(arg, subst);
+        if (!ground) return null;
+        args.push(ground);
+      }
+      return { id: uuidv4(), constructorId: t.symbol, args };
+    }
+  }
+}
+
+export function isGround(term: OpenTerm, subst: Substitution): boolean {
+  const t = walk(term, subst);
+  if (t.kind === 'var') return false;
+  return t.kind === 'atom' || t.args.every(arg => isGround(arg, subst));
+}
+
+// ============================================================================
+// Unification
+// ============================================================================
+
+// Does the variable occur in the term?
+function occurs(name: string, term: OpenTerm, subst: Substitution): boolean {
+  const t = walk(term, subst);
+  if (t.kind === 'var') return t.name === name;
+  return t.kind === 'app' && t.args.some(arg => occurs(name, arg, subst));
+}
+
+/**
+ * Most general unifier of two terms extending `subst`, or null if they do
+ * not unify. The given substitution is left unchanged.
+ */
+export function unify(a: OpenTerm, b: OpenTerm, subst: Substitution): Substitution | null {
+  const result = new Map(subst);
+  return unifyInto(a, b, result) ? result : null;
+}
+
+// Unify two argument lists pairwise
+export function unifyArgs(as: OpenTerm[], bs: OpenTerm[], subst: Substitution): Substitution | null {
+  if (as.length !== bs.length) return null;
+  const result = new Map(subst);
+  return as.every((a, i) => unifyInto(a, bs[i], result)) ? result : null;
+}
+
+function unifyInto(a: OpenTerm, b: OpenTerm, subst: Substitution): boolean {
+  const s = walk(a, subst);
+  const t = walk(b, subst);
+  if (s.kind === 'var' && t.kind === 'var' && s.name === t.name) return true;
+  if (s.kind === 'var') {
+    if (occurs(s.name, t, subst)) return false;
+    subst.set(s.name, t);
+    return true;
+  }
+  if (t.kind === 'var') return unifyInto(t, s, subst);
+  if (s.kind === 'atom' || t.kind === 'atom') {
+    return s.kind === 'atom' && t.kind === 'atom' && s.name === t.name;
+  }
+  if (s.symbol !== t.symbol || s.args.length !== t.args.length) return false;
+  return s.args.every((arg, i) => unifyInto(arg, t.args[i], subst));
+}
+
+// ============================================================================
+// Substitutions
+// ============================================================================
+
+/**
+ * Idempotent form of a substitution: every bound term is fully resolved,
+ * so no bound variable occurs in the range.
+ */
+export function normalizeSubstitution(subst: Substitution): Substitution {
+  const result: Substitution = new Map();
+  for (const name of subst.keys()) {
+    result.set(name, resolve({ kind: 'var', name }, subst));
+  }
+  return result;
+}
+
+/**
+ * Composition: applying the result to a term is the same as applying
+ * `first` and then `second`.
+ */
+export function composeSubstitutions(first: Substitution, second: Substitution): Substitution {
+  const result: Substitution = new Map();
+  for (const name of first.keys()) {
+    result.set(name, resolve(resolve({ kind: 'var', name }, first), second));
+  }
+  for (const name of second.keys()) {
+    if (!first.has(name)) result.set(name, resolve({ kind: 'var', name }, second));
+  }
+  // Drop trivial bindings x ↦ x
+  for (const [name, term] of result) {
+    if (term.kind === 'var' && term.name === name) result.delete(name);
+  }
+  return result;
+}
+
+// ============================================================================
+// Patterns
+// ============================================================================
+
+/**
+ * Meta-variable bindings computed by unifying patterns, keyed by
+ * meta-variable id
+ */
+export type PatternSubstitution = Map<string, Pattern>;
+
+/**
+ * Most general unifier of two lists of patterns, as an idempotent
+ * substitution of meta-variables. Both sides share one namespace of
+ * meta-variables: rename them apart first when they come from different
+ * rules. Null if the patterns do not unify or have empty placeholders.
+ */
+export function unifyPatterns(as: Pattern[], bs: Pattern[]): PatternSubstitution | null {
+  const left = as.map(p => patternToOpen(p));
+  const right = bs.map(p => patternToOpen(p));
+  if (left.some(t => !t) || right.some(t => !t)) return null;
+  const mgu = unifyArgs(left as OpenTerm[], right as OpenTerm[], new Map());
+  if (!mgu) return null;
+
+  const result: PatternSubstitution = new Map();
+  for (const [name, term] of normalizeSubstitution(mgu)) {
+    const pattern = openToPattern(term);
+    if (pattern) result.set(name, pattern);
+  }
+  return result;
+}
+
+// Apply a meta-variable substitution to a pattern
+export function applyPatternSubstitution(pattern: Pattern, subst: PatternSubstitution): Pattern {
+  if (pattern.metaVariableId) return subst.get(pattern.metaVariableId) ?? pattern;
+  return { ...pattern, args: pattern.args.map(arg => applyPatternSubstitution(arg, subst)) };
+}
+
+// ============================================================================
+// Formulas
+// ============================================================================
+
+// Formula expressions other than variables and constructors are encoded as
+// applications of reserved symbols; constructor ids never start with '#'.
+const FUNC_PREFIX = '#fn:';
+const FUNC_MULTI_PREFIX = '#fnm:';
+const INT_PREFIX = '#int:';
+const OP_PREFIX = '#op:';
+const EMPTY_SET = '#empty';
+const FORMULA_PREFIX = '#formula:';
+const COND_PREFIX = '#cond:';
+// Variables bound inside a formula are atoms numbered by binder depth
+const BOUND_PREFIX = '#bound:';
+
+/**
+ * Convert a formula expression. Variables in `flexible` become unification
+ * variables; all others are fixed and only unify with themselves. `bound`
+ * maps the variables bound around the expression to their atoms.
+ */
+export function formulaExprToOpen(
+  expr: FormulaExpr,
+  flexible: Set<string>,
+  bound: Map<string, string> = new Map()
+): OpenTerm {
+  const recur = (e: FormulaExpr) => formulaExprToOpen(e, flexible, bound);
+  switch (expr.kind) {
+    case 'var': {
+      const atom = bound.get(expr.name);
+      if (atom) return { kind: 'atom', name: atom };
+      return flexible.has(expr.name) ? { kind: 'var', name: expr.name } : { kind: 'atom', name: expr.name };
+    }
+    case 'constructor':
+      return { kind: 'app', symbol: expr.constructorId, args: expr.args.map(recur) };
+    case 'funcApp':
+      return { kind: 'app', symbol: FUNC_PREFIX + expr.funcId, args: [recur(expr.arg)] };
+    case 'int':
+      return { kind: 'app', symbol: INT_PREFIX + expr.value, args: [] };
+    case 'emptySet':
+      return { kind: 'app', symbol: EMPTY_SET, args: [] };
+    case 'funcAppMulti':
+      return { kind: 'app', symbol: FUNC_MULTI_PREFIX + expr.funcId, args: expr.args.map(recur) };
+    case 'singleton':
+      return { kind: 'app', symbol: OP_PREFIX + expr.kind, args: [recur(expr.element)] };
+    case 'add':
+    case 'sub':
+    case 'mul':
+    case 'max':
+    case 'min':
+    case 'union':
+    case 'intersect':
+    case 'diff':
+      return {
+        kind: 'app',
+        symbol: OP_PREFIX + expr.kind,
+        args: [recur(expr.left), recur(expr.right)],
+      };
+    case 'if':
+      return {
+        kind: 'app',
+        symbol: OP_PREFIX + expr.kind,
+        args: [formulaCondToOpen(expr.cond, flexible, bound), recur(expr.then), recur(expr.else)],
+      };
+  }
+}
+
+function formulaCondToOpen(cond: FormulaCond, flexible: Set<string>, bound: Map<string, string>): OpenTerm {
+  const expr = (e: FormulaExpr) => formulaExprToOpen(e, flexible, bound);
+  const node = (...args: OpenTerm[]): OpenTerm => ({ kind: 'app', symbol: COND_PREFIX + cond.kind, args });
+  switch (cond.kind) {
+    case 'in':
+      return node(expr(cond.element), expr(cond.set));
+    case 'isEmpty':
+      return node(expr(cond.set));
+    case 'and':
+    case 'or':
+      return node(formulaCondToOpen(cond.left, flexible, bound), formulaCondToOpen(cond.right, flexible, bound));
+    case 'not':
+      return node(formulaCondToOpen(cond.cond, flexible, bound));
+    default:
+      return node(expr(cond.left), expr(cond.right));
+  }
+}
+
+/**
+ * Convert back to a formula expression under a substitution. Null if a
+ * unification variable is left unbound.
+ */
+export function openToFormulaExpr(term: OpenTerm, subst: Substitution): FormulaExpr | null {
+  const t = walk(term, subst);
+  if (t.kind === 'var') return null;
+  if (t.kind === 'atom') return { kind: 'var', name: t.name };
+
+  if (t.symbol === OP_PREFIX + 'if') {
+    const cond = openToFormulaCond(t.args[0], subst);
+    const thenBranch = openToFormulaExpr(t.args[1], subst);
+    const elseBranch = openToFormulaExpr(t.args[2], subst);
+    return cond && thenBranch && elseBranch ? { kind: 'if', cond, then: thenBranch, else: elseBranch } : null;
+  }
+
+  const args: FormulaExpr[] = [];
+  for (const arg of t.args) {
+    const expr = openToFormulaExpr(arg, subst);
+    if (!expr) return null;
+    args.push(expr);
+  }
+  if (t.symbol.startsWith(FUNC_PREFIX)) return { kind: 'funcApp', funcId: t.symbol.slice(FUNC_PREFIX.length), arg: args[0] };
+  if (t.symbol.startsWith(FUNC_MULTI_PREFIX)) return { kind: 'funcAppMulti', funcId: t.symbol.slice(FUNC_MULTI_PREFIX.length), args };
+  if (t.symbol.startsWith(INT_PREFIX)) return { kind: 'int', value: Number(t.symbol.slice(INT_PREFIX.length)) };
+  if (t.symbol === EMPTY_SET) return { kind: 'emptySet' };
+  if (t.symbol === OP_PREFIX + 'singleton') return { kind: 'singleton', element: args[0] };
+  if (t.symbol.startsWith(OP_PREFIX)) {
+    const kind = t.symbol.slice(OP_PREFIX.length) as 'add' | 'sub' | 'mul' | 'max' | 'min' | 'union' | 'intersect' | 'diff';
+    return { kind, left: args[0], right: args[1] };
+  }
+  return { kind: 'constructor', constructorId: t.symbol, args };
+}
+
+function openToFormulaCond(term: OpenTerm, subst: Substitution): FormulaCond | null {
+  const t = walk(term, subst);
+  if (t.kind !== 'app' || !t.symbol.startsWith(COND_PREFIX)) return null;
+  const kind = t.symbol.slice(COND_PREFIX.length) as FormulaCond['kind'];
+  switch (kind) {
+    case 'and':
+    case 'or':
+    case 'not': {
+      const conds: FormulaCond[] = [];
+      for (const arg of t.args) {
+        const cond = openToFormulaCond(arg, subst);
+        if (!cond) return null;
+        conds.push(cond);
+      }
+      return kind === 'not' ? { kind, cond: conds[0] } : { kind, left: conds[0], right: conds[1] };
+    }
+    default: {
+      const args: FormulaExpr[] = [];
+      for (const arg of t.args) {
+        const expr = openToFormulaExpr(arg, subst);
+        if (!expr) return null;
+        args.push(expr);
+      }
+      if (kind === 'in') return { kind, element: args[0], set: args[1] };
+      if (kind === 'isEmpty') return { kind, set: args[0] };
+      return { kind, left: args[0], right: args[1] };
+    }
+  }
+}
+
+/**
+ * Convert a formula so that two formulas unify exactly when they are equal
+ * up to the instantiation of their flexible variables and the renaming of
+ * bound variables. Variables bound by quantifiers inside the formula are
+ * fixed; check with `mentionsBoundVariable` that a unifier does not let
+ * them escape their binders.
+ */
+export function formulaToOpen(formula: Formula, flexible: Set<string>): OpenTerm {
+  return boundFormulaToOpen(formula, flexible, new Map(), 0);
+}
+
+function boundFormulaToOpen(formula: Formula, flexible: Set<string>, bound: Map<string, string>, depth: number): OpenTerm {
+  const node = (tag: string, ...args: OpenTerm[]): OpenTerm => ({ kind: 'app', symbol: FORMULA_PREFIX + tag, args });
+  const expr = (e: FormulaExpr) => formulaExprToOpen(e, flexible, bound);
+  const sub = (f: Formula) => boundFormulaToOpen(f, flexible, bound, depth);
+
+  switch (formula.kind) {
+    case 'forall':
+    case 'exists': {
+      const inner = new Map(bound).set(formula.varName, BOUND_PREFIX + depth);
+      return node(`${formula.kind}:${formula.sortId}`, boundFormulaToOpen(formula.body, flexible, inner, depth + 1));
+    }
+    case 'implies':
+    case 'and':
+    case 'or':
+      return node(formula.kind, sub(formula.left), sub(formula.right));
+    case 'not':
+      return node('not', sub(formula.body));
+    case 'judgment':
+      return node(`judgment:${formula.judgmentId}`, ...formula.args.map(expr));
+    case 'termEq':
+    case 'termNeq':
+    case 'numEq':
+    case 'numNeq':
+    case 'numLeq':
+    case 'numLt':
+    case 'numGeq':
+    case 'numGt':
+      return node(formula.kind, expr(formula.left), expr(formula.right));
+    case 'funcEq':
+    case 'funcLeq':
+    case 'funcLt':
+      return node(`${formula.kind}:${formula.funcId}`, expr(formula.arg), expr(formula.value));
+    case 'setEmpty':
+      return node(`setEmpty:${formula.funcId}`, expr(formula.arg));
+    case 'setIn':
+      return node(`setIn:${formula.funcId}`, expr(formula.element), expr(formula.arg));
+    case 'true':
+    case 'false':
+      return node(formula.kind);
+  }
+}
+
+/**
+ * Whether a term mentions, under a substitution, a variable bound inside a
+ * formula converted by `formulaToOpen`. A flexible variable bound to such a
+ * term would escape its binder.
+ */
+export function mentionsBoundVariable(term: OpenTerm, subst: Substitution): boolean {
+  const t = walk(term, subst);
+  if (t.kind === 'atom') return t.name.startsWith(BOUND_PREFIX);
+  return t.kind === 'app' && t.args.some(arg => mentionsBoundVariable(arg, subst));
+}
@@ -0,0 +1,347 @@
+import type {
+  SortId,
+  Constructor,
+  ConstructorId,
+  Sort,
+  FuncExpr,
+  FuncPredicate,
+  RecursiveFunc,
+  RecFuncId,
+  Judgment,
+  JudgmentId,
+  InferenceRule,
+  RuleId,
+  Pattern,
+  ProofGoal,
+  MetaVariable,
+  RuleCase,
+} from '../types/syntax';
+import { freshName } from '../types/syntax';
+
+// ============================================================================
+// Identifiers (shared by the proof assistant exporters)
+// ============================================================================
+
+const TRANSLITERATIONS: Record<string, string> = {
+  'α': 'alpha', 'β': 'beta', 'γ': 'gamma', 'δ': 'delta', 'ε': 'eps', 'ζ': 'zeta',
+  'η': 'eta', 'θ': 'theta', 'ι': 'iota', 'κ': 'kappa', 'λ': 'lam', 'μ': 'mu',
+  'ν': 'nu', 'ξ': 'xi', 'π': 'pi', 'ρ': 'rho', 'σ': 'sigma', 'τ': 'tau',
+  'υ': 'upsilon', 'φ': 'phi', 'χ': 'chi', 'ψ': 'psi', 'ω': 'omega',
+  'Γ': 'Gamma', 'Δ': 'Delta', 'Θ': 'Theta', 'Λ': 'Lambda', 'Ξ': 'Xi',
+  'Π': 'Pi', 'Σ': 'Sigma', 'Φ': 'Phi', 'Ψ': 'Psi', 'Ω': 'Omega',
+  'ℕ': 'Nat', 'ℤ': 'Int', '′': "'",
+  '₀': '0', '₁': '1', '₂': '2', '₃': '3', '₄': '4',
+  '₅': '5', '₆': '6', '₇': '7', '₈': '8', '₉': '9',
+  '-': '_', ' ': '_',
+};
+
+/**
+ * Turn a display name (which may contain unicode, spaces or dashes) into an
+ * ASCII identifier that both Coq and Lean accept.
+ */
+export function asciiIdent(name: string, fallback = 'x'): string {
+  let out = '';
+  for (const ch of name) {
+    if (/[A-Za-z0-9_']/.test(ch)) {
+      out += ch;
+    } else if (TRANSLITERATIONS[ch] !== undefined) {
+      out += TRANSLITERATIONS[ch];
+    }
+  }
+  out = out.replace(/^[0-9_']+/, '');
+  return out || fallback;
+}
+
+/**
+ * Assigns unique identifiers to the global definitions of an export,
+ * avoiding the target language's keywords and library names.
+ */
+export type NameTable = {
+  /** Assign (once) an identifier for `key`, derived from the display name */
+  assign: (key: string, displayName: string) => string;
+  /** The identifier assigned to `key` */
+  get: (key: string) => string;
+  /** Identifier for a local variable, kept clear of globals and keywords */
+  local: (displayName: string) => string;
+};
+
+export function createNameTable(reserved: Iterable<string>): NameTable {
+  const reservedSet = new Set(reserved);
+  const byKey = new Map<string, string>();
+  const used = new Set<string>();
+
+  const isTaken = (id: string) => reservedSet.has(id) || used.has(id);
+
+  return {
+    assign(key, displayName) {
+      const existing = byKey.get(key);
+      if (existing) return existing;
+      const base = asciiIdent(displayName);
+      let id = base;
+      for (let i = 1; isTaken(id); i++) {
+        id = i === 1 ? `${base}'` : `${base}_${i}`;
+      }
+      byKey.set(key, id);
+      used.add(id);
+      return id;
+    },
+    get(key) {
+      return byKey.get(key) || '_';
+    },
+    local(displayName) {
+      let id = asciiIdent(displayName);
+      while (isTaken(id)) id = `${id}'`;
+      return id;
+    },
+  };
+}
+
+// ============================================================================
+// Dependency Ordering
+// ============================================================================
+
+/**
+ * Strongly connected components of a dependency graph (Tarjan), returned so
+ * that every component comes after the components it depends on. Components
+ * with more than one member must be emitted as a mutual block.
+ */
+export function dependencyComponents(
+  ids: string[],
+  dependencies: (id: string) => string[]
+): string[][] {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  const known = new Set(ids);
+  let counter = 0;
+
+  const visit = (id: string) => {
+    index.set(id, counter);
+    lowLink.set(id, counter);
+    counter++;
+    stack.push(id);
+    onStack.add(id);
+
+    for (const dep of dependencies(id)) {
+      if (!known.has(dep)) continue;
+      if (!index.has(dep)) {
+        visit(dep);
+        lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(dep)!));
+      } else if (onStack.has(dep)) {
+        lowLink.set(id, Math.min(lowLink.get(id)!, index.get(dep)!));
+      }
+    }
+
+    if (lowLink.get(id) === index.get(id)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+      // Keep the user's ordering within a component
+      components.push(ids.filter(i => component.includes(i)));
+    }
+  };
+
+  for (const id of ids) {
+    if (!index.has(id)) visit(id);
+  }
+  return components;
+}
+
+/**
+ * Inductive sorts grouped for emission (mutually recursive sorts together)
+ */
+export function sortComponents(
+  sorts: Map<SortId, Sort>,
+  constructors: Map<ConstructorId, Constructor>
+): Sort[][] {
+  const inductive = Array.from(sorts.values()).filter(s => s.kind === 'inductive');
+  const deps = (id: string) => Array.from(constructors.values())
+    .filter(c => c.sortId === id)
+    .flatMap(c => c.args.map(a => a.sortId));
+  return dependencyComponents(inductive.map(s => s.id), deps)
+    .map(ids => ids.map(id => sorts.get(id)!));
+}
+
+function funcExprCalls(expr: FuncExpr): RecFuncId[] {
+  switch (expr.kind) {
+    case 'int':
+    case 'empty':
+    case 'var':
+      return [];
+    case 'singleton':
+      return funcExprCalls(expr.element);
+    case 'call':
+      return [expr.funcId, ...funcExprCalls(expr.arg)];
+    case 'callMulti':
+      return [expr.funcId, ...expr.args.flatMap(funcExprCalls)];
+    case 'construct':
+      return expr.args.flatMap(funcExprCalls);
+    case 'add':
+    case 'sub':
+    case 'mul':
+    case 'max':
+    case 'min':
+    case 'union':
+    case 'intersect':
+    case 'diff':
+      return [...funcExprCalls(expr.left), ...funcExprCalls(expr.right)];
+    case 'if':
+      return [...funcPredCalls(expr.cond), ...funcExprCalls(expr.then), ...funcExprCalls(expr.else)];
+  }
+}
+
+function funcPredCalls(pred: FuncPredicate): RecFuncId[] {
+  switch (pred.kind) {
+    case 'in':
+      return [...funcExprCalls(pred.element), ...funcExprCalls(pred.set)];
+    case 'isEmpty':
+      return funcExprCalls(pred.set);
+    case 'and':
+    case 'or':
+      return [...funcPredCalls(pred.left), ...funcPredCalls(pred.right)];
+    case 'not':
+      return funcPredCalls(pred.pred);
+    default:
+      return [...funcExprCalls(pred.left), ...funcExprCalls(pred.right)];
+  }
+}
+
+/**
+ * Recursive functions grouped for emission (mutually recursive functions together)
+ */
+export function functionComponents(functions: Map<RecFuncId, RecursiveFunc>): RecursiveFunc[][] {
+  const deps = (id: string) => (functions.get(id)?.cases || []).flatMap(c => funcExprCalls(c.body));
+  return dependencyComponents(Array.from(functions.keys()), deps)
+    .map(ids => ids.map(id => functions.get(id)!));
+}
+
+/**
+ * Whether a function calls itself (directly or within its component)
+ */
+export function isRecursive(func: RecursiveFunc, component: RecursiveFunc[]): boolean {
+  const ids = new Set(component.map(f => f.id));
+  return func.cases.some(c => funcExprCalls(c.body).some(id => ids.has(id)));
+}
+
+/**
+ * Judgments grouped for emission (judgments whose rules refer to each other together)
+ */
+export function judgmentComponents(
+  judgments: Map<JudgmentId, Judgment>,
+  rules: Map<RuleId, InferenceRule>
+): Judgment[][] {
+  const deps = (id: string) => Array.from(rules.values())
+    .filter(r => r.conclusion.judgmentId === id)
+    .flatMap(r => r.premises.map(p => p.judgmentId));
+  return dependencyComponents(Array.from(judgments.keys()), deps)
+    .map(ids => ids.map(id => judgments.get(id)!));
+}
+
+/**
+ * Constructors of a sort, in the order tactics such as induction enumerate them
+ */
+export function constructorsOfSort(
+  sortId: SortId,
+  constructors: Map<ConstructorId, Constructor>
+): Constructor[] {
+  return Array.from(constructors.values()).filter(c => c.sortId === sortId);
+}
+
+/**
+ * Meta-variables of a rule, in order of first appearance
+ */
+export function ruleMetaVariables(rule: InferenceRule): string[] {
+  const ids: string[] = [];
+  const visit = (p: Pattern) => {
+    if (p.metaVariableId && !ids.includes(p.metaVariableId)) ids.push(p.metaVariableId);
+    p.args.forEach(visit);
+  };
+  rule.conclusion.args.forEach(visit);
+  rule.premises.forEach(prem => prem.args.forEach(visit));
+  for (const cond of rule.sideConditions || []) {
+    visit(cond.predicate.arg);
+    if (cond.predicate.kind === 'in' || cond.predicate.kind === 'notIn') visit(cond.predicate.element);
+  }
+  return ids;
+}
+
+/**
+ * The variables (and induction hypotheses) TypeForge introduces for each
+ * constructor when doing induction or case analysis on `varName`. Coq binds
+ * each hypothesis right after its argument; Lean binds all the arguments
+ * first (`hypothesesLast`).
+ */
+export function caseBindings(
+  goal: ProofGoal,
+  varName: string,
+  withHypotheses: boolean,
+  constructors: Map<ConstructorId, Constructor>,
+  hypothesesLast = false
+): { constructor: Constructor; names: string[] }[] {
+  const variable = goal.context.variables.find(v => v.name === varName);
+  if (!variable) return [];
+  return constructorsOfSort(variable.sortId, constructors).map(c => {
+    const fields = c.args.map((arg, i) => arg.label || `x${i}`);
+    const hypotheses = c.args.map((arg, i) =>
+      withHypotheses && arg.sortId === variable.sortId ? [`IH_${fields[i]}`] : []
+    );
+    return {
+      constructor: c,
+      names: hypothesesLast
+        ? [...fields, ...hypotheses.flat()]
+        : fields.flatMap((name, i) => [name, ...hypotheses[i]]),
+    };
+  });
+}
+
+/**
+ * The names TypeForge introduces when destructing hypothesis `hypName`:
+ * both conjuncts, the hypothesis in each disjunct, or the witness and the
+ * hypothesis. Null unless the hypothesis is a ∧, ∨ or ∃.
+ */
+export function destructBindings(goal: ProofGoal, hypName: string): { kind: 'and' | 'or' | 'exists'; names: string[] } | null {
+  const hyp = goal.context.hypotheses.find(h => h.name === hypName);
+  if (!hyp) return null;
+  switch (hyp.formula.kind) {
+    case 'and': {
+      const taken = new Set(goal.context.hypotheses.filter(h => h !== hyp).map(h => h.name));
+      return { kind: 'and', names: [freshName(`${hypName}_1`, taken), freshName(`${hypName}_2`, taken)] };
+    }
+    case 'or':
+      return { kind: 'or', names: [hypName, hypName] };
+    case 'exists':
+      return { kind: 'exists', names: [freshName(hyp.formula.varName, new Set(goal.context.variables.map(v => v.name))), hypName] };
+    default:
+      return null;
+  }
+}
+
+/**
+ * The names a case of rule induction or inversion binds for the arguments of
+ * its rule's constructor: the meta-variables the constructor quantifies (null
+ * where inversion instantiates one), then the premises and side conditions.
+ * Coq binds each induction hypothesis right after its premise; Lean binds
+ * them last (`hypothesesLast`).
+ */
+export function ruleCaseNames(
+  ruleCase: RuleCase,
+  metaVariables: Map<string, MetaVariable>,
+  hypothesesLast = false
+): (string | null)[] {
+  const variables = ruleMetaVariables(ruleCase.rule)
+    .filter(id => metaVariables.has(id))
+    .map(id => ruleCase.variables.get(id) ?? null);
+  const premises = ruleCase.premises.flatMap(p =>
+    hypothesesLast || !p.inductionHypothesis ? [p.name] : [p.name, p.inductionHypothesis]
+  );
+  const inductionHypotheses = hypothesesLast
+    ? ruleCase.premises.flatMap(p => p.inductionHypothesis ? [p.inductionHypothesis] : [])
+    : [];
+  return [...variables, ...premises, ...ruleCase.sideConditions, ...inductionHypotheses];
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { exportCoq } from './coq';
+import { NATS, parse } from '../test/workspace';
+
+describe('exportCoq case splits on judgments', () => {
+  const EVEN = `${NATS}judgment ev: "ev " (n: N)
+
+rule ev_Z:
+  ----
+  ev Z
+
+rule ev_SS:
+  ev n
+  ----
+  ev S(S(n))
+
+property ev_inv: ∀n: N. ev n → ev S(S(n))
+property ev_pred: ∀n: N. ev S(S(n)) → ev n
+property ev_four: ∀n: N. ev n → ev S(S(S(S(n))))
+`;
+
+  const exported = (proofs: string): string => exportCoq(parse(EVEN + proofs));
+
+  it('binds the names inversion gives each case', () => {
+    const coq = exported('proof ev_inv: intro n. intro_hyp H. inversion H. apply_rule ev_SS. apply_rule ev_Z. apply_rule ev_SS. apply_rule ev_SS. exact H_1.');
+    expect(coq).toContain("  inversion H as [ | n' H_1]; subst.\n");
+  });
+
+  it('renames a variable inversion merges with the context back to the context\'s name', () => {
+    const coq = exported('proof ev_pred: intro n. intro_hyp H. inversion H. exact H_1.');
+    expect(coq).toContain([
+      '  intro H.',
+      "  inversion H as [ | n' H_1]; subst; try rename n' into n.",
+      '  exact H_1.',
+      'Qed.',
+    ].join('\n'));
+  });
+
+  it('bounds repetition as TypeForge does', () => {
+    const coq = exported('proof ev_four: intro n. intro_hyp H. repeat 3 apply_rule ev_SS. exact H.');
+    expect(coq).toContain('  do 3 try apply ev_SS.\n  exact H.\n');
+  });
+});
@@ -0,0 +1,703 @@
+import type {
+  Sort,
+  SortId,
+  Constructor,
+  ConstructorId,
+  Judgment,
+  JudgmentId,
+  InferenceRule,
+  RuleId,
+  MetaVariable,
+  Pattern,
+  RuleFuncPredicate,
+  RecursiveFunc,
+  RecFuncId,
+  FuncExpr,
+  FuncPredicate,
+  Formula,
+  FormulaExpr,
+  FormulaCond,
+  Property,
+  PropertyId,
+  Proof,
+  ProofId,
+  ProofGoal,
+  ProofStep,
+  Tactic,
+  GoalId,
+} from '../types/syntax';
+import { freshName, lemmaHypothesisName, orderByDependencies, ruleCases, unfoldedOccurrence } from '../types/syntax';
+import {
+  createNameTable,
+  sortComponents,
+  functionComponents,
+  judgmentComponents,
+  isRecursive,
+  constructorsOfSort,
+  ruleMetaVariables,
+  caseBindings,
+  destructBindings,
+  ruleCaseNames,
+} from './common';
+import type { NameTable } from './common';
+
+// ============================================================================
+// Coq Export
+// ============================================================================
+
+/**
+ * Everything needed to generate a Coq development
+ */
+export type CoqExportSource = {
+  sorts: Map<SortId, Sort>;
+  constructors: Map<ConstructorId, Constructor>;
+  judgments: Map<JudgmentId, Judgment>;
+  rules: Map<RuleId, InferenceRule>;
+  metaVariables: Map<string, MetaVariable>;
+  recursiveFunctions: Map<RecFuncId, RecursiveFunc>;
+  properties: Map<PropertyId, Property>;
+  proofs: Map<ProofId, Proof>;
+};
+
+/**
+ * Keywords and the library names the generated file relies on
+ */
+const COQ_RESERVED = [
+  'as', 'at', 'cofix', 'else', 'end', 'exists', 'exists2', 'fix', 'for', 'forall', 'fun',
+  'if', 'IF', 'in', 'let', 'match', 'mod', 'return', 'then', 'using', 'where', 'with',
+  'Prop', 'Set', 'Type', 'SProp', 'Inductive', 'Fixpoint', 'Definition', 'Theorem',
+  'Lemma', 'Proof', 'Qed', 'Admitted', 'Defined', 'Section', 'End', 'Module', 'Import',
+  'Z', 'N', 'nat', 'Nat', 'O', 'S', 'bool', 'true', 'false', 'True', 'False', 'list',
+  'nil', 'cons', 'In', 'and', 'or', 'not', 'ex', 'eq', 'le', 'lt', 'max', 'min',
+  'negb', 'andb', 'orb', 'length', 'forallb', 'incl', 'set_union', 'set_inter',
+  'set_diff', 'set_mem', 'lia', 'admit',
+];
+
+/**
+ * Shared state while generating one file
+ */
+type CoqContext = {
+  source: CoqExportSource;
+  names: NameTable;
+};
+
+function sortType(sortId: SortId, ctx: CoqContext): string {
+  return ctx.names.get(`sort:${sortId}`);
+}
+
+function apply(head: string, args: string[]): string {
+  return args.length === 0 ? head : `(${head} ${args.join(' ')})`;
+}
+
+// ----------------------------------------------------------------------------
+// Terms
+// ----------------------------------------------------------------------------
+
+function patternToCoq(pattern: Pattern, ctx: CoqContext): string {
+  if (pattern.metaVariableId) {
+    const mv = ctx.source.metaVariables.get(pattern.metaVariableId);
+    return mv ? ctx.names.local(mv.name) : '_';
+  }
+  if (pattern.constructorId) {
+    return apply(ctx.names.get(`ctor:${pattern.constructorId}`), pattern.args.map(a => patternToCoq(a, ctx)));
+  }
+  return '_';
+}
+
+// The element is bound under a name the name table keeps clear of every variable
+function setSubset(left: string, right: string, ctx: CoqContext): string {
+  const a = ctx.names.get('set:element');
+  return `(forallb (fun ${a} => set_mem Nat.eq_dec ${a} ${right}) ${left})`;
+}
+
+function funcExprToCoq(expr: FuncExpr, ctx: CoqContext): string {
+  const rec = (e: FuncExpr) => funcExprToCoq(e, ctx);
+  switch (expr.kind) {
+    case 'int':
+      return expr.value < 0 ? `(${expr.value})` : `${expr.value}`;
+    case 'empty':
+      return '[]';
+    case 'singleton':
+      return `[${rec(expr.element)}]`;
+    case 'var':
+      return ctx.names.local(expr.name);
+    case 'call':
+      return apply(ctx.names.get(`func:${expr.funcId}`), [rec(expr.arg)]);
+    case 'callMulti':
+      return apply(ctx.names.get(`func:${expr.funcId}`), expr.args.map(rec));
+    case 'construct':
+      return apply(ctx.names.get(`ctor:${expr.constructorId}`), expr.args.map(rec));
+    case 'add':
+      return `(${rec(expr.left)} + ${rec(expr.right)})`;
+    case 'sub':
+      return `(${rec(expr.left)} - ${rec(expr.right)})`;
+    case 'mul':
+      return `(${rec(expr.left)} * ${rec(expr.right)})`;
+    case 'max':
+      return `(Z.max ${rec(expr.left)} ${rec(expr.right)})`;
+    case 'min':
+      return `(Z.min ${rec(expr.left)} ${rec(expr.right)})`;
+    case 'union':
+      return `(set_union Nat.eq_dec ${rec(expr.left)} ${rec(expr.right)})`;
+    case 'intersect':
+      return `(set_inter Nat.eq_dec ${rec(expr.left)} ${rec(expr.right)})`;
+    case 'diff':
+      return `(set_diff Nat.eq_dec ${rec(expr.left)} ${rec(expr.right)})`;
+    case 'if':
+      return `(if ${funcPredToCoq(expr.cond, ctx)} then ${rec(expr.then)} else ${rec(expr.else)})`;
+  }
+}
+
+/**
+ * Conditions in function bodies are computed, so they become booleans
+ */
+function funcPredToCoq(pred: FuncPredicate, ctx: CoqContext): string {
+  const expr = (e: FuncExpr) => funcExprToCoq(e, ctx);
+  switch (pred.kind) {
+    case 'eq':
+      return `(Z.eqb ${expr(pred.left)} ${expr(pred.right)})`;
+    case 'neq':
+      return `(negb (Z.eqb ${expr(pred.left)} ${expr(pred.right)}))`;
+    case 'lt':
+      return `(Z.ltb ${expr(pred.left)} ${expr(pred.right)})`;
+    case 'leq':
+      return `(Z.leb ${expr(pred.left)} ${expr(pred.right)})`;
+    case 'gt':
+      return `(Z.gtb ${expr(pred.left)} ${expr(pred.right)})`;
+    case 'geq':
+      return `(Z.geb ${expr(pred.left)} ${expr(pred.right)})`;
+    case 'atomEq':
+      return `(Nat.eqb ${expr(pred.left)} ${expr(pred.right)})`;
+    case 'atomNeq':
+      return `(negb (Nat.eqb ${expr(pred.left)} ${expr(pred.right)}))`;
+    case 'in':
+      return `(set_mem Nat.eq_dec ${expr(pred.element)} ${expr(pred.set)})`;
+    case 'subset':
+      return setSubset(expr(pred.left), expr(pred.right), ctx);
+    case 'isEmpty':
+      return `(Nat.eqb (length ${expr(pred.set)}) 0)`;
+    case 'and':
+      return `(${funcPredToCoq(pred.left, ctx)} && ${funcPredToCoq(pred.right, ctx)})`;
+    case 'or':
+      return `(${funcPredToCoq(pred.left, ctx)} || ${funcPredToCoq(pred.right, ctx)})`;
+    case 'not':
+      return `(negb ${funcPredToCoq(pred.pred, ctx)})`;
+  }
+}
+
+/**
+ * Rule side conditions are constraints in Prop
+ */
+function sideConditionToCoq(pred: RuleFuncPredicate, ctx: CoqContext): string {
+  const call = apply(ctx.names.get(`func:${pred.funcId}`), [patternToCoq(pred.arg, ctx)]);
+  switch (pred.kind) {
+    case 'eq': return `${call} = ${funcExprToCoq(pred.value, ctx)}`;
+    case 'neq': return `${call} <> ${funcExprToCoq(pred.value, ctx)}`;
+    case 'lt': return `${call} < ${funcExprToCoq(pred.value, ctx)}`;
+    case 'leq': return `${call} <= ${funcExprToCoq(pred.value, ctx)}`;
+    case 'gt': return `${call} > ${funcExprToCoq(pred.value, ctx)}`;
+    case 'geq': return `${call} >= ${funcExprToCoq(pred.value, ctx)}`;
+    case 'isEmpty': return `${call} = []`;
+    case 'notEmpty': return `${call} <> []`;
+    case 'in': return `In ${patternToCoq(pred.element, ctx)} ${call}`;
+    case 'notIn': return `~ In ${patternToCoq(pred.element, ctx)} ${call}`;
+  }
+}
+
+function formulaExprToCoq(expr: FormulaExpr, ctx: CoqContext): string {
+  const rec = (e: FormulaExpr) => formulaExprToCoq(e, ctx);
+  switch (expr.kind) {
+    case 'var':
+      return ctx.names.local(expr.name);
+    case 'constructor':
+      return apply(ctx.names.get(`ctor:${expr.constructorId}`), expr.args.map(rec));
+    case 'funcApp':
+      return apply(ctx.names.get(`func:${expr.funcId}`), [rec(expr.arg)]);
+    case 'int':
+      return expr.value < 0 ? `(${expr.value})` : `${expr.value}`;
+    case 'emptySet':
+      return '[]';
+    case 'add':
+      return `(${rec(expr.left)} + ${rec(expr.right)})`;
+    case 'sub':
+      return `(${rec(expr.left)} - ${rec(expr.right)})`;
+    case 'mul':
+      return `(${rec(expr.left)} * ${rec(expr.right)})`;
+    case 'max':
+      return `(Z.max ${rec(expr.left)} ${rec(expr.right)})`;
+    case 'min':
+      return `(Z.min ${rec(expr.left)} ${rec(expr.right)})`;
+    case 'funcAppMulti':
+      return apply(ctx.names.get(`func:${expr.funcId}`), expr.args.map(rec));
+    case 'singleton':
+      return `[${rec(expr.element)}]`;
+    case 'union':
+      return `(set_union Nat.eq_dec ${rec(expr.left)} ${rec(expr.right)})`;
+    case 'intersect':
+      return `(set_inter Nat.eq_dec ${rec(expr.left)} ${rec(expr.right)})`;
+    case 'diff':
+      return `(set_diff Nat.eq_dec ${rec(expr.left)} ${rec(expr.right)})`;
+    case 'if':
+      return `(if ${formulaCondToCoq(expr.cond, ctx)} then ${rec(expr.then)} else ${rec(expr.else)})`;
+  }
+}
+
+// Conditions are computed, as in function bodies
+function formulaCondToCoq(cond: FormulaCond, ctx: CoqContext): string {
+  const expr = (e: FormulaExpr) => formulaExprToCoq(e, ctx);
+  switch (cond.kind) {
+    case 'eq':
+      return `(Z.eqb ${expr(cond.left)} ${expr(cond.right)})`;
+    case 'neq':
+      return `(negb (Z.eqb ${expr(cond.left)} ${expr(cond.right)}))`;
+    case 'lt':
+      return `(Z.ltb ${expr(cond.left)} ${expr(cond.right)})`;
+    case 'leq':
+      return `(Z.leb ${expr(cond.left)} ${expr(cond.right)})`;
+    case 'gt':
+      return `(Z.gtb ${expr(cond.left)} ${expr(cond.right)})`;
+    case 'geq':
+      return `(Z.geb ${expr(cond.left)} ${expr(cond.right)})`;
+    case 'atomEq':
+      return `(Nat.eqb ${expr(cond.left)} ${expr(cond.right)})`;
+    case 'atomNeq':
+      return `(negb (Nat.eqb ${expr(cond.left)} ${expr(cond.right)}))`;
+    case 'in':
+      return `(set_mem Nat.eq_dec ${expr(cond.element)} ${expr(cond.set)})`;
+    case 'subset':
+      return setSubset(expr(cond.left), expr(cond.right), ctx);
+    case 'isEmpty':
+      return `(Nat.eqb (length ${expr(cond.set)}) 0)`;
+    case 'and':
+      return `(${formulaCondToCoq(cond.left, ctx)} && ${formulaCondToCoq(cond.right, ctx)})`;
+    case 'or':
+      return `(${formulaCondToCoq(cond.left, ctx)} || ${formulaCondToCoq(cond.right, ctx)})`;
+    case 'not':
+      return `(negb ${formulaCondToCoq(cond.cond, ctx)})`;
+  }
+}
+
+function formulaToCoq(formula: Formula, ctx: CoqContext, nested = false): string {
+  const expr = (e: FormulaExpr) => formulaExprToCoq(e, ctx);
+  const sub = (f: Formula) => formulaToCoq(f, ctx, true);
+  const wrap = (s: string) => (nested ? `(${s})` : s);
+  const call = (funcId: RecFuncId, arg: FormulaExpr) =>
+    apply(ctx.names.get(`func:${funcId}`), [expr(arg)]);
+
+  switch (formula.kind) {
+    case 'forall':
+      return wrap(`forall (${ctx.names.local(formula.varName)} : ${sortType(formula.sortId, ctx)}), ${formulaToCoq(formula.body, ctx)}`);
+    case 'exists':
+      return wrap(`exists (${ctx.names.local(formula.varName)} : ${sortType(formula.sortId, ctx)}), ${formulaToCoq(formula.body, ctx)}`);
+    case 'implies':
+      return wrap(`${sub(formula.left)} -> ${sub(formula.right)}`);
+    case 'and':
+      return wrap(`${sub(formula.left)} /\\ ${sub(formula.right)}`);
+    case 'or':
+      return wrap(`${sub(formula.left)} \\/ ${sub(formula.right)}`);
+    case 'not':
+      return wrap(`~ ${sub(formula.body)}`);
+    case 'judgment':
+      return wrap(`${ctx.names.get(`judg:${formula.judgmentId}`)}${formula.args.map(a => ` ${expr(a)}`).join('')}`);
+    case 'termEq':
+    case 'numEq':
+      return wrap(`${expr(formula.left)} = ${expr(formula.right)}`);
+    case 'termNeq':
+    case 'numNeq':
+      return wrap(`${expr(formula.left)} <> ${expr(formula.right)}`);
+    case 'numLeq':
+      return wrap(`${expr(formula.left)} <= ${expr(formula.right)}`);
+    case 'numLt':
+      return wrap(`${expr(formula.left)} < ${expr(formula.right)}`);
+    case 'numGeq':
+      return wrap(`${expr(formula.left)} >= ${expr(formula.right)}`);
+    case 'numGt':
+      return wrap(`${expr(formula.left)} > ${expr(formula.right)}`);
+    case 'funcEq':
+      return wrap(`${call(formula.funcId, formula.arg)} = ${expr(formula.value)}`);
+    case 'funcLeq':
+      return wrap(`${call(formula.funcId, formula.arg)} <= ${expr(formula.value)}`);
+    case 'funcLt':
+      return wrap(`${call(formula.funcId, formula.arg)} < ${expr(formula.value)}`);
+    case 'setEmpty':
+      return wrap(`${call(formula.funcId, formula.arg)} = []`);
+    case 'setIn':
+      return wrap(`In ${expr(formula.element)} ${call(formula.funcId, formula.arg)}`);
+    case 'true':
+      return 'True';
+    case 'false':
+      return 'False';
+  }
+}
+
+// ----------------------------------------------------------------------------
+// Definitions
+// ----------------------------------------------------------------------------
+
+function sortsToCoq(ctx: CoqContext): string[] {
+  const { sorts, constructors } = ctx.source;
+  const blocks: string[] = [];
+
+  for (const sort of sorts.values()) {
+    if (sort.kind === 'atom') {
+      // Atoms are names with decidable equality
+      blocks.push(`(* ${sort.name}: atoms *)\nDefinition ${sortType(sort.id, ctx)} := nat.`);
+    }
+  }
+
+  for (const component of sortComponents(sorts, constructors)) {
+    const parts = component.map(sort => {
+      const lines = [`${sortType(sort.id, ctx)} : Type :=`];
+      for (const c of constructorsOfSort(sort.id, constructors)) {
+        const argTypes = c.args.map(a => `${sortType(a.sortId, ctx)} -> `).join('');
+        lines.push(`  | ${ctx.names.get(`ctor:${c.id}`)} : ${argTypes}${sortType(sort.id, ctx)}`);
+      }
+      return lines.join('\n');
+    });
+    blocks.push(`Inductive ${parts.join('\nwith ')}.`);
+  }
+
+  return blocks;
+}
+
+function returnTypeToCoq(func: RecursiveFunc, ctx: CoqContext): string {
+  switch (func.returnType.kind) {
+    case 'int': return 'Z';
+    case 'set': return `list ${sortType(func.returnType.elementSortId, ctx)}`;
+    case 'inductive': return sortType(func.returnType.sortId, ctx);
+  }
+}
+
+/**
+ * Value for constructors the function has no case for
+ */
+function defaultCaseToCoq(func: RecursiveFunc, principal: string, ctx: CoqContext): string {
+  switch (func.returnType.kind) {
+    case 'int': return '0';
+    case 'set': return '[]';
+    case 'inductive': {
+      if (func.returnType.sortId === func.inputSortId) return principal;
+      const nullary = constructorsOfSort(func.returnType.sortId, ctx.source.constructors)
+        .find(c => c.args.length === 0);
+      return nullary ? ctx.names.get(`ctor:${nullary.id}`) : principal;
+    }
+  }
+}
+
+function functionToCoq(func: RecursiveFunc, ctx: CoqContext, recursive: boolean): string {
+  const extraArgs = func.extraArgs || [];
+  const localNames = new Set([
+    ...extraArgs.map(a => ctx.names.local(a.name)),
+    ...func.cases.flatMap(c => c.boundVars.filter(v => v).map(v => ctx.names.local(v))),
+  ]);
+  let principal = ctx.names.local('t');
+  while (localNames.has(principal)) principal = `${principal}'`;
+
+  const params = [
+    `(${principal} : ${sortType(func.inputSortId, ctx)})`,
+    ...extraArgs.map(a => `(${ctx.names.local(a.name)} : ${sortType(a.sortId, ctx)})`),
+  ].join(' ');
+  const struct = recursive ? ` {struct ${principal}}` : '';
+
+  const lines = [`${ctx.names.get(`func:${func.id}`)} ${params}${struct} : ${returnTypeToCoq(func, ctx)} :=`];
+  lines.push(`  match ${principal} with`);
+  const sortConstructors = constructorsOfSort(func.inputSortId, ctx.source.constructors);
+  for (const c of sortConstructors) {
+    const funcCase = func.cases.find(fc => fc.constructorId === c.id);
+    if (!funcCase) continue;
+    const vars = c.args.map((_, i) => funcCase.boundVars[i] ? ctx.names.local(funcCase.boundVars[i]) : '_');
+    const pattern = [ctx.names.get(`ctor:${c.id}`), ...vars].join(' ');
+    lines.push(`  | ${pattern} => ${funcExprToCoq(funcCase.body, ctx)}`);
+  }
+  if (sortConstructors.some(c => !func.cases.some(fc => fc.constructorId === c.id))) {
+    lines.push(`  | _ => ${defaultCaseToCoq(func, principal, ctx)}`);
+  }
+  lines.push('  end');
+  return lines.join('\n');
+}
+
+function functionsToCoq(ctx: CoqContext): string[] {
+  return functionComponents(ctx.source.recursiveFunctions).map(component => {
+    const recursive = component.length > 1 || isRecursive(component[0], component);
+    const bodies = component.map(f => functionToCoq(f, ctx, recursive));
+    return `${recursive ? 'Fixpoint' : 'Definition'} ${bodies.join('\nwith ')}.`;
+  });
+}
+
+function ruleToCoq(rule: InferenceRule, ctx: CoqContext): string {
+  const binders = ruleMetaVariables(rule)
+    .map(id => ctx.source.metaVariables.get(id))
+    .filter((mv): mv is MetaVariable => !!mv)
+    .map(mv => `(${ctx.names.local(mv.name)} : ${sortType(mv.sortId, ctx)})`);
+
+  const instance = (judgmentId: JudgmentId, args: Pattern[]) =>
+    [ctx.names.get(`judg:${judgmentId}`), ...args.map(a => patternToCoq(a, ctx))].join(' ');
+
+  const hypotheses = [
+    ...rule.premises.map(p => instance(p.judgmentId, p.args)),
+    ...(rule.sideConditions || []).map(c => sideConditionToCoq(c.predicate, ctx)),
+  ];
+  const conclusion = instance(rule.conclusion.judgmentId, rule.conclusion.args);
+  const quantified = binders.length > 0 ? `forall ${binders.join(' ')}, ` : '';
+  return `  | ${ctx.names.get(`rule:${rule.id}`)} : ${quantified}${hypotheses.map(h => `${h} -> `).join('')}${conclusion}`;
+}
+
+function judgmentsToCoq(ctx: CoqContext): string[] {
+  const { judgments, rules } = ctx.source;
+  return judgmentComponents(judgments, rules).map(component => {
+    const parts = component.map(j => {
+      const argTypes = j.argSorts.map(a => `${sortType(a.sortId, ctx)} -> `).join('');
+      const judgmentRules = Array.from(rules.values()).filter(r => r.conclusion.judgmentId === j.id);
+      return [`${ctx.names.get(`judg:${j.id}`)} : ${argTypes}Prop :=`, ...judgmentRules.map(r => ruleToCoq(r, ctx))].join('\n');
+    });
+    return `Inductive ${parts.join('\nwith ')}.`;
+  });
+}
+
+// ----------------------------------------------------------------------------
+// Proof Scripts
+// ----------------------------------------------------------------------------
+
+/**
+ * Intro pattern naming the constructor arguments (and induction hypotheses)
+ * the way TypeForge names them
+ */
+function caseIntroPattern(goal: ProofGoal, varName: string, withHypotheses: boolean, ctx: CoqContext): string {
+  const cases = caseBindings(goal, varName, withHypotheses, ctx.source.constructors);
+  if (cases.length === 0) return '';
+  return ` as [${cases.map(c => c.names.map(ctx.names.local).join(' ')).join(' | ')}]`;
+}
+
+/**
+ * Intro pattern naming the variables and hypotheses of each rule's case the
+ * way TypeForge names them, with a branch for every rule of the judgment.
+ * Meta-variables merged with a variable of the context get a name of their
+ * own, renamed back after `subst` in case Coq kept theirs (`renamed`). Null
+ * if Coq would name some case differently.
+ */
+function ruleIntroPattern(
+  tactic: Tactic & { kind: 'derivation_induction' | 'inversion' },
+  goal: ProofGoal,
+  ctx: CoqContext
+): { pattern: string; renamed: [string, string][] } | null {
+  const { rules, metaVariables, recursiveFunctions } = ctx.source;
+  const cases = ruleCases(goal, tactic, rules, metaVariables, recursiveFunctions);
+  if (!cases || cases.some(c => !c.exact)) return null;
+  if (cases.length === 0) return { pattern: '', renamed: [] };
+  const renamed: [string, string][] = [];
+  // Rules inversion rules out get a branch Coq discards
+  const judgmentId = cases[0].rule.conclusion.judgmentId;
+  const branches = Array.from(rules.values())
+    .filter(r => r.conclusion.judgmentId === judgmentId)
+    .map(rule => {
+      const ruleCase = cases.find(c => c.rule.id === rule.id);
+      if (!ruleCase) return '';
+      const { variables, hypotheses } = ruleCase.goal.context;
+      const taken = new Set([...goal.context.variables, ...variables, ...hypotheses].map(v => ctx.names.local(v.name)));
+      return ruleCaseNames(ruleCase, metaVariables).map(name => {
+        if (name === null) return '?';
+        if (!ruleCase.merged.includes(name)) return ctx.names.local(name);
+        const own = freshName(ctx.names.local(name), taken);
+        renamed.push([own, ctx.names.local(name)]);
+        return own;
+      }).join(' ');
+    });
+  return { pattern: ` as [${branches.join(' | ')}]`, renamed };
+}
+
+function tacticToCoq(step: ProofStep, goal: ProofGoal, ctx: CoqContext): string {
+  const { tactic } = step;
+  switch (tactic.kind) {
+    case 'intro': {
+      const name = tactic.varName || (goal.goal.kind === 'forall' ? goal.goal.varName : 'x');
+      return `intro ${ctx.names.local(name)}.`;
+    }
+    case 'intro_hyp':
+      return `intro ${ctx.names.local(tactic.hypName || `H${goal.context.hypotheses.length}`)}.`;
+    case 'exists_witness':
+      return `exists ${formulaExprToCoq(tactic.witness, ctx)}.`;
+    case 'split':
+      return 'split.';
+    case 'left':
+      return 'left.';
+    case 'right':
+      return 'right.';
+    case 'induction':
+      return `induction ${ctx.names.local(tactic.varName)}${caseIntroPattern(goal, tactic.varName, true, ctx)}.`;
+    case 'derivation_induction':
+      return `induction ${ctx.names.local(tactic.hypName)}${ruleIntroPattern(tactic, goal, ctx)?.pattern ?? ''}.`;
+    case 'inversion': {
+      const intro = ruleIntroPattern(tactic, goal, ctx);
+      const renames = intro?.renamed.map(([own, name]) => `; try rename ${own} into ${name}`).join('') ?? '';
+      return `inversion ${ctx.names.local(tactic.hypName)}${intro?.pattern ?? ''}; subst${renames}.`;
+    }
+    case 'case_analysis':
+      return `destruct ${ctx.names.local(tactic.varName)}${caseIntroPattern(goal, tactic.varName, false, ctx)}.`;
+    case 'destruct': {
+      const bindings = destructBindings(goal, tactic.hypName);
+      const names = bindings?.names.map(ctx.names.local) || [];
+      const pattern = bindings?.kind === 'or' ? ` as [${names.join(' | ')}]` : bindings ? ` as [${names.join(' ')}]` : '';
+      return `destruct ${ctx.names.local(tactic.hypName)}${pattern}.`;
+    }
+    case 'apply':
+      return `apply ${ctx.names.local(tactic.hypName)}.`;
+    case 'apply_rule':
+      return `apply ${ctx.names.get(`rule:${tactic.ruleId}`)}.`;
+    case 'have':
+    case 'apply_lemma': {
+      const lemma = ctx.source.properties.get(tactic.propertyId);
+      if (!lemma) return 'admit.';
+      const name = ctx.names.get(`prop:${lemma.id}`);
+      if (tactic.kind === 'apply_lemma') return `apply ${name}.`;
+      const hyp = ctx.names.local(lemmaHypothesisName(goal.context, lemma, tactic.hypName));
+      return `pose proof ${apply(name, (tactic.args ?? []).map(a => formulaExprToCoq(a, ctx)))} as ${hyp}.`;
+    }
+    case 'reflexivity':
+      return 'reflexivity.';
+    case 'contradiction':
+      return 'contradiction.';
+    case 'compute':
+      // Computing closes a goal once it is evaluated to a fact
+      return step.resultingGoals.length === 0 ? 'simpl; first [reflexivity | lia | easy].' : 'simpl.';
+    case 'discriminate':
+      return `discriminate ${ctx.names.local(tactic.hypName)}.`;
+    case 'rewrite':
+      return `rewrite ${tactic.direction === 'rtl' ? '<- ' : ''}${ctx.names.local(tactic.hypName)}.`;
+    case 'unfold': {
+      // Only the one application TypeForge unfolds, so the following steps still apply
+      const name = ctx.names.get(`func:${tactic.funcId}`);
+      const occurrence = unfoldedOccurrence(goal.goal, tactic, ctx.source.constructors, ctx.source.recursiveFunctions);
+      return occurrence === null ? `simpl ${name}.` : `simpl ${name} at ${occurrence}.`;
+    }
+    case 'simplify':
+      // Closing steps are arithmetic facts; otherwise it only evaluated constants
+      return step.resultingGoals.length === 0 ? 'lia.' : 'simpl.';
+    case 'trivial':
+      return 'trivial.';
+    case 'exact':
+      return `exact ${ctx.names.local(tactic.hypName)}.`;
+    case 'seq':
+      return `${combined(tactic.first)}; ${combined(tactic.next)}.`;
+    case 'try':
+      return `try ${combined(tactic.tactic)}.`;
+    case 'repeat':
+      // Each round of `do` works on every goal the previous one left, as ours does
+      return tactic.limit > 0 ? `do ${tactic.limit} try ${combined(tactic.tactic)}.` : 'idtac.';
+    case 'first':
+      return `first [${tactic.tactics.map(combined).join(' | ')}].`;
+    case 'all_goals':
+      // Recorded on a single goal, where it is the tactic itself
+      return tacticToCoq({ ...step, tactic: tactic.tactic }, goal, ctx);
+  }
+
+  // A tactic inside a combinator, named as if it applied to the step's goal
+  function combined(inner: Tactic): string {
+    // Goals further in may bind other names; let the prover choose them
+    if ((inner.kind === 'intro' && !inner.varName) || (inner.kind === 'intro_hyp' && !inner.hypName)) return 'intro';
+    const text = tacticToCoq({ ...step, tactic: inner }, goal, ctx).replace(/\.$/, '');
+    return text.includes(';') ? `(${text})` : text;
+  }
+}
+
+const BULLETS = ['-', '+', '*'];
+
+function bullet(level: number): string {
+  return BULLETS[level % BULLETS.length].repeat(Math.floor(level / BULLETS.length) + 1);
+}
+
+/**
+ * Replay the recorded steps as a bulleted script.
+ * Returns whether every goal was closed (so the proof can end with Qed).
+ */
+function proofScriptToCoq(proof: Proof, ctx: CoqContext): { lines: string[]; complete: boolean } {
+  const stepByGoal = new Map<GoalId, ProofStep>(proof.steps.map(s => [s.goalId, s]));
+  let complete = true;
+
+  const script = (goalId: GoalId, indent: string, level: number): string[] => {
+    const step = stepByGoal.get(goalId);
+    const goal = proof.goals.get(goalId);
+    // The steps below a case split Coq names differently would not apply
+    const renamed = (step?.tactic.kind === 'derivation_induction' || step?.tactic.kind === 'inversion')
+      && !!goal && ruleIntroPattern(step.tactic, goal, ctx) === null;
+    if (!step || !goal || renamed) {
+      complete = false;
+      return [`${indent}admit.`];
+    }
+    const lines = [`${indent}${tacticToCoq(step, goal, ctx)}`];
+    if (step.resultingGoals.length === 1) {
+      lines.push(...script(step.resultingGoals[0], indent, level));
+    } else {
+      for (const child of step.resultingGoals) {
+        const childIndent = `${indent}${' '.repeat(bullet(level).length + 1)}`;
+        const childLines = script(child, childIndent, level + 1);
+        childLines[0] = `${indent}${bullet(level)} ${childLines[0].trimStart()}`;
+        lines.push(...childLines);
+      }
+    }
+    return lines;
+  };
+
+  return { lines: script(proof.rootGoalId, '  ', 0), complete };
+}
+
+function propertyToCoq(property: Property, ctx: CoqContext): string {
+  const lines = [`Theorem ${ctx.names.get(`prop:${property.id}`)} : ${formulaToCoq(property.formula, ctx)}.`];
+  if (property.description) lines.unshift(`(* ${property.description.replace(/\*\)/g, '* )')} *)`);
+
+  const proof = Array.from(ctx.source.proofs.values()).find(p => p.propertyId === property.id);
+  lines.push('Proof.');
+  if (!proof || proof.steps.length === 0) {
+    lines.push('Admitted.');
+    return lines.join('\n');
+  }
+  const { lines: script, complete } = proofScriptToCoq(proof, ctx);
+  lines.push(...script);
+  lines.push(complete ? 'Qed.' : 'Admitted.');
+  return lines.join('\n');
+}
+
+// ----------------------------------------------------------------------------
+// File
+// ----------------------------------------------------------------------------
+
+/**
+ * Generate a Coq (.v) file: inductive types for sorts, fixpoints for functions,
+ * inductive relations for judgments and theorems with translated proof scripts.
+ */
+export function exportCoq(source: CoqExportSource): string {
+  const names = createNameTable(COQ_RESERVED);
+  for (const sort of source.sorts.values()) names.assign(`sort:${sort.id}`, sort.name);
+  for (const c of source.constructors.values()) names.assign(`ctor:${c.id}`, c.name);
+  for (const f of source.recursiveFunctions.values()) names.assign(`func:${f.id}`, f.name);
+  for (const j of source.judgments.values()) names.assign(`judg:${j.id}`, j.name);
+  for (const r of source.rules.values()) names.assign(`rule:${r.id}`, r.name);
+  for (const p of source.properties.values()) names.assign(`prop:${p.id}`, p.name);
+  // The bound element in set operations, clear of every name that could occur around it
+  names.assign('set:element', 'a');
+  const ctx: CoqContext = { source, names };
+
+  const sections: [string, string[]][] = [
+    ['Syntax', sortsToCoq(ctx)],
+    ['Functions', functionsToCoq(ctx)],
+    ['Judgments', judgmentsToCoq(ctx)],
+    // Lemmas before the theorems that use them
+    ['Properties', orderByDependencies(source.properties, source.proofs).map(p => propertyToCoq(p, ctx))],
+  ];
+
+  const lines = [
+    '(* Generated by TypeForge *)',
+    'Require Import Coq.ZArith.ZArith.',
+    'Require Import Coq.Lists.List.',
+    'Require Import Coq.Lists.ListSet.',
+    'Require Import Lia.',
+    'Import ListNotations.',
+    'Open Scope Z_scope.',
+    '',
+  ];
+  for (const [title, blocks] of sections) {
+    if (blocks.length === 0) continue;
+    lines.push(`(* ${title} *)`, '');
+    for (const block of blocks) lines.push(block, '');
+  }
+  return lines.join('\n');
+}
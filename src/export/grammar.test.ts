@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { exportGrammarLatex, exportGrammarText } from './grammar';
+import { parse } from '../test/workspace';
+
+describe('grammar export', () => {
+  const LAMBDA = `atom Var prefix "x"
+sort E ::= V(Var) | Lam(x: Var binds [body], body: E) | App(E, E)
+`;
+
+  const data = parse(LAMBDA);
+
+  it('typesets atoms and binders for the syntax package', () => {
+    expect(exportGrammarLatex(data)).toBe([
+      '% Grammar generated by TypeForge',
+      '% Requires \\usepackage{syntax}',
+      '',
+      '\\begin{grammar}',
+      '% Var (atoms)',
+      '<$x$> ::= $x_{1}$ \\alt $x_{2}$ \\alt \\dots',
+      '',
+      '% E',
+      '<$e$> ::= $\\mathsf{V}(x)$',
+      '  \\alt $\\mathsf{Lam}(x, e)$ \\hfill \\textit{(bind $x$ in $e$)}',
+      '  \\alt $\\mathsf{App}(e_{1}, e_{2})$',
+      '\\end{grammar}',
+      '',
+    ].join('\n'));
+  });
+
+  it('writes atoms as Ott metavars and binders as bind specifications', () => {
+    expect(exportGrammarText(data)).toBe([
+      '% Grammar generated by TypeForge',
+      '',
+      'metavar x ::= {{ com Var (atoms) }}',
+      '',
+      'grammar',
+      "  e :: 'E_' ::= {{ com E }}",
+      '    | V x       :: :: V',
+      '    | Lam x e   :: :: Lam (+ bind x in e +)',
+      '    | App e1 e2 :: :: App',
+      '',
+    ].join('\n'));
+  });
+});
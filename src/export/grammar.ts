@@ -0,0 +1,196 @@
+import type {
+  Sort,
+  SortId,
+  Constructor,
+  ConstructorId,
+  ConstructorArg,
+  MetaVariable,
+} from '../types/syntax';
+import { latexIdent, latexName } from './latex';
+
+// ============================================================================
+// BNF Grammar Export
+// ============================================================================
+
+/**
+ * Everything needed to print the grammar of a development
+ */
+export type GrammarExportSource = {
+  sorts: Map<SortId, Sort>;
+  constructors: Map<ConstructorId, Constructor>;
+  metaVariables: Map<string, MetaVariable>;
+};
+
+/**
+ * A production (one constructor) with its argument metavariables resolved
+ */
+type Production = {
+  constructor: Constructor;
+  argNames: string[];
+  bindings: { binder: string; scope: string[] }[];
+};
+
+/**
+ * Pick the metavariable that ranges over each sort: the atom prefix for atom
+ * sorts, otherwise the name of a rule meta-variable of that sort, falling back
+ * to the sort's initial. Names are kept unique across sorts.
+ */
+export function sortMetaNames(
+  sorts: Map<SortId, Sort>,
+  metaVariables: Map<string, MetaVariable>
+): Map<SortId, string> {
+  const names = new Map<SortId, string>();
+  const used = new Set<string>();
+
+  for (const sort of sorts.values()) {
+    let name: string;
+    if (sort.kind === 'atom') {
+      name = sort.atomPrefix || sort.name.toLowerCase().charAt(0);
+    } else {
+      const mv = Array.from(metaVariables.values()).find(m => m.sortId === sort.id);
+      // Strip indices so "e₁" and "e1" both name the class "e"
+      name = mv ? mv.name.replace(/[\d₀-₉′']+$/u, '') : '';
+      if (!name) name = sort.name.toLowerCase().charAt(0);
+    }
+    if (!name || used.has(name)) name = sort.name;
+    used.add(name);
+    names.set(sort.id, name);
+  }
+  return names;
+}
+
+function buildProduction(constructor: Constructor, metaNames: Map<SortId, string>): Production {
+  const base = constructor.args.map(a => metaNames.get(a.sortId) || '?');
+  // Number repeated metavariables (e e → e1 e2)
+  const argNames = base.map((name, i) => {
+    const count = base.filter(n => n === name).length;
+    if (count === 1) return name;
+    return `${name}${base.slice(0, i + 1).filter(n => n === name).length}`;
+  });
+
+  const argName = (arg: ConstructorArg) => argNames[constructor.args.indexOf(arg)];
+  const bindings = constructor.args
+    .filter(a => a.isBinder)
+    .map(binder => ({
+      binder: argName(binder),
+      scope: (binder.bindsIn || [])
+        .map(id => constructor.args.find(a => a.id === id))
+        .filter((a): a is ConstructorArg => !!a)
+        .map(argName),
+    }));
+
+  return { constructor, argNames, bindings };
+}
+
+function productionsBySort(source: GrammarExportSource, metaNames: Map<SortId, string>) {
+  return Array.from(source.sorts.values())
+    .filter(s => s.kind === 'inductive')
+    .map(sort => ({
+      sort,
+      productions: Array.from(source.constructors.values())
+        .filter(c => c.sortId === sort.id)
+        .map(c => buildProduction(c, metaNames)),
+    }));
+}
+
+function describeAtomSort(sort: Sort): string {
+  return sort.isBinderSort ? `${sort.name} (bindable atoms)` : `${sort.name} (atoms)`;
+}
+
+// ============================================================================
+// LaTeX (syntax.sty)
+// ============================================================================
+
+/**
+ * Typeset the grammar with the `grammar` environment of syntax.sty (mdwtools).
+ * Atom sorts become metavariable classes; binders are noted after the production.
+ */
+export function exportGrammarLatex(source: GrammarExportSource): string {
+  const metaNames = sortMetaNames(source.sorts, source.metaVariables);
+  const nonterminal = (name: string) => `<$${latexIdent(name)}$>`;
+
+  const blocks: string[] = [];
+
+  for (const sort of source.sorts.values()) {
+    if (sort.kind !== 'atom') continue;
+    const name = latexIdent(metaNames.get(sort.id) || sort.name);
+    blocks.push([
+      `% ${describeAtomSort(sort)}`,
+      `${nonterminal(metaNames.get(sort.id) || sort.name)} ::= $${name}_{1}$ \\alt $${name}_{2}$ \\alt \\dots`,
+    ].join('\n'));
+  }
+
+  for (const { sort, productions } of productionsBySort(source, metaNames)) {
+    if (productions.length === 0) continue;
+    const alternatives = productions.map(({ constructor, argNames, bindings }) => {
+      const head = latexName(constructor.name);
+      const args = argNames.map(latexIdent);
+      let rhs = args.length > 0 ? `$${head}(${args.join(', ')})$` : `$${head}$`;
+      const notes = bindings.map(({ binder, scope }) =>
+        scope.length > 0
+          ? `bind $${latexIdent(binder)}$ in $${scope.map(latexIdent).join(', ')}$`
+          : `binds $${latexIdent(binder)}$`
+      );
+      if (notes.length > 0) rhs += ` \\hfill \\textit{(${notes.join('; ')})}`;
+      return rhs;
+    });
+    blocks.push([
+      `% ${sort.name}`,
+      `${nonterminal(metaNames.get(sort.id) || sort.name)} ::= ${alternatives.join('\n  \\alt ')}`,
+    ].join('\n'));
+  }
+
+  return [
+    '% Grammar generated by TypeForge',
+    '% Requires \\usepackage{syntax}',
+    '',
+    '\\begin{grammar}',
+    blocks.join('\n\n'),
+    '\\end{grammar}',
+    '',
+  ].join('\n');
+}
+
+// ============================================================================
+// Plain Text (Ott-like)
+// ============================================================================
+
+/**
+ * Print the grammar in the style of an Ott source file:
+ * `metavar` declarations for atom sorts and `grammar` rules with bind specs.
+ */
+export function exportGrammarText(source: GrammarExportSource): string {
+  const metaNames = sortMetaNames(source.sorts, source.metaVariables);
+  const lines: string[] = ['% Grammar generated by TypeForge', ''];
+
+  for (const sort of source.sorts.values()) {
+    if (sort.kind !== 'atom') continue;
+    lines.push(`metavar ${metaNames.get(sort.id)} ::= {{ com ${describeAtomSort(sort)} }}`);
+  }
+
+  const grammar = productionsBySort(source, metaNames).filter(g => g.productions.length > 0);
+  if (grammar.length > 0) {
+    if (lines.length > 2) lines.push('');
+    lines.push('grammar');
+  }
+
+  for (const { sort, productions } of grammar) {
+    const metaName = metaNames.get(sort.id) || sort.name;
+    lines.push(`  ${metaName} :: '${sort.name}_' ::= {{ com ${sort.name} }}`);
+
+    const rows = productions.map(({ constructor, argNames, bindings }) => ({
+      rhs: [constructor.name, ...argNames].join(' '),
+      name: constructor.name,
+      // Ott has no bind spec for a binder without a scope
+      binds: bindings.flatMap(({ binder, scope }) => scope.map(s => `(+ bind ${binder} in ${s} +)`)).join(' '),
+    }));
+    const width = Math.max(...rows.map(r => r.rhs.length));
+    for (const row of rows) {
+      const line = `    | ${row.rhs.padEnd(width)} :: :: ${row.name}`;
+      lines.push(row.binds ? `${line} ${row.binds}` : line);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
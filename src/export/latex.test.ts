@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { exportRulesLatex } from './latex';
+import { parse } from '../test/workspace';
+
+describe('exportRulesLatex', () => {
+  const LAMBDA = `atom Var
+sort E ::= V(Var) | Lam(Var, E) | App(E, E)
+function fv : E → set Var
+  | V(x) => {x}
+  | Lam(x, b) => fv(b) \\ {x}
+  | App(a, b) => fv(a) ∪ fv(b)
+judgment step: (e: E) " ⟶ " (out e2: E)
+
+rule step_lam:
+  e ⟶ e2
+  if fv(e) = {y}
+  --------------------------
+  Lam(y, e) ⟶ Lam(y, e2)
+`;
+
+  const exported = (style: 'mathpartir' | 'bussproofs'): string => exportRulesLatex(parse(LAMBDA), style);
+
+  it('typesets a rule with mathpartir', () => {
+    expect(exported('mathpartir')).toContain([
+      '\\begin{mathpar}',
+      '\\inferrule*[right=step\\_lam]',
+      '  {e \\longrightarrow{} e_{2} \\\\ \\mathit{fv}(e) = \\{y\\}}',
+      '  {\\mathsf{Lam}(y, e) \\longrightarrow{} \\mathsf{Lam}(y, e_{2})}',
+      '\\end{mathpar}',
+    ].join('\n'));
+  });
+
+  it('typesets a rule with bussproofs', () => {
+    expect(exported('bussproofs')).toContain([
+      '\\begin{prooftree}',
+      '  \\AxiomC{$e \\longrightarrow{} e_{2}$}',
+      '  \\AxiomC{$\\mathit{fv}(e) = \\{y\\}$}',
+      '  \\RightLabel{\\scriptsize step\\_lam}',
+      '  \\BinaryInfC{$\\mathsf{Lam}(y, e) \\longrightarrow{} \\mathsf{Lam}(y, e_{2})$}',
+      '\\end{prooftree}',
+    ].join('\n'));
+  });
+});
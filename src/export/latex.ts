@@ -0,0 +1,276 @@
+import type {
+  Constructor,
+  ConstructorId,
+  Judgment,
+  JudgmentId,
+  JudgmentInstance,
+  InferenceRule,
+  RuleId,
+  MetaVariable,
+  Pattern,
+  RecursiveFunc,
+  RecFuncId,
+} from '../types/syntax';
+import { generateDefaultSeparators, renderRulePredicate } from '../types/syntax';
+
+// ============================================================================
+// LaTeX Helpers (shared by the LaTeX exporters)
+// ============================================================================
+
+/**
+ * Unicode symbols used in judgments and predicates, and their LaTeX macros
+ */
+const SYMBOL_MACROS: Record<string, string> = {
+  '↓': '\\downarrow', '⇓': '\\Downarrow', '↑': '\\uparrow', '⇑': '\\Uparrow',
+  '→': '\\rightarrow', '⟶': '\\longrightarrow', '⇒': '\\Rightarrow', '⟹': '\\Longrightarrow',
+  '↦': '\\mapsto', '↝': '\\leadsto', '⊢': '\\vdash', '⊨': '\\models', '⊣': '\\dashv',
+  '∈': '\\in', '∉': '\\notin', '≠': '\\neq', '≤': '\\leq', '≥': '\\geq',
+  '≡': '\\equiv', '≢': '\\not\\equiv', '≈': '\\approx', '∼': '\\sim', '≃': '\\simeq',
+  '⊆': '\\subseteq', '⊂': '\\subset', '⊑': '\\sqsubseteq',
+  '∅': '\\emptyset', '∪': '\\cup', '∩': '\\cap', '×': '\\times', '·': '\\cdot',
+  '∀': '\\forall', '∃': '\\exists', '¬': '\\neg', '∧': '\\land', '∨': '\\lor',
+  '⊤': '\\top', '⊥': '\\bot', '⟨': '\\langle', '⟩': '\\rangle', '∘': '\\circ',
+  'ℕ': '\\mathbb{N}', 'ℤ': '\\mathbb{Z}', '′': "'",
+  'α': '\\alpha', 'β': '\\beta', 'γ': '\\gamma', 'δ': '\\delta', 'ε': '\\varepsilon',
+  'ζ': '\\zeta', 'η': '\\eta', 'θ': '\\theta', 'ι': '\\iota', 'κ': '\\kappa',
+  'λ': '\\lambda', 'μ': '\\mu', 'ν': '\\nu', 'ξ': '\\xi', 'π': '\\pi', 'ρ': '\\rho',
+  'σ': '\\sigma', 'τ': '\\tau', 'υ': '\\upsilon', 'φ': '\\varphi', 'χ': '\\chi',
+  'ψ': '\\psi', 'ω': '\\omega',
+  'Γ': '\\Gamma', 'Δ': '\\Delta', 'Θ': '\\Theta', 'Λ': '\\Lambda', 'Ξ': '\\Xi',
+  'Π': '\\Pi', 'Σ': '\\Sigma', 'Φ': '\\Phi', 'Ψ': '\\Psi', 'Ω': '\\Omega',
+};
+
+const SUBSCRIPT_DIGITS = '₀₁₂₃₄₅₆₇₈₉';
+
+/**
+ * Escape text for use in LaTeX text mode (or inside \mathsf{...})
+ */
+export function escapeLatexText(text: string): string {
+  return text.replace(/[\\{}$&#^_%~]/g, ch => {
+    switch (ch) {
+      case '\\': return '\\textbackslash{}';
+      case '~': return '\\textasciitilde{}';
+      case '^': return '\\textasciicircum{}';
+      default: return `\\${ch}`;
+    }
+  });
+}
+
+/**
+ * Replace unicode math symbols and subscript digits by LaTeX, leaving
+ * everything else untouched. Used on strings that already contain LaTeX names.
+ */
+export function latexSymbols(text: string): string {
+  let out = '';
+  // For each open brace, whether it is a set's rather than a LaTeX group's
+  const braces: boolean[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (SUBSCRIPT_DIGITS.includes(ch)) {
+      let digits = '';
+      while (i < text.length && SUBSCRIPT_DIGITS.includes(text[i])) {
+        digits += SUBSCRIPT_DIGITS.indexOf(text[i]);
+        i++;
+      }
+      i--;
+      out += `_{${digits}}`;
+    } else if (ch === '\\' && text[i - 1] === ' ' && text[i + 1] === ' ') {
+      // Set difference as rendered by renderFuncExpr
+      out += '\\setminus';
+    } else if (ch === '{' && text[i - 1] !== '\\') {
+      // A brace after a macro, _ or ^ opens its argument; any other a set
+      const set = !/(\\[A-Za-z]+|[_^])$/.test(text.slice(0, i));
+      braces.push(set);
+      out += set ? '\\{' : '{';
+    } else if (ch === '}' && text[i - 1] !== '\\') {
+      out += braces.pop() ? '\\}' : '}';
+    } else if (SYMBOL_MACROS[ch]) {
+      out += `${SYMBOL_MACROS[ch]}{}`;
+    } else {
+      out += ch;
+    }
+  }
+  return out;
+}
+
+/**
+ * Render an identifier (e.g. a meta-variable name) in math mode:
+ * single letters stay italic, longer names use \mathit, digits become subscripts.
+ */
+export function latexIdent(name: string): string {
+  const match = name.match(/^([A-Za-z]+)(\d+)$/);
+  if (match) {
+    return `${latexIdent(match[1])}_{${match[2]}}`;
+  }
+  if (/^[A-Za-z]$/.test(name)) return name;
+  if (/^[A-Za-z][A-Za-z']*$/.test(name)) return `\\mathit{${name}}`;
+  return latexSymbols(escapeLatexText(name));
+}
+
+/**
+ * Render a constructor or keyword name in sans-serif
+ */
+export function latexName(name: string): string {
+  if (/^[A-Za-z0-9]+$/.test(name)) return `\\mathsf{${name}}`;
+  // Names like ℕ or λ are symbols already
+  if ([...name].every(ch => SYMBOL_MACROS[ch] || SUBSCRIPT_DIGITS.includes(ch))) {
+    return latexSymbols(name);
+  }
+  return `\\mathsf{${latexSymbols(escapeLatexText(name))}}`;
+}
+
+/**
+ * Convert free text (judgment separators such as " ↓ " or " val") to math mode.
+ * Words become keywords and are spaced from the surrounding arguments.
+ */
+export function latexMathText(text: string): string {
+  const tokens = text.match(/\s+|[A-Za-z]+|./gu) || [];
+  const isWord = (t: string | undefined) => !!t && /^[A-Za-z]+$/.test(t);
+  return tokens.map((tok, i) => {
+    if (/^\s+$/.test(tok)) {
+      return isWord(tokens[i - 1]) || isWord(tokens[i + 1]) ? '\\;' : ' ';
+    }
+    if (isWord(tok)) return `\\mathsf{${tok}}`;
+    return latexSymbols(escapeLatexText(tok));
+  }).join('');
+}
+
+// ============================================================================
+// Rule Rendering
+// ============================================================================
+
+export type RuleLatexStyle = 'mathpartir' | 'bussproofs';
+
+/**
+ * Everything needed to typeset the rules of a development
+ */
+export type RuleExportSource = {
+  constructors: Map<ConstructorId, Constructor>;
+  judgments: Map<JudgmentId, Judgment>;
+  rules: Map<RuleId, InferenceRule>;
+  metaVariables: Map<string, MetaVariable>;
+  recursiveFunctions: Map<RecFuncId, RecursiveFunc>;
+};
+
+export function patternToLatex(
+  pattern: Pattern,
+  constructors: Map<ConstructorId, Constructor>,
+  metaVariables: Map<string, MetaVariable>
+): string {
+  if (pattern.metaVariableId) {
+    const mv = metaVariables.get(pattern.metaVariableId);
+    return mv ? latexIdent(mv.name) : '?';
+  }
+  if (pattern.constructorId) {
+    const c = constructors.get(pattern.constructorId);
+    if (!c) return '?';
+    if (pattern.args.length === 0) return latexName(c.name);
+    const args = pattern.args.map(a => patternToLatex(a, constructors, metaVariables));
+    return `${latexName(c.name)}(${args.join(', ')})`;
+  }
+  // Unfilled slot
+  return '\\_';
+}
+
+export function judgmentInstanceToLatex(
+  instance: JudgmentInstance,
+  source: Pick<RuleExportSource, 'constructors' | 'judgments' | 'metaVariables'>
+): string {
+  const judgment = source.judgments.get(instance.judgmentId);
+  if (!judgment) return '?';
+  const separators = judgment.separators || generateDefaultSeparators(judgment.argSorts.length, judgment.symbol);
+  let out = latexMathText(separators[0] || '');
+  instance.args.forEach((arg, i) => {
+    out += patternToLatex(arg, source.constructors, source.metaVariables);
+    out += latexMathText(separators[i + 1] || '');
+  });
+  return out.trim();
+}
+
+/**
+ * Side conditions rendered through renderRulePredicate, with names
+ * pre-typeset so only the operators need translating afterwards.
+ */
+function sideConditionsToLatex(rule: InferenceRule, source: RuleExportSource): string[] {
+  const latexConstructors = new Map(Array.from(source.constructors, ([id, c]) =>
+    [id, { ...c, name: latexName(c.name) }]));
+  const latexMetaVars = new Map(Array.from(source.metaVariables, ([id, mv]) =>
+    [id, { ...mv, name: latexIdent(mv.name) }]));
+  const latexFunctions = new Map(Array.from(source.recursiveFunctions, ([id, f]) =>
+    [id, { ...f, name: latexIdent(f.name) }]));
+
+  return (rule.sideConditions || []).map(cond =>
+    latexSymbols(renderRulePredicate(cond.predicate, latexFunctions, latexConstructors, latexMetaVars))
+  );
+}
+
+function ruleToMathpartir(rule: InferenceRule, source: RuleExportSource): string {
+  const premises = [
+    ...rule.premises.map(p => judgmentInstanceToLatex(p, source)),
+    ...sideConditionsToLatex(rule, source),
+  ];
+  const conclusion = judgmentInstanceToLatex(rule.conclusion, source);
+  return [
+    `\\inferrule*[right=${escapeLatexText(rule.name)}]`,
+    `  {${premises.join(' \\\\ ')}}`,
+    `  {${conclusion}}`,
+  ].join('\n');
+}
+
+const BUSSPROOFS_INFERENCES = ['\\UnaryInfC', '\\BinaryInfC', '\\TrinaryInfC', '\\QuaternaryInfC', '\\QuinaryInfC'];
+
+function ruleToBussproofs(rule: InferenceRule, source: RuleExportSource): string {
+  let premises = [
+    ...rule.premises.map(p => judgmentInstanceToLatex(p, source)),
+    ...sideConditionsToLatex(rule, source),
+  ];
+  // bussproofs supports at most five premises - put the rest side by side
+  if (premises.length > BUSSPROOFS_INFERENCES.length) {
+    premises = [premises.join(' \\qquad ')];
+  }
+  const conclusion = judgmentInstanceToLatex(rule.conclusion, source);
+
+  const lines = ['\\begin{prooftree}'];
+  if (premises.length === 0) {
+    lines.push('  \\AxiomC{}');
+    premises = [''];
+  } else {
+    premises.forEach(p => lines.push(`  \\AxiomC{$${p}$}`));
+  }
+  lines.push(`  \\RightLabel{\\scriptsize ${escapeLatexText(rule.name)}}`);
+  lines.push(`  ${BUSSPROOFS_INFERENCES[premises.length - 1]}{$${conclusion}$}`);
+  lines.push('\\end{prooftree}');
+  return lines.join('\n');
+}
+
+/**
+ * Typeset every judgment's rules, grouped by judgment
+ */
+export function exportRulesLatex(source: RuleExportSource, style: RuleLatexStyle): string {
+  const lines: string[] = [
+    '% Inference rules generated by TypeForge',
+    style === 'mathpartir' ? '% Requires \\usepackage{mathpartir}' : '% Requires \\usepackage{bussproofs}',
+    '',
+  ];
+
+  for (const judgment of source.judgments.values()) {
+    const rules = Array.from(source.rules.values()).filter(r => r.conclusion.judgmentId === judgment.id);
+    if (rules.length === 0) continue;
+
+    const separators = judgment.separators || generateDefaultSeparators(judgment.argSorts.length, judgment.symbol);
+    const formText = judgment.argSorts.map((a, i) => `${separators[i] || ''}${a.label}`).join('')
+      + (separators[judgment.argSorts.length] || '');
+    lines.push(`% ${judgment.name}: ${formText.trim()}`);
+
+    if (style === 'mathpartir') {
+      lines.push('\\begin{mathpar}');
+      lines.push(rules.map(r => ruleToMathpartir(r, source)).join('\n\n\\and\n\n'));
+      lines.push('\\end{mathpar}');
+    } else {
+      lines.push(rules.map(r => ruleToBussproofs(r, source)).join('\n\n'));
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
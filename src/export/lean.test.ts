@@ -0,0 +1,186 @@
+import { describe, expect, it } from 'vitest';
+import type { LeanExportSource } from './lean';
+import { exportLean } from './lean';
+import type { Formula, FormulaExpr, Proof, ProofGoal, ProofStep, Tactic } from '../types/syntax';
+import { NATS, parse } from '../test/workspace';
+
+// sort T ::= L | B(T, T) with size : T → int
+const source = (): LeanExportSource => ({
+  sorts: new Map([['T', { id: 'T', name: 'T', kind: 'inductive', isBinderSort: false, color: '' }]]),
+  constructors: new Map([
+    ['L', { id: 'L', sortId: 'T', name: 'L', args: [], isTerminal: true }],
+    ['B', {
+      id: 'B',
+      sortId: 'T',
+      name: 'B',
+      args: [{ id: 'B0', sortId: 'T' }, { id: 'B1', sortId: 'T' }],
+      isTerminal: false,
+    }],
+  ]),
+  judgments: new Map(),
+  rules: new Map(),
+  metaVariables: new Map(),
+  recursiveFunctions: new Map([['size', {
+    id: 'size',
+    name: 'size',
+    inputSortId: 'T',
+    extraArgs: [],
+    returnType: { kind: 'int' },
+    cases: [
+      { constructorId: 'L', boundVars: [], body: { kind: 'int', value: 0 } },
+      {
+        constructorId: 'B',
+        boundVars: ['a', 'b'],
+        body: {
+          kind: 'add',
+          left: {
+            kind: 'add',
+            left: { kind: 'call', funcId: 'size', arg: { kind: 'var', name: 'a' } },
+            right: { kind: 'call', funcId: 'size', arg: { kind: 'var', name: 'b' } },
+          },
+          right: { kind: 'int', value: 1 },
+        },
+      },
+    ],
+  }]]),
+  properties: new Map(),
+  proofs: new Map(),
+});
+
+const x: FormulaExpr = { kind: 'var', name: 'x' };
+const size = (arg: FormulaExpr): FormulaExpr => ({ kind: 'funcApp', funcId: 'size', arg });
+const nonneg = (arg: FormulaExpr): Formula => ({ kind: 'numGeq', left: size(arg), right: { kind: 'int', value: 0 } });
+
+// A proof of `formula` whose steps are given as [goal, tactic, resulting goals]
+function withProof(formula: Formula, goals: ProofGoal[], steps: [string, Tactic, string[]][]): LeanExportSource {
+  const data = source();
+  data.properties.set('p', { id: 'p', name: 'p', formula });
+  const proof: Proof = {
+    id: 'proof',
+    propertyId: 'p',
+    goals: new Map(goals.map(g => [g.id, g])),
+    steps: steps.map(([goalId, tactic, resultingGoals]): ProofStep => ({ goalId, tactic, resultingGoals })),
+    rootGoalId: goals[0].id,
+    openGoals: [],
+    status: 'complete',
+  };
+  data.proofs.set(proof.id, proof);
+  return data;
+}
+
+describe('exportLean', () => {
+  // ∀x: T. size(x) ≥ 0 by induction, computing in both cases
+  const inducted = () => {
+    const inContext = (id: string, goal: Formula): ProofGoal => ({
+      id,
+      context: { variables: [{ name: 'x', sortId: 'T' }], hypotheses: [] },
+      goal,
+    });
+    const leaf = nonneg({ kind: 'constructor', constructorId: 'L', args: [] });
+    const branch = nonneg({
+      kind: 'constructor',
+      constructorId: 'B',
+      args: [{ kind: 'var', name: 'x0' }, { kind: 'var', name: 'x1' }],
+    });
+    return withProof(
+      { kind: 'forall', varName: 'x', sortId: 'T', body: nonneg(x) },
+      [
+        { id: 'root', context: { variables: [], hypotheses: [] }, goal: { kind: 'forall', varName: 'x', sortId: 'T', body: nonneg(x) } },
+        inContext('x', nonneg(x)),
+        inContext('leaf', leaf),
+        inContext('branch', branch),
+        inContext('computed', branch),
+      ],
+      [
+        ['root', { kind: 'intro' }, ['x']],
+        ['x', { kind: 'induction', varName: 'x' }, ['leaf', 'branch']],
+        ['leaf', { kind: 'compute' }, []],
+        ['branch', { kind: 'compute' }, ['computed']],
+      ]
+    );
+  };
+
+  it('binds the arguments of a constructor before their induction hypotheses', () => {
+    expect(exportLean(inducted())).toContain('  | B x0 x1 IH_x0 IH_x1 =>');
+  });
+
+  it('computes with the definitions of the functions', () => {
+    const lean = exportLean(inducted());
+    expect(lean).toContain('    first | decide | (simp [size] <;> omega)\n');
+    expect(lean).toContain('    simp [size]\n');
+  });
+
+  it('unfolds only the application that was unfolded', () => {
+    // size(B(x, x)) = size(x) + size(x) + 1
+    const formula: Formula = {
+      kind: 'numEq',
+      left: size({ kind: 'constructor', constructorId: 'B', args: [x, x] }),
+      right: { kind: 'add', left: { kind: 'add', left: size(x), right: size(x) }, right: { kind: 'int', value: 1 } },
+    };
+    const context = { variables: [{ name: 'x', sortId: 'T' }], hypotheses: [] };
+    const lean = exportLean(withProof(
+      formula,
+      [{ id: 'goal', context, goal: formula }, { id: 'unfolded', context, goal: { kind: 'true' } }],
+      [['goal', { kind: 'unfold', funcId: 'size', side: 'left' }, ['unfolded']]]
+    ));
+    expect(lean).toContain('  rw (config := { occs := .pos [1] }) [size.eq_def]; dsimp only\n');
+  });
+});
+
+describe('exportLean case splits on judgments', () => {
+  const EVEN = `${NATS}judgment ev: "ev " (n: N)
+
+rule ev_Z:
+  ----
+  ev Z
+
+rule ev_SS:
+  ev n
+  ----
+  ev S(S(n))
+
+property ev_step: ∀n: N. ev n → ev S(S(n))
+property ev_inv: ∀n: N. ev n → ev S(S(n))
+property ev_pred: ∀n: N. ev S(S(n)) → ev n
+property ev_four: ∀n: N. ev n → ev S(S(S(S(n))))
+`;
+
+  const exported = (proofs: string): string => exportLean(parse(EVEN + proofs));
+
+  it('binds the names rule induction gives each case', () => {
+    const lean = exported('proof ev_step: intro n. intro_hyp H. derivation_induction H. apply_rule ev_SS. apply_rule ev_Z. apply_rule ev_SS. exact IH_1.');
+    expect(lean).toContain([
+      '  induction H with',
+      '  | ev_Z =>',
+      '    apply ev_SS',
+      '    apply ev_Z',
+      '  | ev_SS n H_1 IH_1 =>',
+      '    apply ev_SS',
+      '    exact IH_1',
+    ].join('\n'));
+  });
+
+  it('binds the names inversion gives each case', () => {
+    const lean = exported('proof ev_inv: intro n. intro_hyp H. inversion H. apply_rule ev_SS. apply_rule ev_Z. apply_rule ev_SS. apply_rule ev_SS. exact H_1.');
+    expect(lean).toContain("  cases H with\n  | ev_Z =>\n");
+    expect(lean).toContain("  | ev_SS n' H_1 =>\n    apply ev_SS\n    apply ev_SS\n    exact H_1\n");
+  });
+
+  it('binds a variable inversion merges with the context under the context\'s name', () => {
+    // The rule's n is unified with the context's n
+    const lean = exported('proof ev_pred: intro n. intro_hyp H. inversion H. exact H_1.');
+    expect(lean).toContain([
+      'theorem ev_pred : ∀ (n : N), (ev (S (S n))) → (ev n) := by',
+      '  intro n',
+      '  intro H',
+      '  cases H with',
+      '  | ev_SS n H_1 =>',
+      '    exact H_1',
+    ].join('\n'));
+  });
+
+  it('bounds repetition as TypeForge does', () => {
+    const lean = exported('proof ev_four: intro n. intro_hyp H. repeat 3 apply_rule ev_SS. exact H.');
+    expect(lean).toContain('  try (apply ev_SS <;> try (apply ev_SS <;> try (apply ev_SS)))\n  exact H\n');
+  });
+});
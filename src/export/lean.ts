@@ -0,0 +1,698 @@
+import type {
+  Sort,
+  SortId,
+  Constructor,
+  ConstructorId,
+  Judgment,
+  JudgmentId,
+  InferenceRule,
+  RuleId,
+  MetaVariable,
+  Pattern,
+  RuleFuncPredicate,
+  RecursiveFunc,
+  RecFuncId,
+  FuncExpr,
+  FuncPredicate,
+  Formula,
+  FormulaExpr,
+  FormulaCond,
+  Property,
+  PropertyId,
+  Proof,
+  ProofId,
+  ProofGoal,
+  ProofStep,
+  Tactic,
+  GoalId,
+} from '../types/syntax';
+import { lemmaHypothesisName, orderByDependencies, ruleCases, unfoldedOccurrence } from '../types/syntax';
+import {
+  createNameTable,
+  sortComponents,
+  functionComponents,
+  judgmentComponents,
+  constructorsOfSort,
+  ruleMetaVariables,
+  caseBindings,
+  destructBindings,
+  ruleCaseNames,
+} from './common';
+import type { NameTable } from './common';
+
+// ============================================================================
+// Lean 4 Export
+// ============================================================================
+
+/**
+ * Everything needed to generate a Lean development
+ */
+export type LeanExportSource = {
+  sorts: Map<SortId, Sort>;
+  constructors: Map<ConstructorId, Constructor>;
+  judgments: Map<JudgmentId, Judgment>;
+  rules: Map<RuleId, InferenceRule>;
+  metaVariables: Map<string, MetaVariable>;
+  recursiveFunctions: Map<RecFuncId, RecursiveFunc>;
+  properties: Map<PropertyId, Property>;
+  proofs: Map<ProofId, Proof>;
+};
+
+/**
+ * Keywords and the core names the generated file relies on
+ */
+const LEAN_RESERVED = [
+  'abbrev', 'at', 'axiom', 'by', 'calc', 'class', 'def', 'deriving', 'do', 'else', 'end',
+  'example', 'export', 'for', 'from', 'fun', 'have', 'if', 'import', 'in', 'inductive',
+  'instance', 'let', 'match', 'mut', 'mutual', 'namespace', 'open', 'partial', 'private',
+  'protected', 'return', 'section', 'show', 'structure', 'then', 'theorem', 'universe',
+  'variable', 'where', 'with',
+  'Prop', 'Type', 'Sort', 'Nat', 'Int', 'List', 'Bool', 'true', 'false', 'True', 'False',
+  'Eq', 'And', 'Or', 'Not', 'Exists', 'max', 'min', 'decide', 'sorry', 'rfl', 'id',
+];
+
+/**
+ * Shared state while generating one file
+ */
+type LeanContext = {
+  source: LeanExportSource;
+  names: NameTable;
+};
+
+function sortType(sortId: SortId, ctx: LeanContext): string {
+  return ctx.names.get(`sort:${sortId}`);
+}
+
+function apply(head: string, args: string[]): string {
+  return args.length === 0 ? head : `(${head} ${args.join(' ')})`;
+}
+
+// ----------------------------------------------------------------------------
+// Terms
+// ----------------------------------------------------------------------------
+
+function patternToLean(pattern: Pattern, ctx: LeanContext): string {
+  if (pattern.metaVariableId) {
+    const mv = ctx.source.metaVariables.get(pattern.metaVariableId);
+    return mv ? ctx.names.local(mv.name) : '_';
+  }
+  if (pattern.constructorId) {
+    return apply(ctx.names.get(`ctor:${pattern.constructorId}`), pattern.args.map(a => patternToLean(a, ctx)));
+  }
+  return '_';
+}
+
+// Sets of atoms are lists without duplicates. The filters bind the element
+// under a name the name table keeps clear of every variable.
+function setUnion(left: string, right: string, ctx: LeanContext): string {
+  const a = ctx.names.get('set:element');
+  return `(${left} ++ ${right}.filter (fun ${a} => !${left}.contains ${a}))`;
+}
+
+function setFilter(left: string, right: string, keep: boolean, ctx: LeanContext): string {
+  const a = ctx.names.get('set:element');
+  return `(${left}.filter (fun ${a} => ${keep ? '' : '!'}${right}.contains ${a}))`;
+}
+
+function setSubset(left: string, right: string, ctx: LeanContext): string {
+  const a = ctx.names.get('set:element');
+  return `${left}.all (fun ${a} => ${right}.contains ${a}) = true`;
+}
+
+function funcExprToLean(expr: FuncExpr, ctx: LeanContext): string {
+  const rec = (e: FuncExpr) => funcExprToLean(e, ctx);
+  switch (expr.kind) {
+    case 'int':
+      return expr.value < 0 ? `(${expr.value})` : `${expr.value}`;
+    case 'empty':
+      return '[]';
+    case 'singleton':
+      return `[${rec(expr.element)}]`;
+    case 'var':
+      return ctx.names.local(expr.name);
+    case 'call':
+      return apply(ctx.names.get(`func:${expr.funcId}`), [rec(expr.arg)]);
+    case 'callMulti':
+      return apply(ctx.names.get(`func:${expr.funcId}`), expr.args.map(rec));
+    case 'construct':
+      return apply(ctx.names.get(`ctor:${expr.constructorId}`), expr.args.map(rec));
+    case 'add':
+      return `(${rec(expr.left)} + ${rec(expr.right)})`;
+    case 'sub':
+      return `(${rec(expr.left)} - ${rec(expr.right)})`;
+    case 'mul':
+      return `(${rec(expr.left)} * ${rec(expr.right)})`;
+    case 'max':
+      return `(max ${rec(expr.left)} ${rec(expr.right)})`;
+    case 'min':
+      return `(min ${rec(expr.left)} ${rec(expr.right)})`;
+    case 'union':
+      return setUnion(rec(expr.left), rec(expr.right), ctx);
+    case 'intersect':
+      return setFilter(rec(expr.left), rec(expr.right), true, ctx);
+    case 'diff':
+      return setFilter(rec(expr.left), rec(expr.right), false, ctx);
+    case 'if':
+      return `(if ${funcPredToLean(expr.cond, ctx)} then ${rec(expr.then)} else ${rec(expr.else)})`;
+  }
+}
+
+/**
+ * Conditions in function bodies are decidable propositions
+ */
+function funcPredToLean(pred: FuncPredicate, ctx: LeanContext): string {
+  const expr = (e: FuncExpr) => funcExprToLean(e, ctx);
+  switch (pred.kind) {
+    case 'eq':
+    case 'atomEq':
+      return `${expr(pred.left)} = ${expr(pred.right)}`;
+    case 'neq':
+    case 'atomNeq':
+      return `${expr(pred.left)} ≠ ${expr(pred.right)}`;
+    case 'lt':
+      return `${expr(pred.left)} < ${expr(pred.right)}`;
+    case 'leq':
+      return `${expr(pred.left)} ≤ ${expr(pred.right)}`;
+    case 'gt':
+      return `${expr(pred.left)} > ${expr(pred.right)}`;
+    case 'geq':
+      return `${expr(pred.left)} ≥ ${expr(pred.right)}`;
+    case 'in':
+      return `${expr(pred.element)} ∈ ${expr(pred.set)}`;
+    case 'subset':
+      return setSubset(expr(pred.left), expr(pred.right), ctx);
+    case 'isEmpty':
+      return `${expr(pred.set)} = []`;
+    case 'and':
+      return `(${funcPredToLean(pred.left, ctx)}) ∧ (${funcPredToLean(pred.right, ctx)})`;
+    case 'or':
+      return `(${funcPredToLean(pred.left, ctx)}) ∨ (${funcPredToLean(pred.right, ctx)})`;
+    case 'not':
+      return `¬(${funcPredToLean(pred.pred, ctx)})`;
+  }
+}
+
+function sideConditionToLean(pred: RuleFuncPredicate, ctx: LeanContext): string {
+  const call = apply(ctx.names.get(`func:${pred.funcId}`), [patternToLean(pred.arg, ctx)]);
+  switch (pred.kind) {
+    case 'eq': return `${call} = ${funcExprToLean(pred.value, ctx)}`;
+    case 'neq': return `${call} ≠ ${funcExprToLean(pred.value, ctx)}`;
+    case 'lt': return `${call} < ${funcExprToLean(pred.value, ctx)}`;
+    case 'leq': return `${call} ≤ ${funcExprToLean(pred.value, ctx)}`;
+    case 'gt': return `${call} > ${funcExprToLean(pred.value, ctx)}`;
+    case 'geq': return `${call} ≥ ${funcExprToLean(pred.value, ctx)}`;
+    case 'isEmpty': return `${call} = []`;
+    case 'notEmpty': return `${call} ≠ []`;
+    case 'in': return `${patternToLean(pred.element, ctx)} ∈ ${call}`;
+    case 'notIn': return `${patternToLean(pred.element, ctx)} ∉ ${call}`;
+  }
+}
+
+function formulaExprToLean(expr: FormulaExpr, ctx: LeanContext): string {
+  const rec = (e: FormulaExpr) => formulaExprToLean(e, ctx);
+  switch (expr.kind) {
+    case 'var':
+      return ctx.names.local(expr.name);
+    case 'constructor':
+      return apply(ctx.names.get(`ctor:${expr.constructorId}`), expr.args.map(rec));
+    case 'funcApp':
+      return apply(ctx.names.get(`func:${expr.funcId}`), [rec(expr.arg)]);
+    case 'int':
+      return expr.value < 0 ? `(${expr.value})` : `${expr.value}`;
+    case 'emptySet':
+      return '[]';
+    case 'add':
+      return `(${rec(expr.left)} + ${rec(expr.right)})`;
+    case 'sub':
+      return `(${rec(expr.left)} - ${rec(expr.right)})`;
+    case 'mul':
+      return `(${rec(expr.left)} * ${rec(expr.right)})`;
+    case 'max':
+      return `(max ${rec(expr.left)} ${rec(expr.right)})`;
+    case 'min':
+      return `(min ${rec(expr.left)} ${rec(expr.right)})`;
+    case 'funcAppMulti':
+      return apply(ctx.names.get(`func:${expr.funcId}`), expr.args.map(rec));
+    case 'singleton':
+      return `[${rec(expr.element)}]`;
+    case 'union':
+      return setUnion(rec(expr.left), rec(expr.right), ctx);
+    case 'intersect':
+      return setFilter(rec(expr.left), rec(expr.right), true, ctx);
+    case 'diff':
+      return setFilter(rec(expr.left), rec(expr.right), false, ctx);
+    case 'if':
+      return `(if ${formulaCondToLean(expr.cond, ctx)} then ${rec(expr.then)} else ${rec(expr.else)})`;
+  }
+}
+
+// Conditions are decidable propositions, as in function bodies
+function formulaCondToLean(cond: FormulaCond, ctx: LeanContext): string {
+  const expr = (e: FormulaExpr) => formulaExprToLean(e, ctx);
+  switch (cond.kind) {
+    case 'eq':
+    case 'atomEq':
+      return `${expr(cond.left)} = ${expr(cond.right)}`;
+    case 'neq':
+    case 'atomNeq':
+      return `${expr(cond.left)} ≠ ${expr(cond.right)}`;
+    case 'lt':
+      return `${expr(cond.left)} < ${expr(cond.right)}`;
+    case 'leq':
+      return `${expr(cond.left)} ≤ ${expr(cond.right)}`;
+    case 'gt':
+      return `${expr(cond.left)} > ${expr(cond.right)}`;
+    case 'geq':
+      return `${expr(cond.left)} ≥ ${expr(cond.right)}`;
+    case 'in':
+      return `${expr(cond.element)} ∈ ${expr(cond.set)}`;
+    case 'subset':
+      return setSubset(expr(cond.left), expr(cond.right), ctx);
+    case 'isEmpty':
+      return `${expr(cond.set)} = []`;
+    case 'and':
+      return `(${formulaCondToLean(cond.left, ctx)}) ∧ (${formulaCondToLean(cond.right, ctx)})`;
+    case 'or':
+      return `(${formulaCondToLean(cond.left, ctx)}) ∨ (${formulaCondToLean(cond.right, ctx)})`;
+    case 'not':
+      return `¬(${formulaCondToLean(cond.cond, ctx)})`;
+  }
+}
+
+function formulaToLean(formula: Formula, ctx: LeanContext, nested = false): string {
+  const expr = (e: FormulaExpr) => formulaExprToLean(e, ctx);
+  const sub = (f: Formula) => formulaToLean(f, ctx, true);
+  const wrap = (s: string) => (nested ? `(${s})` : s);
+  const call = (funcId: RecFuncId, arg: FormulaExpr) =>
+    apply(ctx.names.get(`func:${funcId}`), [expr(arg)]);
+
+  switch (formula.kind) {
+    case 'forall':
+      return wrap(`∀ (${ctx.names.local(formula.varName)} : ${sortType(formula.sortId, ctx)}), ${formulaToLean(formula.body, ctx)}`);
+    case 'exists':
+      return wrap(`∃ (${ctx.names.local(formula.varName)} : ${sortType(formula.sortId, ctx)}), ${formulaToLean(formula.body, ctx)}`);
+    case 'implies':
+      return wrap(`${sub(formula.left)} → ${sub(formula.right)}`);
+    case 'and':
+      return wrap(`${sub(formula.left)} ∧ ${sub(formula.right)}`);
+    case 'or':
+      return wrap(`${sub(formula.left)} ∨ ${sub(formula.right)}`);
+    case 'not':
+      return wrap(`¬${sub(formula.body)}`);
+    case 'judgment':
+      return wrap(`${ctx.names.get(`judg:${formula.judgmentId}`)}${formula.args.map(a => ` ${expr(a)}`).join('')}`);
+    case 'termEq':
+    case 'numEq':
+      return wrap(`${expr(formula.left)} = ${expr(formula.right)}`);
+    case 'termNeq':
+    case 'numNeq':
+      return wrap(`${expr(formula.left)} ≠ ${expr(formula.right)}`);
+    case 'numLeq':
+      return wrap(`${expr(formula.left)} ≤ ${expr(formula.right)}`);
+    case 'numLt':
+      return wrap(`${expr(formula.left)} < ${expr(formula.right)}`);
+    case 'numGeq':
+      return wrap(`${expr(formula.left)} ≥ ${expr(formula.right)}`);
+    case 'numGt':
+      return wrap(`${expr(formula.left)} > ${expr(formula.right)}`);
+    case 'funcEq':
+      return wrap(`${call(formula.funcId, formula.arg)} = ${expr(formula.value)}`);
+    case 'funcLeq':
+      return wrap(`${call(formula.funcId, formula.arg)} ≤ ${expr(formula.value)}`);
+    case 'funcLt':
+      return wrap(`${call(formula.funcId, formula.arg)} < ${expr(formula.value)}`);
+    case 'setEmpty':
+      return wrap(`${call(formula.funcId, formula.arg)} = []`);
+    case 'setIn':
+      return wrap(`${expr(formula.element)} ∈ ${call(formula.funcId, formula.arg)}`);
+    case 'true':
+      return 'True';
+    case 'false':
+      return 'False';
+  }
+}
+
+// ----------------------------------------------------------------------------
+// Definitions
+// ----------------------------------------------------------------------------
+
+/**
+ * Wrap a group of declarations in a mutual block when needed, then open their
+ * namespaces so constructors can be used unqualified
+ */
+function declarationGroup(decls: string[], namespaces: string[]): string {
+  const body = decls.length > 1 ? `mutual\n\n${decls.join('\n\n')}\n\nend` : decls[0];
+  return namespaces.length > 0 ? `${body}\nopen ${namespaces.join(' ')}` : body;
+}
+
+function sortsToLean(ctx: LeanContext): string[] {
+  const { sorts, constructors } = ctx.source;
+  const blocks: string[] = [];
+
+  for (const sort of sorts.values()) {
+    if (sort.kind === 'atom') {
+      // Atoms are names with decidable equality
+      blocks.push(`/-- ${sort.name}: atoms -/\nabbrev ${sortType(sort.id, ctx)} := Nat`);
+    }
+  }
+
+  for (const component of sortComponents(sorts, constructors)) {
+    const decls = component.map(sort => {
+      const lines = [`inductive ${sortType(sort.id, ctx)} where`];
+      for (const c of constructorsOfSort(sort.id, constructors)) {
+        const argTypes = c.args.map(a => `${sortType(a.sortId, ctx)} → `).join('');
+        lines.push(`  | ${ctx.names.get(`ctor:${c.id}`)} : ${argTypes}${sortType(sort.id, ctx)}`);
+      }
+      if (component.length === 1) lines.push('  deriving DecidableEq, Repr');
+      return lines.join('\n');
+    });
+    blocks.push(declarationGroup(decls, component.map(s => sortType(s.id, ctx))));
+  }
+
+  return blocks;
+}
+
+function returnTypeToLean(func: RecursiveFunc, ctx: LeanContext): string {
+  switch (func.returnType.kind) {
+    case 'int': return 'Int';
+    case 'set': return `List ${sortType(func.returnType.elementSortId, ctx)}`;
+    case 'inductive': return sortType(func.returnType.sortId, ctx);
+  }
+}
+
+/**
+ * Value for constructors the function has no case for
+ */
+function defaultCaseToLean(func: RecursiveFunc, principal: string, ctx: LeanContext): string {
+  switch (func.returnType.kind) {
+    case 'int': return '0';
+    case 'set': return '[]';
+    case 'inductive': {
+      if (func.returnType.sortId === func.inputSortId) return principal;
+      const nullary = constructorsOfSort(func.returnType.sortId, ctx.source.constructors)
+        .find(c => c.args.length === 0);
+      return nullary ? ctx.names.get(`ctor:${nullary.id}`) : principal;
+    }
+  }
+}
+
+function functionToLean(func: RecursiveFunc, ctx: LeanContext): string {
+  const extraArgs = func.extraArgs || [];
+  const localNames = new Set([
+    ...extraArgs.map(a => ctx.names.local(a.name)),
+    ...func.cases.flatMap(c => c.boundVars.filter(v => v).map(v => ctx.names.local(v))),
+  ]);
+  let principal = ctx.names.local('t');
+  while (localNames.has(principal)) principal = `${principal}'`;
+
+  const params = [
+    `(${principal} : ${sortType(func.inputSortId, ctx)})`,
+    ...extraArgs.map(a => `(${ctx.names.local(a.name)} : ${sortType(a.sortId, ctx)})`),
+  ].join(' ');
+
+  const lines = [`def ${ctx.names.get(`func:${func.id}`)} ${params} : ${returnTypeToLean(func, ctx)} :=`];
+  lines.push(`  match ${principal} with`);
+  const sortConstructors = constructorsOfSort(func.inputSortId, ctx.source.constructors);
+  for (const c of sortConstructors) {
+    const funcCase = func.cases.find(fc => fc.constructorId === c.id);
+    if (!funcCase) continue;
+    const vars = c.args.map((_, i) => funcCase.boundVars[i] ? ctx.names.local(funcCase.boundVars[i]) : '_');
+    const pattern = [ctx.names.get(`ctor:${c.id}`), ...vars].join(' ');
+    lines.push(`  | ${pattern} => ${funcExprToLean(funcCase.body, ctx)}`);
+  }
+  if (sortConstructors.some(c => !func.cases.some(fc => fc.constructorId === c.id))) {
+    lines.push(`  | _ => ${defaultCaseToLean(func, principal, ctx)}`);
+  }
+  return lines.join('\n');
+}
+
+// Every function, for the steps that evaluate calls
+function functionNames(ctx: LeanContext): string[] {
+  return functionComponents(ctx.source.recursiveFunctions).flat().map(f => ctx.names.get(`func:${f.id}`));
+}
+
+function functionsToLean(ctx: LeanContext): string[] {
+  return functionComponents(ctx.source.recursiveFunctions)
+    .map(component => declarationGroup(component.map(f => functionToLean(f, ctx)), []));
+}
+
+function ruleToLean(rule: InferenceRule, ctx: LeanContext): string {
+  const binders = ruleMetaVariables(rule)
+    .map(id => ctx.source.metaVariables.get(id))
+    .filter((mv): mv is MetaVariable => !!mv)
+    .map(mv => `(${ctx.names.local(mv.name)} : ${sortType(mv.sortId, ctx)})`);
+
+  const instance = (judgmentId: JudgmentId, args: Pattern[]) =>
+    [ctx.names.get(`judg:${judgmentId}`), ...args.map(a => patternToLean(a, ctx))].join(' ');
+
+  const hypotheses = [
+    ...rule.premises.map(p => instance(p.judgmentId, p.args)),
+    ...(rule.sideConditions || []).map(c => sideConditionToLean(c.predicate, ctx)),
+  ];
+  const conclusion = instance(rule.conclusion.judgmentId, rule.conclusion.args);
+  const quantified = binders.length > 0 ? `∀ ${binders.join(' ')}, ` : '';
+  return `  | ${ctx.names.get(`rule:${rule.id}`)} : ${quantified}${hypotheses.map(h => `${h} → `).join('')}${conclusion}`;
+}
+
+function judgmentsToLean(ctx: LeanContext): string[] {
+  const { judgments, rules } = ctx.source;
+  return judgmentComponents(judgments, rules).map(component => {
+    const decls = component.map(j => {
+      const argTypes = j.argSorts.map(a => `${sortType(a.sortId, ctx)} → `).join('');
+      const judgmentRules = Array.from(rules.values()).filter(r => r.conclusion.judgmentId === j.id);
+      return [`inductive ${ctx.names.get(`judg:${j.id}`)} : ${argTypes}Prop where`, ...judgmentRules.map(r => ruleToLean(r, ctx))].join('\n');
+    });
+    return declarationGroup(decls, component.map(j => ctx.names.get(`judg:${j.id}`)));
+  });
+}
+
+// ----------------------------------------------------------------------------
+// Proof Scripts
+// ----------------------------------------------------------------------------
+
+/**
+ * The alternatives of a rule induction or inversion step, naming the
+ * variables and hypotheses of each case the way TypeForge names them. Null
+ * if Lean would name some case differently, or cannot do induction on a
+ * judgment of a mutual group.
+ */
+function ruleAlternatives(
+  tactic: Tactic & { kind: 'derivation_induction' | 'inversion' },
+  goal: ProofGoal,
+  ctx: LeanContext
+): string[] | null {
+  const { judgments, rules, metaVariables, recursiveFunctions } = ctx.source;
+  const cases = ruleCases(goal, tactic, rules, metaVariables, recursiveFunctions);
+  if (!cases || cases.some(c => !c.exact)) return null;
+  if (tactic.kind === 'derivation_induction' && cases.length > 0) {
+    const judgmentId = cases[0].rule.conclusion.judgmentId;
+    if (judgmentComponents(judgments, rules).some(c => c.length > 1 && c.some(j => j.id === judgmentId))) return null;
+  }
+  // A meta-variable merged with a variable of the context is bound under the
+  // context's name, which thereby survives whichever of the two Lean keeps
+  return cases.map(c => {
+    const names = ruleCaseNames(c, metaVariables, true).map(name => name === null ? '_' : ctx.names.local(name));
+    return [ctx.names.get(`rule:${c.rule.id}`), ...names].join(' ');
+  });
+}
+
+function tacticToLean(step: ProofStep, goal: ProofGoal, ctx: LeanContext): string {
+  const { tactic } = step;
+  switch (tactic.kind) {
+    case 'intro': {
+      const name = tactic.varName || (goal.goal.kind === 'forall' ? goal.goal.varName : 'x');
+      return `intro ${ctx.names.local(name)}`;
+    }
+    case 'intro_hyp':
+      return `intro ${ctx.names.local(tactic.hypName || `H${goal.context.hypotheses.length}`)}`;
+    case 'exists_witness':
+      return `exists ${formulaExprToLean(tactic.witness, ctx)}`;
+    case 'split':
+      return 'constructor';
+    case 'left':
+      return 'left';
+    case 'right':
+      return 'right';
+    case 'induction':
+      return `induction ${ctx.names.local(tactic.varName)} with`;
+    case 'inversion':
+      return `cases ${ctx.names.local(tactic.hypName)}${step.resultingGoals.length > 0 ? ' with' : ''}`;
+    case 'case_analysis':
+      return `cases ${ctx.names.local(tactic.varName)} with`;
+    case 'derivation_induction':
+      return `induction ${ctx.names.local(tactic.hypName)}${step.resultingGoals.length > 0 ? ' with' : ''}`;
+    case 'destruct': {
+      const bindings = destructBindings(goal, tactic.hypName);
+      const hyp = ctx.names.local(tactic.hypName);
+      if (!bindings) return `exact ${hyp}.elim`;
+      const names = bindings.names.map(ctx.names.local);
+      return bindings.kind === 'or' ? `rcases ${hyp} with ${names.join(' | ')}` : `obtain ⟨${names.join(', ')}⟩ := ${hyp}`;
+    }
+    case 'apply':
+      return `apply ${ctx.names.local(tactic.hypName)}`;
+    case 'apply_rule':
+      return `apply ${ctx.names.get(`rule:${tactic.ruleId}`)}`;
+    case 'have':
+    case 'apply_lemma': {
+      const lemma = ctx.source.properties.get(tactic.propertyId);
+      if (!lemma) return 'sorry';
+      const name = ctx.names.get(`prop:${lemma.id}`);
+      if (tactic.kind === 'apply_lemma') return `apply ${name}`;
+      const hyp = ctx.names.local(lemmaHypothesisName(goal.context, lemma, tactic.hypName));
+      return `have ${hyp} := ${apply(name, (tactic.args ?? []).map(a => formulaExprToLean(a, ctx)))}`;
+    }
+    case 'reflexivity':
+      return 'rfl';
+    case 'contradiction':
+      return 'contradiction';
+    case 'compute': {
+      // simp unfolds only the definitions it is given
+      const simp = `simp [${functionNames(ctx).join(', ')}]`;
+      return step.resultingGoals.length === 0 ? `first | decide | (${simp} <;> omega)` : simp;
+    }
+    case 'discriminate':
+      return `cases ${ctx.names.local(tactic.hypName)}`;
+    case 'rewrite':
+      return `rw [${tactic.direction === 'rtl' ? '← ' : ''}${ctx.names.local(tactic.hypName)}]`;
+    case 'unfold': {
+      // Only the one application TypeForge unfolds, so the following steps still apply
+      const name = ctx.names.get(`func:${tactic.funcId}`);
+      const occurrence = unfoldedOccurrence(goal.goal, tactic, ctx.source.constructors, ctx.source.recursiveFunctions);
+      if (occurrence === null) return `unfold ${name}`;
+      return `rw (config := { occs := .pos [${occurrence}] }) [${name}.eq_def]; dsimp only`;
+    }
+    case 'simplify':
+      // Closing steps are arithmetic facts; otherwise it only evaluated constants
+      return step.resultingGoals.length === 0 ? 'omega' : 'simp';
+    case 'trivial':
+      return 'trivial';
+    case 'exact':
+      return `exact ${ctx.names.local(tactic.hypName)}`;
+    case 'seq':
+      return `${combined(tactic.first)} <;> ${combined(tactic.next)}`;
+    case 'try':
+      return `try ${combined(tactic.tactic)}`;
+    case 'repeat': {
+      // Nested `<;>` so that each round works on every goal the previous one left, as ours does
+      const once = combined(tactic.tactic);
+      let repeated = 'skip';
+      for (let i = 0; i < tactic.limit; i++) repeated = i === 0 ? `try (${once})` : `try (${once} <;> ${repeated})`;
+      return repeated;
+    }
+    case 'first':
+      return `first ${tactic.tactics.map(t => `| ${combined(t)}`).join(' ')}`;
+    case 'all_goals':
+      // Recorded on a single goal, where it is the tactic itself
+      return tacticToLean({ ...step, tactic: tactic.tactic }, goal, ctx);
+  }
+
+  // A tactic inside a combinator, named as if it applied to the step's goal.
+  // Case splits there cannot have structured alternatives.
+  function combined(inner: Tactic): string {
+    // Goals further in may bind other names; let the prover choose them
+    if ((inner.kind === 'intro' && !inner.varName) || (inner.kind === 'intro_hyp' && !inner.hypName)) return 'intro';
+    const text = tacticToLean({ ...step, tactic: inner }, goal, ctx).replace(/ with$/, '');
+    return ['seq', 'first', 'compute', 'unfold'].includes(inner.kind) && /[;|]/.test(text) ? `(${text})` : text;
+  }
+}
+
+/**
+ * Replay the recorded steps as an indented tactic block. Induction, case
+ * analysis, rule induction and inversion use structured `with | C x => ...`
+ * alternatives; other branching tactics focus each subgoal with `·`. Open
+ * goals become `sorry`.
+ */
+function proofScriptToLean(proof: Proof, ctx: LeanContext): string[] {
+  const stepByGoal = new Map<GoalId, ProofStep>(proof.steps.map(s => [s.goalId, s]));
+
+  const script = (goalId: GoalId, indent: string): string[] => {
+    const step = stepByGoal.get(goalId);
+    const goal = proof.goals.get(goalId);
+    if (!step || !goal) return [`${indent}sorry`];
+
+    const { tactic } = step;
+    const alternatives = tactic.kind === 'derivation_induction' || tactic.kind === 'inversion'
+      ? ruleAlternatives(tactic, goal, ctx)
+      : undefined;
+    // The steps below a case split Lean names differently would not apply
+    if (alternatives === null) return [`${indent}sorry`];
+
+    const lines = [`${indent}${tacticToLean(step, goal, ctx)}`];
+    if (tactic.kind === 'induction' || tactic.kind === 'case_analysis') {
+      const cases = caseBindings(goal, tactic.varName, tactic.kind === 'induction', ctx.source.constructors, true);
+      cases.forEach(({ constructor, names }, i) => {
+        const binders = [ctx.names.get(`ctor:${constructor.id}`), ...names.map(ctx.names.local)].join(' ');
+        lines.push(`${indent}| ${binders} =>`);
+        lines.push(...script(step.resultingGoals[i], `${indent}  `));
+      });
+    } else if (alternatives) {
+      alternatives.forEach((binders, i) => {
+        lines.push(`${indent}| ${binders} =>`);
+        lines.push(...script(step.resultingGoals[i], `${indent}  `));
+      });
+    } else if (step.resultingGoals.length === 1) {
+      lines.push(...script(step.resultingGoals[0], indent));
+    } else {
+      for (const child of step.resultingGoals) {
+        const childLines = script(child, `${indent}  `);
+        childLines[0] = `${indent}· ${childLines[0].trimStart()}`;
+        lines.push(...childLines);
+      }
+    }
+    return lines;
+  };
+
+  return script(proof.rootGoalId, '  ');
+}
+
+function propertyToLean(property: Property, ctx: LeanContext): string {
+  const lines: string[] = [];
+  if (property.description) lines.push(`/-- ${property.description.replace(/-\//g, '- /')} -/`);
+  const statement = `theorem ${ctx.names.get(`prop:${property.id}`)} : ${formulaToLean(property.formula, ctx)} := by`;
+
+  const proof = Array.from(ctx.source.proofs.values()).find(p => p.propertyId === property.id);
+  if (!proof || proof.steps.length === 0) {
+    lines.push(`${statement} sorry`);
+  } else {
+    lines.push(statement, ...proofScriptToLean(proof, ctx));
+  }
+  return lines.join('\n');
+}
+
+// ----------------------------------------------------------------------------
+// File
+// ----------------------------------------------------------------------------
+
+/**
+ * Generate a Lean 4 file: inductive types for sorts, structural definitions for
+ * functions, inductive propositions for judgments and theorems with translated
+ * tactic scripts (or `sorry`).
+ */
+export function exportLean(source: LeanExportSource): string {
+  const names = createNameTable(LEAN_RESERVED);
+  for (const sort of source.sorts.values()) names.assign(`sort:${sort.id}`, sort.name);
+  for (const c of source.constructors.values()) names.assign(`ctor:${c.id}`, c.name);
+  for (const f of source.recursiveFunctions.values()) names.assign(`func:${f.id}`, f.name);
+  for (const j of source.judgments.values()) names.assign(`judg:${j.id}`, j.name);
+  for (const r of source.rules.values()) names.assign(`rule:${r.id}`, r.name);
+  for (const p of source.properties.values()) names.assign(`prop:${p.id}`, p.name);
+  // The bound element in set operations, clear of every name that could occur around it
+  names.assign('set:element', 'a');
+  const ctx: LeanContext = { source, names };
+
+  const sections: [string, string[]][] = [
+    ['Syntax', sortsToLean(ctx)],
+    ['Functions', functionsToLean(ctx)],
+    ['Judgments', judgmentsToLean(ctx)],
+    // Lemmas before the theorems that use them
+    ['Properties', orderByDependencies(source.properties, source.proofs).map(p => propertyToLean(p, ctx))],
+  ];
+
+  const lines = ['-- Generated by TypeForge', ''];
+  for (const [title, blocks] of sections) {
+    if (blocks.length === 0) continue;
+    lines.push(`/-! ## ${title} -/`, '');
+    for (const block of blocks) lines.push(block, '');
+  }
+  return lines.join('\n');
+}
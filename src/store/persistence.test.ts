@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { NATS, parse } from '../test/workspace';
+import type { Proof } from '../types/syntax';
+import { applyTacticToProof, createProof } from '../types/syntax';
+import type { WorkspaceData } from './persistence';
+import { WORKSPACE_FORMAT_VERSION, deserializeWorkspace, serializeWorkspace } from './persistence';
+import { useStore } from './useStore';
+
+const SOURCE = `${NATS}atom Var prefix "x"
+sort Term ::= V(Var) | App(Term, Term)
+function size : N → int
+  | Z => 0
+  | S(n) => size(n) + 1
+judgment add: (a: N) " + " (b: N) " = " (out c: N)
+
+rule add_Z:
+  ------------
+  Z + b = b
+
+rule add_S:
+  a + b = c
+  ------------------
+  S(a) + b = S(c)
+
+property nonneg: ∀n: N. size(n) ≥ 0
+`;
+
+// Save and load through JSON, as autosave and project files do
+function roundTrip(data: WorkspaceData): WorkspaceData {
+  return deserializeWorkspace(JSON.parse(JSON.stringify(serializeWorkspace(data))));
+}
+
+function withProof(data: WorkspaceData): Proof {
+  const prop = Array.from(data.properties.values())[0];
+  const initial = createProof(prop);
+  const { proof } = applyTacticToProof(
+    initial, initial.rootGoalId, { kind: 'intro', varName: 'n' },
+    data.constructors, data.sorts, data.recursiveFunctions, data.rules, data.metaVariables
+  );
+  data.proofs.set(proof.id, proof);
+  return proof;
+}
+
+describe('serializeWorkspace', () => {
+  it('round-trips the example workspace', () => {
+    useStore.getState().initializeWithExamples();
+    const state = useStore.getState();
+    const data: WorkspaceData = {
+      sorts: state.sorts,
+      constructors: state.constructors,
+      judgments: state.judgments,
+      rules: state.rules,
+      metaVariables: state.metaVariables,
+      recursiveFunctions: state.recursiveFunctions,
+      properties: state.properties,
+      proofs: state.proofs,
+    };
+    expect(data.rules.size).toBeGreaterThan(0);
+    expect(roundTrip(data)).toEqual(data);
+  });
+
+  it('round-trips argument modes, atom sorts and proofs', () => {
+    const data = parse(SOURCE);
+    const proof = withProof(data);
+    const loaded = roundTrip(data);
+    expect(loaded).toEqual(data);
+    expect(loaded.proofs.get(proof.id)!.goals).toBeInstanceOf(Map);
+  });
+});
+
+describe('deserializeWorkspace', () => {
+  const saved = () => JSON.parse(JSON.stringify(serializeWorkspace(parse(SOURCE))));
+
+  it('loads files of the first format version', () => {
+    expect(() => deserializeWorkspace({ ...saved(), version: 1 })).not.toThrow();
+  });
+
+  it('rejects files from a newer version', () => {
+    expect(() => deserializeWorkspace({ ...saved(), version: WORKSPACE_FORMAT_VERSION + 1 }))
+      .toThrow(/newer version/);
+  });
+
+  it('rejects a missing field', () => {
+    const file = saved();
+    delete file.rules;
+    expect(() => deserializeWorkspace(file)).toThrow('Project file is missing "rules"');
+  });
+
+  it('rejects malformed elements', () => {
+    const file = saved();
+    file.constructors[1] = { ...file.constructors[1], args: 'N' };
+    expect(() => deserializeWorkspace(file)).toThrow('Project file has a malformed entry in "constructors" (item 2)');
+  });
+
+  it('rejects malformed patterns inside rules', () => {
+    const file = saved();
+    file.rules[0].conclusion.args[0] = { id: 'p' };
+    expect(() => deserializeWorkspace(file)).toThrow(/"rules" \(item 1\)/);
+  });
+});
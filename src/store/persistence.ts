@@ -0,0 +1,359 @@
+import type {
+  Sort,
+  SortId,
+  Constructor,
+  ConstructorId,
+  Judgment,
+  JudgmentId,
+  InferenceRule,
+  RuleId,
+  MetaVariable,
+  RecursiveFunc,
+  RecFuncId,
+  Property,
+  PropertyId,
+  Proof,
+  ProofId,
+  ProofGoal,
+} from '../types/syntax';
+
+// ============================================================================
+// Workspace Serialization
+// ============================================================================
+
+/**
+ * Version of the on-disk project format. Bump this when the shape of
+ * SerializedWorkspace changes and add a migration in migrateWorkspace.
+ *
+ * - 1: initial format
+ * - 2: argument modes on judgments, set/multi-argument/conditional formula
+ *   expressions, `invalid` proofs and grouped proof steps. The additions are
+ *   optional, so version 1 files load unchanged; the bump keeps older
+ *   versions from loading files that use them.
+ */
+export const WORKSPACE_FORMAT_VERSION = 2;
+
+const WORKSPACE_FORMAT = 'typeforge-workspace';
+const STORAGE_KEY = 'typeforge.workspace';
+const AUTOSAVE_DELAY_MS = 500;
+
+/**
+ * Everything the user defines - the data part of the store
+ */
+export type WorkspaceData = {
+  sorts: Map<SortId, Sort>;
+  constructors: Map<ConstructorId, Constructor>;
+  judgments: Map<JudgmentId, Judgment>;
+  rules: Map<RuleId, InferenceRule>;
+  metaVariables: Map<string, MetaVariable>;
+  recursiveFunctions: Map<RecFuncId, RecursiveFunc>;
+  properties: Map<PropertyId, Property>;
+  proofs: Map<ProofId, Proof>;
+};
+
+/**
+ * A proof with its goal map flattened to an array (Maps don't survive JSON)
+ */
+type SerializedProof = Omit<Proof, 'goals'> & { goals: ProofGoal[] };
+
+/**
+ * JSON-safe representation of a workspace
+ */
+export type SerializedWorkspace = {
+  format: typeof WORKSPACE_FORMAT;
+  version: number;
+  savedAt: string;
+  sorts: Sort[];
+  constructors: Constructor[];
+  judgments: Judgment[];
+  rules: InferenceRule[];
+  metaVariables: MetaVariable[];
+  recursiveFunctions: RecursiveFunc[];
+  properties: Property[];
+  proofs: SerializedProof[];
+};
+
+export function serializeWorkspace(data: WorkspaceData): SerializedWorkspace {
+  return {
+    format: WORKSPACE_FORMAT,
+    version: WORKSPACE_FORMAT_VERSION,
+    savedAt: new Date().toISOString(),
+    sorts: Array.from(data.sorts.values()),
+    constructors: Array.from(data.constructors.values()),
+    judgments: Array.from(data.judgments.values()),
+    rules: Array.from(data.rules.values()),
+    metaVariables: Array.from(data.metaVariables.values()),
+    recursiveFunctions: Array.from(data.recursiveFunctions.values()),
+    properties: Array.from(data.properties.values()),
+    proofs: Array.from(data.proofs.values()).map(p => ({
+      ...p,
+      goals: Array.from(p.goals.values()),
+    })),
+  };
+}
+
+/**
+ * Rebuild a workspace from parsed JSON.
+ * Throws an Error describing the problem if the data is not a valid workspace.
+ */
+export function deserializeWorkspace(raw: unknown): WorkspaceData {
+  const ws = migrateWorkspace(raw);
+
+  const byId = <T extends { id: string }>(items: T[]): Map<string, T> =>
+    new Map(items.map(item => [item.id, item]));
+
+  return {
+    sorts: byId(ws.sorts),
+    constructors: byId(ws.constructors),
+    judgments: byId(ws.judgments),
+    rules: byId(ws.rules.map(r => ({ ...r, sideConditions: r.sideConditions || [] }))),
+    metaVariables: byId(ws.metaVariables),
+    recursiveFunctions: byId(ws.recursiveFunctions.map(f => ({ ...f, extraArgs: f.extraArgs || [] }))),
+    properties: byId(ws.properties),
+    proofs: byId(ws.proofs.map(p => ({
+      ...p,
+      goals: new Map(p.goals.map(g => [g.id, g])),
+    }))),
+  };
+}
+
+/**
+ * Check the envelope of a serialized workspace and upgrade older versions
+ */
+function migrateWorkspace(raw: unknown): SerializedWorkspace {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('Not a TypeForge project file');
+  }
+  const ws = raw as Partial<SerializedWorkspace>;
+  if (ws.format !== WORKSPACE_FORMAT) {
+    throw new Error('Not a TypeForge project file');
+  }
+  if (typeof ws.version !== 'number') {
+    throw new Error('Project file has no format version');
+  }
+  if (ws.version > WORKSPACE_FORMAT_VERSION) {
+    throw new Error(`Project was saved by a newer version of TypeForge (format v${ws.version})`);
+  }
+
+  const fields = [
+    'sorts', 'constructors', 'judgments', 'rules',
+    'metaVariables', 'recursiveFunctions', 'properties', 'proofs',
+  ] as const;
+  for (const field of fields) {
+    if (!Array.isArray(ws[field])) {
+      throw new Error(`Project file is missing "${field}"`);
+    }
+  }
+
+  // Version 1 only lacks optional fields, so it reads as version 2
+  const checked = ws as SerializedWorkspace;
+  validateElements(checked);
+  return checked;
+}
+
+// ============================================================================
+// Element Validation
+// ============================================================================
+
+type Check = (value: unknown) => boolean;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+const isString: Check = value => typeof value === 'string';
+const isNumber: Check = value => typeof value === 'number' && Number.isFinite(value);
+const isBoolean: Check = value => typeof value === 'boolean';
+const arrayOf = (check: Check): Check => value => Array.isArray(value) && value.every(check);
+const optional = (check: Check): Check => value => value === undefined || check(value);
+const oneOf = (...options: string[]): Check => value => options.includes(value as string);
+const kinded: Check = value => isObject(value) && isString(value.kind);
+
+// An object with (at least) the given fields
+const shape = (fields: Record<string, Check>): Check => value =>
+  isObject(value) && Object.entries(fields).every(([field, check]) => check(value[field]));
+
+const isPattern: Check = value => shape({
+  id: isString,
+  constructorId: optional(isString),
+  metaVariableId: optional(isString),
+  args: arrayOf(isPattern),
+})(value);
+
+const isJudgmentInstance = shape({ id: isString, judgmentId: isString, args: arrayOf(isPattern) });
+
+const isContext = shape({
+  variables: arrayOf(shape({ name: isString, sortId: isString })),
+  hypotheses: arrayOf(shape({ id: isString, name: isString, formula: kinded })),
+});
+
+const ELEMENT_SHAPES: { [K in keyof WorkspaceData]: Check } = {
+  sorts: shape({
+    id: isString,
+    name: isString,
+    kind: oneOf('inductive', 'atom'),
+    isBinderSort: isBoolean,
+    color: isString,
+  }),
+  constructors: shape({
+    id: isString,
+    sortId: isString,
+    name: isString,
+    args: arrayOf(shape({ id: isString, sortId: isString, bindsIn: optional(arrayOf(isString)) })),
+    isTerminal: isBoolean,
+  }),
+  judgments: shape({
+    id: isString,
+    name: isString,
+    symbol: isString,
+    separators: arrayOf(isString),
+    argSorts: arrayOf(shape({ sortId: isString, label: isString, mode: optional(oneOf('in', 'out')) })),
+    color: isString,
+  }),
+  rules: shape({
+    id: isString,
+    name: isString,
+    premises: arrayOf(isJudgmentInstance),
+    sideConditions: optional(arrayOf(shape({ id: isString, predicate: kinded }))),
+    conclusion: isJudgmentInstance,
+    position: shape({ x: isNumber, y: isNumber }),
+  }),
+  metaVariables: shape({ id: isString, name: isString, sortId: isString }),
+  recursiveFunctions: shape({
+    id: isString,
+    name: isString,
+    inputSortId: isString,
+    extraArgs: optional(arrayOf(shape({ name: isString, sortId: isString }))),
+    returnType: kinded,
+    cases: arrayOf(shape({ constructorId: isString, boundVars: arrayOf(isString), body: kinded })),
+  }),
+  properties: shape({ id: isString, name: isString, formula: kinded }),
+  proofs: shape({
+    id: isString,
+    propertyId: isString,
+    goals: arrayOf(shape({ id: isString, context: isContext, goal: kinded })),
+    steps: arrayOf(shape({
+      goalId: isString,
+      tactic: kinded,
+      resultingGoals: arrayOf(isString),
+      group: optional(isString),
+    })),
+    rootGoalId: isString,
+    openGoals: arrayOf(isString),
+    status: oneOf('incomplete', 'complete', 'invalid'),
+  }),
+};
+
+/**
+ * Check the shape of every element, so a damaged file is rejected instead of
+ * breaking the app later. The insides of formulas, tactics and function
+ * bodies are not checked, nor are references between elements: deleting a
+ * sort or property can leave some behind, and those workspaces must load.
+ */
+function validateElements(ws: SerializedWorkspace): void {
+  for (const field of Object.keys(ELEMENT_SHAPES) as (keyof WorkspaceData)[]) {
+    const items: unknown[] = ws[field];
+    const index = items.findIndex(item => !ELEMENT_SHAPES[field](item));
+    if (index >= 0) {
+      throw new Error(`Project file has a malformed entry in "${field}" (item ${index + 1})`);
+    }
+  }
+}
+
+// ============================================================================
+// Local Storage
+// ============================================================================
+
+/**
+ * Autosave the workspace; nothing is saved when storage is full or unavailable
+ */
+export function saveWorkspaceToStorage(data: WorkspaceData): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(serializeWorkspace(data)));
+  } catch {
+    // The next change tries again
+  }
+}
+
+/**
+ * Load the autosaved workspace, or null if there is none (or it is unreadable)
+ */
+export function loadWorkspaceFromStorage(): WorkspaceData | null {
+  try {
+    const text = localStorage.getItem(STORAGE_KEY);
+    if (!text) return null;
+    return deserializeWorkspace(JSON.parse(text));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Save the workspace to local storage whenever it changes (debounced).
+ * Returns a function that stops autosaving.
+ */
+export function startAutosave(
+  subscribe: (listener: (state: WorkspaceData, prev: WorkspaceData) => void) => () => void
+): () => void {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let pending: WorkspaceData | null = null;
+
+  const unsubscribe = subscribe((state, prev) => {
+    const changed =
+      state.sorts !== prev.sorts ||
+      state.constructors !== prev.constructors ||
+      state.judgments !== prev.judgments ||
+      state.rules !== prev.rules ||
+      state.metaVariables !== prev.metaVariables ||
+      state.recursiveFunctions !== prev.recursiveFunctions ||
+      state.properties !== prev.properties ||
+      state.proofs !== prev.proofs;
+    if (!changed) return;
+
+    pending = state;
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      if (pending) saveWorkspaceToStorage(pending);
+      pending = null;
+    }, AUTOSAVE_DELAY_MS);
+  });
+
+  return () => {
+    unsubscribe();
+    if (timer) clearTimeout(timer);
+    // Flush so nothing is lost when autosave stops
+    if (pending) saveWorkspaceToStorage(pending);
+    pending = null;
+  };
+}
+
+// ============================================================================
+// JSON Files
+// ============================================================================
+
+/**
+ * Trigger a browser download of a text file
+ */
+export function downloadTextFile(filename: string, content: string, mimeType = 'text/plain'): void {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function exportWorkspaceFile(data: WorkspaceData, filename = 'typeforge-project.json'): void {
+  downloadTextFile(filename, JSON.stringify(serializeWorkspace(data), null, 2), 'application/json');
+}
+
+export async function importWorkspaceFile(file: File): Promise<WorkspaceData> {
+  const text = await file.text();
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+  return deserializeWorkspace(raw);
+}
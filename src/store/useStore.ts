@@ -7,6 +7,7 @@ import type {
   ConstructorId,
   ConstructorArg,
   Judgment,
+  JudgmentArg,
   JudgmentId,
   InferenceRule,
   RuleId,
@@ -37,7 +38,13 @@ import {
   checkTermination,
   createProof,
   applyTacticToProof,
+  removeProofStep,
+  undoProofStep,
+  usableLemmas,
+  dependentProperties,
 } from '../types/syntax';
+import { checkProof, checkedStatus, recheckProofs } from '../engine/checker';
+import type { WorkspaceData } from './persistence';
 
 interface StoreState {
   // Data
@@ -71,7 +78,7 @@ interface StoreState {
   deleteConstructor: (id: ConstructorId) => void;
 
   // Actions - Judgments
-  addJudgment: (name: string, symbol: string, argSorts: { sortId: SortId; label: string }[], separators?: string[]) => Judgment;
+  addJudgment: (name: string, symbol: string, argSorts: JudgmentArg[], separators?: string[]) => Judgment;
   updateJudgment: (id: JudgmentId, updates: Partial<Judgment>) => void;
   deleteJudgment: (id: JudgmentId) => void;
   selectJudgment: (id: JudgmentId | null) => void;
@@ -110,7 +117,11 @@ interface StoreState {
   selectProof: (id: ProofId | null) => void;
   selectGoal: (id: GoalId | null) => void;
   applyTactic: (proofId: ProofId, goalId: GoalId, tactic: Tactic) => TacticResult;
+  undoStep: (proofId: ProofId) => void;
+  removeStep: (proofId: ProofId, goalId: GoalId) => void;
+  replaceProof: (proof: Proof, goalId: GoalId | null) => void;
   deleteProof: (id: ProofId) => void;
+  checkProofs: (only?: Set<PropertyId>) => void;
 
   // Getters
   getConstructorsForSort: (sortId: SortId) => Constructor[];
@@ -118,6 +129,9 @@ interface StoreState {
   getFunctionsForSort: (sortId: SortId) => RecursiveFunc[];
   getProofForProperty: (propertyId: PropertyId) => Proof | undefined;
 
+  // Workspace persistence
+  loadWorkspace: (data: WorkspaceData) => void;
+
   // Initialize with examples
   initializeWithExamples: () => void;
 }
@@ -667,7 +681,9 @@ export const useStore = create<StoreState>((set, get) => ({
       state.constructors,
       state.sorts,
       state.recursiveFunctions,
-      state.rules
+      state.rules,
+      state.metaVariables,
+      usableLemmas(proof.propertyId, state.properties, state.proofs)
     );
     
     if (result.success) {
@@ -686,6 +702,44 @@ export const useStore = create<StoreState>((set, get) => ({
     return result;
   },
 
+  undoStep: (proofId) => {
+    const proof = get().proofs.get(proofId);
+    const last = proof?.steps[proof.steps.length - 1];
+    if (!proof || !last) return;
+    const undone = withCheckedStatus(undoProofStep(proof), get());
+
+    set(state => {
+      const newProofs = new Map(state.proofs);
+      newProofs.set(proofId, undone);
+      return { proofs: newProofs, selectedGoalId: last.goalId };
+    });
+  },
+
+  removeStep: (proofId, goalId) => {
+    const proof = get().proofs.get(proofId);
+    if (!proof) return;
+    const removed = withCheckedStatus(removeProofStep(proof, goalId), get());
+
+    set(state => {
+      const newProofs = new Map(state.proofs);
+      newProofs.set(proofId, removed);
+      // Continue from the reopened goal
+      return { proofs: newProofs, selectedGoalId: goalId };
+    });
+  },
+
+  // Install a proof built elsewhere, e.g. by a replayed script, in place of the property's proof
+  replaceProof: (proof, goalId) => {
+    const existing = get().getProofForProperty(proof.propertyId);
+    const replacement = existing ? { ...proof, id: existing.id } : proof;
+
+    set(state => {
+      const newProofs = new Map(state.proofs);
+      newProofs.set(replacement.id, replacement);
+      return { proofs: newProofs, selectedProofId: replacement.id, selectedGoalId: goalId };
+    });
+  },
+
   deleteProof: (id) => {
     set(state => {
       const newProofs = new Map(state.proofs);
@@ -698,6 +752,13 @@ export const useStore = create<StoreState>((set, get) => ({
     });
   },
 
+  // Replay every proof, or those of the given properties, and record whether it still holds
+  checkProofs: (only) => {
+    const state = get();
+    const proofs = recheckProofs(state.properties, state.proofs, state, only);
+    if (proofs !== state.proofs) set({ proofs });
+  },
+
   // Getters
   getConstructorsForSort: (sortId) => {
     return Array.from(get().constructors.values()).filter(c => c.sortId === sortId);
@@ -715,6 +776,22 @@ export const useStore = create<StoreState>((set, get) => ({
     return Array.from(get().proofs.values()).find(p => p.propertyId === propertyId);
   },
 
+  // Replace the whole workspace (e.g. when restoring an autosave or opening a file)
+  loadWorkspace: (data) => {
+    const firstSort = data.sorts.values().next().value;
+    const firstJudgment = data.judgments.values().next().value;
+    set({
+      ...data,
+      selectedSortId: firstSort?.id ?? null,
+      selectedJudgmentId: firstJudgment?.id ?? null,
+      selectedRuleId: null,
+      selectedFuncId: null,
+      selectedPropertyId: null,
+      selectedProofId: null,
+      selectedGoalId: null,
+    });
+  },
+
   // Initialize with examples - Even/Odd relations on Peano numerals
   initializeWithExamples: () => {
     const state = get();
@@ -857,3 +934,59 @@ export const useStore = create<StoreState>((set, get) => ({
   },
 }));
 
+// Removing a step may leave an invalid proof invalid, or make it valid again
+function withCheckedStatus(proof: Proof, state: StoreState): Proof {
+  const property = state.properties.get(proof.propertyId);
+  if (!property) return proof;
+  const result = checkProof(proof, property, state, usableLemmas(property.id, state.properties, state.proofs));
+  return { ...proof, status: checkedStatus(result) };
+}
+
+const PROOF_CHECK_DELAY_MS = 300;
+
+/**
+ * Replay the proofs once the definitions have settled (debounced), or only
+ * those relying on a lemma whose proof changed. A recheck that changes nothing
+ * leaves the proofs as they are, so this settles. Returns a function that
+ * stops checking.
+ */
+export function startProofChecking(): () => void {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let definitionsChanged = false;
+  const changedLemmas = new Set<PropertyId>();
+
+  const unsubscribe = useStore.subscribe((state, prev) => {
+    definitionsChanged ||=
+      state.sorts !== prev.sorts ||
+      state.constructors !== prev.constructors ||
+      state.judgments !== prev.judgments ||
+      state.rules !== prev.rules ||
+      state.metaVariables !== prev.metaVariables ||
+      state.recursiveFunctions !== prev.recursiveFunctions ||
+      state.properties !== prev.properties;
+    if (state.proofs !== prev.proofs) {
+      for (const [id, proof] of state.proofs) {
+        if (prev.proofs.get(id) !== proof) changedLemmas.add(proof.propertyId);
+      }
+      for (const [id, proof] of prev.proofs) {
+        if (!state.proofs.has(id)) changedLemmas.add(proof.propertyId);
+      }
+    }
+    if (!definitionsChanged && changedLemmas.size === 0) return;
+
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      const { checkProofs, proofs } = useStore.getState();
+      const only = definitionsChanged ? undefined : dependentProperties(changedLemmas, proofs);
+      definitionsChanged = false;
+      changedLemmas.clear();
+      if (!only || only.size > 0) checkProofs(only);
+    }, PROOF_CHECK_DELAY_MS);
+  });
+
+  return () => {
+    unsubscribe();
+    if (timer) clearTimeout(timer);
+  };
+}
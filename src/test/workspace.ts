@@ -0,0 +1,57 @@
+import { parseDefinitions, parseTacticScript, runTacticScript } from '../dsl/parser';
+import type { ScriptRun } from '../dsl/parser';
+import type { WorkspaceData } from '../store/persistence';
+import type { JudgmentId, Property, Term } from '../types/syntax';
+
+// ============================================================================
+// Workspaces for Tests
+// ============================================================================
+
+// Natural numbers, for definitions to extend
+export const NATS = `sort N ::= Z | S(N)
+`;
+
+// Binary trees and their number of nodes, for definitions to extend
+export const TREES = `sort T ::= L | B(T, T)
+function size : T → int
+  | L => 0
+  | B(a, b) => size(a) + size(b) + 1
+`;
+
+export function parse(source: string, previous?: WorkspaceData): WorkspaceData {
+  const result = parseDefinitions(source, previous);
+  if (!result.success) throw new Error(result.error.message);
+  return result.data;
+}
+
+export function property(data: WorkspaceData, name: string): Property {
+  const found = Array.from(data.properties.values()).find(p => p.name === name);
+  if (!found) throw new Error(`No property ${name}`);
+  return found;
+}
+
+export function judgmentId(data: WorkspaceData, name: string): JudgmentId {
+  const found = Array.from(data.judgments.values()).find(j => j.name === name);
+  if (!found) throw new Error(`No judgment ${name}`);
+  return found.id;
+}
+
+// The term S(…S(Z)) of n successors, in a workspace extending NATS
+export function nat(data: WorkspaceData, n: number): Term {
+  const ctor = (name: string) => Array.from(data.constructors.values()).find(c => c.name === name)!.id;
+  let term: Term = { id: 'Z', constructorId: ctor('Z'), args: [] };
+  for (let i = 0; i < n; i++) term = { id: `S${i}`, constructorId: ctor('S'), args: [term] };
+  return term;
+}
+
+export function render(term: Term, data: WorkspaceData): string {
+  const name = data.constructors.get(term.constructorId)?.name ?? term.variableName ?? '?';
+  return term.args.length === 0 ? name : `${name}(${term.args.map(a => render(a, data)).join(', ')})`;
+}
+
+// Run at most `limit` sentences of a script on a property of the workspace
+export function run(data: WorkspaceData, name: string, script: string, limit?: number): ScriptRun {
+  const parsed = parseTacticScript(script);
+  if (!parsed.success) throw new Error(parsed.error.message);
+  return runTacticScript(property(data, name), parsed.script, data, new Map(), limit);
+}
@@ -0,0 +1,387 @@
+import { describe, expect, it } from 'vitest';
+import { parseDefinitions } from '../dsl/parser';
+import type { ScriptRun } from '../dsl/parser';
+import type { WorkspaceData } from '../store/persistence';
+import { NATS, TREES, parse, property, run } from '../test/workspace';
+import type { Formula, ProofGoal } from './syntax';
+import { analyzesSyntaxDirected, applyTactic, applyTacticToProof, removeProofStep, renderFormula, renderFormulaExpr, undoProofStep } from './syntax';
+
+const LE = `${NATS}judgment le: (a: N) " <= " (b: N)
+
+rule le_n:
+  ------
+  a <= a
+
+rule le_S:
+  m <= n
+  ----------
+  m <= S(n)
+
+property le_succ: ∀n: N. n <= S(n) → n <= S(n)
+`;
+
+// The goals of derivation induction on H in the goal H: A ⊢ B of a property ∀x. A → B
+function inductionGoals(data: WorkspaceData, name: string): ProofGoal[] {
+  const { formula } = property(data, name);
+  if (formula.kind !== 'forall' || formula.body.kind !== 'implies') throw new Error('Expected ∀x. A → B');
+  const goal: ProofGoal = {
+    id: 'goal',
+    context: {
+      variables: [{ name: formula.varName, sortId: formula.sortId }],
+      hypotheses: [{ id: 'H', name: 'H', formula: formula.body.left }],
+    },
+    goal: formula.body.right,
+  };
+  const result = applyTactic(
+    goal,
+    { kind: 'derivation_induction', hypName: 'H' },
+    data.constructors,
+    data.sorts,
+    data.recursiveFunctions,
+    data.rules,
+    data.metaVariables
+  );
+  if (!result.success) throw new Error(result.error);
+  return result.newGoals;
+}
+
+// The open goals of a run, with judgments rendered as name(args)
+function openGoals(data: WorkspaceData, { proof }: ScriptRun): string[] {
+  return proof.openGoals.map(id => {
+    const goal = proof.goals.get(id)!.goal;
+    if (goal.kind !== 'judgment') return renderFormula(goal, data.constructors, data.recursiveFunctions, data.judgments, data.sorts);
+    const args = goal.args.map(a => renderFormulaExpr(a, data.constructors, data.recursiveFunctions));
+    return `${data.judgments.get(goal.judgmentId)?.name}(${args.join(', ')})`;
+  });
+}
+
+function hypothesis(goal: ProofGoal, name: string): Formula {
+  const found = goal.context.hypotheses.find(h => h.name === name);
+  if (!found) throw new Error(`No hypothesis ${name}`);
+  return found.formula;
+}
+
+describe('derivation_induction', () => {
+  it('states equations in terms of the case when meta-variables share names with the arguments', () => {
+    const data = parse(LE);
+    const [refl, step] = inductionGoals(data, 'le_succ');
+    const S = Array.from(data.constructors.values()).find(c => c.name === 'S')!.id;
+
+    const a = { kind: 'var', name: 'a' };
+    const m = { kind: 'var', name: 'm' };
+    const n = { kind: 'var', name: 'n' };
+
+    // le_n: a <= a, so the generalized n is a
+    expect(refl.context.variables.map(v => v.name)).toEqual(['a']);
+    expect(hypothesis(refl, 'Heq_2')).toEqual({
+      kind: 'termEq',
+      left: a,
+      right: { kind: 'constructor', constructorId: S, args: [a] },
+    });
+
+    // le_S: m <= S(n), so the generalized n is m and not the rule's n
+    expect(step.context.variables.map(v => v.name)).toEqual(['m', 'n']);
+    expect(hypothesis(step, 'Heq_2')).toEqual({
+      kind: 'termEq',
+      left: { kind: 'constructor', constructorId: S, args: [n] },
+      right: { kind: 'constructor', constructorId: S, args: [m] },
+    });
+    expect(hypothesis(step, 'IH_1')).toMatchObject({
+      kind: 'implies',
+      left: { kind: 'termEq', left: n, right: { kind: 'constructor', constructorId: S, args: [m] } },
+    });
+  });
+});
+
+describe('undoProofStep', () => {
+  const data = parse(`${TREES}property nonneg: ∀x: T. size(x) ≥ 0
+`);
+
+  it('undoes every step of an all_goals at once', () => {
+    const { proof } = run(data, 'nonneg', 'intro x. induction x. all_goals compute.');
+    expect(proof.steps).toHaveLength(4);
+
+    const undone = undoProofStep(proof);
+    expect(undone.steps).toEqual(proof.steps.slice(0, 2));
+    expect(undone.openGoals).toEqual(proof.steps[1].resultingGoals);
+  });
+
+  it('undoes all_goals applied in the proof panel at once', () => {
+    const { proof } = run(data, 'nonneg', 'intro x. induction x.');
+    const { proof: computed } = applyTacticToProof(
+      proof, proof.openGoals[0], { kind: 'all_goals', tactic: { kind: 'compute' } },
+      data.constructors, data.sorts, data.recursiveFunctions, data.rules, data.metaVariables
+    );
+    expect(computed.steps).toHaveLength(4);
+
+    const undone = undoProofStep(computed);
+    expect(undone.steps).toEqual(proof.steps);
+    expect(undone.openGoals).toEqual(proof.openGoals);
+  });
+});
+
+describe('have', () => {
+  const CASES = `${NATS}sort B ::= T | F
+property cases: ∀x: N. x ≡ Z ∨ ∃y: N. x ≡ S(y)
+property absurd: ⊥
+proof cases: intro x. case_analysis x. - left. reflexivity. - right. exists x0. reflexivity.
+`;
+
+  it('instantiates a lemma with arguments of its sorts', () => {
+    const result = parseDefinitions(`${CASES}property pred: ∀n: N. S(n) ≡ Z ∨ ∃y: N. S(n) ≡ S(y)
+proof pred: intro n. have cases(S(n)) as H. exact H.`);
+    expect(result.success).toBe(true);
+  });
+
+  it('rejects an argument of another sort', () => {
+    const result = parseDefinitions(`${CASES}proof absurd: have cases(T) as H. destruct H. - discriminate H. - destruct H. discriminate H.`);
+    expect(result).toMatchObject({
+      success: false,
+      error: { message: 'In the proof of absurd: Invalid argument for x of cases: T has sort B, expected N' },
+    });
+  });
+});
+
+describe('exists_witness', () => {
+  const data = parse(`${NATS}sort B ::= T | F
+property nonzero: ∃y: N. y ≡ Z → ⊥
+`);
+  const goal: ProofGoal = {
+    id: 'goal',
+    context: { variables: [], hypotheses: [] },
+    goal: Array.from(data.properties.values())[0].formula,
+  };
+  const witness = (name: string) => {
+    const c = Array.from(data.constructors.values()).find(c => c.name === name)!;
+    return applyTactic(
+      goal,
+      { kind: 'exists_witness', witness: { kind: 'constructor', constructorId: c.id, args: [] } },
+      data.constructors, data.sorts, data.recursiveFunctions, data.rules, data.metaVariables
+    );
+  };
+
+  it('substitutes a witness of the bound sort', () => {
+    const result = witness('Z');
+    expect(result.success && result.newGoals[0].goal).toMatchObject({ kind: 'implies', left: { kind: 'termEq' } });
+  });
+
+  it('rejects a witness of another sort', () => {
+    expect(witness('T')).toEqual({ success: false, error: 'Invalid witness for y: T has sort B, expected N' });
+  });
+});
+
+describe('simplify', () => {
+  const data = parse(`${TREES}property bigger: ∀x: T. ∀y: T. size(x) ≤ size(y) → size(x) < size(y) + 1
+property smaller: ∀x: T. ∀y: T. size(x) ≤ size(y) → size(x) < size(y)
+`);
+
+  const simplified = (name: string) => run(data, name, 'intro x. intro y. intro_hyp H. simplify.');
+
+  it('closes a goal that follows by linear arithmetic', () => {
+    expect(simplified('bigger').proof.status).toBe('complete');
+  });
+
+  it('gives a model of the arithmetic abstraction when the goal does not follow', () => {
+    expect(simplified('smaller').error?.message).toBe(
+      'Not provable by linear arithmetic, reading non-arithmetic terms as integers; it fails when size(x) = 0, size(y) = 0'
+    );
+  });
+});
+
+describe('analyzesSyntaxDirected', () => {
+  it('names an input both overlapping rules match', () => {
+    const data = parse(LE);
+    const judgment = Array.from(data.judgments.values())[0];
+    const analysis = analyzesSyntaxDirected(judgment, Array.from(data.rules.values()), data.constructors);
+    expect(analysis.isSyntaxDirected).toBe(false);
+    expect(analysis.overlaps.map(o => o.description)).toEqual([
+      'Rules "le_n" and "le_S" can both match the input S(x₁), S(x₁)',
+    ]);
+  });
+});
+
+describe('apply_rule', () => {
+  const data = parse(`${LE}property two: Z <= S(S(Z))
+property below: S(Z) <= Z
+`);
+
+  it('reduces a judgment goal to the premises of the rule', () => {
+    expect(openGoals(data, run(data, 'two', 'apply_rule le_S. apply_rule le_S.'))).toEqual(['le(Z, Z)']);
+    expect(run(data, 'two', 'apply_rule le_S. apply_rule le_S. apply_rule le_n.').proof.status).toBe('complete');
+  });
+
+  it('rejects a rule whose conclusion does not match the goal', () => {
+    expect(run(data, 'below', 'apply_rule le_n.').error?.message).toBe('Conclusion of le_n does not match the goal');
+  });
+});
+
+describe('rewrite', () => {
+  const data = parse(`${LE}property step: ∀x: N. ∀y: N. x ≡ y → x <= S(y)
+property captured: ∀x: N. ∀y: N. x ≡ y → ∃y: N. x <= y
+`);
+
+  it('rewrites left to right or right to left', () => {
+    expect(openGoals(data, run(data, 'step', 'intro x. intro y. intro_hyp H. rewrite H.'))).toEqual(['le(y, S(y))']);
+    expect(openGoals(data, run(data, 'step', 'intro x. intro y. intro_hyp H. rewrite <- H.'))).toEqual(['le(x, S(x))']);
+  });
+
+  it('leaves alone occurrences a quantifier of the goal would capture', () => {
+    expect(run(data, 'captured', 'intro x. intro y. intro_hyp H. rewrite H.').error?.message)
+      .toBe('Every occurrence is under a quantifier that would capture its variables');
+  });
+});
+
+describe('compute', () => {
+  const data = parse(`${NATS}atom Var
+sort E ::= V(Var) | App(E, E)
+function double : N → N
+  | Z => Z
+  | S(n) => S(S(double(n)))
+function fv : E → set Var
+  | V(x) => {x}
+  | App(a, b) => fv(a) ∪ fv(b)
+property double_one: double(S(Z)) ≡ S(S(Z))
+property double_wrong: double(S(Z)) ≡ S(Z)
+property fv_app: ∀x: Var. ∀y: Var. y ∈ fv(App(V(x), V(y)))
+property open: ∀n: N. n ≡ Z
+`);
+
+  it('evaluates functions returning terms', () => {
+    expect(run(data, 'double_one', 'compute.').proof.status).toBe('complete');
+    expect(openGoals(data, run(data, 'double_wrong', 'compute.'))).toEqual(['⊥']);
+  });
+
+  it('evaluates functions returning sets', () => {
+    expect(run(data, 'fv_app', 'intro x. intro y. compute.').proof.status).toBe('complete');
+  });
+
+  it('rejects a goal without anything to compute', () => {
+    expect(run(data, 'open', 'intro n. compute.').error?.message).toBe('Nothing to compute');
+  });
+});
+
+describe('unfold', () => {
+  const data = parse(`atom Var
+sort E ::= V(Var) | App(E, E)
+function weight : E → int
+  | V(x) => 1
+  | App(a, b) => (weight(a) + 1) × (weight(b) - 1)
+function height : E → int
+  | V(x) => 0
+  | App(a, b) => max(height(a), height(b)) + 1
+function shallow : E → int
+  | V(x) => 0
+  | App(a, b) => min(shallow(a), shallow(b)) + 1
+function fv : E → set Var
+  | V(x) => {x}
+  | App(a, b) => fv(a) ∪ fv(b)
+function odd : E → set Var
+  | V(x) => {x}
+  | App(a, b) => (odd(a) ∪ odd(b)) \\ (odd(a) ∩ odd(b))
+function lean : E → int
+  | V(x) => 0
+  | App(a, b) => if weight(a) < weight(b) then weight(b) else weight(a)
+function rename : E, y: Var → E
+  | V(x) => V(y)
+  | App(a, b) => App(rename(a, y), rename(b, y))
+property weight_app: ∀a: E. ∀b: E. weight(App(a, b)) = weight(a)
+property height_app: ∀a: E. ∀b: E. height(App(a, b)) = 0
+property shallow_app: ∀a: E. ∀b: E. shallow(App(a, b)) = 0
+property odd_app: ∀a: E. ∀b: E. odd(App(a, b)) ≡ fv(a)
+property lean_app: ∀a: E. ∀b: E. lean(App(a, b)) = 0
+property rename_app: ∀a: E. ∀b: E. ∀y: Var. rename(App(a, b), y) ≡ a
+`);
+
+  const unfolded = (name: string, script: string) => openGoals(data, run(data, name, script));
+
+  it('keeps the grouping of arithmetic in the body', () => {
+    expect(unfolded('weight_app', 'intro a. intro b. unfold weight left.')).toEqual(['(weight(a) + 1) × (weight(b) - 1) = weight(a)']);
+    expect(unfolded('height_app', 'intro a. intro b. unfold height left.')).toEqual(['max(height(a), height(b)) + 1 = 0']);
+    expect(unfolded('shallow_app', 'intro a. intro b. unfold shallow left.')).toEqual(['min(shallow(a), shallow(b)) + 1 = 0']);
+  });
+
+  it('keeps the grouping of set operations in the body', () => {
+    expect(unfolded('odd_app', 'intro a. intro b. unfold odd left.')).toEqual(['(odd(a) ∪ odd(b)) \\ (odd(a) ∩ odd(b)) = fv(a)']);
+  });
+
+  it('unfolds a conditional body', () => {
+    expect(unfolded('lean_app', 'intro a. intro b. unfold lean left.')).toEqual(['(if weight(a) < weight(b) then weight(b) else weight(a)) = 0']);
+  });
+
+  it('binds the extra arguments of a function', () => {
+    expect(unfolded('rename_app', 'intro a. intro b. intro y. unfold rename left.')).toEqual(['App(rename(a, y), rename(b, y)) = a']);
+  });
+});
+
+describe('destruct and contradiction', () => {
+  const data = parse(`${NATS}property both: ∀x: N. x ≡ Z ∧ ¬(x ≡ Z) → ⊥
+property either: ∀x: N. x ≡ Z ∨ x ≡ S(Z) → x ≢ S(S(Z))
+property plain: ∀x: N. x ≡ Z → ⊥
+`);
+
+  it('splits a conjunction into hypotheses that contradict each other', () => {
+    expect(run(data, 'both', 'intro x. intro_hyp H. destruct H. contradiction.').proof.status).toBe('complete');
+  });
+
+  it('splits a disjunction into a goal for each case', () => {
+    expect(run(data, 'either', 'intro x. intro_hyp H. destruct H.').proof.openGoals).toHaveLength(2);
+  });
+
+  it('rejects hypotheses without structure or contradiction', () => {
+    expect(run(data, 'plain', 'intro x. intro_hyp H. destruct H.').error?.message).toBe('destruct requires a ∧, ∨, ∃ or ⊥ hypothesis');
+    expect(run(data, 'plain', 'intro x. intro_hyp H. contradiction.').error?.message).toBe('No contradiction found in the hypotheses');
+  });
+});
+
+describe('inversion', () => {
+  const data = parse(`${NATS}judgment ev: "ev " (n: N)
+
+rule ev_Z:
+  ----
+  ev Z
+
+rule ev_SS:
+  ev n
+  ----
+  ev S(S(n))
+
+property ev_pred: ∀n: N. ev S(S(n)) → ev n
+property ev_one: ev S(Z) → ⊥
+property not_judgment: ∀n: N. n ≡ Z → ev n
+`);
+
+  it('leaves out the rules that cannot derive the hypothesis', () => {
+    const inverted = run(data, 'ev_pred', 'intro n. intro_hyp H. inversion H.');
+    expect(openGoals(data, inverted)).toEqual(['ev(n)']);
+    expect(run(data, 'ev_one', 'intro_hyp H. inversion H.').proof.status).toBe('complete');
+  });
+
+  it('rejects a hypothesis that is not a judgment', () => {
+    expect(run(data, 'not_judgment', 'intro n. intro_hyp H. inversion H.').error?.message).toBe('inversion requires a judgment hypothesis');
+  });
+});
+
+describe('removeProofStep', () => {
+  const data = parse(`${TREES}property nonneg: ∀x: T. size(x) ≥ 0
+`);
+  const { proof } = run(data, 'nonneg', 'intro x. induction x. - compute. - compute. simplify.');
+
+  it('reopens a middle step\'s goal and drops the branches below it', () => {
+    const induction = proof.steps[1];
+    const removed = removeProofStep(proof, induction.goalId);
+    expect(removed.steps).toEqual(proof.steps.slice(0, 1));
+    expect(removed.openGoals).toEqual([induction.goalId]);
+  });
+
+  it('keeps the steps of other branches', () => {
+    const [, induction, leaf] = proof.steps;
+    const removed = removeProofStep(proof, leaf.goalId);
+    expect(removed.steps).toEqual(proof.steps.filter(s => s !== leaf));
+    expect(removed.openGoals).toEqual([induction.resultingGoals[0]]);
+  });
+
+  it('leaves a proof alone when the goal has no step', () => {
+    const open = removeProofStep(proof, 'missing');
+    expect(open).toBe(proof);
+  });
+});
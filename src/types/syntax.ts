@@ -1,4 +1,8 @@
 import { uuidv4 } from '../utils/uuid';
+import { unify, unifyArgs, resolve, patternToOpen, openToPattern, formulaToOpen, formulaExprToOpen, openToFormulaExpr, mentionsBoundVariable } from '../engine/unify';
+import type { OpenTerm, Substitution } from '../engine/unify';
+import { decideLinearArithmetic } from '../engine/arith';
+import type { ArithResult } from '../engine/arith';
 
 // ============================================================================
 // Core Syntax Types
@@ -109,10 +113,22 @@ export type Judgment = {
   name: string;
   symbol: string; // Main symbol for display (legacy, still used for quick reference)
   separators: string[]; // Flexible separators: length = argSorts.length + 1
-  argSorts: { sortId: SortId; label: string }[];
+  argSorts: JudgmentArg[];
   color: string;
 };
 
+/**
+ * Mode of a judgment argument. Inputs are given when deriving; outputs are
+ * computed by running the rules as a logic program (v in "e ⇓ v").
+ */
+export type ArgMode = 'in' | 'out';
+
+export type JudgmentArg = {
+  sortId: SortId;
+  label: string;
+  mode?: ArgMode; // Defaults to 'in'
+};
+
 /**
  * A premise or conclusion in a rule
  */
@@ -170,6 +186,19 @@ export type Derivation = {
   ruleId: RuleId;
   conclusion: { judgmentId: JudgmentId; terms: Term[] };
   premises: Derivation[];
+  sideConditions: CheckedSideCondition[]; // Side conditions of the rule, all satisfied
+};
+
+/**
+ * A rule side condition as checked in a derivation: the instantiated
+ * function argument (and element, for ∈ / ∉) and what the function returned
+ */
+export type CheckedSideCondition = {
+  conditionId: string;
+  predicate: RuleFuncPredicate;
+  arg: Term;
+  element?: Term;
+  value: FuncValue;
 };
 
 // ============================================================================
@@ -185,7 +214,9 @@ export type RulePattern = {
 export type OverlapInfo = {
   rule1Id: RuleId;
   rule2Id: RuleId;
-  overlappingPosition: number;
+  // Most general input arguments both conclusions match; meta-variables of
+  // the two rules are renamed apart with prefixes '1:' and '2:'
+  witness: Pattern[];
   description: string;
 };
 
@@ -209,13 +240,38 @@ export type FormulaExpr =
   | { kind: 'var'; name: string }
   | { kind: 'constructor'; constructorId: ConstructorId; args: FormulaExpr[] }
   | { kind: 'funcApp'; funcId: RecFuncId; arg: FormulaExpr }  // f(e)
+  | { kind: 'funcAppMulti'; funcId: RecFuncId; args: FormulaExpr[] }  // f(e₁, …, eₙ)
   | { kind: 'int'; value: number }
   | { kind: 'emptySet' }
+  | { kind: 'singleton'; element: FormulaExpr }  // {e}
   | { kind: 'add'; left: FormulaExpr; right: FormulaExpr }
   | { kind: 'sub'; left: FormulaExpr; right: FormulaExpr }
   | { kind: 'mul'; left: FormulaExpr; right: FormulaExpr }
   | { kind: 'max'; left: FormulaExpr; right: FormulaExpr }
-  | { kind: 'min'; left: FormulaExpr; right: FormulaExpr };
+  | { kind: 'min'; left: FormulaExpr; right: FormulaExpr }
+  | { kind: 'union'; left: FormulaExpr; right: FormulaExpr }      // ∪
+  | { kind: 'intersect'; left: FormulaExpr; right: FormulaExpr }  // ∩
+  | { kind: 'diff'; left: FormulaExpr; right: FormulaExpr }       // \
+  | { kind: 'if'; cond: FormulaCond; then: FormulaExpr; else: FormulaExpr };
+
+/**
+ * Conditions of `if` expressions in formulas (the counterpart of FuncPredicate)
+ */
+export type FormulaCond =
+  | { kind: 'eq'; left: FormulaExpr; right: FormulaExpr }
+  | { kind: 'neq'; left: FormulaExpr; right: FormulaExpr }
+  | { kind: 'lt'; left: FormulaExpr; right: FormulaExpr }
+  | { kind: 'leq'; left: FormulaExpr; right: FormulaExpr }
+  | { kind: 'gt'; left: FormulaExpr; right: FormulaExpr }
+  | { kind: 'geq'; left: FormulaExpr; right: FormulaExpr }
+  | { kind: 'atomEq'; left: FormulaExpr; right: FormulaExpr }
+  | { kind: 'atomNeq'; left: FormulaExpr; right: FormulaExpr }
+  | { kind: 'in'; element: FormulaExpr; set: FormulaExpr }
+  | { kind: 'subset'; left: FormulaExpr; right: FormulaExpr }
+  | { kind: 'isEmpty'; set: FormulaExpr }
+  | { kind: 'and'; left: FormulaCond; right: FormulaCond }
+  | { kind: 'or'; left: FormulaCond; right: FormulaCond }
+  | { kind: 'not'; cond: FormulaCond };
 
 /**
  * First-order formulas
@@ -304,10 +360,18 @@ export type Tactic =
   | { kind: 'induction'; varName: string }
   // Induction on a derivation hypothesis
   | { kind: 'derivation_induction'; hypName: string }
+  // Invert a judgment hypothesis: one case per rule that could have derived it
+  | { kind: 'inversion'; hypName: string }
+  // Eliminate a ∧, ∨, ∃ or ⊥ hypothesis
+  | { kind: 'destruct'; hypName: string }
   // Apply a hypothesis
   | { kind: 'apply'; hypName: string }
   // Apply a rule directly (for judgment goals)
   | { kind: 'apply_rule'; ruleId: RuleId }
+  // Add a proved property to the context, instantiating its leading ∀s with args
+  | { kind: 'have'; propertyId: PropertyId; args?: FormulaExpr[]; hypName?: string }
+  // Apply a proved property backwards
+  | { kind: 'apply_lemma'; propertyId: PropertyId }
   // For = goals: reflexivity
   | { kind: 'reflexivity' }
   // Assume the goal and derive contradiction
@@ -327,7 +391,27 @@ export type Tactic =
   // Trivial goal (⊤ or already in context)
   | { kind: 'trivial' }
   // Exact match with hypothesis
-  | { kind: 'exact'; hypName: string };
+  | { kind: 'exact'; hypName: string }
+  // Combinators, recorded as a single step
+  // t₁; t₂: apply t₂ to every goal t₁ produces
+  | { kind: 'seq'; first: Tactic; next: Tactic }
+  // Apply the tactic, leaving the goal unchanged if it fails
+  | { kind: 'try'; tactic: Tactic }
+  // Apply the tactic, then again to the goals it produces, at most `limit` deep
+  | { kind: 'repeat'; tactic: Tactic; limit: number }
+  // The first of the tactics that applies
+  | { kind: 'first'; tactics: Tactic[] }
+  // Apply the tactic to every open goal, recorded as a step on each
+  | { kind: 'all_goals'; tactic: Tactic };
+
+// Combinators that work within a single goal, over tactics of type T
+export type CombinatorTactic<T = Tactic> =
+  | { kind: 'seq'; first: T; next: T }
+  | { kind: 'try'; tactic: T }
+  | { kind: 'repeat'; tactic: T; limit: number }
+  | { kind: 'first'; tactics: T[] };
+
+export const DEFAULT_REPEAT_LIMIT = 10;
 
 /**
  * A proof step records which tactic was applied and resulting subgoals
@@ -336,6 +420,8 @@ export type ProofStep = {
   goalId: GoalId;
   tactic: Tactic;
   resultingGoals: GoalId[];
+  // Shared by the steps of one all_goals application, which are undone together
+  group?: string;
 };
 
 /**
@@ -365,11 +451,25 @@ export type Proof = {
 // Formula Rendering
 // ============================================================================
 
+type FormulaOperator = 'add' | 'sub' | 'union' | 'intersect' | 'diff' | 'mul';
+
+const FORMULA_PRECEDENCE: Record<FormulaOperator, number> = {
+  add: 1, sub: 1, union: 1, intersect: 1, diff: 1, mul: 2,
+};
+
+const FORMULA_OPERATORS: Record<FormulaOperator, string> = {
+  add: '+', sub: '-', union: '∪', intersect: '∩', diff: '\\', mul: '×',
+};
+
+const SET_OPERATORS = new Set<FormulaExpr['kind']>(['union', 'intersect', 'diff']);
+
 export function renderFormulaExpr(
   expr: FormulaExpr,
   constructors: Map<ConstructorId, Constructor>,
-  functions: Map<RecFuncId, RecursiveFunc>
+  functions: Map<RecFuncId, RecursiveFunc>,
+  context = 0
 ): string {
+  const rec = (e: FormulaExpr, ctxPrec = 0) => renderFormulaExpr(e, constructors, functions, ctxPrec);
   switch (expr.kind) {
     case 'var':
       return expr.name;
@@ -377,26 +477,62 @@ export function renderFormulaExpr(
       const c = constructors.get(expr.constructorId);
       if (!c) return '?';
       if (expr.args.length === 0) return c.name;
-      return `${c.name}(${expr.args.map(a => renderFormulaExpr(a, constructors, functions)).join(', ')})`;
+      return `${c.name}(${expr.args.map(a => rec(a)).join(', ')})`;
     }
     case 'funcApp': {
       const f = functions.get(expr.funcId);
-      return `${f?.name || '?'}(${renderFormulaExpr(expr.arg, constructors, functions)})`;
+      return `${f?.name || '?'}(${rec(expr.arg)})`;
     }
     case 'int':
       return expr.value.toString();
     case 'emptySet':
       return '∅';
-    case 'add':
-      return `${renderFormulaExpr(expr.left, constructors, functions)} + ${renderFormulaExpr(expr.right, constructors, functions)}`;
-    case 'sub':
-      return `${renderFormulaExpr(expr.left, constructors, functions)} - ${renderFormulaExpr(expr.right, constructors, functions)}`;
-    case 'mul':
-      return `${renderFormulaExpr(expr.left, constructors, functions)} × ${renderFormulaExpr(expr.right, constructors, functions)}`;
     case 'max':
-      return `max(${renderFormulaExpr(expr.left, constructors, functions)}, ${renderFormulaExpr(expr.right, constructors, functions)})`;
     case 'min':
-      return `min(${renderFormulaExpr(expr.left, constructors, functions)}, ${renderFormulaExpr(expr.right, constructors, functions)})`;
+      return `${expr.kind}(${rec(expr.left)}, ${rec(expr.right)})`;
+    case 'funcAppMulti': {
+      const f = functions.get(expr.funcId);
+      return `${f?.name || '?'}(${expr.args.map(a => rec(a)).join(', ')})`;
+    }
+    case 'singleton':
+      return `{${rec(expr.element)}}`;
+    case 'if':
+      return `(if ${renderFormulaCond(expr.cond, constructors, functions)} then ${rec(expr.then)} else ${rec(expr.else)})`;
+    default: {
+      // Left-associative: the right operand binds tighter. Set operations
+      // have no customary order among themselves, so a mix is always grouped
+      const precedence = FORMULA_PRECEDENCE[expr.kind];
+      const mixed = SET_OPERATORS.has(expr.kind) && SET_OPERATORS.has(expr.left.kind) && expr.left.kind !== expr.kind;
+      const text = `${rec(expr.left, mixed ? precedence + 1 : precedence)} ${FORMULA_OPERATORS[expr.kind]} ${rec(expr.right, precedence + 1)}`;
+      return precedence < context ? `(${text})` : text;
+    }
+  }
+}
+
+const FORMULA_COND_SYMBOLS = {
+  eq: '=', neq: '≠', lt: '<', leq: '≤', gt: '>', geq: '≥', atomEq: '=', atomNeq: '≠', subset: '⊆',
+};
+
+function renderFormulaCond(
+  cond: FormulaCond,
+  constructors: Map<ConstructorId, Constructor>,
+  functions: Map<RecFuncId, RecursiveFunc>
+): string {
+  const expr = (e: FormulaExpr) => renderFormulaExpr(e, constructors, functions);
+  const sub = (c: FormulaCond) => renderFormulaCond(c, constructors, functions);
+  switch (cond.kind) {
+    case 'in':
+      return `${expr(cond.element)} ∈ ${expr(cond.set)}`;
+    case 'isEmpty':
+      return `${expr(cond.set)} = ∅`;
+    case 'and':
+      return `(${sub(cond.left)} ∧ ${sub(cond.right)})`;
+    case 'or':
+      return `(${sub(cond.left)} ∨ ${sub(cond.right)})`;
+    case 'not':
+      return `¬${sub(cond.cond)}`;
+    default:
+      return `${expr(cond.left)} ${FORMULA_COND_SYMBOLS[cond.kind]} ${expr(cond.right)}`;
   }
 }
 
@@ -1160,6 +1296,64 @@ function evaluatePredicate(
   }
 }
 
+/**
+ * Evaluate a rule side condition on instantiated terms.
+ * `termEnv` maps meta-variable names to their terms; it supplies the variables
+ * of the compared expression and the extra arguments of multi-arg functions.
+ * Returns null when the condition cannot be decided (unknown function,
+ * missing bindings, non-atom set elements).
+ */
+export function evaluateSideCondition(
+  pred: RuleFuncPredicate,
+  arg: Term,
+  element: Term | null,
+  termEnv: Map<string, Term>,
+  functions: Map<RecFuncId, RecursiveFunc>,
+  constructors: Map<ConstructorId, Constructor>
+): { holds: boolean; value: FuncValue } | null {
+  const func = functions.get(pred.funcId);
+  if (!func) return null;
+
+  const value = func.extraArgs.length > 0
+    ? evaluateFuncMulti(func, arg, termEnv, functions, constructors)
+    : evaluateFunc(func, arg, functions, constructors);
+  if (value === null) return null;
+
+  const compare = (test: (left: number, right: number) => boolean): boolean | null => {
+    if (!('value' in pred)) return null;
+    const right = evaluateExpr(pred.value, termEnv, functions, constructors, func);
+    if (typeof value === 'number' && typeof right === 'number') return test(value, right);
+    if (pred.kind !== 'eq' && pred.kind !== 'neq') return null;
+    // Sets can be compared for (in)equality too
+    if (value instanceof Set && right instanceof Set) {
+      const equal = value.size === right.size && [...value].every(x => right.has(x));
+      return pred.kind === 'eq' ? equal : !equal;
+    }
+    return null;
+  };
+
+  let holds: boolean | null;
+  switch (pred.kind) {
+    case 'eq': holds = compare((l, r) => l === r); break;
+    case 'neq': holds = compare((l, r) => l !== r); break;
+    case 'lt': holds = compare((l, r) => l < r); break;
+    case 'leq': holds = compare((l, r) => l <= r); break;
+    case 'gt': holds = compare((l, r) => l > r); break;
+    case 'geq': holds = compare((l, r) => l >= r); break;
+    case 'isEmpty':
+    case 'notEmpty':
+      holds = value instanceof Set ? (value.size === 0) === (pred.kind === 'isEmpty') : null;
+      break;
+    case 'in':
+    case 'notIn':
+      holds = value instanceof Set && element?.isVariable && element.variableName
+        ? value.has(element.variableName) === (pred.kind === 'in')
+        : null;
+      break;
+  }
+  return holds === null ? null : { holds, value };
+}
+
 /**
  * Render a function expression as a string
  */
@@ -1302,6 +1496,210 @@ export function renderRulePredicate(
   }
 }
 
+// ============================================================================
+// Sort Checking
+// ============================================================================
+
+/**
+ * What a formula expression denotes: a term of a sort, an integer, or a set
+ * of atoms (of unknown sort for ∅)
+ */
+export type ExprSort =
+  | { kind: 'sort'; sortId: SortId }
+  | { kind: 'int' }
+  | { kind: 'set'; elementSortId: SortId | null };
+
+/**
+ * The definitions expressions are sort-checked against
+ */
+export type SortCheckContext = {
+  sorts: Map<SortId, Sort>;
+  constructors: Map<ConstructorId, Constructor>;
+  functions: Map<RecFuncId, RecursiveFunc>;
+};
+
+export function renderExprSort(sort: ExprSort, sorts: Map<SortId, Sort>): string {
+  const name = (id: SortId | null) => (id && sorts.get(id)?.name) || '?';
+  switch (sort.kind) {
+    case 'sort':
+      return name(sort.sortId);
+    case 'int':
+      return 'int';
+    case 'set':
+      return `set of ${name(sort.elementSortId)}`;
+  }
+}
+
+function exprSortsAgree(a: ExprSort, b: ExprSort): boolean {
+  if (a.kind === 'sort' && b.kind === 'sort') return a.sortId === b.sortId;
+  if (a.kind === 'set' && b.kind === 'set') {
+    return a.elementSortId === null || b.elementSortId === null || a.elementSortId === b.elementSortId;
+  }
+  return a.kind === b.kind;
+}
+
+function funcResultSort(func: RecursiveFunc): ExprSort {
+  switch (func.returnType.kind) {
+    case 'int':
+      return { kind: 'int' };
+    case 'set':
+      return { kind: 'set', elementSortId: func.returnType.elementSortId };
+    case 'inductive':
+      return { kind: 'sort', sortId: func.returnType.sortId };
+  }
+}
+
+/**
+ * Infer the sort of an expression whose variables have the sorts in
+ * `variables`. Fails on an unknown variable, constructor or function, or on
+ * an argument of the wrong sort.
+ */
+export function inferExprSort(
+  expr: FormulaExpr,
+  variables: Map<string, SortId>,
+  ctx: SortCheckContext
+): ExprSort | { error: string } {
+  const render = (e: FormulaExpr) => renderFormulaExpr(e, ctx.constructors, ctx.functions);
+  const infer = (e: FormulaExpr) => inferExprSort(e, variables, ctx);
+  const check = (e: FormulaExpr, expected: ExprSort) => checkExprSort(e, expected, variables, ctx);
+  const checkAll = (pairs: [FormulaExpr, ExprSort][]): { error: string } | null => {
+    for (const [e, expected] of pairs) {
+      const error = check(e, expected);
+      if (error) return { error };
+    }
+    return null;
+  };
+  const INT: ExprSort = { kind: 'int' };
+
+  switch (expr.kind) {
+    case 'var': {
+      const sortId = variables.get(expr.name);
+      return sortId ? { kind: 'sort', sortId } : { error: `Unknown variable ${expr.name}` };
+    }
+    case 'constructor': {
+      const c = ctx.constructors.get(expr.constructorId);
+      if (!c) return { error: 'Unknown constructor' };
+      if (c.args.length !== expr.args.length) return { error: `${c.name} takes ${c.args.length} argument(s)` };
+      return checkAll(expr.args.map((a, i) => [a, { kind: 'sort', sortId: c.args[i].sortId }]))
+        ?? { kind: 'sort', sortId: c.sortId };
+    }
+    case 'funcApp':
+    case 'funcAppMulti': {
+      const func = ctx.functions.get(expr.funcId);
+      if (!func) return { error: 'Unknown function' };
+      const args = expr.kind === 'funcApp' ? [expr.arg] : expr.args;
+      const argSorts = [func.inputSortId, ...func.extraArgs.map(a => a.sortId)];
+      if (args.length !== argSorts.length) return { error: `${func.name} takes ${argSorts.length} argument(s)` };
+      return checkAll(args.map((a, i) => [a, { kind: 'sort', sortId: argSorts[i] }])) ?? funcResultSort(func);
+    }
+    case 'int':
+      return INT;
+    case 'emptySet':
+      return { kind: 'set', elementSortId: null };
+    case 'singleton': {
+      const element = infer(expr.element);
+      if ('error' in element) return element;
+      if (element.kind !== 'sort') return { error: `${render(expr.element)} is not an atom` };
+      return { kind: 'set', elementSortId: element.sortId };
+    }
+    case 'add':
+    case 'sub':
+    case 'mul':
+    case 'max':
+    case 'min':
+      return checkAll([[expr.left, INT], [expr.right, INT]]) ?? INT;
+    case 'union':
+    case 'intersect':
+    case 'diff': {
+      const left = infer(expr.left);
+      if ('error' in left) return left;
+      if (left.kind !== 'set') return { error: `${render(expr.left)} is not a set` };
+      const right = infer(expr.right);
+      if ('error' in right) return right;
+      if (!exprSortsAgree(left, right)) {
+        return { error: `${render(expr.right)} has sort ${renderExprSort(right, ctx.sorts)}, expected ${renderExprSort(left, ctx.sorts)}` };
+      }
+      return left.elementSortId === null ? right : left;
+    }
+    case 'if': {
+      const error = checkFormulaCondSorts(expr.cond, variables, ctx);
+      if (error) return { error };
+      const then = infer(expr.then);
+      if ('error' in then) return then;
+      return checkAll([[expr.else, then]]) ?? then;
+    }
+  }
+}
+
+/**
+ * Check that an expression has the expected sort. Null if it does, else why not.
+ */
+export function checkExprSort(
+  expr: FormulaExpr,
+  expected: ExprSort,
+  variables: Map<string, SortId>,
+  ctx: SortCheckContext
+): string | null {
+  const actual = inferExprSort(expr, variables, ctx);
+  if ('error' in actual) return actual.error;
+  if (exprSortsAgree(actual, expected)) return null;
+  const rendered = renderFormulaExpr(expr, ctx.constructors, ctx.functions);
+  return `${rendered} has sort ${renderExprSort(actual, ctx.sorts)}, expected ${renderExprSort(expected, ctx.sorts)}`;
+}
+
+/**
+ * Check the expressions of an `if` condition. Null if they are well-sorted.
+ */
+export function checkFormulaCondSorts(
+  cond: FormulaCond,
+  variables: Map<string, SortId>,
+  ctx: SortCheckContext
+): string | null {
+  const same = (left: FormulaExpr, right: FormulaExpr, required?: ExprSort['kind']): string | null => {
+    const sort = inferExprSort(left, variables, ctx);
+    if ('error' in sort) return sort.error;
+    if (required && sort.kind !== required) {
+      return `${renderFormulaExpr(left, ctx.constructors, ctx.functions)} has sort ${renderExprSort(sort, ctx.sorts)}`;
+    }
+    return checkExprSort(right, sort, variables, ctx);
+  };
+  switch (cond.kind) {
+    case 'eq':
+    case 'neq':
+      return same(cond.left, cond.right);
+    case 'lt':
+    case 'leq':
+    case 'gt':
+    case 'geq':
+      return same(cond.left, cond.right, 'int');
+    case 'atomEq':
+    case 'atomNeq':
+      return same(cond.left, cond.right, 'sort');
+    case 'subset':
+      return same(cond.left, cond.right, 'set');
+    case 'in': {
+      const element = inferExprSort(cond.element, variables, ctx);
+      if ('error' in element) return element.error;
+      if (element.kind !== 'sort') return `${renderFormulaExpr(cond.element, ctx.constructors, ctx.functions)} is not an atom`;
+      return checkExprSort(cond.set, { kind: 'set', elementSortId: element.sortId }, variables, ctx);
+    }
+    case 'isEmpty':
+      return checkExprSort(cond.set, { kind: 'set', elementSortId: null }, variables, ctx);
+    case 'and':
+    case 'or':
+      return checkFormulaCondSorts(cond.left, variables, ctx) ?? checkFormulaCondSorts(cond.right, variables, ctx);
+    case 'not':
+      return checkFormulaCondSorts(cond.cond, variables, ctx);
+  }
+}
+
+/**
+ * The sorts of the variables of a context; later ones shadow earlier ones
+ */
+export function contextSorts(context: ProofContext): Map<string, SortId> {
+  return new Map(context.variables.map(v => [v.name, v.sortId]));
+}
+
 // ============================================================================
 // Tactic Application (Proof Assistant Core)
 // ============================================================================
@@ -1311,39 +1709,81 @@ export type TacticResult =
   | { success: false; error: string };
 
 /**
- * Substitute a variable in a formula with an expression
+ * Rebuild an expression with `fn` applied to its immediate subexpressions,
+ * including those in the condition of an `if`
  */
-function substituteFormulaExpr(expr: FormulaExpr, varName: string, replacement: FormulaExpr): FormulaExpr {
+function mapFormulaExprChildren(expr: FormulaExpr, fn: (e: FormulaExpr) => FormulaExpr): FormulaExpr {
   switch (expr.kind) {
     case 'var':
-      return expr.name === varName ? replacement : expr;
+    case 'int':
+    case 'emptySet':
+      return expr;
     case 'constructor':
-      return { ...expr, args: expr.args.map(a => substituteFormulaExpr(a, varName, replacement)) };
+    case 'funcAppMulti':
+      return { ...expr, args: expr.args.map(fn) };
     case 'funcApp':
-      return { ...expr, arg: substituteFormulaExpr(expr.arg, varName, replacement) };
+      return { ...expr, arg: fn(expr.arg) };
+    case 'singleton':
+      return { ...expr, element: fn(expr.element) };
     case 'add':
-      return { kind: 'add', left: substituteFormulaExpr(expr.left, varName, replacement), right: substituteFormulaExpr(expr.right, varName, replacement) };
     case 'sub':
-      return { kind: 'sub', left: substituteFormulaExpr(expr.left, varName, replacement), right: substituteFormulaExpr(expr.right, varName, replacement) };
     case 'mul':
-      return { kind: 'mul', left: substituteFormulaExpr(expr.left, varName, replacement), right: substituteFormulaExpr(expr.right, varName, replacement) };
     case 'max':
-      return { kind: 'max', left: substituteFormulaExpr(expr.left, varName, replacement), right: substituteFormulaExpr(expr.right, varName, replacement) };
     case 'min':
-      return { kind: 'min', left: substituteFormulaExpr(expr.left, varName, replacement), right: substituteFormulaExpr(expr.right, varName, replacement) };
+    case 'union':
+    case 'intersect':
+    case 'diff':
+      return { ...expr, left: fn(expr.left), right: fn(expr.right) };
+    case 'if':
+      return { ...expr, cond: mapFormulaCondExprs(expr.cond, fn), then: fn(expr.then), else: fn(expr.else) };
+  }
+}
+
+function mapFormulaCondExprs(cond: FormulaCond, fn: (e: FormulaExpr) => FormulaExpr): FormulaCond {
+  switch (cond.kind) {
+    case 'in':
+      return { ...cond, element: fn(cond.element), set: fn(cond.set) };
+    case 'isEmpty':
+      return { ...cond, set: fn(cond.set) };
+    case 'and':
+    case 'or':
+      return { ...cond, left: mapFormulaCondExprs(cond.left, fn), right: mapFormulaCondExprs(cond.right, fn) };
+    case 'not':
+      return { kind: 'not', cond: mapFormulaCondExprs(cond.cond, fn) };
     default:
-      return expr;
+      return { ...cond, left: fn(cond.left), right: fn(cond.right) };
   }
 }
 
+function formulaExprChildren(expr: FormulaExpr): FormulaExpr[] {
+  const children: FormulaExpr[] = [];
+  mapFormulaExprChildren(expr, e => { children.push(e); return e; });
+  return children;
+}
+
+/**
+ * Substitute a variable in a formula with an expression. Binders that would
+ * capture a variable of the expression are renamed.
+ */
+function substituteFormulaExpr(expr: FormulaExpr, varName: string, replacement: FormulaExpr): FormulaExpr {
+  if (expr.kind === 'var') return expr.name === varName ? replacement : expr;
+  return mapFormulaExprChildren(expr, e => substituteFormulaExpr(e, varName, replacement));
+}
+
 function substituteFormula(formula: Formula, varName: string, replacement: FormulaExpr): Formula {
   switch (formula.kind) {
     case 'forall':
+    case 'exists': {
       if (formula.varName === varName) return formula; // Shadowed
-      return { ...formula, body: substituteFormula(formula.body, varName, replacement) };
-    case 'exists':
-      if (formula.varName === varName) return formula; // Shadowed
-      return { ...formula, body: substituteFormula(formula.body, varName, replacement) };
+      const captures = (name: string) => exprMentions(replacement, new Set([name]));
+      if (!captures(formula.varName) || !mentionsVariable(formula.body, varName)) {
+        return { ...formula, body: substituteFormula(formula.body, varName, replacement) };
+      }
+      let fresh = formula.varName + "'";
+      while (captures(fresh) || mentionsVariable(formula.body, fresh)) fresh += "'";
+      const body = substituteFormula(formula.body, formula.varName, { kind: 'var', name: fresh });
+      return { ...formula, varName: fresh, body: substituteFormula(body, varName, replacement) };
+    }
     case 'implies':
       return { kind: 'implies', left: substituteFormula(formula.left, varName, replacement), right: substituteFormula(formula.right, varName, replacement) };
     case 'and':
@@ -1380,6 +1820,10 @@ function substituteFormula(formula: Formula, varName: string, replacement: Formu
   }
 }
 
+function mentionsVariable(formula: Formula, name: string): boolean {
+  return !formulaEqual(substituteFormula(formula, name, { kind: 'var', name: '?' }), formula);
+}
+
 /**
  * Check if two formula expressions are syntactically equal
  */
@@ -1400,22 +1844,59 @@ function formulaExprEqual(a: FormulaExpr, b: FormulaExpr): boolean {
       return (b as typeof a).value === a.value;
     case 'emptySet':
       return true;
+    case 'funcAppMulti': {
+      const bm = b as typeof a;
+      return a.funcId === bm.funcId && a.args.length === bm.args.length &&
+             a.args.every((arg, i) => formulaExprEqual(arg, bm.args[i]));
+    }
+    case 'singleton':
+      return formulaExprEqual(a.element, (b as typeof a).element);
     case 'add':
     case 'sub':
     case 'mul':
     case 'max':
     case 'min':
+    case 'union':
+    case 'intersect':
+    case 'diff':
       const bb = b as typeof a;
       return formulaExprEqual(a.left, bb.left) && formulaExprEqual(a.right, bb.right);
+    case 'if': {
+      const bi = b as typeof a;
+      return formulaCondEqual(a.cond, bi.cond) && formulaExprEqual(a.then, bi.then) && formulaExprEqual(a.else, bi.else);
+    }
     default:
       return false;
   }
 }
 
+function formulaCondEqual(a: FormulaCond, b: FormulaCond): boolean {
+  if (a.kind !== b.kind) return false;
+  switch (a.kind) {
+    case 'in': {
+      const bi = b as typeof a;
+      return formulaExprEqual(a.element, bi.element) && formulaExprEqual(a.set, bi.set);
+    }
+    case 'isEmpty':
+      return formulaExprEqual(a.set, (b as typeof a).set);
+    case 'and':
+    case 'or': {
+      const bc = b as typeof a;
+      return formulaCondEqual(a.left, bc.left) && formulaCondEqual(a.right, bc.right);
+    }
+    case 'not':
+      return formulaCondEqual(a.cond, (b as typeof a).cond);
+    default: {
+      const bc = b as typeof a;
+      return formulaExprEqual(a.left, bc.left) && formulaExprEqual(a.right, bc.right);
+    }
+  }
+}
+
 /**
  * Check if two formulas are syntactically equal
  */
-function formulaEqual(a: Formula, b: Formula): boolean {
+export function formulaEqual(a: Formula, b: Formula): boolean {
   if (a.kind !== b.kind) return false;
   switch (a.kind) {
     case 'forall':
@@ -1507,11 +1988,93 @@ function evalExprToNumber(expr: FormulaExpr): number | null {
       if (l !== null && r !== null) return Math.min(l, r);
       return null;
     }
+    case 'if': {
+      const decided = decideFormulaCond(expr.cond);
+      return decided === null ? null : evalExprToNumber(decided ? expr.then : expr.else);
+    }
+    default:
+      return null;
+  }
+}
+
+// The atoms of a set built from ∅, {x} and ∪, or null for other sets
+function explicitSetElements(expr: FormulaExpr): string[] | null {
+  switch (expr.kind) {
+    case 'emptySet':
+      return [];
+    case 'singleton':
+      return expr.element.kind === 'var' ? [expr.element.name] : null;
+    case 'union': {
+      const left = explicitSetElements(expr.left);
+      const right = explicitSetElements(expr.right);
+      return left && right ? [...left, ...right] : null;
+    }
     default:
       return null;
   }
 }
 
+/**
+ * Decide the condition of an `if` when its arguments are values.
+ * Distinct atom variables may denote the same atom, so they are only
+ * known to be equal when they are the same variable.
+ */
+function decideFormulaCond(cond: FormulaCond): boolean | null {
+  switch (cond.kind) {
+    case 'eq':
+    case 'neq':
+    case 'lt':
+    case 'leq':
+    case 'gt':
+    case 'geq': {
+      const l = evalExprToNumber(cond.left);
+      const r = evalExprToNumber(cond.right);
+      if (l !== null && r !== null) {
+        const kinds = { eq: 'numEq', neq: 'numNeq', lt: 'numLt', leq: 'numLeq', gt: 'numGt', geq: 'numGeq' } as const;
+        return decideComparison(kinds[cond.kind], l, r);
+      }
+      if (cond.kind !== 'eq' && cond.kind !== 'neq') return null;
+      const equal = decideTermEq(cond.left, cond.right);
+      return equal === null ? null : equal === (cond.kind === 'eq');
+    }
+    case 'atomEq':
+    case 'atomNeq':
+      return formulaExprEqual(cond.left, cond.right) ? cond.kind === 'atomEq' : null;
+    case 'in': {
+      const elements = explicitSetElements(cond.set);
+      if (!elements) return null;
+      if (cond.element.kind === 'var' && elements.includes(cond.element.name)) return true;
+      return elements.length === 0 ? false : null;
+    }
+    case 'isEmpty': {
+      const elements = explicitSetElements(cond.set);
+      return elements ? elements.length === 0 : null;
+    }
+    case 'subset': {
+      const left = explicitSetElements(cond.left);
+      const right = explicitSetElements(cond.right);
+      if (left?.length === 0) return true;
+      return left && right && left.every(x => right.includes(x)) ? true : null;
+    }
+    case 'and': {
+      const l = decideFormulaCond(cond.left);
+      const r = decideFormulaCond(cond.right);
+      if (l === false || r === false) return false;
+      return l && r ? true : null;
+    }
+    case 'or': {
+      const l = decideFormulaCond(cond.left);
+      const r = decideFormulaCond(cond.right);
+      if (l === true || r === true) return true;
+      return l === false && r === false ? false : null;
+    }
+    case 'not': {
+      const body = decideFormulaCond(cond.cond);
+      return body === null ? null : !body;
+    }
+  }
+}
+
 /**
  * Simplify an expression by evaluating constant subexpressions.
  */
@@ -1582,16 +2145,43 @@ function simplifyExpr(expr: FormulaExpr): FormulaExpr {
       if (lv !== null && rv !== null) return { kind: 'int', value: Math.min(lv, rv) };
       return { kind: 'min', left, right };
     }
-    case 'funcApp':
-      return { kind: 'funcApp', funcId: expr.funcId, arg: simplifyExpr(expr.arg) };
-    case 'constructor':
-      return { kind: 'constructor', constructorId: expr.constructorId, args: expr.args.map(simplifyExpr) };
-    default:
-      return expr;
-  }
-}
-
-/**
+    case 'union': {
+      const left = simplifyExpr(expr.left);
+      const right = simplifyExpr(expr.right);
+      // ∅ ∪ s = s, s ∪ ∅ = s, s ∪ s = s
+      if (left.kind === 'emptySet') return right;
+      if (right.kind === 'emptySet' || formulaExprEqual(left, right)) return left;
+      return { kind: 'union', left, right };
+    }
+    case 'intersect': {
+      const left = simplifyExpr(expr.left);
+      const right = simplifyExpr(expr.right);
+      // ∅ ∩ s = ∅, s ∩ ∅ = ∅, s ∩ s = s
+      if (left.kind === 'emptySet' || formulaExprEqual(left, right)) return left;
+      if (right.kind === 'emptySet') return right;
+      return { kind: 'intersect', left, right };
+    }
+    case 'diff': {
+      const left = simplifyExpr(expr.left);
+      const right = simplifyExpr(expr.right);
+      // ∅ \ s = ∅, s \ ∅ = s, s \ s = ∅
+      if (left.kind === 'emptySet' || right.kind === 'emptySet') return left;
+      if (formulaExprEqual(left, right)) return { kind: 'emptySet' };
+      return { kind: 'diff', left, right };
+    }
+    case 'if': {
+      // Take the branch when the condition is decided
+      const cond = mapFormulaCondExprs(expr.cond, simplifyExpr);
+      const decided = decideFormulaCond(cond);
+      if (decided !== null) return simplifyExpr(decided ? expr.then : expr.else);
+      return { kind: 'if', cond, then: simplifyExpr(expr.then), else: simplifyExpr(expr.else) };
+    }
+    default:
+      return mapFormulaExprChildren(expr, simplifyExpr);
+  }
+}
+
+/**
  * Result of simplifying a formula
  */
 type SimplifyResult = {
@@ -1600,171 +2190,79 @@ type SimplifyResult = {
   message?: string;     // Description of what was done
 };
 
-/**
- * Check if an expression is provably non-negative given hypotheses.
- * Returns true if we can prove expr ≥ 0, false otherwise.
- */
-function isNonNegative(expr: FormulaExpr, hypotheses: ProofHypothesis[]): boolean {
-  // Constant check
-  const val = evalExprToNumber(expr);
-  if (val !== null) return val >= 0;
-  
-  // Check if expr ≥ 0 is directly in hypotheses
-  for (const h of hypotheses) {
-    if (h.formula.kind === 'numGeq') {
-      if (formulaExprEqual(h.formula.left, expr)) {
-        const rv = evalExprToNumber(h.formula.right);
-        if (rv !== null && rv <= 0) return true; // expr ≥ something ≤ 0
-      }
-    }
-    if (h.formula.kind === 'numGt') {
-      if (formulaExprEqual(h.formula.left, expr)) {
-        const rv = evalExprToNumber(h.formula.right);
-        if (rv !== null && rv < 0) return true; // expr > something < 0
-      }
-    }
-  }
-  
-  // Recursive cases
-  switch (expr.kind) {
-    case 'add': {
-      // a + b ≥ 0 if a ≥ 0 and b ≥ 0
-      if (isNonNegative(expr.left, hypotheses) && isNonNegative(expr.right, hypotheses)) {
-        return true;
-      }
-      break;
-    }
-    case 'mul': {
-      // a * b ≥ 0 if both are non-negative
-      if (isNonNegative(expr.left, hypotheses) && isNonNegative(expr.right, hypotheses)) {
-        return true;
-      }
-      break;
-    }
-    case 'max': {
-      // max(a, b) ≥ 0 if either a ≥ 0 or b ≥ 0
-      if (isNonNegative(expr.left, hypotheses) || isNonNegative(expr.right, hypotheses)) {
-        return true;
-      }
-      break;
-    }
-    case 'min': {
-      // min(a, b) ≥ 0 if both a ≥ 0 and b ≥ 0
-      if (isNonNegative(expr.left, hypotheses) && isNonNegative(expr.right, hypotheses)) {
-        return true;
-      }
-      break;
-    }
-  }
-  
-  return false;
+// Function applications anywhere in the expressions of a formula
+function formulaApplications(formula: Formula): FormulaExpr[] {
+  const found: FormulaExpr[] = [];
+  const visit = (e: FormulaExpr) => {
+    if (e.kind === 'funcApp' || e.kind === 'funcAppMulti') found.push(e);
+    formulaExprChildren(e).forEach(visit);
+  };
+  mapFormulaExprs(formula, e => { visit(e); return e; });
+  return found;
 }
 
+const MAX_HYPOTHESIS_INSTANCES = 32;
+
 /**
- * Check if an expression is provably positive given hypotheses.
- * Returns true if we can prove expr > 0, false otherwise.
+ * Facts for linear arithmetic: the hypotheses, with universally quantified
+ * ones instantiated wherever one of their function applications matches an
+ * application in the goal or in another hypothesis.
  */
-function isPositive(expr: FormulaExpr, hypotheses: ProofHypothesis[]): boolean {
-  const val = evalExprToNumber(expr);
-  if (val !== null) return val > 0;
-  
-  // Check hypotheses
+function arithmeticFacts(goal: Formula, hypotheses: ProofHypothesis[]): { name: string; formula: Formula }[] {
+  const facts = hypotheses.filter(h => h.formula.kind !== 'forall').map(h => ({ name: h.name, formula: h.formula }));
+  const targets = [goal, ...facts.map(f => f.formula)].flatMap(formulaApplications);
+
   for (const h of hypotheses) {
-    if (h.formula.kind === 'numGt' && formulaExprEqual(h.formula.left, expr)) {
-      const rv = evalExprToNumber(h.formula.right);
-      if (rv !== null && rv >= 0) return true;
+    if (h.formula.kind !== 'forall') continue;
+    const vars: string[] = [];
+    let body: Formula = h.formula;
+    while (body.kind === 'forall') {
+      const fresh = `?${vars.length}`;
+      vars.push(fresh);
+      body = substituteFormula(body.body, body.varName, { kind: 'var', name: fresh });
     }
-    if (h.formula.kind === 'numGeq' && formulaExprEqual(h.formula.left, expr)) {
-      const rv = evalExprToNumber(h.formula.right);
-      if (rv !== null && rv > 0) return true;
+    const flexible = new Set(vars);
+    const patterns = formulaApplications(body).filter(p => exprMentions(p, flexible));
+
+    const instances = new Map<string, Formula>();
+    for (const pattern of patterns) {
+      for (const target of targets) {
+        if (instances.size >= MAX_HYPOTHESIS_INSTANCES) break;
+        const mgu = unify(formulaExprToOpen(pattern, flexible), formulaExprToOpen(target, new Set()), new Map());
+        if (!mgu) continue;
+        const values = vars.map(v => openToFormulaExpr({ kind: 'var', name: v }, mgu));
+        if (values.some(v => v === null)) continue;
+        const instance = vars.reduce<Formula>((f, v, i) => substituteFormula(f, v, values[i] as FormulaExpr), body);
+        instances.set(JSON.stringify(instance), instance);
+      }
     }
+    for (const formula of instances.values()) facts.push({ name: h.name, formula });
   }
-  
-  // positive + non-negative = positive
-  if (expr.kind === 'add') {
-    if (isPositive(expr.left, hypotheses) && isNonNegative(expr.right, hypotheses)) return true;
-    if (isNonNegative(expr.left, hypotheses) && isPositive(expr.right, hypotheses)) return true;
-  }
-  
-  return false;
+  return facts;
 }
 
 /**
- * Check if we can prove left ≥ right given hypotheses.
+ * Decide a goal of linear integer arithmetic from the hypotheses. A goal
+ * outside arithmetic is still closed when the arithmetic hypotheses are
+ * contradictory.
  */
-function canProveGeq(left: FormulaExpr, right: FormulaExpr, hypotheses: ProofHypothesis[]): boolean {
-  // Check if it's in hypotheses directly
-  for (const h of hypotheses) {
-    if (h.formula.kind === 'numGeq' && 
-        formulaExprEqual(h.formula.left, left) && 
-        formulaExprEqual(h.formula.right, right)) {
-      return true;
-    }
-    // left > right implies left ≥ right
-    if (h.formula.kind === 'numGt' && 
-        formulaExprEqual(h.formula.left, left) && 
-        formulaExprEqual(h.formula.right, right)) {
-      return true;
-    }
-  }
-  
-  // Reflexivity
-  if (formulaExprEqual(left, right)) return true;
-  
-  // Constants
-  const lv = evalExprToNumber(left);
-  const rv = evalExprToNumber(right);
-  if (lv !== null && rv !== null) return lv >= rv;
-  
-  // If right = 0, check if left is non-negative
-  if (rv !== null && rv === 0) {
-    return isNonNegative(left, hypotheses);
-  }
-  
-  // a + c ≥ b where we know a ≥ b and c ≥ 0
-  if (left.kind === 'add') {
-    if (canProveGeq(left.left, right, hypotheses) && isNonNegative(left.right, hypotheses)) return true;
-    if (canProveGeq(left.right, right, hypotheses) && isNonNegative(left.left, hypotheses)) return true;
-  }
-  
-  return false;
+function tryLinearArithmetic(formula: Formula, hypotheses: ProofHypothesis[]): ArithResult | null {
+  const facts = arithmeticFacts(formula, hypotheses);
+  const result = decideLinearArithmetic(formula, facts);
+  if (result) return result;
+  const inconsistent = decideLinearArithmetic({ kind: 'false' }, facts);
+  return inconsistent?.kind === 'valid' ? inconsistent : null;
 }
 
-/**
- * Try to solve a goal using hypotheses (linear arithmetic reasoning).
- */
-function tryLinearArithmetic(formula: Formula, hypotheses: ProofHypothesis[]): SimplifyResult {
-  switch (formula.kind) {
-    case 'numGeq':
-      if (canProveGeq(formula.left, formula.right, hypotheses)) {
-        return { solved: true, message: 'By arithmetic reasoning' };
-      }
-      break;
-    case 'numGt': {
-      const rv = evalExprToNumber(formula.right);
-      // left > 0 if left is positive
-      if (rv !== null && rv === 0 && isPositive(formula.left, hypotheses)) {
-        return { solved: true, message: 'By arithmetic reasoning' };
-      }
-      // left > right if left ≥ right + 1 (for integers)
-      break;
-    }
-    case 'numLeq':
-      // left ≤ right is same as right ≥ left
-      if (canProveGeq(formula.right, formula.left, hypotheses)) {
-        return { solved: true, message: 'By arithmetic reasoning' };
-      }
-      break;
-    case 'numLt': {
-      // left < right is same as right > left
-      const lv = evalExprToNumber(formula.left);
-      if (lv !== null && lv === 0 && isPositive(formula.right, hypotheses)) {
-        return { solved: true, message: 'By arithmetic reasoning' };
-      }
-      break;
-    }
-  }
-  return { solved: false };
+// The certificate of a linear arithmetic proof, one combination per case
+function describeArithProof(result: ArithResult & { kind: 'valid' }): string {
+  const cases = result.cases.map(c =>
+    c.facts
+      .map(f => `${f.multiple === 1 ? '' : `${+f.multiple.toFixed(3)}·`}${f.name === 'goal' ? '¬goal' : f.name}`)
+      .join(' + ') + (c.rounded ? ', rounded' : '')
+  );
+  const distinct = [...new Set(cases)];
+  return distinct.length === 0 ? 'By linear arithmetic' : `By linear arithmetic: ${distinct.join('; ')}`;
 }
 
 /**
@@ -1927,13 +2425,32 @@ export function isGoalTrivial(
   
   // Check if it can be solved using hypotheses (linear arithmetic)
   const arithResult = tryLinearArithmetic(formula, hypotheses);
-  if (arithResult.solved) {
-    return { trivial: true, tactic: 'simplify', message: arithResult.message };
+  if (arithResult?.kind === 'valid') {
+    return { trivial: true, tactic: 'simplify', message: describeArithProof(arithResult) };
   }
   
   return { trivial: false };
 }
 
+/**
+ * Find hypotheses that contradict each other: ⊥, a pair P and ¬P, or t ≠ t.
+ * Returns a description of the contradiction, or null.
+ */
+export function findContradiction(hypotheses: ProofHypothesis[]): string | null {
+  for (const h of hypotheses) {
+    const f = h.formula;
+    if (f.kind === 'false') return `${h.name} is ⊥`;
+    if ((f.kind === 'termNeq' || f.kind === 'numNeq') && formulaExprEqual(f.left, f.right)) {
+      return `${h.name} denies reflexivity`;
+    }
+    if (f.kind === 'not') {
+      const positive = hypotheses.find(p => formulaEqual(p.formula, f.body));
+      if (positive) return `${positive.name} and ${h.name} contradict`;
+    }
+  }
+  return null;
+}
+
 /**
  * Try to match a FormulaExpr against a constructor pattern.
  * Returns a mapping from bound variable names to subexpressions if successful.
@@ -1980,6 +2497,7 @@ function funcExprToFormulaExpr(
   func: RecursiveFunc,
   functions: Map<RecFuncId, RecursiveFunc>
 ): FormulaExpr {
+  const rec = (e: FuncExpr) => funcExprToFormulaExpr(e, bindings, func, functions);
   switch (expr.kind) {
     case 'int':
       return { kind: 'int', value: expr.value };
@@ -1992,45 +2510,80 @@ function funcExprToFormulaExpr(
       return { kind: 'var', name: expr.name };
     }
     
-    case 'call': {
+    case 'call':
       // Recursive call - convert to funcApp
-      const argExpr = funcExprToFormulaExpr(expr.arg, bindings, func, functions);
-      return { kind: 'funcApp', funcId: expr.funcId, arg: argExpr };
-    }
+      return { kind: 'funcApp', funcId: expr.funcId, arg: rec(expr.arg) };
     
-    case 'add': {
-      const left = funcExprToFormulaExpr(expr.left, bindings, func, functions);
-      const right = funcExprToFormulaExpr(expr.right, bindings, func, functions);
-      return { kind: 'add', left, right };
-    }
+    case 'callMulti':
+      return { kind: 'funcAppMulti', funcId: expr.funcId, args: expr.args.map(rec) };
     
-    case 'sub': {
-      const left = funcExprToFormulaExpr(expr.left, bindings, func, functions);
-      const right = funcExprToFormulaExpr(expr.right, bindings, func, functions);
-      return { kind: 'sub', left, right };
-    }
+    case 'construct':
+      return { kind: 'constructor', constructorId: expr.constructorId, args: expr.args.map(rec) };
     
     case 'empty':
       return { kind: 'emptySet' };
     
-    // For operations not directly expressible in FormulaExpr, 
-    // we'd need to extend FormulaExpr or handle specially
+    case 'singleton':
+      return { kind: 'singleton', element: rec(expr.element) };
+    
+    case 'add':
+    case 'sub':
     case 'mul':
     case 'max':
     case 'min':
     case 'union':
     case 'intersect':
     case 'diff':
-    case 'singleton':
-    case 'if':
-      // For now, return a placeholder - these would need more work
-      return { kind: 'int', value: 0 };
+      return { kind: expr.kind, left: rec(expr.left), right: rec(expr.right) };
     
+    case 'if':
+      return {
+        kind: 'if',
+        cond: funcPredicateToFormulaCond(expr.cond, rec),
+        then: rec(expr.then),
+        else: rec(expr.else),
+      };
+  }
+}
+
+function funcPredicateToFormulaCond(pred: FuncPredicate, rec: (e: FuncExpr) => FormulaExpr): FormulaCond {
+  switch (pred.kind) {
+    case 'in':
+      return { kind: 'in', element: rec(pred.element), set: rec(pred.set) };
+    case 'isEmpty':
+      return { kind: 'isEmpty', set: rec(pred.set) };
+    case 'and':
+    case 'or':
+      return { kind: pred.kind, left: funcPredicateToFormulaCond(pred.left, rec), right: funcPredicateToFormulaCond(pred.right, rec) };
+    case 'not':
+      return { kind: 'not', cond: funcPredicateToFormulaCond(pred.pred, rec) };
     default:
-      return { kind: 'int', value: 0 };
+      return { kind: pred.kind, left: rec(pred.left), right: rec(pred.right) };
   }
 }
 
+/**
+ * Unfold one application of `func` whose principal argument is a
+ * constructor, binding the case's variables and the extra arguments.
+ */
+function unfoldApplication(
+  expr: FormulaExpr & { kind: 'funcApp' | 'funcAppMulti' },
+  func: RecursiveFunc,
+  constructors: Map<ConstructorId, Constructor>,
+  functions: Map<RecFuncId, RecursiveFunc>
+): FormulaExpr | null {
+  const args = expr.kind === 'funcApp' ? [expr.arg] : expr.args;
+  for (const funcCase of func.cases) {
+    const bindings = matchAgainstConstructor(args[0], funcCase.constructorId, funcCase.boundVars, constructors);
+    if (!bindings) continue;
+    func.extraArgs.forEach((arg, i) => {
+      if (args[i + 1]) bindings.set(arg.name, args[i + 1]);
+    });
+    return funcExprToFormulaExpr(funcCase.body, bindings, func, functions);
+  }
+  return null;
+}
+
 /**
  * Try to unfold a function application.
  * Returns the unfolded expression if successful, null otherwise.
@@ -2041,65 +2594,893 @@ function unfoldFuncApp(
   constructors: Map<ConstructorId, Constructor>,
   functions: Map<RecFuncId, RecursiveFunc>
 ): FormulaExpr | null {
-  // If this is a funcApp for the target function, try to unfold it
-  if (expr.kind === 'funcApp' && expr.funcId === targetFunc.id) {
-    // Try each case
-    for (const funcCase of targetFunc.cases) {
-      const bindings = matchAgainstConstructor(
-        expr.arg,
-        funcCase.constructorId,
-        funcCase.boundVars,
-        constructors
-      );
-      
-      if (bindings) {
-        // Found a matching case - substitute and return
-        return funcExprToFormulaExpr(funcCase.body, bindings, targetFunc, functions);
+  // If this is an application of the target function, try to unfold it
+  if ((expr.kind === 'funcApp' || expr.kind === 'funcAppMulti') && expr.funcId === targetFunc.id) {
+    return unfoldApplication(expr, targetFunc, constructors, functions);
+  }
+  
+  // Otherwise unfold the leftmost application among the subexpressions
+  const state = { unfolded: false };
+  const result = mapFormulaExprChildren(expr, child => {
+    if (state.unfolded) return child;
+    const unfolded = unfoldFuncApp(child, targetFunc, constructors, functions);
+    state.unfolded = unfolded !== null;
+    return unfolded ?? child;
+  });
+  return state.unfolded ? result : null;
+}
+
+/**
+ * Which application of the function an unfold step rewrites, counting the
+ * applications in the goal from 1, left to right (left side first), as Coq
+ * numbers occurrences. Null if the step has nothing to unfold.
+ */
+export function unfoldedOccurrence(
+  formula: Formula,
+  tactic: Tactic & { kind: 'unfold' },
+  constructors: Map<ConstructorId, Constructor>,
+  functions: Map<RecFuncId, RecursiveFunc>
+): number | null {
+  const func = functions.get(tactic.funcId);
+  if (!func) return null;
+  switch (formula.kind) {
+    case 'numEq':
+    case 'numNeq':
+    case 'numLeq':
+    case 'numLt':
+    case 'numGeq':
+    case 'numGt':
+    case 'termEq':
+    case 'termNeq':
+      break;
+    default:
+      return null;
+  }
+  let seen = 0;
+  let found: number | null = null;
+  const visit = (expr: FormulaExpr, searching: boolean): FormulaExpr => {
+    if ((expr.kind === 'funcApp' || expr.kind === 'funcAppMulti') && expr.funcId === func.id) {
+      seen++;
+      if (searching && unfoldApplication(expr, func, constructors, functions)) found = seen;
+      // Unfolding does not look inside an application it cannot unfold
+      searching = false;
+    }
+    return mapFormulaExprChildren(expr, child => visit(child, searching && found === null));
+  };
+  visit(formula.left, tactic.side === 'left');
+  visit(formula.right, tactic.side === 'right');
+  return found;
+}
+
+/**
+ * Instantiate a hypothesis ∀x⃗. P₁ → … → Pₖ → Q so that its conclusion is the
+ * goal, finding x⃗ by unification. Uses as many premises as possible.
+ * Null if no conclusion unifies with the goal; lists the variables that the
+ * goal does not determine.
+ */
+function instantiateHypothesis(
+  hyp: Formula,
+  goal: Formula
+): { premises: Formula[]; instantiation: [string, FormulaExpr][] } | { unresolved: string[] } | null {
+  // Rename the quantified variables apart from the goal's variables
+  const vars: { name: string; fresh: string }[] = [];
+  let body: Formula = hyp;
+  while (body.kind === 'forall') {
+    const fresh = `?${vars.length}`;
+    vars.push({ name: body.varName, fresh });
+    body = substituteFormula(body.body, body.varName, { kind: 'var', name: fresh });
+  }
+
+  const chain: Formula[] = [];
+  let conclusion: Formula = body;
+  while (conclusion.kind === 'implies') {
+    chain.push(conclusion.left);
+    conclusion = conclusion.right;
+  }
+
+  const flexible = new Set(vars.map(v => v.fresh));
+  const target = formulaToOpen(goal, new Set());
+  for (let k = chain.length; k >= 0; k--) {
+    // Conclusion after the first k premises
+    let candidate: Formula = conclusion;
+    for (let i = chain.length - 1; i >= k; i--) {
+      candidate = { kind: 'implies', left: chain[i], right: candidate };
+    }
+    const mgu = unify(formulaToOpen(candidate, flexible), target, new Map());
+    // The instantiation may not mention variables bound inside the formulas
+    if (!mgu || vars.some(v => mentionsBoundVariable({ kind: 'var', name: v.fresh }, mgu))) continue;
+
+    const instantiation: [string, FormulaExpr][] = [];
+    const unresolved: string[] = [];
+    for (const v of vars) {
+      const expr = openToFormulaExpr({ kind: 'var', name: v.fresh }, mgu);
+      if (expr) instantiation.push([v.name, expr]);
+      else unresolved.push(v.name);
+    }
+    if (unresolved.length > 0) return { unresolved };
+
+    const premises = chain.slice(0, k).map(p =>
+      vars.reduce((f, v, i) => substituteFormula(f, v.fresh, instantiation[i][1]), p)
+    );
+    return { premises, instantiation };
+  }
+  return null;
+}
+
+// Pick a name not in `taken` by priming the base name, and reserve it
+export function freshName(base: string, taken: Set<string>): string {
+  let name = base;
+  while (taken.has(name)) name += "'";
+  taken.add(name);
+  return name;
+}
+
+/**
+ * Substitute several variables at once. Replacements may mention the
+ * substituted names without being substituted again.
+ */
+function substituteFormulaAll(formula: Formula, replacements: [string, FormulaExpr][]): Formula {
+  const renamed = replacements.reduce(
+    (f, [name], i) => substituteFormula(f, name, { kind: 'var', name: `?${i}` }),
+    formula
+  );
+  return replacements.reduce((f, [, expr], i) => substituteFormula(f, `?${i}`, expr), renamed);
+}
+
+// Meta-variables of a rule in order of first occurrence. Null if the rule has empty placeholders.
+function ruleMetaVariableIds(rule: InferenceRule): string[] | null {
+  const ids: string[] = [];
+  const visit = (pattern: Pattern): boolean => {
+    if (pattern.metaVariableId) {
+      if (!ids.includes(pattern.metaVariableId)) ids.push(pattern.metaVariableId);
+      return true;
+    }
+    return !!pattern.constructorId && pattern.args.every(visit);
+  };
+  const patterns = [
+    ...rule.conclusion.args,
+    ...rule.premises.flatMap(p => p.args),
+    ...(rule.sideConditions || []).flatMap(c =>
+      c.predicate.kind === 'in' || c.predicate.kind === 'notIn' ? [c.predicate.element, c.predicate.arg] : [c.predicate.arg]
+    ),
+  ];
+  return patterns.every(visit) ? ids : null;
+}
+
+// A rule pattern as a formula expression, naming meta-variables by `names`
+function patternToFormulaExpr(pattern: Pattern, names: Map<string, string>): FormulaExpr {
+  if (pattern.metaVariableId) return { kind: 'var', name: names.get(pattern.metaVariableId) ?? '?' };
+  return {
+    kind: 'constructor',
+    constructorId: pattern.constructorId || '',
+    args: pattern.args.map(arg => patternToFormulaExpr(arg, names)),
+  };
+}
+
+// A rule's side condition as a formula, naming meta-variables by `names`
+function sideConditionToFormula(
+  pred: RuleFuncPredicate,
+  names: Map<string, string>,
+  metaVariables: Map<string, MetaVariable>,
+  functions: Map<RecFuncId, RecursiveFunc>
+): Formula {
+  const arg = patternToFormulaExpr(pred.arg, names);
+  const call: FormulaExpr = { kind: 'funcApp', funcId: pred.funcId, arg };
+  switch (pred.kind) {
+    case 'isEmpty':
+      return { kind: 'setEmpty', funcId: pred.funcId, arg };
+    case 'notEmpty':
+      return { kind: 'not', body: { kind: 'setEmpty', funcId: pred.funcId, arg } };
+    case 'in':
+      return { kind: 'setIn', element: patternToFormulaExpr(pred.element, names), funcId: pred.funcId, arg };
+    case 'notIn':
+      return { kind: 'not', body: { kind: 'setIn', element: patternToFormulaExpr(pred.element, names), funcId: pred.funcId, arg } };
+  }
+
+  // The compared expression refers to meta-variables by their names
+  const func = functions.get(pred.funcId);
+  const bindings = new Map<string, FormulaExpr>();
+  for (const [id, name] of names) {
+    const mv = metaVariables.get(id);
+    if (mv) bindings.set(mv.name, { kind: 'var', name });
+  }
+  const value = func ? funcExprToFormulaExpr(pred.value, bindings, func, functions) : { kind: 'int' as const, value: 0 };
+  const numeric = func?.returnType.kind === 'int';
+  switch (pred.kind) {
+    case 'eq': return numeric ? { kind: 'numEq', left: call, right: value } : { kind: 'termEq', left: call, right: value };
+    case 'neq': return numeric ? { kind: 'numNeq', left: call, right: value } : { kind: 'termNeq', left: call, right: value };
+    case 'lt': return { kind: 'numLt', left: call, right: value };
+    case 'leq': return { kind: 'numLeq', left: call, right: value };
+    case 'gt': return { kind: 'numGt', left: call, right: value };
+    case 'geq': return { kind: 'numGeq', left: call, right: value };
+  }
+}
+
+/**
+ * A case of rule induction or inversion, with the names it gives the rule's
+ * meta-variables (null where inversion instantiates one) and hypotheses.
+ * Exports bind the same names when the case is `exact`, i.e. the provers'
+ * own tactics produce the same context. `merged` lists the context's
+ * variables a meta-variable was unified with, which the provers may keep
+ * under the meta-variable's name instead.
+ */
+export interface RuleCase {
+  goal: ProofGoal;
+  rule: InferenceRule;
+  variables: Map<string, string | null>;
+  premises: { name: string; inductionHypothesis?: string }[];
+  sideConditions: string[];
+  exact: boolean;
+  merged: string[];
+}
+
+/**
+ * Rule induction on a judgment hypothesis H : J(t⃗). The goal is proved for
+ * every derivation of J: one case per rule concluding J, with the rule's
+ * meta-variables as fresh variables and its premises and side conditions
+ * as hypotheses. Premises of J itself get induction hypotheses.
+ *
+ * Arguments of H that are distinct variables are replaced by the rule's
+ * conclusion; other arguments are kept as equations p ≡ t. Hypotheses that
+ * mention the replaced variables become part of the induction motive.
+ */
+function ruleInduction(
+  context: ProofContext,
+  goal: Formula,
+  hyp: ProofHypothesis & { formula: { kind: 'judgment' } },
+  rules: InferenceRule[],
+  metaVariables: Map<string, MetaVariable>,
+  functions: Map<RecFuncId, RecursiveFunc>
+): RuleCase[] | { error: string } {
+  const args = hyp.formula.args;
+  const generalized = args.map((arg, i) =>
+    arg.kind === 'var' &&
+    context.variables.some(v => v.name === arg.name) &&
+    args.findIndex(a => a.kind === 'var' && a.name === arg.name) === i
+      ? arg.name
+      : null
+  );
+  const generalizedNames = generalized.filter((n): n is string => n !== null);
+
+  const others = context.hypotheses.filter(h => h.id !== hyp.id);
+  const dependent = others.filter(h => generalizedNames.some(n => mentionsVariable(h.formula, n)));
+  const independent = others.filter(h => !dependent.includes(h));
+  const keptVariables = context.variables.filter(v => !generalizedNames.includes(v.name));
+
+  // The arguments of H with the generalized variables replaced. The rule's
+  // meta-variables may reuse their names, so this must not go through them.
+  const substitutedArgs = (replacements: [string, FormulaExpr][]): FormulaExpr[] => {
+    const substituted = substituteFormulaAll(hyp.formula, replacements);
+    return substituted.kind === 'judgment' ? substituted.args : args;
+  };
+
+  // The induction hypothesis for a premise J(a⃗): equations → dependent hypotheses → goal
+  const inductionHypothesis = (instance: FormulaExpr[]): Formula => {
+    const replacements = generalized.flatMap((name, i): [string, FormulaExpr][] => name ? [[name, instance[i]]] : []);
+    const instanceArgs = substitutedArgs(replacements);
+    let result = substituteFormulaAll(goal, replacements);
+    for (const h of [...dependent].reverse()) {
+      result = { kind: 'implies', left: substituteFormulaAll(h.formula, replacements), right: result };
+    }
+    for (let i = args.length - 1; i >= 0; i--) {
+      if (generalized[i]) continue;
+      result = { kind: 'implies', left: { kind: 'termEq', left: instance[i], right: instanceArgs[i] }, right: result };
+    }
+    return result;
+  };
+
+  // Provers generalize the variables themselves, but keep no equations and
+  // revert dependent hypotheses after the case's own
+  const exact = generalized.every(name => name !== null) && dependent.length === 0;
+
+  const cases: RuleCase[] = [];
+  for (const rule of rules) {
+    const ids = ruleMetaVariableIds(rule);
+    if (!ids) return { error: `Rule ${rule.name} is incomplete` };
+
+    const takenVars = new Set(keptVariables.map(v => v.name));
+    const names = new Map<string, string>();
+    const variables: ProofVariable[] = [...keptVariables];
+    for (const id of ids) {
+      const mv = metaVariables.get(id);
+      const name = freshName(mv?.name || 'x', takenVars);
+      names.set(id, name);
+      variables.push({ name, sortId: mv?.sortId || '' });
+    }
+
+    const conclusion = rule.conclusion.args.map(p => patternToFormulaExpr(p, names));
+    const replacements = generalized.flatMap((name, i): [string, FormulaExpr][] => name ? [[name, conclusion[i]]] : []);
+    const takenHyps = new Set(independent.map(h => h.name));
+    const hypotheses: ProofHypothesis[] = [...independent];
+    const addHypothesis = (base: string, formula: Formula): string => {
+      const name = freshName(base, takenHyps);
+      hypotheses.push({ id: uuidv4(), name, formula });
+      return name;
+    };
+
+    substitutedArgs(replacements).forEach((arg, i) => {
+      if (!generalized[i]) addHypothesis(`Heq_${i + 1}`, { kind: 'termEq', left: conclusion[i], right: arg });
+    });
+    for (const h of dependent) {
+      addHypothesis(h.name, substituteFormulaAll(h.formula, replacements));
+    }
+    const premises = rule.premises.map((premise, k) => {
+      const premiseArgs = premise.args.map(p => patternToFormulaExpr(p, names));
+      const name = addHypothesis(`${hyp.name}_${k + 1}`, { kind: 'judgment', judgmentId: premise.judgmentId, args: premiseArgs });
+      return premise.judgmentId === hyp.formula.judgmentId
+        ? { name, inductionHypothesis: addHypothesis(`IH_${k + 1}`, inductionHypothesis(premiseArgs)) }
+        : { name };
+    });
+    const sideConditions = (rule.sideConditions || []).map((condition, k) =>
+      addHypothesis(`SC_${k + 1}`, sideConditionToFormula(condition.predicate, names, metaVariables, functions))
+    );
+
+    cases.push({
+      goal: {
+        id: uuidv4(),
+        context: { variables, hypotheses },
+        goal: substituteFormulaAll(goal, replacements),
+      },
+      rule,
+      variables: names,
+      premises,
+      sideConditions,
+      exact,
+      merged: [],
+    });
+  }
+  return cases;
+}
+
+/**
+ * Inversion of a judgment hypothesis H : J(t⃗). Each rule whose conclusion
+ * unifies with t⃗ gives a case in which the unifier is applied to the goal
+ * and context, and the rule's premises and side conditions are hypotheses.
+ * Arguments that are not constructor terms are kept as equations p ≡ t.
+ * Rules whose conclusion clashes with t⃗ are ruled out.
+ */
+function invertHypothesis(
+  context: ProofContext,
+  goal: Formula,
+  hyp: ProofHypothesis & { formula: { kind: 'judgment' } },
+  rules: InferenceRule[],
+  metaVariables: Map<string, MetaVariable>,
+  functions: Map<RecFuncId, RecursiveFunc>
+): RuleCase[] | { error: string } {
+  const args = hyp.formula.args;
+  const contextNames = context.variables.map(v => v.name);
+
+  const cases: RuleCase[] = [];
+  for (const rule of rules) {
+    const ids = ruleMetaVariableIds(rule);
+    if (!ids) return { error: `Rule ${rule.name} is incomplete` };
+
+    // Both the rule's meta-variables and the context's variables may be instantiated
+    const names = new Map(ids.map((id, i) => [id, `?m${i}`]));
+    const flexible = new Set([...names.values(), ...contextNames]);
+    const conclusion = rule.conclusion.args.map(p => patternToFormulaExpr(p, names));
+    let unifier: Substitution | null = new Map();
+    for (let i = 0; i < args.length && unifier; i++) {
+      if (!isConstructorTerm(args[i])) continue;
+      unifier = unify(formulaExprToOpen(conclusion[i], flexible), formulaExprToOpen(args[i], flexible), unifier);
+    }
+    if (!unifier) continue;
+
+    // Name what is left open, preferring the context's own names
+    const subst = new Map(unifier);
+    const named = new Set<string>();
+    for (const name of contextNames) {
+      const resolved = resolve({ kind: 'var', name }, unifier);
+      if (resolved.kind === 'var' && !named.has(resolved.name)) {
+        named.add(resolved.name);
+        subst.set(resolved.name, { kind: 'atom', name });
       }
     }
-    // No matching case found
-    return null;
-  }
-  
-  // Recursively try to unfold in subexpressions
-  switch (expr.kind) {
-    case 'add': {
-      const leftUnfold = unfoldFuncApp(expr.left, targetFunc, constructors, functions);
-      if (leftUnfold) return { kind: 'add', left: leftUnfold, right: expr.right };
-      const rightUnfold = unfoldFuncApp(expr.right, targetFunc, constructors, functions);
-      if (rightUnfold) return { kind: 'add', left: expr.left, right: rightUnfold };
-      return null;
+    // Provers keep equations for arguments that are not constructor terms
+    const exact = args.every(isConstructorTerm);
+    const merged: string[] = [];
+    const taken = new Set(contextNames);
+    const variables: ProofVariable[] = [];
+    const variableNames = new Map<string, string | null>();
+    ids.forEach((id, i) => {
+      const resolved = resolve({ kind: 'var', name: `?m${i}` }, unifier);
+      if (resolved.kind !== 'var') {
+        variableNames.set(id, null);
+        return;
+      }
+      if (named.has(resolved.name)) {
+        const bound = subst.get(resolved.name);
+        const name = bound?.kind === 'atom' ? bound.name : null;
+        if (name && contextNames.includes(name)) merged.push(name);
+        variableNames.set(id, name);
+        return;
+      }
+      const mv = metaVariables.get(id);
+      const name = freshName(mv?.name || 'x', taken);
+      named.add(resolved.name);
+      subst.set(resolved.name, { kind: 'atom', name });
+      variables.push({ name, sortId: mv?.sortId || '' });
+      variableNames.set(id, name);
+    });
+
+    const replacements = [...flexible].flatMap((name): [string, FormulaExpr][] => {
+      const value = openToFormulaExpr({ kind: 'var', name }, subst)!;
+      return value.kind === 'var' && value.name === name ? [] : [[name, value]];
+    });
+    const replaced = new Set(replacements.map(([name]) => name));
+    const instantiate = (f: Formula) => substituteFormulaAll(f, replacements);
+
+    const takenHyps = new Set(context.hypotheses.map(h => h.name));
+    const hypotheses: ProofHypothesis[] = context.hypotheses.map(h => ({ ...h, formula: instantiate(h.formula) }));
+    const addHypothesis = (base: string, formula: Formula): string => {
+      const name = freshName(base, takenHyps);
+      hypotheses.push({ id: uuidv4(), name, formula: instantiate(formula) });
+      return name;
+    };
+    args.forEach((arg, i) => {
+      if (!isConstructorTerm(arg)) addHypothesis(`Heq_${i + 1}`, { kind: 'termEq', left: conclusion[i], right: arg });
+    });
+    const premises = rule.premises.map((premise, k) => ({
+      name: addHypothesis(`${hyp.name}_${k + 1}`, {
+        kind: 'judgment',
+        judgmentId: premise.judgmentId,
+        args: premise.args.map(p => patternToFormulaExpr(p, names)),
+      }),
+    }));
+    const sideConditions = (rule.sideConditions || []).map((condition, k) =>
+      addHypothesis(`SC_${k + 1}`, sideConditionToFormula(condition.predicate, names, metaVariables, functions))
+    );
+
+    cases.push({
+      goal: {
+        id: uuidv4(),
+        context: {
+          variables: [...context.variables.filter(v => !replaced.has(v.name)), ...variables],
+          hypotheses,
+        },
+        goal: instantiate(goal),
+      },
+      rule,
+      variables: variableNames,
+      premises,
+      sideConditions,
+      exact,
+      merged,
+    });
+  }
+  return cases;
+}
+
+/**
+ * Backward application of an inference rule to a judgment goal J(t⃗): the
+ * conclusion is unified with t⃗ and the instantiated premises and side
+ * conditions are returned as subgoals. Meta-variables that only occur above
+ * the line are not determined by the goal; the premises mentioning them are
+ * proved together under ∃.
+ */
+function ruleInstance(
+  context: ProofContext,
+  goal: Formula & { kind: 'judgment' },
+  rule: InferenceRule,
+  metaVariables: Map<string, MetaVariable>,
+  functions: Map<RecFuncId, RecursiveFunc>
+): { subgoals: Formula[]; instantiation: [string, FormulaExpr][] } | { error: string } {
+  if (rule.conclusion.judgmentId !== goal.judgmentId) {
+    return { error: `Rule ${rule.name} does not conclude this judgment` };
+  }
+  const ids = ruleMetaVariableIds(rule);
+  if (!ids) return { error: `Rule ${rule.name} is incomplete` };
+
+  // Meta-variables are the flexible variables ?0, ?1, … of the unification
+  const names = new Map(ids.map((id, i) => [id, `?${i}`]));
+  const flexible = new Set(names.values());
+  const mgu = unifyArgs(
+    rule.conclusion.args.map(p => formulaExprToOpen(patternToFormulaExpr(p, names), flexible)),
+    goal.args.map(a => formulaExprToOpen(a, new Set())),
+    new Map()
+  );
+  if (!mgu) return { error: `Conclusion of ${rule.name} does not match the goal` };
+
+  // Name the meta-variables left open after the goal's own variables
+  const taken = new Set(context.variables.map(v => v.name));
+  const witnesses: { name: string; sortId: SortId }[] = [];
+  const subst = new Map(mgu);
+  ids.forEach((id, i) => {
+    const resolved = resolve({ kind: 'var', name: `?${i}` }, mgu);
+    if (resolved.kind !== 'var' || resolved.name !== `?${i}`) return;
+    const mv = metaVariables.get(id);
+    const name = freshName(mv?.name || 'x', taken);
+    witnesses.push({ name, sortId: mv?.sortId || '' });
+    subst.set(`?${i}`, { kind: 'atom', name });
+  });
+  const values = ids.map((_, i) => openToFormulaExpr({ kind: 'var', name: `?${i}` }, subst)!);
+  const instantiate = (f: Formula) => values.reduce((acc, v, i) => substituteFormula(acc, `?${i}`, v), f);
+
+  const obligations = [
+    ...rule.premises.map((p): Formula => ({
+      kind: 'judgment',
+      judgmentId: p.judgmentId,
+      args: p.args.map(a => patternToFormulaExpr(a, names)),
+    })),
+    ...(rule.sideConditions || []).map(c => sideConditionToFormula(c.predicate, names, metaVariables, functions)),
+  ].map(instantiate);
+
+  const open = obligations.filter(f => witnesses.some(w => mentionsVariable(f, w.name)));
+  const subgoals = obligations.filter(f => !open.includes(f));
+  if (open.length > 0) {
+    let body = open.reduce((acc, f): Formula => ({ kind: 'and', left: acc, right: f }));
+    for (const w of [...witnesses].reverse()) {
+      body = { kind: 'exists', varName: w.name, sortId: w.sortId, body };
+    }
+    subgoals.push(body);
+  }
+
+  const instantiation = ids.flatMap((id, i): [string, FormulaExpr][] =>
+    witnesses.some(w => formulaExprEqual(values[i], { kind: 'var', name: w.name }))
+      ? []
+      : [[metaVariables.get(id)?.name || `?${i}`, values[i]]]
+  );
+  return { subgoals, instantiation };
+}
+
+/**
+ * Rebuild a formula with `fn` applied to each of its expressions. `fn` also
+ * receives the variables bound by enclosing quantifiers of the formula.
+ */
+function mapFormulaExprs(
+  formula: Formula,
+  fn: (expr: FormulaExpr, bound: Set<string>) => FormulaExpr,
+  bound: Set<string> = new Set()
+): Formula {
+  const map = (f: Formula) => mapFormulaExprs(f, fn, bound);
+  const expr = (e: FormulaExpr) => fn(e, bound);
+  switch (formula.kind) {
+    case 'forall':
+    case 'exists':
+      return { ...formula, body: mapFormulaExprs(formula.body, fn, new Set([...bound, formula.varName])) };
+    case 'implies':
+    case 'and':
+    case 'or':
+      return { ...formula, left: map(formula.left), right: map(formula.right) };
+    case 'not':
+      return { kind: 'not', body: map(formula.body) };
+    case 'judgment':
+      return { ...formula, args: formula.args.map(expr) };
+    case 'termEq':
+    case 'termNeq':
+    case 'numEq':
+    case 'numNeq':
+    case 'numLeq':
+    case 'numLt':
+    case 'numGeq':
+    case 'numGt':
+      return { ...formula, left: expr(formula.left), right: expr(formula.right) };
+    case 'funcEq':
+    case 'funcLeq':
+    case 'funcLt':
+      return { ...formula, arg: expr(formula.arg), value: expr(formula.value) };
+    case 'setEmpty':
+      return { ...formula, arg: expr(formula.arg) };
+    case 'setIn':
+      return { ...formula, element: expr(formula.element), arg: expr(formula.arg) };
+    case 'true':
+    case 'false':
+      return formula;
+  }
+}
+
+function exprMentions(expr: FormulaExpr, names: Set<string>): boolean {
+  return expr.kind === 'var' ? names.has(expr.name) : formulaExprChildren(expr).some(e => exprMentions(e, names));
+}
+
+// Replace every occurrence of `from` by `to`, outermost first
+function replaceFormulaExpr(expr: FormulaExpr, from: FormulaExpr, to: FormulaExpr): FormulaExpr {
+  if (formulaExprEqual(expr, from)) return to;
+  return mapFormulaExprChildren(expr, e => replaceFormulaExpr(e, from, to));
+}
+
+/**
+ * Rewrite a goal with an equation hypothesis ∀x⃗. l = r (or r = l for
+ * 'rtl'). The first subexpression of the goal matching l fixes x⃗; every
+ * occurrence of that instance is then replaced. Occurrences under a
+ * quantifier of the goal that binds one of their variables are left alone.
+ * `missing` is the side to replace when the goal has no occurrence of it.
+ */
+function rewriteGoal(
+  goal: Formula,
+  hyp: Formula,
+  direction: 'ltr' | 'rtl'
+): { formula: Formula; from: FormulaExpr; to: FormulaExpr } | { missing: FormulaExpr } | { error: string } {
+  const vars: { name: string; fresh: string }[] = [];
+  let body: Formula = hyp;
+  while (body.kind === 'forall') {
+    const fresh = `?${vars.length}`;
+    vars.push({ name: body.varName, fresh });
+    body = substituteFormula(body.body, body.varName, { kind: 'var', name: fresh });
+  }
+  if (body.kind !== 'termEq' && body.kind !== 'numEq') {
+    return { error: 'rewrite requires an equality hypothesis' };
+  }
+  const [lhs, rhs] = direction === 'ltr' ? [body.left, body.right] : [body.right, body.left];
+  const flexible = new Set(vars.map(v => v.fresh));
+  if (lhs.kind === 'var' && flexible.has(lhs.name)) {
+    return { error: 'Cannot rewrite: the side to replace is a bare variable' };
+  }
+
+  // Find the first occurrence
+  const pattern = formulaExprToOpen(lhs, flexible);
+  const found: { mgu?: Substitution } = {};
+  const search = (expr: FormulaExpr, bound: Set<string>) => {
+    if (found.mgu) return;
+    if (!exprMentions(expr, bound)) found.mgu = unify(pattern, formulaExprToOpen(expr, new Set()), new Map()) ?? undefined;
+    formulaExprChildren(expr).forEach(e => search(e, bound));
+  };
+  mapFormulaExprs(goal, (expr, bound) => { search(expr, bound); return expr; });
+  const mgu = found.mgu;
+  if (!mgu) {
+    return { missing: vars.reduce((e, v) => substituteFormulaExpr(e, v.fresh, { kind: 'var', name: v.name }), lhs) };
+  }
+
+  const from = openToFormulaExpr(pattern, mgu)!;
+  const to = openToFormulaExpr(formulaExprToOpen(rhs, flexible), mgu);
+  if (!to) {
+    const unresolved = vars.filter(v => !openToFormulaExpr({ kind: 'var', name: v.fresh }, mgu)).map(v => v.name);
+    return { error: `Cannot infer ${unresolved.join(', ')} from the goal` };
+  }
+  const names = new Set<string>();
+  const collect = (e: FormulaExpr) => { if (e.kind === 'var') names.add(e.name); formulaExprChildren(e).forEach(collect); };
+  collect(from);
+  collect(to);
+  const formula = mapFormulaExprs(goal, (expr, bound) =>
+    [...bound].some(b => names.has(b)) ? expr : replaceFormulaExpr(expr, from, to)
+  );
+  if (formulaEqual(formula, goal)) {
+    return { error: 'Every occurrence is under a quantifier that would capture its variables' };
+  }
+  return { formula, from, to };
+}
+
+type ComputeEnv = {
+  constructors: Map<ConstructorId, Constructor>;
+  functions: Map<RecFuncId, RecursiveFunc>;
+};
+
+/**
+ * A closed expression as a ground term. Expressions with variables, atom
+ * variables included, are not closed: distinct atom variables may denote the
+ * same atom, which evaluation cannot know.
+ */
+function formulaExprToTerm(expr: FormulaExpr): Term | null {
+  if (expr.kind !== 'constructor') return null;
+  const args: Term[] = [];
+  for (const arg of expr.args) {
+    const term = formulaExprToTerm(arg);
+    if (!term) return null;
+    args.push(term);
+  }
+  return { id: uuidv4(), constructorId: expr.constructorId, args };
+}
+
+function termToFormulaExpr(term: Term): FormulaExpr {
+  if (term.isVariable && term.variableName) return { kind: 'var', name: term.variableName };
+  return { kind: 'constructor', constructorId: term.constructorId, args: term.args.map(termToFormulaExpr) };
+}
+
+// The value of f(a⃗) for closed arguments
+function evaluateFuncApp(expr: FormulaExpr & { kind: 'funcApp' | 'funcAppMulti' }, env: ComputeEnv): FuncValue | null {
+  const func = env.functions.get(expr.funcId);
+  const terms: Term[] = [];
+  for (const arg of expr.kind === 'funcApp' ? [expr.arg] : expr.args) {
+    const term = formulaExprToTerm(arg);
+    if (!term) return null;
+    terms.push(term);
+  }
+  if (!func || terms.length === 0) return null;
+  if (terms.length === 1) return evaluateFunc(func, terms[0], env.functions, env.constructors);
+  const extraEnv = new Map(func.extraArgs.flatMap((arg, i): [string, Term][] => terms[i + 1] ? [[arg.name, terms[i + 1]]] : []));
+  return evaluateFuncMulti(func, terms[0], extraEnv, env.functions, env.constructors);
+}
+
+// A function's value as an expression; sets of atoms become unions of singletons
+function funcValueToFormulaExpr(value: FuncValue): FormulaExpr {
+  if (typeof value === 'number') return { kind: 'int', value };
+  if (value instanceof Set) {
+    const elements = [...value].map((name): FormulaExpr => ({ kind: 'singleton', element: { kind: 'var', name } }));
+    if (elements.length === 0) return { kind: 'emptySet' };
+    return elements.reduce((left, right) => ({ kind: 'union', left, right }));
+  }
+  return termToFormulaExpr(value);
+}
+
+/**
+ * Normalize an expression: closed function applications are evaluated,
+ * applications to a constructor are unfolded, conditionals with decided
+ * conditions are reduced, and arithmetic is simplified.
+ */
+function computeExpr(expr: FormulaExpr, env: ComputeEnv): FormulaExpr {
+  const compute = (e: FormulaExpr) => computeExpr(e, env);
+  switch (expr.kind) {
+    case 'funcApp':
+    case 'funcAppMulti': {
+      const app = mapFormulaExprChildren(expr, compute) as typeof expr;
+      const value = evaluateFuncApp(app, env);
+      if (value !== null) return funcValueToFormulaExpr(value);
+      const func = env.functions.get(app.funcId);
+      const unfolded = func ? unfoldApplication(app, func, env.constructors, env.functions) : null;
+      return unfolded ? compute(unfolded) : app;
+    }
+    case 'if': {
+      const cond = mapFormulaCondExprs(expr.cond, compute);
+      const decided = decideFormulaCond(cond);
+      if (decided !== null) return compute(decided ? expr.then : expr.else);
+      return { kind: 'if', cond, then: compute(expr.then), else: compute(expr.else) };
+    }
+    default:
+      return simplifyExpr(mapFormulaExprChildren(expr, compute));
+  }
+}
+
+// Constructor terms over variables only, whose equality is syntactic up to the variables
+function isConstructorTerm(expr: FormulaExpr): boolean {
+  return expr.kind === 'var' || (expr.kind === 'constructor' && expr.args.every(isConstructorTerm));
+}
+
+// Decide t₁ = t₂ when both sides are constructor terms: equal, or clashing for every value of the variables
+function decideTermEq(left: FormulaExpr, right: FormulaExpr): boolean | null {
+  if (formulaExprEqual(left, right)) return true;
+  if (!isConstructorTerm(left) || !isConstructorTerm(right)) return null;
+  const vars = new Set<string>();
+  const collect = (e: FormulaExpr) => { if (e.kind === 'var') vars.add(e.name); formulaExprChildren(e).forEach(collect); };
+  collect(left);
+  collect(right);
+  return unify(formulaExprToOpen(left, vars), formulaExprToOpen(right, vars), new Map()) ? null : false;
+}
+
+function decideComparison(kind: 'numEq' | 'numNeq' | 'numLeq' | 'numLt' | 'numGeq' | 'numGt', l: number, r: number): boolean {
+  switch (kind) {
+    case 'numEq': return l === r;
+    case 'numNeq': return l !== r;
+    case 'numLeq': return l <= r;
+    case 'numLt': return l < r;
+    case 'numGeq': return l >= r;
+    case 'numGt': return l > r;
+  }
+}
+
+const truthFormula = (value: boolean): Formula => ({ kind: value ? 'true' : 'false' });
+
+/**
+ * Normalize a formula with computeExpr and decide the predicates whose
+ * arguments became values. Connectives are simplified around ⊤ and ⊥.
+ */
+function computeFormula(formula: Formula, env: ComputeEnv): Formula {
+  const compute = (e: FormulaExpr) => computeExpr(e, env);
+  switch (formula.kind) {
+    case 'forall':
+    case 'exists': {
+      const body = computeFormula(formula.body, env);
+      if (formula.kind === 'forall' && body.kind === 'true') return body;
+      if (formula.kind === 'exists' && body.kind === 'false') return body;
+      return { ...formula, body };
+    }
+    case 'implies': {
+      const left = computeFormula(formula.left, env);
+      const right = computeFormula(formula.right, env);
+      if (left.kind === 'false' || right.kind === 'true') return truthFormula(true);
+      if (left.kind === 'true') return right;
+      return { kind: 'implies', left, right };
     }
-    case 'sub': {
-      const leftUnfold = unfoldFuncApp(expr.left, targetFunc, constructors, functions);
-      if (leftUnfold) return { kind: 'sub', left: leftUnfold, right: expr.right };
-      const rightUnfold = unfoldFuncApp(expr.right, targetFunc, constructors, functions);
-      if (rightUnfold) return { kind: 'sub', left: expr.left, right: rightUnfold };
-      return null;
+    case 'and': {
+      const left = computeFormula(formula.left, env);
+      const right = computeFormula(formula.right, env);
+      if (left.kind === 'false' || right.kind === 'false') return truthFormula(false);
+      if (left.kind === 'true') return right;
+      if (right.kind === 'true') return left;
+      return { kind: 'and', left, right };
     }
-    case 'funcApp': {
-      // Different function - try to unfold the argument
-      const argUnfold = unfoldFuncApp(expr.arg, targetFunc, constructors, functions);
-      if (argUnfold) return { kind: 'funcApp', funcId: expr.funcId, arg: argUnfold };
-      return null;
+    case 'or': {
+      const left = computeFormula(formula.left, env);
+      const right = computeFormula(formula.right, env);
+      if (left.kind === 'true' || right.kind === 'true') return truthFormula(true);
+      if (left.kind === 'false') return right;
+      if (right.kind === 'false') return left;
+      return { kind: 'or', left, right };
     }
-    case 'constructor': {
-      // Try to unfold in constructor args
-      for (let i = 0; i < expr.args.length; i++) {
-        const unfoldedArg = unfoldFuncApp(expr.args[i], targetFunc, constructors, functions);
-        if (unfoldedArg) {
-          const newArgs = [...expr.args];
-          newArgs[i] = unfoldedArg;
-          return { kind: 'constructor', constructorId: expr.constructorId, args: newArgs };
-        }
+    case 'not': {
+      const body = computeFormula(formula.body, env);
+      if (body.kind === 'true' || body.kind === 'false') return truthFormula(body.kind === 'false');
+      return { kind: 'not', body };
+    }
+    case 'judgment':
+      return { ...formula, args: formula.args.map(compute) };
+    case 'termEq':
+    case 'termNeq': {
+      const left = compute(formula.left);
+      const right = compute(formula.right);
+      const equal = decideTermEq(left, right);
+      if (equal !== null) return truthFormula(formula.kind === 'termEq' ? equal : !equal);
+      return { kind: formula.kind, left, right };
+    }
+    case 'numEq':
+    case 'numNeq':
+    case 'numLeq':
+    case 'numLt':
+    case 'numGeq':
+    case 'numGt': {
+      const left = compute(formula.left);
+      const right = compute(formula.right);
+      if (left.kind === 'int' && right.kind === 'int') return truthFormula(decideComparison(formula.kind, left.value, right.value));
+      if (formula.kind !== 'numNeq' && formula.kind !== 'numLt' && formula.kind !== 'numGt' && formulaExprEqual(left, right)) {
+        return truthFormula(true);
       }
-      return null;
+      return { kind: formula.kind, left, right };
     }
-    default:
-      return null;
+    case 'funcEq':
+    case 'funcLeq':
+    case 'funcLt': {
+      const arg = compute(formula.arg);
+      const value = compute(formula.value);
+      const result = compute({ kind: 'funcApp', funcId: formula.funcId, arg });
+      if (result.kind === 'int' && value.kind === 'int') {
+        const kind = formula.kind === 'funcEq' ? 'numEq' : formula.kind === 'funcLeq' ? 'numLeq' : 'numLt';
+        return truthFormula(decideComparison(kind, result.value, value.value));
+      }
+      if (formula.kind === 'funcEq' && isConstructorTerm(result)) {
+        const equal = decideTermEq(result, value);
+        if (equal !== null) return truthFormula(equal);
+      }
+      return { ...formula, arg, value };
+    }
+    case 'setEmpty': {
+      const arg = compute(formula.arg);
+      const decided = decideFormulaCond({ kind: 'isEmpty', set: compute({ kind: 'funcApp', funcId: formula.funcId, arg }) });
+      if (decided !== null) return truthFormula(decided);
+      return { ...formula, arg };
+    }
+    case 'setIn': {
+      const element = compute(formula.element);
+      const arg = compute(formula.arg);
+      // Distinct atom variables may still denote the same atom, so only membership by name or emptiness decides
+      const decided = decideFormulaCond({ kind: 'in', element, set: compute({ kind: 'funcApp', funcId: formula.funcId, arg }) });
+      if (decided !== null) return truthFormula(decided);
+      return { ...formula, element, arg };
+    }
+    case 'true':
+    case 'false':
+      return formula;
   }
 }
 
+const LEMMA_UNAVAILABLE = 'Only proved properties whose proofs do not depend on this one can be used as lemmas';
+
+/**
+ * Name of the hypothesis a `have` step adds: the one given, or the lemma's
+ * name made unique in the context
+ */
+export function lemmaHypothesisName(context: ProofContext, lemma: Property, hypName?: string): string {
+  return hypName || freshName(lemma.name, new Set(context.hypotheses.map(h => h.name)));
+}
+
+/**
+ * The cases a rule induction or inversion step splits its goal into, for
+ * exports that bind the names the cases give. Null if the step does not apply.
+ */
+export function ruleCases(
+  goal: ProofGoal,
+  tactic: Tactic & { kind: 'derivation_induction' | 'inversion' },
+  rules: Map<RuleId, InferenceRule>,
+  metaVariables: Map<string, MetaVariable>,
+  functions: Map<RecFuncId, RecursiveFunc>
+): RuleCase[] | null {
+  const hyp = goal.context.hypotheses.find(h => h.name === tactic.hypName);
+  const formula = hyp?.formula;
+  if (!hyp || formula?.kind !== 'judgment') return null;
+  const judgmentRules = Array.from(rules.values()).filter(r => r.conclusion.judgmentId === formula.judgmentId);
+  const split = tactic.kind === 'derivation_induction' ? ruleInduction : invertHypothesis;
+  const cases = split(goal.context, goal.goal, { ...hyp, formula }, judgmentRules, metaVariables, functions);
+  return 'error' in cases ? null : cases;
+}
+
 /**
  * Apply a tactic to a proof goal
  * Returns new goals if successful, or an error message
@@ -2109,12 +3490,28 @@ export function applyTactic(
   tactic: Tactic,
   constructors: Map<ConstructorId, Constructor>,
   sorts: Map<SortId, Sort>,
-  _functions: Map<RecFuncId, RecursiveFunc>,
-  _rules: Map<RuleId, InferenceRule>
+  functions: Map<RecFuncId, RecursiveFunc>,
+  rules: Map<RuleId, InferenceRule>,
+  metaVariables: Map<string, MetaVariable>,
+  lemmas: Map<PropertyId, Property> = new Map()
 ): TacticResult {
   const { context, goal: formula } = goal;
   
   switch (tactic.kind) {
+    // A step of all_goals on one of the goals
+    case 'all_goals':
+      if (containsAllGoals(tactic.tactic)) return { success: false, error: ALL_GOALS_NESTED };
+      return applyTactic(goal, tactic.tactic, constructors, sorts, functions, rules, metaVariables, lemmas);
+
+    case 'seq':
+    case 'try':
+    case 'repeat':
+    case 'first':
+      if (containsAllGoals(tactic)) return { success: false, error: ALL_GOALS_NESTED };
+      return applyCombinatorStep(goal, tactic, (g, t) =>
+        applyTactic(g, t, constructors, sorts, functions, rules, metaVariables, lemmas)
+      );
+
     // ∀-introduction: For goal ∀x:S. P, introduce x and prove P
     case 'intro': {
       if (formula.kind !== 'forall') {
@@ -2163,6 +3560,10 @@ export function applyTactic(
       if (formula.kind !== 'exists') {
         return { success: false, error: 'exists_witness requires a ∃ goal' };
       }
+      const sortError = checkExprSort(tactic.witness, { kind: 'sort', sortId: formula.sortId }, contextSorts(context), { sorts, constructors, functions });
+      if (sortError) {
+        return { success: false, error: `Invalid witness for ${formula.varName}: ${sortError}` };
+      }
       const newGoal: ProofGoal = {
         id: uuidv4(),
         context,
@@ -2267,6 +3668,53 @@ export function applyTactic(
       return { success: true, newGoals, message: `Induction on ${tactic.varName} (${sortConstructors.length} cases)` };
     }
     
+    // Rule induction on a judgment hypothesis
+    case 'derivation_induction': {
+      const hyp = context.hypotheses.find(h => h.name === tactic.hypName);
+      if (!hyp) {
+        return { success: false, error: `Hypothesis ${tactic.hypName} not found` };
+      }
+      const hypFormula = hyp.formula;
+      if (hypFormula.kind !== 'judgment') {
+        return { success: false, error: 'derivation_induction requires a judgment hypothesis' };
+      }
+      const judgmentRules = Array.from(rules.values()).filter(r => r.conclusion.judgmentId === hypFormula.judgmentId);
+      const cases = ruleInduction(context, formula, { ...hyp, formula: hypFormula }, judgmentRules, metaVariables, functions);
+      if ('error' in cases) {
+        return { success: false, error: cases.error };
+      }
+      return {
+        success: true,
+        newGoals: cases.map(c => c.goal),
+        message: `Rule induction on ${tactic.hypName} (${cases.length} case${cases.length === 1 ? '' : 's'})`,
+      };
+    }
+    
+    // Inversion: which rules could have derived a judgment hypothesis
+    case 'inversion': {
+      const hyp = context.hypotheses.find(h => h.name === tactic.hypName);
+      if (!hyp) {
+        return { success: false, error: `Hypothesis ${tactic.hypName} not found` };
+      }
+      const hypFormula = hyp.formula;
+      if (hypFormula.kind !== 'judgment') {
+        return { success: false, error: 'inversion requires a judgment hypothesis' };
+      }
+      const judgmentRules = Array.from(rules.values()).filter(r => r.conclusion.judgmentId === hypFormula.judgmentId);
+      const cases = invertHypothesis(context, formula, { ...hyp, formula: hypFormula }, judgmentRules, metaVariables, functions);
+      if ('error' in cases) {
+        return { success: false, error: cases.error };
+      }
+      if (cases.length === 0) {
+        return { success: true, newGoals: [], message: `No rule derives ${tactic.hypName}` };
+      }
+      return {
+        success: true,
+        newGoals: cases.map(c => c.goal),
+        message: `Inversion on ${tactic.hypName} (${cases.length} case${cases.length === 1 ? '' : 's'})`,
+      };
+    }
+    
     // Reflexivity: For goal t = t, done
     case 'reflexivity': {
       // Works for: x = x, x ≤ x, x ≥ x
@@ -2379,33 +3827,196 @@ export function applyTactic(
       return { success: false, error: 'Cannot discriminate: constructors are not different' };
     }
     
-    // Apply hypothesis (for implications)
-    case 'apply': {
+    // Eliminate a hypothesis: split ∧, case on ∨, unpack ∃, close on ⊥
+    case 'destruct': {
       const hyp = context.hypotheses.find(h => h.name === tactic.hypName);
       if (!hyp) {
         return { success: false, error: `Hypothesis ${tactic.hypName} not found` };
       }
-      
-      // If hypothesis is P → Q and goal is Q, create goal P
-      if (hyp.formula.kind === 'implies') {
-        if (formulaEqual(hyp.formula.right, formula)) {
-          const newGoal: ProofGoal = { id: uuidv4(), context, goal: hyp.formula.left };
-          return { success: true, newGoals: [newGoal], message: `Applied ${tactic.hypName}` };
+      const replaceHyp = (...replacements: ProofHypothesis[]) =>
+        context.hypotheses.flatMap(h => h.id === hyp.id ? replacements : [h]);
+      const hypFormula = hyp.formula;
+      switch (hypFormula.kind) {
+        case 'and': {
+          const taken = new Set(context.hypotheses.filter(h => h.id !== hyp.id).map(h => h.name));
+          const leftName = freshName(`${hyp.name}_1`, taken);
+          const rightName = freshName(`${hyp.name}_2`, taken);
+          const newGoal: ProofGoal = {
+            id: uuidv4(),
+            context: {
+              variables: context.variables,
+              hypotheses: replaceHyp(
+                { id: uuidv4(), name: leftName, formula: hypFormula.left },
+                { id: uuidv4(), name: rightName, formula: hypFormula.right }
+              ),
+            },
+            goal: formula,
+          };
+          return { success: true, newGoals: [newGoal], message: `Split ${hyp.name} into ${leftName} and ${rightName}` };
+        }
+        case 'or': {
+          const newGoals: ProofGoal[] = [hypFormula.left, hypFormula.right].map(disjunct => ({
+            id: uuidv4(),
+            context: {
+              variables: context.variables,
+              hypotheses: replaceHyp({ id: uuidv4(), name: hyp.name, formula: disjunct }),
+            },
+            goal: formula,
+          }));
+          return { success: true, newGoals, message: `Case analysis on ${hyp.name} (2 cases)` };
+        }
+        case 'exists': {
+          const varName = freshName(hypFormula.varName, new Set(context.variables.map(v => v.name)));
+          const body = varName === hypFormula.varName
+            ? hypFormula.body
+            : substituteFormula(hypFormula.body, hypFormula.varName, { kind: 'var', name: varName });
+          const newGoal: ProofGoal = {
+            id: uuidv4(),
+            context: {
+              variables: [...context.variables, { name: varName, sortId: hypFormula.sortId }],
+              hypotheses: replaceHyp({ id: uuidv4(), name: hyp.name, formula: body }),
+            },
+            goal: formula,
+          };
+          return { success: true, newGoals: [newGoal], message: `Unpacked ${hyp.name} with witness ${varName}` };
         }
+        case 'false':
+          return { success: true, newGoals: [], message: `${hyp.name} is ⊥` };
+        default:
+          return { success: false, error: 'destruct requires a ∧, ∨, ∃ or ⊥ hypothesis' };
       }
-      
-      // If hypothesis is ∀x. P → Q, try to instantiate
-      if (hyp.formula.kind === 'forall') {
-        // This is more complex - would need unification
-        return { success: false, error: 'Direct application of ∀ hypotheses not yet supported' };
+    }
+    
+    // Contradiction: the hypotheses are inconsistent
+    case 'contradiction': {
+      const reason = findContradiction(context.hypotheses);
+      if (!reason) {
+        return { success: false, error: 'No contradiction found in the hypotheses' };
+      }
+      return { success: true, newGoals: [], message: `Contradiction: ${reason}` };
+    }
+    
+    // Apply hypothesis (for implications)
+    case 'apply':
+    case 'apply_lemma': {
+      const hyp = tactic.kind === 'apply'
+        ? context.hypotheses.find(h => h.name === tactic.hypName)
+        : lemmas.get(tactic.propertyId);
+      if (!hyp) {
+        return {
+          success: false,
+          error: tactic.kind === 'apply' ? `Hypothesis ${tactic.hypName} not found` : LEMMA_UNAVAILABLE,
+        };
       }
       
-      return { success: false, error: `Cannot apply ${tactic.hypName} to this goal` };
+      // If hypothesis is ∀x⃗. P₁ → … → Pₖ → Q and goal is Q[t⃗/x⃗], create goals Pᵢ[t⃗/x⃗]
+      const instance = instantiateHypothesis(hyp.formula, formula);
+      if (!instance) {
+        return { success: false, error: `Cannot apply ${hyp.name} to this goal` };
+      }
+      if ('unresolved' in instance) {
+        return { success: false, error: `Cannot infer ${instance.unresolved.join(', ')} from the goal` };
+      }
+      const newGoals: ProofGoal[] = instance.premises.map(p => ({ id: uuidv4(), context, goal: p }));
+      const instantiation = instance.instantiation
+        .map(([name, expr]) => `${name} := ${renderFormulaExpr(expr, constructors, functions)}`)
+        .join(', ');
+      return {
+        success: true,
+        newGoals,
+        message: `Applied ${hyp.name}${instantiation ? ` with ${instantiation}` : ''}`,
+      };
+    }
+
+    case 'have': {
+      const lemma = lemmas.get(tactic.propertyId);
+      if (!lemma) {
+        return { success: false, error: LEMMA_UNAVAILABLE };
+      }
+      const args = tactic.args ?? [];
+      let instance = lemma.formula;
+      for (const arg of args) {
+        if (instance.kind !== 'forall') {
+          return { success: false, error: `${lemma.name} quantifies over fewer than ${args.length} variables` };
+        }
+        const sortError = checkExprSort(arg, { kind: 'sort', sortId: instance.sortId }, contextSorts(context), { sorts, constructors, functions });
+        if (sortError) {
+          return { success: false, error: `Invalid argument for ${instance.varName} of ${lemma.name}: ${sortError}` };
+        }
+        instance = substituteFormula(instance.body, instance.varName, arg);
+      }
+      const name = lemmaHypothesisName(context, lemma, tactic.hypName);
+      const newGoal: ProofGoal = {
+        id: uuidv4(),
+        context: { ...context, hypotheses: [...context.hypotheses, { id: uuidv4(), name, formula: instance }] },
+        goal: formula,
+      };
+      return { success: true, newGoals: [newGoal], message: `Added ${name} from ${lemma.name}` };
+    }
+    
+    // Apply an inference rule backwards (for judgment goals)
+    case 'apply_rule': {
+      if (formula.kind !== 'judgment') {
+        return { success: false, error: 'apply_rule requires a judgment goal' };
+      }
+      const rule = rules.get(tactic.ruleId);
+      if (!rule) {
+        return { success: false, error: 'Rule not found' };
+      }
+      const instance = ruleInstance(context, formula, rule, metaVariables, functions);
+      if ('error' in instance) {
+        return { success: false, error: instance.error };
+      }
+      const newGoals: ProofGoal[] = instance.subgoals.map(g => ({ id: uuidv4(), context, goal: g }));
+      const instantiation = instance.instantiation
+        .map(([name, expr]) => `${name} := ${renderFormulaExpr(expr, constructors, functions)}`)
+        .join(', ');
+      return {
+        success: true,
+        newGoals,
+        message: `Applied rule ${rule.name}${instantiation ? ` with ${instantiation}` : ''}`,
+      };
+    }
+    
+    // Rewrite with an equality hypothesis
+    case 'rewrite': {
+      const hyp = context.hypotheses.find(h => h.name === tactic.hypName);
+      if (!hyp) {
+        return { success: false, error: `Hypothesis ${tactic.hypName} not found` };
+      }
+      const direction = tactic.direction || 'ltr';
+      const rewritten = rewriteGoal(formula, hyp.formula, direction);
+      if ('missing' in rewritten) {
+        return { success: false, error: `No occurrence of ${renderFormulaExpr(rewritten.missing, constructors, functions)} in the goal` };
+      }
+      if ('error' in rewritten) {
+        return { success: false, error: rewritten.error };
+      }
+      const message = `Rewrote ${renderFormulaExpr(rewritten.from, constructors, functions)} to ${renderFormulaExpr(rewritten.to, constructors, functions)} using ${tactic.hypName}`;
+      // Like Coq's rewrite, close the goal if it became reflexive
+      const result = rewritten.formula;
+      if ((result.kind === 'termEq' || result.kind === 'numEq') && formulaExprEqual(result.left, result.right)) {
+        return { success: true, newGoals: [], message: `${message}; closed by reflexivity` };
+      }
+      return { success: true, newGoals: [{ id: uuidv4(), context, goal: result }], message };
+    }
+    
+    // Normalize by evaluating functions
+    case 'compute': {
+      const computed = computeFormula(formula, { constructors, functions });
+      if (computed.kind === 'true') {
+        return { success: true, newGoals: [], message: 'Computed to ⊤' };
+      }
+      if (formulaEqual(computed, formula)) {
+        return { success: false, error: 'Nothing to compute' };
+      }
+      const newGoal: ProofGoal = { id: uuidv4(), context, goal: computed };
+      return { success: true, newGoals: [newGoal], message: computed.kind === 'false' ? 'Computed to ⊥' : 'Computed' };
     }
     
     // Unfold a function definition
     case 'unfold': {
-      const func = _functions.get(tactic.funcId);
+      const func = functions.get(tactic.funcId);
       if (!func) {
         return { success: false, error: 'Function not found' };
       }
@@ -2422,7 +4033,7 @@ export function applyTactic(
       const expr = tactic.side === 'left' ? (formula as { left: FormulaExpr }).left : (formula as { right: FormulaExpr }).right;
       
       // Find the outermost function application for this function
-      const unfoldedExpr = unfoldFuncApp(expr, func, constructors, _functions);
+      const unfoldedExpr = unfoldFuncApp(expr, func, constructors, functions);
       
       if (!unfoldedExpr) {
         return { success: false, error: `Could not unfold ${func.name} - no matching case found` };
@@ -2444,8 +4055,8 @@ export function applyTactic(
     case 'simplify': {
       // First try to solve using hypotheses (linear arithmetic)
       const arithResult = tryLinearArithmetic(formula, context.hypotheses);
-      if (arithResult.solved) {
-        return { success: true, newGoals: [], message: arithResult.message || 'Solved by arithmetic' };
+      if (arithResult?.kind === 'valid') {
+        return { success: true, newGoals: [], message: describeArithProof(arithResult) };
       }
       
       // Try to evaluate and simplify the goal
@@ -2460,11 +4071,18 @@ export function applyTactic(
         return { success: true, newGoals: [newGoal], message: simplified.message || 'Simplified' };
       }
       
+      if (arithResult?.kind === 'invalid') {
+        const model = arithResult.model
+          .map(({ expr, value }) => `${renderFormulaExpr(expr, constructors, functions)} = ${value}`)
+          .join(', ');
+        // The model is of the abstraction, where other terms are opaque integers
+        return {
+          success: false,
+          error: `Not provable by linear arithmetic, reading non-arithmetic terms as integers; it fails when ${model}`,
+        };
+      }
       return { success: false, error: 'Cannot simplify further' };
     }
-    
-    default:
-      return { success: false, error: `Tactic ${tactic.kind} not implemented` };
   }
 }
 
@@ -2490,7 +4108,8 @@ export function createProof(property: Property): Proof {
 }
 
 /**
- * Apply a tactic to an open goal in a proof
+ * Apply a tactic to an open goal in a proof. all_goals applies to every open
+ * goal, with a step on each; the steps form a group.
  */
 export function applyTacticToProof(
   proof: Proof,
@@ -2499,7 +4118,50 @@ export function applyTacticToProof(
   constructors: Map<ConstructorId, Constructor>,
   sorts: Map<SortId, Sort>,
   functions: Map<RecFuncId, RecursiveFunc>,
-  rules: Map<RuleId, InferenceRule>
+  rules: Map<RuleId, InferenceRule>,
+  metaVariables: Map<string, MetaVariable>,
+  lemmas: Map<PropertyId, Property> = new Map()
+): { proof: Proof; result: TacticResult } {
+  if (tactic.kind !== 'all_goals' || !proof.openGoals.includes(goalId)) {
+    return applyTacticToGoal(proof, goalId, tactic, constructors, sorts, functions, rules, metaVariables, lemmas);
+  }
+  let current = proof;
+  const newGoals: ProofGoal[] = [];
+  for (const [i, id] of proof.openGoals.entries()) {
+    const applied = applyTacticToGoal(current, id, tactic, constructors, sorts, functions, rules, metaVariables, lemmas);
+    if (!applied.result.success) {
+      return { proof, result: { success: false, error: `${applied.result.error} (on goal ${i + 1} of ${proof.openGoals.length})` } };
+    }
+    current = applied.proof;
+    newGoals.push(...applied.result.newGoals);
+  }
+  const count = proof.openGoals.length;
+  const grouped = groupProofSteps(current, proof.steps.length);
+  return { proof: grouped, result: { success: true, newGoals, message: `Applied to ${count} goal${count === 1 ? '' : 's'}` } };
+}
+
+/**
+ * Make the steps from index `from` on one group, undone together
+ */
+export function groupProofSteps(proof: Proof, from: number): Proof {
+  const group = uuidv4();
+  return { ...proof, steps: proof.steps.map((step, i) => (i < from ? step : { ...step, group })) };
+}
+
+/**
+ * Apply a tactic to one open goal in a proof, recording the step. all_goals
+ * applies to this goal only, as one of its steps.
+ */
+export function applyTacticToGoal(
+  proof: Proof,
+  goalId: GoalId,
+  tactic: Tactic,
+  constructors: Map<ConstructorId, Constructor>,
+  sorts: Map<SortId, Sort>,
+  functions: Map<RecFuncId, RecursiveFunc>,
+  rules: Map<RuleId, InferenceRule>,
+  metaVariables: Map<string, MetaVariable>,
+  lemmas: Map<PropertyId, Property> = new Map()
 ): { proof: Proof; result: TacticResult } {
   const goal = proof.goals.get(goalId);
   if (!goal) {
@@ -2510,10 +4172,17 @@ export function applyTacticToProof(
     return { proof, result: { success: false, error: 'Goal already proved' } };
   }
   
-  const result = applyTactic(goal, tactic, constructors, sorts, functions, rules);
-  
+  const result = applyTactic(goal, tactic, constructors, sorts, functions, rules, metaVariables, lemmas);
+  return { proof: recordProofStep(proof, goalId, tactic, result), result };
+}
+
+/**
+ * Record the result of applying a tactic to an open goal as a step of the
+ * proof. A failed result leaves the proof unchanged.
+ */
+export function recordProofStep(proof: Proof, goalId: GoalId, tactic: Tactic, result: TacticResult): Proof {
   if (!result.success) {
-    return { proof, result };
+    return proof;
   }
   
   // Add new goals to the proof
@@ -2539,10 +4208,285 @@ export function applyTacticToProof(
     goals: newGoalsMap,
     steps: [...proof.steps, step],
     openGoals: newOpenGoals,
-    status: newOpenGoals.length === 0 ? 'complete' : 'incomplete',
+    // Further steps do not repair a proof the checker has found invalid
+    status: proof.status === 'invalid' ? 'invalid' : newOpenGoals.length === 0 ? 'complete' : 'incomplete',
   };
   
-  return { proof: newProof, result };
+  return newProof;
+}
+
+/**
+ * Evaluate a combinator on a goal. The goals produced may include the goal
+ * itself, where a tactic was tried and failed.
+ */
+export function applyCombinator<T>(
+  goal: ProofGoal,
+  tactic: CombinatorTactic<T>,
+  apply: (goal: ProofGoal, tactic: T) => TacticResult
+): TacticResult {
+  switch (tactic.kind) {
+    case 'seq': {
+      const first = apply(goal, tactic.first);
+      if (!first.success) return first;
+      const newGoals: ProofGoal[] = [];
+      for (const [i, g] of first.newGoals.entries()) {
+        const next = apply(g, tactic.next);
+        if (!next.success) {
+          const where = first.newGoals.length > 1 ? ` (on goal ${i + 1} of ${first.newGoals.length})` : '';
+          return { success: false, error: `${next.error}${where}` };
+        }
+        newGoals.push(...next.newGoals);
+      }
+      return { success: true, newGoals, message: first.message };
+    }
+    case 'try': {
+      const result = apply(goal, tactic.tactic);
+      return result.success ? result : { success: true, newGoals: [goal], message: 'No change' };
+    }
+    case 'repeat': {
+      const result = tactic.limit > 0 ? apply(goal, tactic.tactic) : null;
+      if (!result?.success) return { success: true, newGoals: [goal] };
+      const again = { ...tactic, limit: tactic.limit - 1 };
+      const newGoals: ProofGoal[] = [];
+      for (const g of result.newGoals) {
+        // Repeating always succeeds, if only by stopping
+        const repeated = applyCombinator(g, again, apply);
+        if (repeated.success) newGoals.push(...repeated.newGoals);
+      }
+      return { success: true, newGoals, message: result.message };
+    }
+    case 'first': {
+      let error = 'No tactics to try';
+      for (const t of tactic.tactics) {
+        const result = apply(goal, t);
+        if (result.success) return result;
+        error = result.error;
+      }
+      return { success: false, error: `No tactic applies; the last failed with: ${error}` };
+    }
+  }
+}
+
+/**
+ * Evaluate a combinator on a goal as one step. A goal left unchanged is
+ * still a new goal of the step.
+ */
+export function applyCombinatorStep<T>(
+  goal: ProofGoal,
+  tactic: CombinatorTactic<T>,
+  apply: (goal: ProofGoal, tactic: T) => TacticResult
+): TacticResult {
+  const result = applyCombinator(goal, tactic, apply);
+  if (!result.success) return result;
+  const newGoals = result.newGoals.map(g => (g.id === goal.id ? { ...g, id: uuidv4() } : g));
+  return { ...result, newGoals };
+}
+
+export const ALL_GOALS_NESTED = 'all_goals works on the open goals of the proof and cannot be used within another tactic';
+
+// The tactics a combinator is built from directly
+function tacticChildren(tactic: Tactic): Tactic[] {
+  switch (tactic.kind) {
+    case 'seq':
+      return [tactic.first, tactic.next];
+    case 'try':
+    case 'repeat':
+    case 'all_goals':
+      return [tactic.tactic];
+    case 'first':
+      return tactic.tactics;
+    default:
+      return [];
+  }
+}
+
+/**
+ * Whether all_goals occurs within the tactic, where it cannot be applied
+ */
+export function containsAllGoals(tactic: Tactic): boolean {
+  return tacticChildren(tactic).some(t => t.kind === 'all_goals' || containsAllGoals(t));
+}
+
+/**
+ * The atomic tactics a tactic is built from
+ */
+export function atomicTactics(tactic: Tactic): Tactic[] {
+  const children = tacticChildren(tactic);
+  return children.length > 0 ? children.flatMap(atomicTactics) : [tactic];
+}
+
+// Goals created, directly or transitively, by the step on a goal
+function goalsBelow(proof: Proof, goalId: GoalId): Set<GoalId> {
+  const children = new Map(proof.steps.map(s => [s.goalId, s.resultingGoals]));
+  const below = new Set<GoalId>();
+  const visit = (id: GoalId) => {
+    for (const child of children.get(id) ?? []) {
+      below.add(child);
+      visit(child);
+    }
+  };
+  visit(goalId);
+  return below;
+}
+
+/**
+ * Remove the step applied to a goal together with the subtree of goals it
+ * created and the steps on them, and reopen the goal. Steps in other
+ * branches are kept.
+ */
+export function removeProofStep(proof: Proof, goalId: GoalId): Proof {
+  if (!proof.steps.some(s => s.goalId === goalId)) return proof;
+  const removed = goalsBelow(proof, goalId);
+
+  const goals = new Map(proof.goals);
+  for (const id of removed) goals.delete(id);
+
+  // The goal takes the place of the first open goal it had produced
+  const remaining = proof.openGoals.filter(id => !removed.has(id));
+  const position = proof.openGoals.findIndex(id => removed.has(id));
+  const openGoals = position === -1
+    ? [...remaining, goalId]
+    : [...remaining.slice(0, position), goalId, ...remaining.slice(position)];
+
+  return {
+    ...proof,
+    goals,
+    steps: proof.steps.filter(s => s.goalId !== goalId && !removed.has(s.goalId)),
+    openGoals,
+    status: 'incomplete',
+  };
+}
+
+/**
+ * Undo the most recent step, or all steps of the most recent all_goals
+ */
+export function undoProofStep(proof: Proof): Proof {
+  const last = proof.steps[proof.steps.length - 1];
+  if (!last) return proof;
+  const undone = last.group ? proof.steps.filter(s => s.group === last.group) : [last];
+  const reverted = undone.reduceRight((p, step) => removeProofStep(p, step.goalId), proof);
+
+  // The reopened goals take their places in the order they were worked on
+  const reopened = undone.map(s => s.goalId);
+  const slots = reverted.openGoals.flatMap((id, i) => (reopened.includes(id) ? [i] : []));
+  const openGoals = [...reverted.openGoals];
+  slots.forEach((slot, k) => { openGoals[slot] = reopened[k]; });
+  return { ...reverted, openGoals };
+}
+
+// ============================================================================
+// Lemma Dependencies
+// ============================================================================
+
+/**
+ * Properties a proof uses as lemmas
+ */
+export function proofDependencies(proof: Proof): PropertyId[] {
+  const used = proof.steps.flatMap(s =>
+    atomicTactics(s.tactic).flatMap(t => (t.kind === 'have' || t.kind === 'apply_lemma' ? [t.propertyId] : []))
+  );
+  return [...new Set(used)];
+}
+
+/**
+ * Each property with a proof, mapped to the properties its proof uses
+ */
+export function propertyDependencyGraph(proofs: Map<ProofId, Proof>): Map<PropertyId, PropertyId[]> {
+  return new Map(Array.from(proofs.values()).map(p => [p.propertyId, proofDependencies(p)]));
+}
+
+/**
+ * Properties whose proofs rely on one of `lemmas`, directly or through other
+ * lemmas
+ */
+export function dependentProperties(lemmas: Set<PropertyId>, proofs: Map<ProofId, Proof>): Set<PropertyId> {
+  const graph = propertyDependencyGraph(proofs);
+  const dependent = new Set<PropertyId>();
+  let grown = true;
+  while (grown) {
+    grown = false;
+    for (const [id, used] of graph) {
+      if (dependent.has(id) || !used.some(u => lemmas.has(u) || dependent.has(u))) continue;
+      dependent.add(id);
+      grown = true;
+    }
+  }
+  return dependent;
+}
+
+/**
+ * A chain of dependencies from `from` to `to` (both included), or null
+ */
+export function findDependencyPath(
+  graph: Map<PropertyId, PropertyId[]>,
+  from: PropertyId,
+  to: PropertyId
+): PropertyId[] | null {
+  const visited = new Set<PropertyId>();
+  const search = (id: PropertyId): PropertyId[] | null => {
+    if (id === to) return [id];
+    if (visited.has(id)) return null;
+    visited.add(id);
+    for (const next of graph.get(id) ?? []) {
+      const path = search(next);
+      if (path) return [id, ...path];
+    }
+    return null;
+  };
+  return search(from);
+}
+
+/**
+ * Properties the proof of `propertyId` can use as lemmas: those proved,
+ * together with every lemma they rely on, and whose proofs do not lead back
+ * to `propertyId`, which would make the development circular
+ */
+export function usableLemmas(
+  propertyId: PropertyId,
+  properties: Map<PropertyId, Property>,
+  proofs: Map<ProofId, Proof>
+): Map<PropertyId, Property> {
+  const graph = propertyDependencyGraph(proofs);
+  const complete = new Set(
+    Array.from(proofs.values()).filter(p => p.status === 'complete').map(p => p.propertyId)
+  );
+  const usable = new Map<PropertyId, Property>();
+  for (const property of properties.values()) {
+    if (property.id === propertyId || !complete.has(property.id)) continue;
+    if (findDependencyPath(graph, property.id, propertyId)) continue;
+    // Every lemma it relies on must itself be proved
+    const reachable = new Set<PropertyId>();
+    const visit = (id: PropertyId) => {
+      if (reachable.has(id)) return;
+      reachable.add(id);
+      (graph.get(id) ?? []).forEach(visit);
+    };
+    visit(property.id);
+    if ([...reachable].every(id => complete.has(id))) usable.set(property.id, property);
+  }
+  return usable;
+}
+
+/**
+ * Properties ordered so that every lemma comes before the properties whose
+ * proofs use it; otherwise in their original order
+ */
+export function orderByDependencies(
+  properties: Map<PropertyId, Property>,
+  proofs: Map<ProofId, Proof>
+): Property[] {
+  const graph = propertyDependencyGraph(proofs);
+  const ordered: Property[] = [];
+  const visited = new Set<PropertyId>();
+  const visit = (id: PropertyId) => {
+    const property = properties.get(id);
+    if (!property || visited.has(id)) return;
+    visited.add(id);
+    (graph.get(id) ?? []).forEach(visit);
+    ordered.push(property);
+  };
+  for (const id of properties.keys()) visit(id);
+  return ordered;
 }
 
 // ============================================================================
@@ -2613,7 +4557,7 @@ export function createConstructor(
 export function createJudgment(
   name: string,
   symbol: string,
-  argSorts: { sortId: SortId; label: string }[],
+  argSorts: JudgmentArg[],
   separators?: string[]
 ): Judgment {
   // Generate default separators if not provided
@@ -2706,7 +4650,7 @@ export function createJudgmentInstance(
 // ============================================================================
 
 // Helper to convert number to subscript
-function toSubscript(n: number): string {
+export function toSubscript(n: number): string {
   const subscripts = ['₀', '₁', '₂', '₃', '₄', '₅', '₆', '₇', '₈', '₉'];
   return n.toString().split('').map(d => subscripts[parseInt(d)]).join('');
 }
@@ -2863,30 +4807,38 @@ export function isClosed(
 export function analyzesSyntaxDirected(
   judgment: Judgment,
   rules: InferenceRule[],
-  _constructors: Map<ConstructorId, Constructor>
+  constructors: Map<ConstructorId, Constructor>
 ): SyntaxDirectedAnalysis {
   const relevantRules = rules.filter(r => r.conclusion.judgmentId === judgment.id);
   const overlaps: OverlapInfo[] = [];
 
+  // Only inputs select a rule; outputs are computed
+  const inputPositions = judgment.argSorts
+    .map((arg, pos) => arg.mode === 'out' ? -1 : pos)
+    .filter(pos => pos >= 0);
+
   for (let i = 0; i < relevantRules.length; i++) {
     for (let j = i + 1; j < relevantRules.length; j++) {
       const rule1 = relevantRules[i];
       const rule2 = relevantRules[j];
 
-      // Check each argument position in the conclusion
-      for (let pos = 0; pos < rule1.conclusion.args.length; pos++) {
-        const pattern1 = rule1.conclusion.args[pos];
-        const pattern2 = rule2.conclusion.args[pos];
-
-        if (patternsCanOverlap(pattern1, pattern2)) {
-          overlaps.push({
-            rule1Id: rule1.id,
-            rule2Id: rule2.id,
-            overlappingPosition: pos,
-            description: `Rules "${rule1.name}" and "${rule2.name}" can both match at position ${pos}`,
-          });
-        }
-      }
+      // Two rules overlap when some input matches both conclusions, i.e.
+      // when their input patterns unify jointly
+      const inputs1 = conclusionInputs(rule1, inputPositions, '1:');
+      const inputs2 = conclusionInputs(rule2, inputPositions, '2:');
+      if (!inputs1 || !inputs2) continue; // Incomplete rules cannot match anything yet
+      const mgu = unifyArgs(inputs1, inputs2, new Map());
+      if (!mgu) continue;
+
+      const witness = inputs1
+        .map(t => openToPattern(resolve(t, mgu)))
+        .filter((p): p is Pattern => p !== null);
+      overlaps.push({
+        rule1Id: rule1.id,
+        rule2Id: rule2.id,
+        witness,
+        description: `Rules "${rule1.name}" and "${rule2.name}" can both match the input ${renderWitness(witness, constructors)}`,
+      });
     }
   }
 
@@ -2896,28 +4848,30 @@ export function analyzesSyntaxDirected(
   };
 }
 
-function patternsCanOverlap(p1: Pattern, p2: Pattern): boolean {
-  // If either is a meta-variable, they can overlap
-  if (p1.metaVariableId || p2.metaVariableId) {
-    return true;
-  }
-
-  // If both are constructor patterns with different constructors, no overlap
-  if (p1.constructorId && p2.constructorId && p1.constructorId !== p2.constructorId) {
-    return false;
-  }
-
-  // Same constructor - check args recursively
-  if (p1.constructorId === p2.constructorId) {
-    // They overlap unless some arg position definitively doesn't
-    for (let i = 0; i < Math.min(p1.args.length, p2.args.length); i++) {
-      if (!patternsCanOverlap(p1.args[i], p2.args[i])) {
-        return false;
-      }
+// An overlap's inputs, with its meta-variables named x₁, x₂, … as they occur
+function renderWitness(witness: Pattern[], constructors: Map<ConstructorId, Constructor>): string {
+  const names = new Map<string, string>();
+  const render = (p: Pattern): string => {
+    if (p.metaVariableId) {
+      if (!names.has(p.metaVariableId)) names.set(p.metaVariableId, `x${toSubscript(names.size + 1)}`);
+      return names.get(p.metaVariableId)!;
     }
-    return true;
-  }
+    const c = p.constructorId ? constructors.get(p.constructorId) : undefined;
+    if (!c) return '?';
+    return p.args.length === 0 ? c.name : `${c.name}(${p.args.map(render).join(', ')})`;
+  };
+  return witness.map(render).join(', ');
+}
 
-  return true;
+// The input arguments of a rule's conclusion, with meta-variables renamed by prefix
+function conclusionInputs(rule: InferenceRule, positions: number[], prefix: string): OpenTerm[] | null {
+  const inputs: OpenTerm[] = [];
+  for (const pos of positions) {
+    const pattern = rule.conclusion.args[pos];
+    const open = pattern && patternToOpen(pattern, id => prefix + id);
+    if (!open) return null;
+    inputs.push(open);
+  }
+  return inputs;
 }
 